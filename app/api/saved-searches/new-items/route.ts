@@ -0,0 +1,77 @@
+/**
+ * @file app/api/saved-searches/new-items/route.ts
+ * @description 저장한 검색 새 항목 수 엔드포인트
+ *
+ * 저장한 검색 목록(components/tour-filters/saved-searches.tsx)이 검색마다 호출하여
+ * 마지막 방문 이후 수정된 관광지 수("N개 새 항목" 뱃지)를 받아옵니다.
+ *
+ * 핵심 구현 로직:
+ * - 로그인 사용자만 호출 가능 (미로그인 시 401)
+ * - query(저장한 검색 조건 URL 쿼리 문자열), since(마지막 방문 시각, ISO 8601) 필수
+ * - 사용자별 요청 수 제한 (초과 시 429)
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: auth
+ * - @/lib/api/saved-search-api: countNewSearchItems
+ * - @/lib/utils/rate-limit: createRateLimiter
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { countNewSearchItems } from "@/lib/api/saved-search-api";
+import { createRateLimiter } from "@/lib/utils/rate-limit";
+import { SAVED_SEARCH_CONFIG } from "@/lib/constants/api";
+import type { TourApiErrorKind } from "@/lib/types/api";
+
+/**
+ * 에러 종류별 응답 상태 코드
+ */
+const ERROR_STATUS: Record<TourApiErrorKind, number> = {
+  network: 502,
+  http: 400,
+  "quota-exceeded": 429,
+  "invalid-key": 502,
+  "no-data": 404,
+  parse: 502,
+  unknown: 500,
+};
+
+const checkRateLimit = createRateLimiter(SAVED_SEARCH_CONFIG.rateLimit);
+
+export async function GET(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateLimit = checkRateLimit(userId);
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+        kind: "quota-exceeded",
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": rateLimit.retryAfter.toString() },
+      }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get("query") ?? "";
+  const since = new Date(searchParams.get("since") ?? "");
+  if (Number.isNaN(since.getTime())) {
+    return NextResponse.json(
+      { success: false, error: "since는 ISO 8601 형식의 일시여야 합니다.", kind: "http" },
+      { status: 400 }
+    );
+  }
+
+  const result = await countNewSearchItems(query, since);
+  if (result.success === false) {
+    return NextResponse.json(result, { status: ERROR_STATUS[result.kind] });
+  }
+  return NextResponse.json(result);
+}
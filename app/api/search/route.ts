@@ -0,0 +1,117 @@
+/**
+ * @file app/api/search/route.ts
+ * @description 관광지 검색 엔드포인트
+ *
+ * 초성/오타 허용 관광지 검색(lib/api/search-api.ts)을 JSON으로 제공합니다.
+ * 홈페이지 검색 모드(app/page.tsx)는 같은 검색 서비스를 서버에서 직접 호출합니다.
+ *
+ * 핵심 구현 로직:
+ * - q(검색어) 필수, areaCode/sigunguCode/contentTypeId(쉼표 구분)/cat1~3/sort/pageNo/numOfRows 선택
+ * - 클라이언트(IP)별 요청 수 제한 (초과 시 429)
+ * - 첫 페이지 검색어는 인기 검색어로 집계 (자동완성에 표시)
+ * - 실패 시 에러 종류(kind)에 맞는 HTTP 상태 코드로 응답
+ *
+ * @dependencies
+ * - @/lib/api/search-api: searchTours, recordSearchQuery
+ * - @/lib/api/category-api: parseCategoryFilter
+ * - @/lib/utils/rate-limit: createRateLimiter, getClientKey
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { recordSearchQuery, searchTours } from "@/lib/api/search-api";
+import { parseCategoryFilter } from "@/lib/api/category-api";
+import { createRateLimiter, getClientKey } from "@/lib/utils/rate-limit";
+import { PAGINATION_DEFAULTS, TOUR_SEARCH_CONFIG } from "@/lib/constants/api";
+import type { TourApiErrorKind } from "@/lib/types/api";
+
+/**
+ * 에러 종류별 응답 상태 코드
+ */
+const ERROR_STATUS: Record<TourApiErrorKind, number> = {
+  network: 502,
+  http: 400,
+  "quota-exceeded": 429,
+  "invalid-key": 502,
+  "no-data": 404,
+  parse: 502,
+  unknown: 500,
+};
+
+/**
+ * 페이지당 최대 항목 수
+ */
+const MAX_NUM_OF_ROWS = 50;
+
+const checkRateLimit = createRateLimiter(TOUR_SEARCH_CONFIG.rateLimit);
+
+/**
+ * 양의 정수 파라미터 파싱 (유효하지 않으면 기본값)
+ */
+function parsePositiveInt(value: string | null, defaultValue: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) || parsed <= 0 ? defaultValue : parsed;
+}
+
+export async function GET(request: NextRequest) {
+  const rateLimit = checkRateLimit(getClientKey(request.headers));
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+        kind: "quota-exceeded",
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": rateLimit.retryAfter.toString() },
+      }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get("q")?.trim() ?? "";
+  if (!query || query.length > TOUR_SEARCH_CONFIG.maxQueryLength) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `검색어는 1~${TOUR_SEARCH_CONFIG.maxQueryLength}자로 입력해주세요.`,
+        kind: "http",
+      },
+      { status: 400 }
+    );
+  }
+
+  const areaCode = searchParams.get("areaCode") || undefined;
+  const contentTypeIds = (searchParams.get("contentTypeId") ?? "")
+    .split(",")
+    .map((id) => parseInt(id.trim(), 10))
+    .filter(Boolean);
+
+  const pageNo = parsePositiveInt(searchParams.get("pageNo"), PAGINATION_DEFAULTS.pageNo);
+  if (pageNo === 1) {
+    recordSearchQuery(query);
+  }
+
+  const result = await searchTours({
+    query,
+    areaCode,
+    sigunguCode: areaCode ? searchParams.get("sigunguCode") || undefined : undefined,
+    contentTypeIds,
+    category: parseCategoryFilter(
+      searchParams.get("cat1"),
+      searchParams.get("cat2"),
+      searchParams.get("cat3")
+    ),
+    sort: searchParams.get("sort") || undefined,
+    numOfRows: Math.min(
+      parsePositiveInt(searchParams.get("numOfRows"), PAGINATION_DEFAULTS.numOfRows),
+      MAX_NUM_OF_ROWS
+    ),
+    pageNo,
+  });
+
+  if (result.success === false) {
+    return NextResponse.json(result, { status: ERROR_STATUS[result.kind] });
+  }
+  return NextResponse.json(result);
+}
@@ -0,0 +1,59 @@
+/**
+ * @file app/api/search/suggest/route.ts
+ * @description 검색 자동완성 추천 엔드포인트
+ *
+ * 네비게이션 바 검색창(components/search-autocomplete.tsx)이 입력할 때마다 호출하여
+ * 일치하는 관광지/지역과 인기 검색어를 받아옵니다.
+ *
+ * 핵심 구현 로직:
+ * - q(입력 중인 검색어) 선택, 비어 있으면 인기 검색어만 응답
+ * - 추천 결과는 서버 메모리(검색어별)와 브라우저(Cache-Control)에 짧게 캐시
+ * - 클라이언트(IP)별 요청 수 제한 (초과 시 429)
+ *
+ * @dependencies
+ * - @/lib/api/search-api: getSearchSuggestions
+ * - @/lib/utils/rate-limit: createRateLimiter, getClientKey
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSearchSuggestions } from "@/lib/api/search-api";
+import { createRateLimiter, getClientKey } from "@/lib/utils/rate-limit";
+import { TOUR_SUGGEST_CONFIG } from "@/lib/constants/api";
+
+/**
+ * 추천 결과 브라우저 캐시 (같은 검색어를 지웠다 다시 입력할 때 재사용)
+ */
+const CACHE_CONTROL = "private, max-age=60";
+
+const checkRateLimit = createRateLimiter(TOUR_SUGGEST_CONFIG.rateLimit);
+
+export async function GET(request: NextRequest) {
+  const rateLimit = checkRateLimit(getClientKey(request.headers));
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+        kind: "quota-exceeded",
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": rateLimit.retryAfter.toString() },
+      }
+    );
+  }
+
+  const query = request.nextUrl.searchParams.get("q")?.trim() ?? "";
+  const result = await getSearchSuggestions(query);
+
+  if (result.success === false) {
+    // 자동완성은 부가 기능이므로 에러 종류와 관계없이 빈 추천으로 처리할 수 있도록 502로 응답
+    return NextResponse.json(result, {
+      status: result.kind === "quota-exceeded" ? 429 : 502,
+    });
+  }
+
+  return NextResponse.json(result, {
+    headers: { "Cache-Control": CACHE_CONTROL },
+  });
+}
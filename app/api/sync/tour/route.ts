@@ -0,0 +1,86 @@
+/**
+ * @file app/api/sync/tour/route.ts
+ * @description 관광지 미러 동기화 엔드포인트
+ *
+ * 스케줄러(Vercel Cron 등)나 관리자가 호출하여 areaBasedSyncList2 기반
+ * 관광지 미러 동기화(lib/api/tour-sync.ts)를 실행합니다.
+ *
+ * 핵심 구현 로직:
+ * - Authorization: Bearer <TOUR_SYNC_SECRET> 헤더로 인증 (미설정 시 503, 불일치 시 401)
+ * - ?mode=full|incremental로 동기화 방식 지정 (생략 시 커서 상태에 따라 자동 선택)
+ * - GET(Cron 호출)과 POST(수동 호출) 모두 지원
+ *
+ * @dependencies
+ * - @/lib/api/tour-sync: syncTourCatalog
+ * - @/lib/env: getEnv
+ */
+
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { syncTourCatalog, type TourSyncMode } from "@/lib/api/tour-sync";
+import { getEnv } from "@/lib/env";
+
+// 동기화는 요청마다 실행 (캐싱하지 않음)
+export const dynamic = "force-dynamic";
+
+const SYNC_MODES: TourSyncMode[] = ["full", "incremental"];
+
+/**
+ * 인증 토큰 비교 (길이가 다르면 false, 같으면 상수 시간 비교)
+ */
+function isValidToken(token: string, secret: string): boolean {
+  const tokenBuffer = Buffer.from(token);
+  const secretBuffer = Buffer.from(secret);
+  return (
+    tokenBuffer.length === secretBuffer.length &&
+    timingSafeEqual(tokenBuffer, secretBuffer)
+  );
+}
+
+async function handleSync(request: NextRequest) {
+  const secret = getEnv("TOUR_SYNC_SECRET", "");
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, error: "동기화가 설정되지 않았습니다.", kind: "unknown" },
+      { status: 503 }
+    );
+  }
+
+  const authorization = request.headers.get("authorization") ?? "";
+  const token = authorization.startsWith("Bearer ") ? authorization.slice(7) : "";
+  if (!isValidToken(token, secret)) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized", kind: "invalid-key" },
+      { status: 401 }
+    );
+  }
+
+  const modeParam = request.nextUrl.searchParams.get("mode");
+  if (modeParam && !SYNC_MODES.includes(modeParam as TourSyncMode)) {
+    return NextResponse.json(
+      { success: false, error: `지원하지 않는 동기화 방식입니다: ${modeParam}`, kind: "http" },
+      { status: 400 }
+    );
+  }
+
+  const result = await syncTourCatalog({
+    mode: (modeParam as TourSyncMode | null) ?? undefined,
+  });
+
+  if (result.success === false) {
+    console.error("관광지 동기화 실패:", result.kind, result.error);
+    return NextResponse.json(result, {
+      status: result.kind === "quota-exceeded" ? 429 : 500,
+    });
+  }
+
+  return NextResponse.json(result);
+}
+
+export async function GET(request: NextRequest) {
+  return handleSync(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleSync(request);
+}
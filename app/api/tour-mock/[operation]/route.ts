@@ -0,0 +1,81 @@
+/**
+ * @file app/api/tour-mock/[operation]/route.ts
+ * @description 한국관광공사 API 모의 서버 엔드포인트 (오프라인 개발용)
+ *
+ * TOUR_API_MODE=mock/record일 때 서버의 API 호출(lib/api/tour-api.ts)이
+ * 실제 API 대신 이 엔드포인트를 호출합니다. 그 외 모드에서는 404를 반환합니다.
+ *
+ * 핵심 구현 로직:
+ * - mock: fixture 기반 모의 응답 반환 (lib/api/tour-api-mock.ts)
+ * - record: 서비스키를 붙여 실제 API를 호출하고, 응답을 그대로 반환하면서 fixture에 기록
+ *   (서비스키가 붙은 호출을 중계하므로 개발 환경에서만 허용)
+ *
+ * @dependencies
+ * - @/lib/api/tour-api-mock: getMockTourApiResponse, recordTourApiFixture, isMockOperation
+ * - @/lib/env: getTourApiMode, getServerEnv
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getMockTourApiResponse,
+  isMockOperation,
+  recordTourApiFixture,
+} from "@/lib/api/tour-api-mock";
+import { TourApiHttpError, toTourApiError } from "@/lib/api/tour-api-error";
+import { getServerEnv, getTourApiMode } from "@/lib/env";
+import { TOUR_API_BASE_URL } from "@/lib/constants/api";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ operation: string }> }
+) {
+  const { operation } = await params;
+  const mode = getTourApiMode();
+
+  const isAvailable =
+    mode === "mock" ||
+    (mode === "record" && process.env.NODE_ENV === "development");
+  if (!isAvailable || !isMockOperation(operation)) {
+    return NextResponse.json(
+      new TourApiHttpError(404, `지원하지 않는 API입니다: ${operation}`).toResult(),
+      { status: 404 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+
+  if (mode === "mock") {
+    return NextResponse.json(await getMockTourApiResponse(operation, searchParams));
+  }
+
+  // 기록 모드: 실제 API 응답을 그대로 반환하면서 fixture에 기록
+  try {
+    const upstreamParams = new URLSearchParams(searchParams);
+    upstreamParams.set("serviceKey", getServerEnv("TOUR_API_KEY"));
+    const response = await fetch(
+      `${TOUR_API_BASE_URL}/${operation}?${upstreamParams.toString()}`,
+      { cache: "no-store" }
+    );
+    const body = await response.text();
+
+    try {
+      await recordTourApiFixture(operation, searchParams, JSON.parse(body));
+    } catch (error) {
+      // 기록 실패(JSON이 아닌 에러 응답 등)는 응답에 영향을 주지 않음
+      console.warn("fixture 기록 실패:", operation, error);
+    }
+
+    return new NextResponse(body, {
+      status: response.status,
+      headers: {
+        "Content-Type": response.headers.get("Content-Type") ?? "application/json",
+      },
+    });
+  } catch (error) {
+    const apiError = toTourApiError(error);
+    console.error("모의 서버 기록 모드 호출 실패:", apiError.kind, error);
+    return NextResponse.json(apiError.toResult("실제 API 호출 중 오류가 발생했습니다."), {
+      status: 502,
+    });
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * @file app/api/tour/[operation]/route.ts
+ * @description 한국관광공사 API 프록시 엔드포인트
+ *
+ * 브라우저에서 한국관광공사 API를 호출할 때 서비스키가 노출되지 않도록
+ * 서버에서 서비스키를 붙여 대신 호출하고 원본 응답(JSON)을 반환합니다.
+ *
+ * 핵심 구현 로직:
+ * - 허용 목록의 KorService2 오퍼레이션과 파라미터만 전달 (lib/schemas/tour-proxy.ts)
+ * - 서버 호출과 같은 오퍼레이션별 캐싱 정책 적용 (TOUR_API_CACHE_POLICY)
+ * - 클라이언트(IP)별 요청 수 제한 (초과 시 429)
+ * - 실패 시 에러 종류(kind)에 맞는 HTTP 상태 코드로 응답
+ *
+ * @dependencies
+ * - @/lib/api/tour-api: proxyTourApi
+ * - @/lib/schemas/tour-proxy: isTourProxyOperation, parseTourProxyParams
+ * - @/lib/utils/rate-limit: createRateLimiter, getClientKey
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { proxyTourApi } from "@/lib/api/tour-api";
+import {
+  TourApiHttpError,
+  toTourApiError,
+  type TourApiError,
+} from "@/lib/api/tour-api-error";
+import {
+  isTourProxyOperation,
+  parseTourProxyParams,
+} from "@/lib/schemas/tour-proxy";
+import { createRateLimiter, getClientKey } from "@/lib/utils/rate-limit";
+import {
+  TOUR_API_PROXY_RATE_LIMIT,
+  TOUR_API_STALE_HEADER,
+} from "@/lib/constants/api";
+import type { TourApiErrorKind } from "@/lib/types/api";
+
+/**
+ * 에러 종류별 응답 상태 코드
+ *
+ * 클라이언트의 fetchWithRetry가 상태 코드로 에러 종류를 다시 분류합니다.
+ * (401 → invalid-key, 429 → quota-exceeded, 5xx → 재시도)
+ * http 에러는 원래 상태 코드가 5xx(서버 오류, 호출 차단 503)이면 그대로 전달합니다. (getErrorStatus)
+ */
+const ERROR_STATUS: Record<TourApiErrorKind, number> = {
+  network: 502,
+  http: 400,
+  "quota-exceeded": 429,
+  "invalid-key": 401,
+  "no-data": 404,
+  parse: 502,
+  unknown: 500,
+};
+
+/**
+ * 에러 응답 상태 코드 (5xx http 에러는 클라이언트가 재시도/대체 응답을 사용하도록 원래 코드 유지)
+ */
+function getErrorStatus(apiError: TourApiError): number {
+  if (apiError.kind === "http" && apiError.statusCode && apiError.statusCode >= 500) {
+    return apiError.statusCode;
+  }
+  return ERROR_STATUS[apiError.kind];
+}
+
+const checkRateLimit = createRateLimiter(TOUR_API_PROXY_RATE_LIMIT);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ operation: string }> }
+) {
+  const { operation } = await params;
+
+  if (!isTourProxyOperation(operation)) {
+    return NextResponse.json(
+      new TourApiHttpError(404, `지원하지 않는 API입니다: ${operation}`).toResult(),
+      { status: 404 }
+    );
+  }
+
+  const rateLimit = checkRateLimit(getClientKey(request.headers));
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+        kind: "quota-exceeded",
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": rateLimit.retryAfter.toString() },
+      }
+    );
+  }
+
+  const parsed = parseTourProxyParams(operation, request.nextUrl.searchParams);
+  if (parsed.success === false) {
+    return NextResponse.json(
+      {
+        ...new TourApiHttpError(400).toResult(),
+        // 개발 환경에서만 검증 실패 내용 포함
+        ...(process.env.NODE_ENV === "development" && { issues: parsed.issues }),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data, stale } = await proxyTourApi(operation, parsed.params);
+    return NextResponse.json(data, {
+      // API 장애로 마지막 정상 응답을 대신 반환한 경우 클라이언트에 알림
+      headers: stale ? { [TOUR_API_STALE_HEADER]: "1" } : undefined,
+    });
+  } catch (error) {
+    const apiError = toTourApiError(error);
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("API 프록시 호출 에러:", operation, apiError.kind, error);
+    }
+    return NextResponse.json(
+      apiError.toResult("API 호출 중 오류가 발생했습니다."),
+      { status: getErrorStatus(apiError) }
+    );
+  }
+}
@@ -5,60 +5,38 @@
  * Next.js Error Boundary로 사용되는 에러 컴포넌트입니다.
  * 라우트 세그먼트 레벨의 에러를 처리하며, 페이지별 error.tsx가 없는 경우 이 컴포넌트가 사용됩니다.
  * API 에러나 예상치 못한 오류 발생 시 사용자에게 친화적인 메시지를 표시합니다.
+ * TourApiError의 에러 종류(kind)에 따라 복구 방법을 안내합니다.
  */
 
 "use client";
 
 import { useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { Error } from "@/components/ui/error";
+import { ApiErrorState } from "@/components/api-error-state";
 import { Button } from "@/components/ui/button";
+import { toTourApiError } from "@/lib/api/tour-api-error";
+import type { TourApiErrorKind } from "@/lib/types/api";
 
 interface AppErrorProps {
   error: Error & { digest?: string };
   reset: () => void;
 }
 
-/**
- * 에러 타입 분류 함수
- */
-function getErrorType(error: Error): "network" | "api" | "general" {
-  const message = error.message.toLowerCase();
-  if (
-    message.includes("network") ||
-    message.includes("fetch") ||
-    message.includes("네트워크") ||
-    message.includes("failed to fetch")
-  ) {
-    return "network";
-  }
-  if (
-    message.includes("api") ||
-    message.includes("http") ||
-    message.includes("서버") ||
-    message.includes("500") ||
-    message.includes("404") ||
-    message.includes("403")
-  ) {
-    return "api";
-  }
-  return "general";
-}
-
 /**
  * 사용자 친화적인 에러 메시지 생성
  */
-function getUserFriendlyMessage(error: Error, errorType: "network" | "api" | "general"): string {
+function getUserFriendlyMessage(error: Error, errorKind: TourApiErrorKind): string {
   // 이미 사용자 친화적인 메시지인 경우 그대로 사용
   if (error.message && !error.message.includes("Error:") && !error.message.includes("at ")) {
     return error.message;
   }
 
-  // 에러 타입별 기본 메시지
-  switch (errorType) {
+  // 에러 종류별 기본 메시지
+  switch (errorKind) {
     case "network":
       return "네트워크 연결에 문제가 발생했습니다. 인터넷 연결을 확인하고 다시 시도해주세요.";
-    case "api":
+    case "http":
+    case "parse":
       return "서버에서 데이터를 불러오는 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
     default:
       return "예상치 못한 오류가 발생했습니다. 페이지를 새로고침하거나 잠시 후 다시 시도해주세요.";
@@ -70,14 +48,14 @@ function getUserFriendlyMessage(error: Error, errorType: "network" | "api" | "ge
  */
 export default function AppError({ error, reset }: AppErrorProps) {
   const router = useRouter();
-  const errorType = getErrorType(error);
-  const userMessage = getUserFriendlyMessage(error, errorType);
+  const errorKind = toTourApiError(error).kind;
+  const userMessage = getUserFriendlyMessage(error, errorKind);
 
   useEffect(() => {
     // 에러 로깅 (개발 환경)
     if (process.env.NODE_ENV === "development") {
       console.error("전역 라우트 에러:", error);
-      console.error("에러 타입:", errorType);
+      console.error("에러 종류:", errorKind);
       console.error("에러 메시지:", error.message);
       if (error.stack) {
         console.error("에러 스택:", error.stack);
@@ -86,16 +64,15 @@ export default function AppError({ error, reset }: AppErrorProps) {
         console.error("에러 digest:", error.digest);
       }
     }
-  }, [error, errorType]);
+  }, [error, errorKind]);
 
   return (
     <div className="container mx-auto px-4 py-16">
       <div className="mx-auto max-w-2xl">
-        <Error
+        <ApiErrorState
           message={userMessage}
-          type={errorType}
+          kind={errorKind}
           onRetry={reset}
-          retryText="다시 시도"
         />
 
         {/* 개발 환경에서만 상세 정보 표시 */}
@@ -7,86 +7,259 @@
  */
 
 import { Suspense } from "react";
-import { getAreaBasedList, searchKeyword } from "@/lib/api/tour-api";
+import {
+  getAreaBasedList,
+  getLocationBasedList,
+  searchFestival,
+  searchStay,
+} from "@/lib/api/tour-api";
+import { getPetFriendlyTours, parsePetSizes } from "@/lib/api/pet-tour-api";
+import { getCategoryNames, parseCategoryFilter } from "@/lib/api/category-api";
+import { mergePaginate, type TourPageFetcher } from "@/lib/api/merge-paginator";
+import { recordSearchQuery, searchTours } from "@/lib/api/search-api";
 import { TourList } from "@/components/tour-list";
 import { HomeLayout } from "@/components/home-layout";
 import { TourFilters } from "@/components/tour-filters";
-import { PAGINATION_DEFAULTS } from "@/lib/constants/api";
+import {
+  PAGINATION_DEFAULTS,
+  NEAR_SEARCH_DEFAULTS,
+  FESTIVAL_SEARCH_CONFIG,
+} from "@/lib/constants/api";
 import { TourItem } from "@/lib/types/tour";
+import type { ApiResult } from "@/lib/types/api";
+import { getTourSortArrange, sortTours } from "@/lib/utils/tour-sort";
+import { parseLatLng, withTourDistances } from "@/lib/utils/coordinates";
+import { formatEventPeriod, isValidApiDate, toApiDate } from "@/lib/utils/date";
 
 interface HomeProps {
   searchParams: Promise<{
     keyword?: string;
     areaCode?: string;
+    sigunguCode?: string;
     contentTypeId?: string;
+    cat1?: string;
+    cat2?: string;
+    cat3?: string;
     pet?: string;
     petSize?: string;
     sort?: string;
     pageNo?: string;
+    near?: string;
+    radius?: string;
+    mapArea?: string;
+    origin?: string;
+    festival?: string;
+    eventStartDate?: string;
+    eventEndDate?: string;
   }>;
 }
 
+/**
+ * 일부 관광 타입 목록 조회에 실패했을 때 안내 문구
+ */
+const PARTIAL_TYPE_LIST_NOTICE =
+  "일부 관광 타입의 목록을 불러오지 못해 결과 중 일부만 표시합니다. 잠시 후 다시 시도해주세요.";
+
+/**
+ * 반려동물 필터 후보 목록이나 반려동물 정보를 일부만 대조했을 때 안내 문구
+ */
+const PARTIAL_PET_LIST_NOTICE =
+  "반려동물 동반 여부를 일부 관광지만 확인하여 결과 중 일부만 표시합니다. 잠시 후 다시 시도하거나 지역이나 타입을 좁혀서 찾아보세요.";
+
+/**
+ * 주변 검색 반경 파싱 (기본값 및 API 최대값 적용)
+ */
+function parseRadius(radius?: string): number {
+  const value = radius ? parseInt(radius, 10) : NaN;
+  if (isNaN(value) || value <= 0) {
+    return NEAR_SEARCH_DEFAULTS.radius;
+  }
+  return Math.min(value, NEAR_SEARCH_DEFAULTS.maxRadius);
+}
+
+/**
+ * 행사 기간 파싱 (시작일 기본값: 오늘, 종료일은 시작일 이후일 때만 적용)
+ */
+function parseEventPeriod(
+  eventStartDate?: string,
+  eventEndDate?: string
+): { startDate: string; endDate?: string } {
+  const startDate = isValidApiDate(eventStartDate) ? eventStartDate : toApiDate();
+  const endDate =
+    isValidApiDate(eventEndDate) && eventEndDate >= startDate
+      ? eventEndDate
+      : undefined;
+  return { startDate, endDate };
+}
+
+/**
+ * 기간 내 축제/행사 전체 조회
+ *
+ * API가 시작일 정렬을 지원하지 않으므로 API totalCount 기준으로 페이지를 순회하여
+ * 기간 내 행사를 모읍니다. 최대 순회 페이지 수를 넘거나 중간 페이지 조회에 실패하면
+ * 모은 행사까지만 반환하며, totalCount는 API가 알려준 전체 행사 수를 유지합니다.
+ */
+async function collectFestivals(
+  startDate: string,
+  endDate: string | undefined,
+  areaCode: string | undefined,
+  sigunguCode: string | undefined
+): Promise<ApiResult<TourItem[]>> {
+  const festivals = new Map<string, TourItem>();
+  let apiTotalCount = 0;
+  let isStale = false;
+
+  for (let pageNo = 1; pageNo <= FESTIVAL_SEARCH_CONFIG.maxScanPages; pageNo++) {
+    const result = await searchFestival(
+      startDate,
+      endDate,
+      areaCode,
+      FESTIVAL_SEARCH_CONFIG.scanPageSize,
+      pageNo,
+      true, // 서버 사이드 호출
+      sigunguCode
+    );
+
+    if (result.success === false) {
+      // 첫 페이지 실패는 에러로 처리하고, 이후 페이지 실패는 모은 행사까지만 표시
+      if (pageNo === 1) return result;
+      break;
+    }
+
+    isStale = isStale || Boolean(result.stale);
+    for (const item of result.data) {
+      festivals.set(item.contentid, item);
+    }
+
+    apiTotalCount = result.totalCount ?? result.data.length;
+    if (pageNo * FESTIVAL_SEARCH_CONFIG.scanPageSize >= apiTotalCount) {
+      break;
+    }
+  }
+
+  return {
+    success: true,
+    data: Array.from(festivals.values()),
+    totalCount: Math.max(apiTotalCount, festivals.size),
+    ...(isStale && { stale: true }),
+  };
+}
+
 /**
  * 관광지 목록 데이터 페칭 컴포넌트
  */
 async function TourListData({
   keyword,
   areaCode,
+  sigunguCode,
   contentTypeId,
+  cat1,
+  cat2,
+  cat3,
   pet,
   petSize,
   sort,
   pageNo,
+  near,
+  radius,
+  mapArea,
+  origin,
+  festival,
+  eventStartDate,
+  eventEndDate,
 }: {
   keyword?: string;
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
   pet?: string;
   petSize?: string;
   sort?: string;
   pageNo?: string;
+  near?: string;
+  radius?: string;
+  mapArea?: string;
+  origin?: string;
+  festival?: string;
+  eventStartDate?: string;
+  eventEndDate?: string;
 }) {
   // 기본값: 서울 지역 (areaCode: "1")
   const defaultAreaCode = "1";
   const finalAreaCode = areaCode || defaultAreaCode;
+  // 시/군/구 코드는 시/도를 명시적으로 선택한 경우에만 적용
+  const finalSigunguCode = areaCode ? sigunguCode || undefined : undefined;
   
   // contentTypeId 파싱 (쉼표로 구분된 다중 값 지원)
   const contentTypeIds = contentTypeId
     ? contentTypeId.split(",").map((id) => parseInt(id.trim(), 10)).filter(Boolean)
     : [];
+
+  // 서비스 분류 필터 파싱 (areaBasedList2/searchKeyword2의 cat1/cat2/cat3)
+  const category = parseCategoryFilter(cat1, cat2, cat3);
   
   const finalPageNo = pageNo ? parseInt(pageNo, 10) : PAGINATION_DEFAULTS.pageNo;
-  const finalSort = sort || "modifiedtime";
+  const nearLocation = parseLatLng(near);
+  const nearRadius = parseRadius(radius);
+  // 지도 영역 검색("이 지역 검색")이면 검색한 범위를 지도에 그대로 다시 표시
+  const mapAreaRadius = nearLocation && mapArea === "true" ? nearRadius : undefined;
+  // 반려동물 필터는 지역 후보 목록 기준이므로 주변 검색 모드에서는 적용하지 않음
+  const isPetMode = pet === "true" && !nearLocation;
+  // 필터 UI에서 축제/행사와 반려동물 필터는 함께 선택할 수 없으며,
+  // URL에 함께 지정된 경우 반려동물 필터를 우선 적용 (행사 기간은 무시)
+  const isFestivalMode = festival === "true" && !nearLocation && !isPetMode;
+  const isKeywordSearch =
+    !!keyword?.trim() && !isPetMode && !nearLocation && !isFestivalMode;
+  // 거리순 정렬은 전체 결과를 모아 정렬하는 반려동물/축제/검색 모드에서만 지원
+  // (지역/숙박 목록 API는 거리순 조회를 지원하지 않고, 주변 검색 모드는 API가 거리를 계산)
+  const canSortByDistance = isPetMode || isFestivalMode || isKeywordSearch;
+  // 거리순 정렬/거리 뱃지 기준 위치
+  const distanceOrigin = canSortByDistance ? parseLatLng(origin) : null;
+  // 거리순은 기준 위치가 있을 때만 적용 (위치 권한 거부 등으로 없으면 기본 정렬)
+  const requestedSort = sort === "dist" && !nearLocation && !distanceOrigin ? undefined : sort;
+  // 주변 검색 모드에서는 API의 dist 필드 기준 가까운순 정렬,
+  // 축제/행사 모드에서는 행사 시작일순, 검색 모드에서는 관련도순 정렬이 기본값
+  const finalSort = nearLocation
+    ? "dist"
+    : requestedSort ||
+      (isFestivalMode ? "eventstart" : isKeywordSearch ? "relevance" : "modifiedtime");
 
   let allTours: TourItem[] = [];
-  let hasError = false;
-  let errorMessage: string | null = null;
   let totalCount = 0;
+  // API 장애로 이전에 조회한 데이터를 표시하는지 여부
+  let isStale = false;
+  // 결과의 일부만 표시할 때 안내 문구 (조회 한도 초과, 일부 목록 조회 실패 등)
+  let partialNotice: string | undefined;
 
-  // 검색 모드: keyword가 있으면 searchKeyword API 사용
-  if (keyword && keyword.trim()) {
-    const trimmedKeyword = keyword.trim();
-    
-    // 검색 API는 단일 contentTypeId만 지원하므로 첫 번째 타입만 사용
-    const singleContentTypeId = contentTypeIds.length > 0 ? contentTypeIds[0] : undefined;
-    
-    const result = await searchKeyword(
-      trimmedKeyword,
-      finalAreaCode,
-      singleContentTypeId,
-      PAGINATION_DEFAULTS.numOfRows,
-      finalPageNo,
-      true // 서버 사이드 호출
-    );
+  // 반려동물 필터 모드: 서버에서 후보 목록을 반려동물 정보와 대조하여 필터링
+  if (isPetMode) {
+    const trimmedKeyword = keyword?.trim() || undefined;
+    const result = await getPetFriendlyTours({
+      areaCode: finalAreaCode,
+      sigunguCode: finalSigunguCode,
+      contentTypeIds,
+      category,
+      petSizes: parsePetSizes(petSize),
+      keyword: trimmedKeyword,
+      sort: finalSort,
+      origin: distanceOrigin ?? undefined,
+      numOfRows: PAGINATION_DEFAULTS.numOfRows,
+      pageNo: finalPageNo,
+    });
 
-    if (!result.success) {
+    if (result.success === false) {
       return (
         <HomeLayout
           tours={[]}
           isLoading={false}
-          error={result.error || "검색 중 오류가 발생했습니다."}
+          error={result.error || "반려동물 동반 관광지를 불러오는 중 오류가 발생했습니다."}
+          errorKind={result.kind}
           searchKeyword={trimmedKeyword}
           areaCode={finalAreaCode}
+          sigunguCode={finalSigunguCode}
           totalCount={0}
           currentPage={finalPageNo}
         />
@@ -94,64 +267,154 @@ async function TourListData({
     }
 
     allTours = result.data || [];
-    totalCount = result.totalCount || allTours.length;
-  } else {
-    // 일반 모드: 기존 getAreaBasedList 로직
-    // 다중 타입 선택 처리
-    if (contentTypeIds.length > 0) {
-    // 각 타입별로 API 호출 후 결과 병합
-    const promises = contentTypeIds.map((typeId) =>
-      getAreaBasedList(
-        finalAreaCode,
+    totalCount = result.totalCount ?? allTours.length;
+    isStale = Boolean(result.stale);
+    if (result.partial) partialNotice = PARTIAL_PET_LIST_NOTICE;
+  } else if (nearLocation) {
+    // 주변 검색 모드: 현재 위치 기준 locationBasedList2 API 사용
+    // 위치 기반 API는 단일 contentTypeId만 지원하므로 타입별 목록을 거리순으로 병합
+    const fetchers: TourPageFetcher[] = (
+      contentTypeIds.length > 0 ? contentTypeIds : [undefined]
+    ).map((typeId) => (numOfRows, pageNo) =>
+      getLocationBasedList(
+        nearLocation.lng,
+        nearLocation.lat,
+        nearRadius,
         typeId,
-        PAGINATION_DEFAULTS.numOfRows,
-        finalPageNo,
+        numOfRows,
+        pageNo,
         true // 서버 사이드 호출
       )
     );
 
-    const results = await Promise.all(promises);
+    const result = await mergePaginate(fetchers, {
+      sort: finalSort,
+      numOfRows: PAGINATION_DEFAULTS.numOfRows,
+      pageNo: finalPageNo,
+    });
 
-    // 성공한 결과만 수집
-    for (const result of results) {
-      if (result.success && result.data) {
-        allTours.push(...result.data);
-        // totalCount는 첫 번째 성공한 결과에서 가져오거나 합산
-        if (result.totalCount) {
-          totalCount = Math.max(totalCount, result.totalCount);
-        }
-      } else {
-        hasError = true;
-        errorMessage = result.error || "일부 관광지 목록을 불러오는 중 오류가 발생했습니다.";
-      }
+    if (result.success === false) {
+      return (
+        <HomeLayout
+          tours={[]}
+          isLoading={false}
+          error={result.error || "주변 관광지를 불러오는 중 오류가 발생했습니다."}
+          errorKind={result.kind}
+          nearLocation={nearLocation}
+          mapAreaRadius={mapAreaRadius}
+          totalCount={0}
+          currentPage={finalPageNo}
+        />
+      );
     }
 
-    // 중복 제거 (contentid 기준)
-    const uniqueTours = Array.from(
-      new Map(allTours.map((tour) => [tour.contentid, tour])).values()
+    allTours = result.data || [];
+    totalCount = result.totalCount || allTours.length;
+    isStale = Boolean(result.stale);
+    if (result.partial) partialNotice = PARTIAL_TYPE_LIST_NOTICE;
+  } else if (isFestivalMode) {
+    // 축제/행사 모드: searchFestival2 API로 기간 내 행사 조회
+    // API가 시작일 정렬을 지원하지 않으므로 기간 내 행사를 모두 조회한 뒤
+    // 정렬하고 요청한 페이지만 잘라서 표시
+    const { startDate, endDate } = parseEventPeriod(eventStartDate, eventEndDate);
+
+    const result = await collectFestivals(
+      startDate,
+      endDate,
+      areaCode ? finalAreaCode : undefined,
+      finalSigunguCode
     );
-    allTours = uniqueTours;
-    // 중복 제거 후 실제 개수로 조정 (정확하지 않을 수 있음)
-    if (totalCount === 0) {
-      totalCount = allTours.length;
+
+    if (result.success === false) {
+      return (
+        <HomeLayout
+          tours={[]}
+          isLoading={false}
+          error={result.error || "축제/행사 목록을 불러오는 중 오류가 발생했습니다."}
+          errorKind={result.kind}
+          areaCode={finalAreaCode}
+          sigunguCode={finalSigunguCode}
+          totalCount={0}
+          currentPage={finalPageNo}
+        />
+      );
     }
-  } else {
-    // 단일 타입 또는 타입 미선택
-    const result = await getAreaBasedList(
+
+    const festivals = distanceOrigin
+      ? withTourDistances(result.data, distanceOrigin)
+      : result.data;
+    isStale = Boolean(result.stale);
+    sortTours(festivals, finalSort);
+
+    const start = (finalPageNo - 1) * PAGINATION_DEFAULTS.numOfRows;
+    allTours = festivals.slice(start, start + PAGINATION_DEFAULTS.numOfRows);
+    // 페이지 이동은 모은 행사 안에서만 가능하므로 표시할 수 있는 행사 수를 전체 수로 사용
+    totalCount = festivals.length;
+    const festivalTotalCount = result.totalCount ?? festivals.length;
+    if (festivalTotalCount > festivals.length) {
+      partialNotice = `기간 내 행사 ${festivalTotalCount.toLocaleString("ko-KR")}개 중 ${festivals.length.toLocaleString("ko-KR")}개만 표시합니다. 기간이나 지역을 좁혀서 찾아보세요.`;
+    }
+  } else if (isKeywordSearch) {
+    // 검색 모드: 관광지 검색 서비스 사용 (초성/오타 허용 검색, 관광지명 하이라이트)
+    const trimmedKeyword = keyword!.trim();
+
+    // 첫 페이지 검색만 인기 검색어로 집계 (페이지 이동은 같은 검색)
+    if (finalPageNo === 1) {
+      recordSearchQuery(trimmedKeyword);
+    }
+
+    const result = await searchTours({
+      query: trimmedKeyword,
+      areaCode: finalAreaCode,
+      sigunguCode: finalSigunguCode,
+      contentTypeIds,
+      category,
+      sort: finalSort,
+      origin: distanceOrigin ?? undefined,
+      numOfRows: PAGINATION_DEFAULTS.numOfRows,
+      pageNo: finalPageNo,
+    });
+
+    if (result.success === false) {
+      return (
+        <HomeLayout
+          tours={[]}
+          isLoading={false}
+          error={result.error || "검색 중 오류가 발생했습니다."}
+          errorKind={result.kind}
+          searchKeyword={trimmedKeyword}
+          areaCode={finalAreaCode}
+          sigunguCode={finalSigunguCode}
+          totalCount={0}
+          currentPage={finalPageNo}
+        />
+      );
+    }
+
+    allTours = result.data || [];
+    totalCount = result.totalCount || allTours.length;
+    isStale = Boolean(result.stale);
+    if (result.partial) partialNotice = PARTIAL_TYPE_LIST_NOTICE;
+  } else if (contentTypeIds.length === 1 && contentTypeIds[0] === 32 && !category) {
+    // 숙박 모드: 숙박(32)만 선택한 경우 searchStay2 API 사용
+    // (분류 필터는 areaBasedList2에서만 지원하므로 분류 선택 시 일반 모드로 조회)
+    const result = await searchStay(
       finalAreaCode,
-      undefined,
       PAGINATION_DEFAULTS.numOfRows,
       finalPageNo,
-      true // 서버 사이드 호출
+      true, // 서버 사이드 호출
+      finalSigunguCode
     );
 
-    if (!result.success) {
+    if (result.success === false) {
       return (
         <HomeLayout
           tours={[]}
           isLoading={false}
-          error={result.error || "관광지 목록을 불러오는 중 오류가 발생했습니다."}
+          error={result.error || "숙박 정보를 불러오는 중 오류가 발생했습니다."}
+          errorKind={result.kind}
           areaCode={finalAreaCode}
+          sigunguCode={finalSigunguCode}
           totalCount={0}
           currentPage={finalPageNo}
         />
@@ -160,46 +423,76 @@ async function TourListData({
 
     allTours = result.data || [];
     totalCount = result.totalCount || allTours.length;
+    isStale = Boolean(result.stale);
+  } else {
+    // 일반 모드: getAreaBasedList API 사용
+    // 다중 타입 선택 시 타입별 목록을 정렬 기준에 맞춰 병합하여 페이지 구성
+    const arrange = getTourSortArrange(finalSort);
+    const fetchers: TourPageFetcher[] = (
+      contentTypeIds.length > 0 ? contentTypeIds : [undefined]
+    ).map((typeId) => (numOfRows, pageNo) =>
+      getAreaBasedList(
+        finalAreaCode,
+        typeId,
+        numOfRows,
+        pageNo,
+        true, // 서버 사이드 호출
+        finalSigunguCode,
+        category,
+        arrange
+      )
+    );
+
+    const result = await mergePaginate(fetchers, {
+      sort: finalSort,
+      numOfRows: PAGINATION_DEFAULTS.numOfRows,
+      pageNo: finalPageNo,
+    });
+
+    if (result.success === false) {
+      return (
+        <HomeLayout
+          tours={[]}
+          isLoading={false}
+          error={result.error || "관광지 목록을 불러오는 중 오류가 발생했습니다."}
+          errorKind={result.kind}
+          areaCode={finalAreaCode}
+          sigunguCode={finalSigunguCode}
+          totalCount={0}
+          currentPage={finalPageNo}
+        />
+      );
     }
+
+    allTours = result.data || [];
+    totalCount = result.totalCount || allTours.length;
+    isStale = Boolean(result.stale);
+    if (result.partial) partialNotice = PARTIAL_TYPE_LIST_NOTICE;
   }
 
   // 정렬 처리 (클라이언트 사이드) - 검색 모드와 일반 모드 모두 적용
-  if (finalSort === "title") {
-    // 이름순 정렬 (가나다순)
-    allTours.sort((a, b) => a.title.localeCompare(b.title, "ko"));
-  } else {
-    // 최신순 정렬 (modifiedtime DESC)
-    allTours.sort((a, b) => {
-      const timeA = new Date(a.modifiedtime).getTime();
-      const timeB = new Date(b.modifiedtime).getTime();
-      return timeB - timeA;
-    });
-  }
+  sortTours(allTours, finalSort);
 
-  // 에러 처리
-  if (hasError && allTours.length === 0) {
-    return (
-      <HomeLayout
-        tours={[]}
-        isLoading={false}
-        error={errorMessage || "관광지 목록을 불러오는 중 오류가 발생했습니다."}
-        areaCode={finalAreaCode}
-        totalCount={0}
-        currentPage={finalPageNo}
-      />
-    );
-  }
+  // 카드 뱃지에 표시할 분류명 조회 (실패해도 목록은 표시)
+  const categoryNames = await getCategoryNames(allTours);
 
   // 데이터 표시 (지도 통합을 위해 HomeLayout 사용)
   return (
     <HomeLayout
       tours={allTours}
       isLoading={false}
-      error={hasError ? errorMessage : null}
+      error={null}
       searchKeyword={keyword?.trim() || undefined}
       areaCode={finalAreaCode}
+      sigunguCode={finalSigunguCode}
+      nearLocation={nearLocation ?? undefined}
+      mapAreaRadius={mapAreaRadius}
+      canSortByDistance={canSortByDistance}
+      categoryNames={categoryNames}
+      partialNotice={partialNotice}
       totalCount={totalCount}
       currentPage={finalPageNo}
+      isStale={isStale}
     />
   );
 }
@@ -209,18 +502,57 @@ async function TourListData({
  */
 export default async function Home({ searchParams }: HomeProps) {
   const params = await searchParams;
-  const { keyword, areaCode, contentTypeId, pet, petSize, sort, pageNo } = params;
+  const {
+    keyword,
+    areaCode,
+    sigunguCode,
+    contentTypeId,
+    cat1,
+    cat2,
+    cat3,
+    pet,
+    petSize,
+    sort,
+    pageNo,
+    near,
+    radius,
+    mapArea,
+    origin,
+    festival,
+    eventStartDate,
+    eventEndDate,
+  } = params;
+  const isNearMode = !!parseLatLng(near);
+  const isMapAreaMode = isNearMode && mapArea === "true";
+  const isFestivalMode = festival === "true" && !isNearMode && pet !== "true";
+  const eventPeriod = isFestivalMode
+    ? parseEventPeriod(eventStartDate, eventEndDate)
+    : null;
 
   return (
     <main className="container mx-auto px-4 py-8 lg:py-12">
       <div className="mb-8">
         <h1 className="text-3xl font-bold tracking-tight lg:text-4xl">
-          {keyword ? "검색 결과" : "관광지 목록"}
+          {isMapAreaMode
+            ? "지도 영역 관광지"
+            : isNearMode
+              ? "내 주변 관광지"
+              : isFestivalMode
+                ? "축제/행사"
+                : keyword
+                  ? "검색 결과"
+                  : "관광지 목록"}
         </h1>
         <p className="mt-2 text-muted-foreground">
-          {keyword
-            ? `검색어: "${keyword}"`
-            : "전국의 다양한 관광지를 탐색해보세요."}
+          {isNearMode
+            ? `${isMapAreaMode ? "지도 중심" : "현재 위치"} 반경 ${(parseRadius(radius) / 1000).toLocaleString("ko-KR")}km 이내의 관광지를 가까운 순으로 보여드립니다.`
+            : eventPeriod
+              ? eventPeriod.endDate
+                ? `${formatEventPeriod(eventPeriod.startDate, eventPeriod.endDate)} 기간에 열리는 축제와 행사를 보여드립니다.`
+                : `${formatEventPeriod(eventPeriod.startDate)} 이후 진행 중인 축제와 행사를 보여드립니다.`
+              : keyword
+                ? `검색어: "${keyword}"`
+                : "전국의 다양한 관광지를 탐색해보세요."}
         </p>
       </div>
 
@@ -231,17 +563,34 @@ export default async function Home({ searchParams }: HomeProps) {
 
       <Suspense
         fallback={
-          <HomeLayout tours={[]} isLoading={true} error={null} areaCode={areaCode} />
+          <HomeLayout
+            tours={[]}
+            isLoading={true}
+            error={null}
+            areaCode={areaCode}
+            sigunguCode={sigunguCode}
+          />
         }
       >
         <TourListData
           keyword={keyword}
           areaCode={areaCode}
+          sigunguCode={sigunguCode}
           contentTypeId={contentTypeId}
+          cat1={cat1}
+          cat2={cat2}
+          cat3={cat3}
           pet={pet}
           petSize={petSize}
           sort={sort}
           pageNo={pageNo}
+          near={near}
+          radius={radius}
+          mapArea={mapArea}
+          origin={origin}
+          festival={festival}
+          eventStartDate={eventStartDate}
+          eventEndDate={eventEndDate}
         />
       </Suspense>
     </main>
@@ -11,22 +11,58 @@ import { Metadata } from "next";
 import { headers } from "next/headers";
 import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
-import { getDetailCommon, getDetailIntro, getDetailPetTour } from "@/lib/api/tour-api";
+import {
+  getDetailCommon,
+  getDetailIntro,
+  getDetailInfo,
+  getDetailPetTour,
+} from "@/lib/api/tour-api";
 import { Button } from "@/components/ui/button";
 import { DetailInfo } from "@/components/tour-detail/detail-info";
 import { DetailIntro } from "@/components/tour-detail/detail-intro";
 import { DetailGallery } from "@/components/tour-detail/detail-gallery";
 import { DetailMap } from "@/components/tour-detail/detail-map";
 import { DetailPetTour } from "@/components/tour-detail/detail-pet-tour";
+import { DetailRooms } from "@/components/tour-detail/detail-rooms";
+import { DetailCourse } from "@/components/tour-detail/detail-course";
 import {
   DetailRecommendations,
   DetailRecommendationsSkeleton,
 } from "@/components/tour-detail/detail-recommendations";
 import { ShareButton } from "@/components/tour-detail/share-button";
 import { BookmarkButton } from "@/components/bookmarks/bookmark-button";
-import { TourDetail } from "@/lib/types/tour";
+import { StaleDataBanner } from "@/components/stale-data-banner";
+import { CourseStop, TourDetail } from "@/lib/types/tour";
 import { Suspense } from "react";
 
+/**
+ * 여행코스 경유지 목록 조회 (경유지 좌표는 각 장소의 공통 정보로 보강)
+ *
+ * detailInfo2 코스 응답에는 좌표가 없으므로 지도 경로 표시를 위해
+ * 경유지별 detailCommon2를 병렬로 조회합니다.
+ */
+async function getCourseStops(contentId: string): Promise<CourseStop[] | null> {
+  const result = await getDetailInfo(contentId, 25, true);
+
+  // 코스 정보는 없어도 페이지는 표시 (에러는 무시)
+  if (!result.success || !result.data) {
+    return null;
+  }
+
+  return Promise.all(
+    result.data.map(async (stop) => {
+      if (!stop.contentId) return stop;
+      const commonResult = await getDetailCommon(stop.contentId, true);
+      if (!commonResult.success || !commonResult.data) return stop;
+      return {
+        ...stop,
+        mapx: commonResult.data.mapx,
+        mapy: commonResult.data.mapy,
+      };
+    })
+  );
+}
+
 interface PlacePageProps {
   params: Promise<{
     contentId: string;
@@ -123,6 +159,24 @@ export default async function PlacePage({ params }: PlacePageProps) {
   // 반려동물 정보는 없어도 페이지는 표시 (에러는 무시)
   const petTour = petTourResult.success ? petTourResult.data : null;
 
+  // 숙박(32)인 경우 객실 정보 조회
+  const roomsResult =
+    contentTypeId === 32 ? await getDetailInfo(contentId, contentTypeId, true) : null;
+
+  // 객실 정보는 없어도 페이지는 표시 (에러는 무시)
+  const rooms = roomsResult?.success ? roomsResult.data : null;
+
+  // 여행코스(25)인 경우 코스 경유지 조회
+  const courseStops = contentTypeId === 25 ? await getCourseStops(contentId) : null;
+
+  // API 장애로 이전에 조회한 정보를 표시하는 경우 안내
+  const isStale = Boolean(
+    result.stale ||
+      (introResult.success && introResult.stale) ||
+      (petTourResult.success && petTourResult.stale) ||
+      (roomsResult?.success && roomsResult.stale)
+  );
+
   return (
     <div className="min-h-screen bg-background">
       {/* 헤더 영역: 뒤로가기 버튼 및 공유 버튼 */}
@@ -151,9 +205,19 @@ export default async function PlacePage({ params }: PlacePageProps) {
       {/* 메인 영역 */}
       <main className="container mx-auto px-4 py-8">
         <div className="mx-auto max-w-4xl space-y-8">
+          {/* 오래된 데이터 안내 */}
+          {isStale && <StaleDataBanner />}
+
           {/* 기본 정보 섹션 */}
           <DetailInfo detail={detail} />
 
+          {/* 코스 일정 섹션 (여행코스) */}
+          <DetailCourse
+            stops={courseStops}
+            distance={intro?.distance}
+            taketime={intro?.taketime}
+          />
+
           {/* 반려동물 동반 정보 섹션 */}
           <DetailPetTour petTour={petTour} />
 
@@ -161,11 +225,14 @@ export default async function PlacePage({ params }: PlacePageProps) {
           <DetailGallery contentId={contentId} title={detail.title} />
 
           {/* 지도 섹션 */}
-          <DetailMap detail={detail} />
+          <DetailMap detail={detail} courseStops={courseStops} />
 
           {/* 운영 정보 섹션 */}
           <DetailIntro intro={intro} />
 
+          {/* 객실 정보 섹션 (숙박) */}
+          <DetailRooms rooms={rooms} />
+
           {/* 추천 관광지 섹션 */}
           {detail.areacode && detail.contenttypeid && (
             <Suspense fallback={<DetailRecommendationsSkeleton />}>
@@ -4,11 +4,14 @@
  *
  * Next.js App Router의 sitemap 기능을 사용하여 검색 엔진에 사이트 구조를 제공합니다.
  * 정적 페이지와 동적 페이지(관광지 상세페이지)를 포함합니다.
+ * TOUR_DATA_SOURCE=mirror이면 관광지 미러(Supabase)의 관광지를 포함합니다.
  */
 
 import type { MetadataRoute } from "next";
 import { getAreaBasedList } from "@/lib/api/tour-api";
-import { PAGINATION_DEFAULTS } from "@/lib/constants/api";
+import { getMirrorSitemapItems, isTourMirrorEnabled } from "@/lib/api/tour-mirror";
+import { PAGINATION_DEFAULTS, TOUR_MIRROR_CONFIG } from "@/lib/constants/api";
+import type { TourItem } from "@/lib/types/tour";
 
 // Base URL 설정 (환경변수 또는 기본값)
 function getBaseUrl(): string {
@@ -19,11 +22,24 @@ function getBaseUrl(): string {
   return `${protocol}://localhost:3000`;
 }
 
+/**
+ * API 수정일시(YYYYMMDDHHmmss, 한국 시간)를 Date로 변환
+ */
+function toLastModified(modifiedtime?: string): Date {
+  const match = modifiedtime?.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return new Date();
+
+  const [, year, month, day, hour, minute, second] = match;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+09:00`);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
+
 /**
  * 동적 sitemap 생성
  *
  * 정적 페이지와 관광지 상세페이지를 포함합니다.
- * 성능을 고려하여 샘플 관광지만 포함합니다 (최대 100개).
+ * API 조회 시에는 성능을 고려하여 샘플 관광지만 포함하고 (최대 100개),
+ * 미러 조회 시에는 최근 수정된 관광지를 TOUR_MIRROR_CONFIG.sitemapLimit개까지 포함합니다.
  */
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = getBaseUrl();
@@ -55,25 +71,44 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   let dynamicPages: MetadataRoute.Sitemap = [];
 
   try {
-    // 서울 지역(areaCode: 1)의 관광지 목록 조회 (최대 100개)
-    const result = await getAreaBasedList(
-      "1", // 서울
-      undefined, // 모든 타입
-      Math.min(100, PAGINATION_DEFAULTS.numOfRows * 5), // 최대 100개
-      1, // 첫 페이지
-      true // 서버 사이드 호출
-    );
+    let items: Array<Pick<TourItem, "contentid" | "modifiedtime">> = [];
 
-    if (result.success && result.data) {
-      dynamicPages = result.data.map((item) => ({
-        url: `${baseUrl}/places/${item.contentid}`,
-        lastModified: item.modifiedtime
-          ? new Date(item.modifiedtime)
-          : new Date(),
-        changeFrequency: "weekly" as const,
-        priority: 0.6,
-      }));
+    // 미러는 호출 한도를 소모하지 않으므로 더 많은 관광지를 포함
+    if (isTourMirrorEnabled()) {
+      const mirrorResult = await getMirrorSitemapItems(
+        TOUR_MIRROR_CONFIG.sitemapLimit,
+        TOUR_MIRROR_CONFIG.sitemapPageSize
+      );
+      if (mirrorResult.success === true) {
+        items = mirrorResult.data;
+      }
     }
+
+    if (items.length === 0) {
+      // 서울 지역(areaCode: 1)의 관광지 목록 조회 (최대 100개)
+      const result = await getAreaBasedList(
+        "1", // 서울
+        undefined, // 모든 타입
+        Math.min(100, PAGINATION_DEFAULTS.numOfRows * 5), // 최대 100개
+        1, // 첫 페이지
+        true, // 서버 사이드 호출
+        undefined,
+        undefined,
+        undefined,
+        "low" // sitemap 생성은 낮은 우선순위 (호출 한도 부족 시 정적 페이지만 포함)
+      );
+
+      if (result.success && result.data) {
+        items = result.data;
+      }
+    }
+
+    dynamicPages = items.map((item) => ({
+      url: `${baseUrl}/places/${item.contentid}`,
+      lastModified: toLastModified(item.modifiedtime),
+      changeFrequency: "weekly" as const,
+      priority: 0.6,
+    }));
   } catch (error) {
     // sitemap 생성 실패 시 정적 페이지만 반환
     console.error("Sitemap 생성 중 오류:", error);
@@ -58,7 +58,7 @@ async function StatsSummaryData() {
     return (
       <StatsError
         message={result.error || "통계 요약 데이터를 불러오는데 실패했습니다."}
-        type="api"
+        kind={"kind" in result ? result.kind : "no-data"}
       />
     );
   }
@@ -76,7 +76,7 @@ async function RegionChartData() {
     return (
       <StatsError
         message={result.error || "지역별 통계 데이터를 불러오는데 실패했습니다."}
-        type="api"
+        kind={"kind" in result ? result.kind : "no-data"}
       />
     );
   }
@@ -94,7 +94,7 @@ async function TypeChartData() {
     return (
       <StatsError
         message={result.error || "타입별 통계 데이터를 불러오는데 실패했습니다."}
-        type="api"
+        kind={"kind" in result ? result.kind : "no-data"}
       />
     );
   }
@@ -2,7 +2,7 @@
  * @file components/Navbar.tsx
  * @description 네비게이션 바 컴포넌트
  *
- * 로고, 검색창, 네비게이션 링크, 로그인 버튼을 포함합니다.
+ * 로고, 검색창(자동완성), 네비게이션 링크, 로그인 버튼을 포함합니다.
  * 반응형 디자인을 지원하며 모바일에서는 햄버거 메뉴를 표시합니다.
  */
 
@@ -13,25 +13,14 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Search, Menu, X } from "lucide-react";
-import { useRouter } from "next/navigation";
+import { Menu, X } from "lucide-react";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { SearchAutocomplete } from "@/components/search-autocomplete";
 
 const Navbar = () => {
-  const [searchQuery, setSearchQuery] = useState("");
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const router = useRouter();
   const pathname = usePathname();
 
-  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      router.push(`/?keyword=${encodeURIComponent(searchQuery.trim())}`);
-      setIsMobileMenuOpen(false);
-    }
-  };
-
   const navLinks = [
     { href: "/", label: "홈" },
     { href: "/stats", label: "통계" },
@@ -71,23 +60,7 @@ const Navbar = () => {
           </nav>
 
           {/* 검색창 */}
-          <form onSubmit={handleSearch} className="flex items-center gap-2" role="search">
-            <label htmlFor="desktop-search" className="sr-only">
-              관광지 검색
-            </label>
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
-              <Input
-                id="desktop-search"
-                type="search"
-                placeholder="관광지 검색..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-[300px] pl-9"
-                aria-label="관광지 검색"
-              />
-            </div>
-          </form>
+          <SearchAutocomplete id="desktop-search" inputClassName="w-[300px]" />
         </div>
 
         {/* 데스크톱 로그인 버튼 */}
@@ -130,23 +103,10 @@ const Navbar = () => {
         <div className="md:hidden border-t bg-background">
           <div className="container mx-auto px-4 py-4 space-y-4">
             {/* 모바일 검색창 */}
-            <form onSubmit={handleSearch} className="flex items-center gap-2" role="search">
-              <label htmlFor="mobile-search" className="sr-only">
-                관광지 검색
-              </label>
-              <div className="relative flex-1">
-                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
-                <Input
-                  id="mobile-search"
-                  type="search"
-                  placeholder="관광지 검색..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-9"
-                  aria-label="관광지 검색"
-                />
-              </div>
-            </form>
+            <SearchAutocomplete
+              id="mobile-search"
+              onNavigate={() => setIsMobileMenuOpen(false)}
+            />
 
             {/* 모바일 네비게이션 링크 */}
             <nav aria-label="주요 네비게이션" className="flex flex-col gap-2">
@@ -0,0 +1,134 @@
+/**
+ * @file components/api-error-state.tsx
+ * @description API 에러 종류별 복구 안내 컴포넌트
+ *
+ * ApiResult 실패 결과의 kind에 따라 에러 제목, 복구 방법 안내, 액션 버튼을 다르게 표시합니다.
+ * - 네트워크/서버 일시 오류: 재시도 버튼
+ * - 호출 한도 초과: 재시도 대신 북마크 보기 안내
+ * - 서비스키 오류: 재시도 대신 관리자 문의 안내
+ * - 데이터 없음/잘못된 요청: 필터 초기화 안내
+ */
+
+import Link from "next/link";
+import { Error, type ErrorType } from "@/components/ui/error";
+import { Button } from "@/components/ui/button";
+import type { TourApiErrorKind } from "@/lib/types/api";
+
+interface ApiErrorStateProps {
+  /** 에러 메시지 */
+  message: string;
+  /** 에러 종류 */
+  kind?: TourApiErrorKind;
+  /** 재시도 함수 (재시도로 복구 가능한 에러에서만 표시) */
+  onRetry?: () => void;
+  /** 추가 클래스명 */
+  className?: string;
+  /** 컴팩트 모드 (작은 크기) */
+  compact?: boolean;
+}
+
+/**
+ * 에러 종류별 복구 안내
+ */
+interface ErrorRecovery {
+  /** 아이콘/스타일 타입 */
+  type: ErrorType;
+  /** 제목 */
+  title: string;
+  /** 복구 방법 안내 */
+  hint: string;
+  /** 재시도 버튼 표시 여부 */
+  retryable: boolean;
+  /** 이동 액션 */
+  action?: { label: string; href: string };
+}
+
+const recoveryMap: Record<TourApiErrorKind, ErrorRecovery> = {
+  network: {
+    type: "network",
+    title: "네트워크 오류",
+    hint: "인터넷 연결 상태를 확인한 뒤 다시 시도해주세요.",
+    retryable: true,
+  },
+  http: {
+    type: "api",
+    title: "API 오류",
+    hint: "잠시 후 다시 시도하거나 검색 조건을 변경해보세요.",
+    retryable: true,
+    action: { label: "필터 초기화", href: "/" },
+  },
+  "quota-exceeded": {
+    type: "api",
+    title: "조회 한도 초과",
+    hint: "오늘 관광 정보 조회 한도를 모두 사용했습니다. 잠시 후 다시 이용해주세요. 북마크한 관광지는 계속 확인할 수 있습니다.",
+    retryable: false,
+    action: { label: "북마크 보기", href: "/bookmarks" },
+  },
+  "invalid-key": {
+    type: "general",
+    title: "서비스 설정 오류",
+    hint: "관광 정보 서비스 설정에 문제가 있습니다. 문제가 계속되면 관리자에게 문의해주세요.",
+    retryable: false,
+    action: { label: "홈으로 돌아가기", href: "/" },
+  },
+  "no-data": {
+    type: "general",
+    title: "데이터 없음",
+    hint: "조건에 맞는 정보가 없습니다. 필터를 조정하거나 초기화해보세요.",
+    retryable: false,
+    action: { label: "필터 초기화", href: "/" },
+  },
+  parse: {
+    type: "api",
+    title: "응답 처리 오류",
+    hint: "일시적인 문제일 수 있습니다. 잠시 후 다시 시도해주세요.",
+    retryable: true,
+  },
+  unknown: {
+    type: "general",
+    title: "오류 발생",
+    hint: "문제가 계속되면 페이지를 새로고침하거나 잠시 후 다시 시도해주세요.",
+    retryable: true,
+  },
+};
+
+/**
+ * API 에러 종류별 복구 안내 컴포넌트
+ */
+export function ApiErrorState({
+  message,
+  kind = "unknown",
+  onRetry,
+  className,
+  compact = false,
+}: ApiErrorStateProps) {
+  const recovery = recoveryMap[kind] || recoveryMap.unknown;
+
+  return (
+    <Error
+      message={message}
+      type={recovery.type}
+      title={recovery.title}
+      onRetry={recovery.retryable ? onRetry : undefined}
+      className={className}
+      compact={compact}
+    >
+      <p className="text-sm text-muted-foreground text-center max-w-md">
+        {recovery.hint}
+      </p>
+
+      {/* 개발 환경에서만 서비스키 설정 안내 */}
+      {kind === "invalid-key" && process.env.NODE_ENV === "development" && (
+        <p className="text-xs text-muted-foreground text-center">
+          TOUR_API_KEY 환경변수를 확인하세요.
+        </p>
+      )}
+
+      {recovery.action && (
+        <Button asChild variant="outline" size={compact ? "sm" : "default"}>
+          <Link href={recovery.action.href}>{recovery.action.label}</Link>
+        </Button>
+      )}
+    </Error>
+  );
+}
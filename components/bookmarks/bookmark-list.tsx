@@ -118,7 +118,7 @@ export function BookmarkList({
 
       // 2. 각 북마크의 관광지 정보 병렬 조회
       const bookmarkWithToursPromises = bookmarks.map(async (bookmark) => {
-        const result = await getDetailCommon(bookmark.content_id, false);
+        const result = await getDetailCommon(bookmark.content_id, false); // API 프록시(/api/tour) 경유
         return {
           bookmark,
           tour: result.success && result.data ? result.data : null,
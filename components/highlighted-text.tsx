@@ -0,0 +1,54 @@
+/**
+ * @file components/highlighted-text.tsx
+ * @description 검색어 하이라이트 텍스트 컴포넌트
+ *
+ * 검색 결과의 하이라이트 범위(lib/types/search.ts)를 <mark>로 감싸 표시합니다.
+ * 초성/오타 허용 검색처럼 검색어와 글자가 다른 경우에도 일치한 구간을 보여줍니다.
+ */
+
+import { Fragment } from "react";
+import type { HighlightRange } from "@/lib/types/search";
+
+interface HighlightedTextProps {
+  /** 원본 텍스트 */
+  text: string;
+  /** 하이라이트 범위 (원본 텍스트 기준 [시작, 끝) 위치) */
+  ranges?: HighlightRange[];
+}
+
+/**
+ * 검색어 하이라이트 텍스트 컴포넌트
+ */
+export function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  if (!ranges || ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const from = Math.max(start, cursor);
+    const to = Math.min(end, text.length);
+    if (from >= to) continue;
+
+    if (from > cursor) {
+      parts.push(<Fragment key={`text-${cursor}`}>{text.slice(cursor, from)}</Fragment>);
+    }
+    parts.push(
+      <mark
+        key={`mark-${from}`}
+        className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-500/40"
+      >
+        {text.slice(from, to)}
+      </mark>
+    );
+    cursor = to;
+  }
+
+  if (cursor < text.length) {
+    parts.push(<Fragment key={`text-${cursor}`}>{text.slice(cursor)}</Fragment>);
+  }
+
+  return <>{parts}</>;
+}
@@ -16,10 +16,14 @@ import { TourItem } from "@/lib/types/tour";
 import { TourList } from "@/components/tour-list";
 import { NaverMap } from "@/components/naver-map";
 import { TourPagination, PaginationMode } from "@/components/tour-pagination";
+import { StaleDataBanner } from "@/components/stale-data-banner";
+import { PartialResultBanner } from "@/components/partial-result-banner";
 import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { List, Map } from "lucide-react";
 import { PAGINATION_DEFAULTS } from "@/lib/constants/api";
+import { formatLatLng, type Coordinates } from "@/lib/utils/coordinates";
+import type { TourApiErrorKind } from "@/lib/types/api";
 
 interface HomeLayoutProps {
   /** 관광지 목록 */
@@ -28,14 +32,30 @@ interface HomeLayoutProps {
   isLoading?: boolean;
   /** 에러 메시지 */
   error?: string | null;
+  /** 에러 종류 (복구 안내 표시용) */
+  errorKind?: TourApiErrorKind;
   /** 검색 키워드 */
   searchKeyword?: string;
   /** 지역 코드 */
   areaCode?: string;
+  /** 시/군/구 코드 */
+  sigunguCode?: string;
+  /** 주변 검색 기준 좌표 (주변 검색 모드일 때) */
+  nearLocation?: Coordinates;
+  /** 지도 영역 검색 반경 (m, 지도 영역 검색일 때 검색한 범위를 지도에 다시 표시) */
+  mapAreaRadius?: number;
+  /** 거리순 정렬 지원 여부 (지원하는 모드에서만 지도 중심 기준 거리순 버튼 표시) */
+  canSortByDistance?: boolean;
+  /** 분류 코드 → 분류명 매핑 (카드 뱃지 표시용) */
+  categoryNames?: Record<string, string>;
   /** 전체 항목 수 */
   totalCount?: number;
   /** 현재 페이지 번호 */
   currentPage?: number;
+  /** API 장애로 이전에 조회한 데이터를 표시하는지 여부 */
+  isStale?: boolean;
+  /** 결과의 일부만 표시할 때 안내 문구 */
+  partialNotice?: string;
 }
 
 /**
@@ -45,10 +65,18 @@ export function HomeLayout({
   tours,
   isLoading = false,
   error = null,
+  errorKind,
   searchKeyword,
   areaCode,
+  sigunguCode,
+  nearLocation,
+  mapAreaRadius,
+  canSortByDistance = false,
+  categoryNames,
   totalCount = 0,
   currentPage = 1,
+  isStale = false,
+  partialNotice,
 }: HomeLayoutProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -106,6 +134,64 @@ export function HomeLayout({
     }, 300);
   }, []);
 
+  // 현재 위치 핸들러 (주변 검색 모드로 전환)
+  const handleCurrentLocation = useCallback(
+    (coords: Coordinates) => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set("near", formatLatLng(coords));
+      // 주변 검색은 지역/키워드와 무관하게 현재 위치 기준으로 조회
+      params.delete("mapArea");
+      params.delete("radius");
+      params.delete("areaCode");
+      params.delete("sigunguCode");
+      params.delete("keyword");
+      params.delete("festival");
+      params.delete("eventStartDate");
+      params.delete("eventEndDate");
+      // 반려동물 필터는 지역 후보 목록 기준이라 주변 검색과 함께 사용할 수 없음
+      params.delete("pet");
+      params.delete("petSize");
+      params.delete("pageNo");
+      router.push(`/?${params.toString()}`);
+    },
+    [router, searchParams]
+  );
+
+  // 이 지역 검색 핸들러 (지도 화면 범위를 주변 검색으로 조회, 관광 타입 필터는 유지)
+  const handleSearchArea = useCallback(
+    ({ center, radius }: { center: Coordinates; radius: number }) => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set("near", formatLatLng(center));
+      params.set("radius", radius.toString());
+      params.set("mapArea", "true");
+      params.delete("areaCode");
+      params.delete("sigunguCode");
+      params.delete("keyword");
+      params.delete("festival");
+      params.delete("eventStartDate");
+      params.delete("eventEndDate");
+      params.delete("pet");
+      params.delete("petSize");
+      params.delete("origin");
+      params.delete("sort");
+      params.delete("pageNo");
+      router.push(`/?${params.toString()}`);
+    },
+    [router, searchParams]
+  );
+
+  // 지도 중심 기준 거리순 핸들러 (거리순을 지원하는 모드에서만 사용)
+  const handleDistanceOrigin = useCallback(
+    (coords: Coordinates) => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set("origin", formatLatLng(coords));
+      params.set("sort", "dist");
+      params.delete("pageNo");
+      router.push(`/?${params.toString()}`);
+    },
+    [router, searchParams]
+  );
+
   // 재시도 핸들러
   const handleRetry = useCallback(() => {
     router.refresh();
@@ -123,6 +209,10 @@ export function HomeLayout({
 
   return (
     <>
+      {/* 오래된 데이터 안내 */}
+      {isStale && !error && <StaleDataBanner className="mb-4" />}
+      {partialNotice && !error && <PartialResultBanner message={partialNotice} className="mb-4" />}
+
       {/* 데스크톱 레이아웃: 분할 (≥1024px) */}
       <div className="hidden lg:grid lg:grid-cols-2 lg:gap-6 lg:h-[calc(100vh-300px)] lg:min-h-[600px]">
         {/* 리스트 영역 */}
@@ -132,7 +222,9 @@ export function HomeLayout({
               tours={tours}
               isLoading={isLoading}
               error={error}
+              errorKind={errorKind}
               searchKeyword={searchKeyword}
+              categoryNames={categoryNames}
               selectedContentId={selectedContentId}
               onCardClick={handleCardClick}
               onCardHover={handleCardHover}
@@ -164,7 +256,13 @@ export function HomeLayout({
             selectedContentId={selectedContentId}
             hoveredContentId={hoveredContentId}
             onMarkerClick={handleMarkerClick}
+            onCurrentLocation={handleCurrentLocation}
+            onDistanceOrigin={canSortByDistance ? handleDistanceOrigin : undefined}
+            onSearchArea={handleSearchArea}
             areaCode={areaCode}
+            sigunguCode={sigunguCode}
+            center={nearLocation}
+            radius={mapAreaRadius}
             className="h-full"
           />
         </div>
@@ -191,7 +289,9 @@ export function HomeLayout({
                   tours={tours}
                   isLoading={isLoading}
                   error={error}
+                  errorKind={errorKind}
                   searchKeyword={searchKeyword}
+                  categoryNames={categoryNames}
                   selectedContentId={selectedContentId}
                   onCardClick={handleCardClick}
                 />
@@ -220,7 +320,13 @@ export function HomeLayout({
                 tours={tours}
                 selectedContentId={selectedContentId}
                 onMarkerClick={handleMarkerClick}
+                onCurrentLocation={handleCurrentLocation}
+                onDistanceOrigin={canSortByDistance ? handleDistanceOrigin : undefined}
+                onSearchArea={handleSearchArea}
                 areaCode={areaCode}
+                sigunguCode={sigunguCode}
+                center={nearLocation}
+                radius={mapAreaRadius}
                 className="h-full"
               />
             </div>
@@ -0,0 +1,87 @@
+/**
+ * @file components/map-info-window.tsx
+ * @description 지도 인포윈도우 컴포넌트
+ *
+ * 지도 마커의 인포윈도우 내용을 React로 렌더링합니다.
+ * HTML 문자열 템플릿 대신 React 요소로 렌더링하므로 관광지 이름/주소가 자동으로 이스케이프됩니다.
+ *
+ * 핵심 구현 로직:
+ * - 인포윈도우용 DOM 요소에 포털(createPortal)로 내용을 렌더링
+ * - 렌더링이 끝난 후(effect) 지도 제공자의 인포윈도우를 열어 크기/위치가 내용 기준으로 계산되도록 함
+ *
+ * @dependencies
+ * - @/lib/types/map: MapMarker
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import type { MapMarker } from "@/lib/types/map";
+
+interface MapInfoWindowPortalProps {
+  /** 인포윈도우를 표시할 마커 */
+  marker: MapMarker;
+  /** 최대 너비 (px) */
+  maxWidth?: number;
+  /** 인포윈도우 내용 */
+  children: React.ReactNode;
+}
+
+/**
+ * 마커 인포윈도우 포털 (마운트되어 있는 동안 인포윈도우 표시)
+ */
+export function MapInfoWindowPortal({ marker, maxWidth = 300, children }: MapInfoWindowPortalProps) {
+  // 인포윈도우 내용을 렌더링할 DOM 요소 (마커가 바뀌어도 재사용)
+  const [container] = useState(() => document.createElement("div"));
+
+  useEffect(() => {
+    const infoWindow = marker.openInfoWindow(container, { maxWidth });
+    return () => {
+      infoWindow.close();
+    };
+  }, [marker, container, maxWidth]);
+
+  return createPortal(children, container);
+}
+
+interface MapInfoWindowContentProps {
+  /** 제목 위 보조 문구 (예: 코스 순서) */
+  eyebrow?: string;
+  /** 제목 (관광지명) */
+  title: string;
+  /** 설명 (주소) */
+  description?: string;
+  /** 버튼 문구 (지정 시에만 버튼 표시) */
+  actionLabel?: string;
+  /** 버튼 클릭 핸들러 */
+  onAction?: () => void;
+}
+
+/**
+ * 인포윈도우 내용 (지도 배경과 관계없이 흰 배경에 맞춘 색상 사용)
+ */
+export function MapInfoWindowContent({
+  eyebrow,
+  title,
+  description,
+  actionLabel,
+  onAction,
+}: MapInfoWindowContentProps) {
+  return (
+    <div className="min-w-[200px] max-w-[300px] p-3 text-left">
+      {eyebrow && <p className="mb-1 text-xs text-gray-500">{eyebrow}</p>}
+      <h3 className="text-base font-semibold text-gray-800">{title}</h3>
+      {description && <p className="mt-2 text-sm text-gray-500">{description}</p>}
+      {actionLabel && onAction && (
+        <button
+          type="button"
+          onClick={onAction}
+          className="mt-3 w-full rounded-md bg-blue-500 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+        >
+          {actionLabel}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * @file components/map-marker-list.tsx
+ * @description 지도 마커 목록 컴포넌트 (접근성 지도 모드)
+ *
+ * 마우스 없이도 지도에 표시된 관광지를 탐색할 수 있도록 마커를 목록으로 제공합니다.
+ * 목록에서 이동한 관광지는 지도에서도 선택되어 인포윈도우가 표시됩니다.
+ *
+ * 핵심 구현 로직:
+ * - ARIA listbox 패턴 (목록에 포커스, aria-activedescendant로 현재 항목 표시)
+ * - 키보드 탐색: ↑/↓(←/→) 이동, Home/End 처음/끝, Enter 상세페이지 이동, Esc 닫기
+ * - 선택한 관광지 안내는 지도 컴포넌트의 aria-live 영역에서 처리
+ *
+ * @dependencies
+ * - @/lib/constants/tour-types: getContentTypeNameById, getMarkerColorByTypeId
+ */
+
+"use client";
+
+import { useEffect, useId, useRef } from "react";
+import { cn } from "@/lib/utils";
+import { getContentTypeNameById, getMarkerColorByTypeId } from "@/lib/constants/tour-types";
+import type { TourItem } from "@/lib/types/tour";
+
+interface MapMarkerListProps {
+  /** 지도에 마커로 표시된 관광지 목록 */
+  tours: TourItem[];
+  /** 선택된 관광지 ID */
+  selectedContentId?: string;
+  /** 관광지 선택 시 콜백 (지도에서 해당 마커 선택) */
+  onSelect: (contentId: string) => void;
+  /** 관광지 열기 시 콜백 (Enter, 상세페이지 이동) */
+  onOpen: (contentId: string) => void;
+  /** 목록 닫기 콜백 (Esc) */
+  onClose: () => void;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 지도 마커 목록 컴포넌트
+ */
+export function MapMarkerList({
+  tours,
+  selectedContentId,
+  onSelect,
+  onOpen,
+  onClose,
+  className,
+}: MapMarkerListProps) {
+  const listboxId = useId();
+  const listboxRef = useRef<HTMLDivElement>(null);
+  const selectedIndex = tours.findIndex((tour) => tour.contentid === selectedContentId);
+  // 선택된 관광지가 목록에 없으면 첫 항목부터 탐색
+  const activeIndex = selectedIndex >= 0 ? selectedIndex : 0;
+  const activeTour = tours[activeIndex];
+
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
+
+  // 목록이 열리면 바로 키보드로 탐색할 수 있도록 포커스
+  useEffect(() => {
+    listboxRef.current?.focus();
+  }, []);
+
+  // 현재 항목이 보이도록 스크롤
+  useEffect(() => {
+    document
+      .getElementById(`${listboxId}-option-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex, listboxId]);
+
+  const moveTo = (index: number) => {
+    const tour = tours[Math.min(Math.max(index, 0), tours.length - 1)];
+    if (tour && tour.contentid !== selectedContentId) {
+      onSelect(tour.contentid);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowRight":
+        e.preventDefault();
+        // 아직 선택된 항목이 없으면 첫 항목 선택
+        moveTo(selectedIndex >= 0 ? activeIndex + 1 : 0);
+        break;
+      case "ArrowUp":
+      case "ArrowLeft":
+        e.preventDefault();
+        moveTo(selectedIndex >= 0 ? activeIndex - 1 : 0);
+        break;
+      case "Home":
+        e.preventDefault();
+        moveTo(0);
+        break;
+      case "End":
+        e.preventDefault();
+        moveTo(tours.length - 1);
+        break;
+      case "Enter":
+        if (activeTour) {
+          e.preventDefault();
+          onOpen(activeTour.contentid);
+        }
+        break;
+      case " ":
+        if (activeTour) {
+          e.preventDefault();
+          onSelect(activeTour.contentid);
+        }
+        break;
+      case "Escape":
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col rounded-lg border bg-background/95 shadow-md backdrop-blur-sm",
+        className
+      )}
+    >
+      <p id={`${listboxId}-label`} className="border-b px-3 py-2 text-sm font-semibold">
+        지도 장소 목록 ({tours.length}곳)
+      </p>
+      <p className="sr-only" id={`${listboxId}-description`}>
+        위아래 방향키로 장소를 이동하면 지도에서 선택됩니다. Enter는 상세페이지로 이동, Esc는 목록 닫기입니다.
+      </p>
+      {tours.length === 0 ? (
+        <p className="px-3 py-4 text-sm text-muted-foreground">지도에 표시된 장소가 없습니다.</p>
+      ) : (
+        <div
+          ref={listboxRef}
+          id={listboxId}
+          role="listbox"
+          tabIndex={0}
+          aria-labelledby={`${listboxId}-label`}
+          aria-describedby={`${listboxId}-description`}
+          aria-activedescendant={getOptionId(activeIndex)}
+          onKeyDown={handleKeyDown}
+          className="overflow-y-auto p-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded-b-lg"
+        >
+          {tours.map((tour, index) => (
+            <div
+              key={tour.contentid}
+              id={getOptionId(index)}
+              role="option"
+              aria-selected={tour.contentid === selectedContentId}
+              onClick={() => onSelect(tour.contentid)}
+              onDoubleClick={() => onOpen(tour.contentid)}
+              className={cn(
+                "flex cursor-pointer items-start gap-2 rounded-sm px-2 py-1.5 text-sm",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span
+                className="mt-1.5 h-2.5 w-2.5 shrink-0 rounded-full"
+                style={{ backgroundColor: getMarkerColorByTypeId(tour.contenttypeid) }}
+                aria-hidden="true"
+              />
+              <span className="min-w-0">
+                <span className="block truncate font-medium">{tour.title}</span>
+                <span className="block truncate text-xs text-muted-foreground">
+                  {getContentTypeNameById(tour.contenttypeid)}
+                  {tour.addr1 && ` · ${tour.addr1}`}
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,20 +2,28 @@
  * @file components/naver-map.tsx
  * @description 네이버 지도 컴포넌트
  *
- * Naver Maps API v3 (NCP)를 사용하여 관광지 목록을 지도에 마커로 표시합니다.
+ * 지도 제공자(MapProvider)를 사용하여 관광지 목록을 지도에 마커로 표시합니다.
+ * 기본은 Naver Maps API v3 (NCP)이며, 사용할 수 없으면 Leaflet + OpenStreetMap으로 대체합니다.
  * 리스트와 지도를 양방향으로 연동하여 사용자 경험을 향상시킵니다.
  *
  * 주요 기능:
- * 1. 네이버 지도 API 스크립트 동적 로드
- * 2. 관광지 목록을 마커로 표시
- * 3. 마커 클릭 시 인포윈도우 표시
+ * 1. 지도 제공자 로드 (네이버 지도 또는 Leaflet, 환경변수로 선택)
+ * 2. 관광지 목록을 마커로 표시 (줌 레벨별 클러스터링, 클러스터 클릭 시 확대)
+ * 3. 마커 클릭 시 인포윈도우 표시 (React로 렌더링, components/map-info-window.tsx)
  * 4. 지도-리스트 양방향 연동
- * 5. 지도 컨트롤 (줌, 지도 유형 선택)
+ * 5. 지도 컨트롤 (줌, 지도 유형 선택 - 위성 지도를 지원하는 제공자만)
+ * 6. 지도를 이동/확대하면 "이 지역 검색" 버튼 표시 (화면 범위 기준 주변 검색)
+ * 7. 접근성 지도 모드: 마커 목록을 키보드로 탐색 (components/map-marker-list.tsx),
+ *    선택한 관광지는 aria-live 영역으로 안내
  *
  * @dependencies
- * - naver.maps: 네이버 지도 API (동적 로드)
+ * - hooks/use-map-provider: 지도 제공자 로드
+ * - lib/types/map: 지도 제공자 인터페이스
  * - lib/utils/coordinates: 좌표 변환 유틸리티
  * - lib/constants/map: 지도 관련 상수
+ * - lib/utils/marker-cluster: 마커 클러스터링
+ * - components/map-info-window: 인포윈도우
+ * - components/map-marker-list: 접근성 지도 모드 마커 목록
  */
 
 "use client";
@@ -23,20 +31,24 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { TourItem } from "@/lib/types/tour";
-import { katecToWgs84 } from "@/lib/utils/coordinates";
-import { getRegionCenter, getRegionZoom } from "@/lib/constants/map";
-// getEnv는 사용하지 않음 (환경변수가 없어도 지도 기능만 비활성화)
+import { haversineDistance, parseTourCoordinates, type Coordinates } from "@/lib/utils/coordinates";
+import {
+  getRadiusZoom,
+  getRegionCenter,
+  getRegionZoom,
+  MARKER_CLUSTER_CONFIG,
+  NEAR_SEARCH_ZOOM,
+} from "@/lib/constants/map";
+import { clusterPoints, type MarkerCluster } from "@/lib/utils/marker-cluster";
+import { NEAR_SEARCH_DEFAULTS } from "@/lib/constants/api";
+import { useMapProvider } from "@/hooks/use-map-provider";
+import type { MapInstance, MapMarker, MapType } from "@/lib/types/map";
 import { cn } from "@/lib/utils";
-import { getMarkerColorByTypeId } from "@/lib/constants/tour-types";
-import { Loader2, MapPin, Navigation, Locate } from "lucide-react";
+import { getContentTypeNameById, getMarkerColorByTypeId } from "@/lib/constants/tour-types";
+import { Loader2, MapPin, Navigation, Locate, Crosshair, Search, ListOrdered } from "lucide-react";
 import { Button } from "@/components/ui/button";
-
-// Naver Maps API 타입 정의
-declare global {
-  interface Window {
-    naver?: typeof naver;
-  }
-}
+import { MapInfoWindowContent, MapInfoWindowPortal } from "@/components/map-info-window";
+import { MapMarkerList } from "@/components/map-marker-list";
 
 interface NaverMapProps {
   /** 관광지 목록 */
@@ -47,109 +59,56 @@ interface NaverMapProps {
   hoveredContentId?: string;
   /** 마커 클릭 시 콜백 */
   onMarkerClick?: (contentId: string) => void;
+  /** 현재 위치 버튼으로 위치를 가져왔을 때 콜백 (주변 검색용) */
+  onCurrentLocation?: (coords: Coordinates) => void;
+  /** 지도 중심 기준 거리순 버튼을 눌렀을 때 콜백 (지정 시에만 버튼 표시) */
+  onDistanceOrigin?: (coords: Coordinates) => void;
+  /** "이 지역 검색" 버튼을 눌렀을 때 콜백 (지정 시에만 버튼 표시, 반경 단위: m) */
+  onSearchArea?: (area: { center: Coordinates; radius: number }) => void;
   /** 초기 중심 좌표를 위한 지역 코드 */
   areaCode?: string;
+  /** 초기 중심 좌표를 위한 시/군/구 코드 (매핑이 있으면 시/군/구 중심으로 이동) */
+  sigunguCode?: string;
+  /** 초기 중심 좌표 (지정 시 지역 코드보다 우선) */
+  center?: Coordinates;
+  /** 초기 표시 반경 (m, center와 함께 지정하면 반경이 모두 보이도록 줌 레벨 결정) */
+  radius?: number;
   /** 추가 클래스명 */
   className?: string;
 }
 
 /**
- * 네이버 지도 스크립트 로드 상태
+ * 지도에 표시할 관광지와 WGS84 좌표
  */
-let scriptLoadPromise: Promise<void> | null = null;
+interface TourMarkerPoint {
+  tour: TourItem;
+  coords: Coordinates;
+}
 
 /**
- * 네이버 지도 API 스크립트 동적 로드
- * 중복 로드를 방지하기 위해 Promise를 캐싱합니다.
+ * 클러스터 대표 색상 (가장 많이 포함된 관광 타입의 마커 색상)
  */
-function loadNaverMapsScript(): Promise<void> {
-  // 이미 로드 중이거나 로드 완료된 경우
-  if (scriptLoadPromise) {
-    return scriptLoadPromise;
+function getClusterColor(points: TourMarkerPoint[]): string {
+  const counts = new Map<string, number>();
+  let dominantTypeId = points[0]?.tour.contenttypeid ?? "";
+  for (const { tour } of points) {
+    const count = (counts.get(tour.contenttypeid) ?? 0) + 1;
+    counts.set(tour.contenttypeid, count);
+    if (count > (counts.get(dominantTypeId) ?? 0)) {
+      dominantTypeId = tour.contenttypeid;
+    }
   }
+  return getMarkerColorByTypeId(dominantTypeId);
+}
 
-  // 이미 스크립트가 로드된 경우
-  if (typeof window !== "undefined" && window.naver?.maps) {
-    scriptLoadPromise = Promise.resolve();
-    return scriptLoadPromise;
+/**
+ * 지도 에러 메시지 (환경변수 관련 에러인 경우 더 친절한 메시지 제공)
+ */
+function getMapErrorMessage(message: string): string {
+  if (message.includes("NEXT_PUBLIC_NAVER_MAP_CLIENT_ID") || message.includes("환경변수")) {
+    return "네이버 지도 환경변수가 설정되지 않았습니다. 지도 기능을 사용하려면 NEXT_PUBLIC_NAVER_MAP_CLIENT_ID를 설정해주세요.";
   }
-
-  // 스크립트 로드
-  scriptLoadPromise = new Promise((resolve, reject) => {
-    if (typeof window === "undefined") {
-      reject(new Error("Window is not defined"));
-      return;
-    }
-
-    // 네이버 지도 클라이언트 ID 가져오기 (선택사항)
-    const clientId = process.env.NEXT_PUBLIC_NAVER_MAP_CLIENT_ID;
-    if (!clientId) {
-      console.warn(
-        "⚠️ NEXT_PUBLIC_NAVER_MAP_CLIENT_ID가 설정되지 않았습니다. 네이버 지도 기능이 비활성화됩니다."
-      );
-      reject(
-        new Error(
-          "NEXT_PUBLIC_NAVER_MAP_CLIENT_ID 환경변수가 설정되지 않았습니다."
-        )
-      );
-      return;
-    }
-    const scriptId = "naver-maps-script";
-    
-    // 이미 스크립트가 존재하는 경우
-    if (document.getElementById(scriptId)) {
-      // 스크립트 로드 완료 대기
-      const checkNaver = setInterval(() => {
-        if (window.naver?.maps) {
-          clearInterval(checkNaver);
-          resolve();
-        }
-      }, 100);
-      
-      // 타임아웃 (10초)
-      setTimeout(() => {
-        clearInterval(checkNaver);
-        if (!window.naver?.maps) {
-          reject(new Error("네이버 지도 API 로드 타임아웃"));
-        }
-      }, 10000);
-      return;
-    }
-
-    // 스크립트 생성 및 추가
-    const script = document.createElement("script");
-    script.id = scriptId;
-    script.src = `https://oapi.map.naver.com/openapi/v3/maps.js?ncpKeyId=${clientId}`;
-    script.async = true;
-    script.defer = true;
-
-    script.onload = () => {
-      // 네이버 지도 API가 로드될 때까지 대기
-      const checkNaver = setInterval(() => {
-        if (window.naver?.maps) {
-          clearInterval(checkNaver);
-          resolve();
-        }
-      }, 100);
-
-      // 타임아웃 (10초)
-      setTimeout(() => {
-        clearInterval(checkNaver);
-        if (!window.naver?.maps) {
-          reject(new Error("네이버 지도 API 로드 타임아웃"));
-        }
-      }, 10000);
-    };
-
-    script.onerror = () => {
-      scriptLoadPromise = null;
-      reject(new Error("네이버 지도 API 스크립트 로드 실패"));
-    };
-
-    document.head.appendChild(script);
-  });
-
-  return scriptLoadPromise;
+  return message;
 }
 
 /**
@@ -160,363 +119,268 @@ export function NaverMap({
   selectedContentId,
   hoveredContentId,
   onMarkerClick,
+  onCurrentLocation,
+  onDistanceOrigin,
+  onSearchArea,
   areaCode,
+  sigunguCode,
+  center,
+  radius,
   className,
 }: NaverMapProps) {
   const router = useRouter();
   const mapRef = useRef<HTMLDivElement>(null);
-  const mapInstanceRef = useRef<naver.maps.Map | null>(null);
-  const markersRef = useRef<naver.maps.Marker[]>([]);
-  const infoWindowRef = useRef<naver.maps.InfoWindow | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [mapType, setMapType] = useState<"normal" | "satellite">("normal");
+  const listToggleRef = useRef<HTMLButtonElement>(null);
+  const clustersRef = useRef<MarkerCluster<TourMarkerPoint>[]>([]);
+  const { provider, error: providerError } = useMapProvider();
+  const [mapInstance, setMapInstance] = useState<MapInstance | null>(null);
+  const [isMapLoading, setIsMapLoading] = useState(true);
+  const [initError, setInitError] = useState<string | null>(null);
+  const [mapType, setMapType] = useState<MapType>("normal");
+  // 현재 줌 레벨 (클러스터링 기준, 지도 이동/확대가 끝날 때 갱신)
+  const [zoom, setZoom] = useState<number | null>(null);
+  // 사용자가 지도를 이동/확대했는지 여부 ("이 지역 검색" 버튼 표시)
+  const [hasMoved, setHasMoved] = useState(false);
+  // 인포윈도우를 표시할 관광지와 마커
+  const [infoWindowTarget, setInfoWindowTarget] = useState<{
+    tour: TourItem;
+    marker: MapMarker;
+  } | null>(null);
+  // 접근성 지도 모드 (마커 목록 표시)
+  const [isListMode, setIsListMode] = useState(false);
+  const centerLat = center?.lat;
+  const centerLng = center?.lng;
+  const error = providerError ? getMapErrorMessage(providerError) : initError;
+  const isLoading = isMapLoading && !error;
 
   // 관광지 좌표 변환 및 필터링
   const tourCoordinates = useMemo(() => {
     return tours
       .map((tour) => {
-        try {
-          const coords = katecToWgs84(tour.mapx, tour.mapy);
-          return {
-            tour,
-            coords,
-          };
-        } catch {
-          // 좌표 변환 실패 시 제외
-          return null;
-        }
+        // 좌표가 없거나 변환할 수 없는 관광지는 지도에서 제외
+        const coords = parseTourCoordinates(tour.mapx, tour.mapy);
+        return coords ? { tour, coords } : null;
       })
-      .filter((item): item is { tour: TourItem; coords: { lng: number; lat: number } } => item !== null);
+      .filter((item): item is TourMarkerPoint => item !== null);
   }, [tours]);
 
-  // 지도 초기화
+  // 지도 초기화 (지도 제공자 로드 후, 지역/중심 좌표가 바뀌면 다시 생성)
   useEffect(() => {
-    if (!mapRef.current) return;
-
-    let isMounted = true;
-
-    const initMap = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        // 네이버 지도 API 스크립트 로드
-        await loadNaverMapsScript();
-
-        if (!isMounted || !mapRef.current) return;
-
-        // 네이버 지도 API 확인
-        if (!window.naver?.maps) {
-          throw new Error("네이버 지도 API를 사용할 수 없습니다.");
-        }
+    if (!mapRef.current || !provider) return;
+
+    setIsMapLoading(true);
+    setInitError(null);
+
+    let map: MapInstance;
+    try {
+      // 초기 중심 좌표 설정 (주변 검색 좌표가 있으면 우선 사용)
+      const initialCenter =
+        centerLat !== undefined && centerLng !== undefined
+          ? { lat: centerLat, lng: centerLng }
+          : getRegionCenter(areaCode, sigunguCode);
+      // 반경이 있으면(지도 영역 검색) 검색한 범위가 그대로 보이도록 줌 레벨 결정
+      const initialZoom =
+        centerLat !== undefined
+          ? radius
+            ? getRadiusZoom(
+                radius,
+                centerLat,
+                mapRef.current.clientWidth,
+                mapRef.current.clientHeight
+              )
+            : NEAR_SEARCH_ZOOM
+          : getRegionZoom(areaCode, sigunguCode);
+
+      // 지도 생성
+      map = provider.createMap(mapRef.current, { center: initialCenter, zoom: initialZoom });
+    } catch (err) {
+      setInitError(
+        getMapErrorMessage(
+          err instanceof Error ? err.message : "지도를 초기화하는 중 오류가 발생했습니다."
+        )
+      );
+      setIsMapLoading(false);
+      console.error("지도 초기화 오류:", err);
+      return;
+    }
 
-        // 초기 중심 좌표 설정
-        const center = getRegionCenter(areaCode);
-        const zoom = getRegionZoom(areaCode);
-
-        // 지도 생성
-        const map = new window.naver.maps.Map(mapRef.current, {
-          center: new window.naver.maps.LatLng(center.lat, center.lng),
-          zoom,
-          mapTypeControl: false, // 기본 컨트롤 비활성화 (커스텀 컨트롤 사용)
-        });
-
-        mapInstanceRef.current = map;
-        setIsLoading(false);
-
-        // 지도 타입 설정
-        map.setMapTypeId(
-          mapType === "satellite"
-            ? window.naver.maps.MapTypeId.SATELLITE
-            : window.naver.maps.MapTypeId.NORMAL
-        );
-      } catch (err) {
-        if (!isMounted) return;
-        const errorMessage =
-          err instanceof Error
-            ? err.message
-            : "지도를 초기화하는 중 오류가 발생했습니다.";
-        // 환경변수 관련 에러인 경우 더 친절한 메시지 제공
-        if (
-          errorMessage.includes("NEXT_PUBLIC_NAVER_MAP_CLIENT_ID") ||
-          errorMessage.includes("환경변수")
-        ) {
-          setError(
-            "네이버 지도 환경변수가 설정되지 않았습니다. 지도 기능을 사용하려면 NEXT_PUBLIC_NAVER_MAP_CLIENT_ID를 설정해주세요."
-          );
-        } else {
-          setError(errorMessage);
-        }
-        setIsLoading(false);
-        console.error("지도 초기화 오류:", err);
-      }
-    };
+    setMapInstance(map);
+    setIsMapLoading(false);
 
-    initMap();
+    // 지도 이동/확대가 끝날 때마다 줌 레벨 갱신 (클러스터 재계산)
+    setZoom(map.getZoom());
+    setHasMoved(false);
+    const unsubscribes = [
+      map.on("idle", () => setZoom(map.getZoom())),
+      // 지도를 드래그하거나 확대/축소하면 "이 지역 검색" 버튼 표시
+      map.on("dragend", () => setHasMoved(true)),
+      map.on("zoomchange", () => setHasMoved(true)),
+    ];
 
     return () => {
-      isMounted = false;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      setMapInstance(null);
+      map.destroy();
     };
-  }, [areaCode, mapType]);
+  }, [provider, areaCode, sigunguCode, centerLat, centerLng, radius]);
 
-  // 마커 생성 및 업데이트
+  // 지도 유형 적용
   useEffect(() => {
-    if (!mapInstanceRef.current || !window.naver?.maps) return;
-
-    const map = mapInstanceRef.current;
+    mapInstance?.setMapType(mapType);
+  }, [mapInstance, mapType]);
 
-    // 기존 마커 제거
-    markersRef.current.forEach((marker) => {
-      marker.setMap(null);
-    });
-    markersRef.current = [];
+  // 줌 레벨별 마커 클러스터 (지도 초기화 전에는 빈 목록)
+  const clusters = useMemo(
+    () => (zoom === null ? [] : clusterPoints(tourCoordinates, zoom, MARKER_CLUSTER_CONFIG)),
+    [tourCoordinates, zoom]
+  );
 
-    // 인포윈도우 닫기
-    if (infoWindowRef.current) {
-      infoWindowRef.current.close();
-      infoWindowRef.current = null;
-    }
+  // 마커(클러스터) 생성 및 업데이트 (다시 실행되면 기존 마커/인포윈도우 제거)
+  useEffect(() => {
+    if (!mapInstance) return;
+
+    const map = mapInstance;
+    const markers: MapMarker[] = [];
+    clustersRef.current = clusters;
+
+    clusters.forEach((cluster) => {
+      // 여러 관광지가 묶인 클러스터 마커 (개수와 가장 많은 관광 타입 색상 표시)
+      if (cluster.points.length > 1) {
+        const count = cluster.points.length;
+        const isActive = cluster.points.some(
+          ({ tour }) =>
+            tour.contentid === hoveredContentId || tour.contentid === selectedContentId
+        );
+        const clusterSize = (count < 10 ? 40 : count < 100 ? 48 : 56) + (isActive ? 8 : 0);
+        markers.push(
+          map.addMarker({
+            position: cluster.center,
+            title: `관광지 ${count}곳`,
+            zIndex: isActive ? 200 : 100,
+            size: clusterSize,
+            html: `
+              <div style="
+                width: ${clusterSize}px;
+                height: ${clusterSize}px;
+                background-color: ${getClusterColor(cluster.points)};
+                border: ${isActive ? 4 : 3}px solid white;
+                border-radius: 50%;
+                box-shadow: ${isActive ? "0 4px 8px" : "0 2px 4px"} rgba(0,0,0,0.4);
+                display: flex;
+                align-items: center;
+                justify-content: center;
+                color: white;
+                font-size: 14px;
+                font-weight: 700;
+                cursor: pointer;
+                transition: all 0.2s ease;
+              ">${count}</div>
+            `,
+            // 클러스터 클릭 시 클러스터 중심으로 확대
+            onClick: () =>
+              map.zoomTo(
+                cluster.center,
+                Math.min(
+                  map.getZoom() + MARKER_CLUSTER_CONFIG.clickZoomStep,
+                  MARKER_CLUSTER_CONFIG.maxZoom + 1
+                )
+              ),
+          })
+        );
+        return;
+      }
 
-    // 새 마커 생성
-    tourCoordinates.forEach(({ tour, coords }) => {
+      const { tour, coords } = cluster.points[0];
       // 관광 타입별 마커 색상 가져오기
       const markerColor = getMarkerColorByTypeId(tour.contenttypeid);
       const isHovered = hoveredContentId === tour.contentid;
       const isSelected = selectedContentId === tour.contentid;
-      
+
       // 호버되거나 선택된 경우 마커 크기 및 스타일 변경
       const markerSize = isHovered || isSelected ? 40 : 32;
       const borderWidth = isHovered || isSelected ? 3 : 2;
       const shadowSize = isHovered || isSelected ? "0 4px 8px" : "0 2px 4px";
-      
-      const marker = new window.naver.maps.Marker({
-        position: new window.naver.maps.LatLng(coords.lat, coords.lng),
-        map,
-        title: tour.title,
-        icon: {
-          content: `
-            <div style="
-              width: ${markerSize}px;
-              height: ${markerSize}px;
-              background-color: ${markerColor};
-              border: ${borderWidth}px solid white;
-              border-radius: 50%;
-              box-shadow: ${shadowSize} rgba(0,0,0,0.4);
-              display: flex;
-              align-items: center;
-              justify-content: center;
-              cursor: pointer;
-              transition: all 0.2s ease;
-            ">
-              <div style="
-                width: ${markerSize * 0.375}px;
-                height: ${markerSize * 0.375}px;
-                background-color: white;
-                border-radius: 50%;
-              "></div>
-            </div>
-          `,
-          anchor: new window.naver.maps.Point(markerSize / 2, markerSize / 2),
-        },
-      });
 
-      // 마커 클릭 이벤트
-      window.naver.maps.Event.addListener(marker, "click", () => {
-        // 인포윈도우 생성 및 표시
-        const infoContent = `
+      const marker = map.addMarker({
+        position: coords,
+        title: tour.title,
+        size: markerSize,
+        html: `
           <div style="
-            padding: 12px;
-            min-width: 200px;
-            max-width: 300px;
+            width: ${markerSize}px;
+            height: ${markerSize}px;
+            background-color: ${markerColor};
+            border: ${borderWidth}px solid white;
+            border-radius: 50%;
+            box-shadow: ${shadowSize} rgba(0,0,0,0.4);
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            cursor: pointer;
+            transition: all 0.2s ease;
           ">
-            <h3 style="
-              margin: 0 0 8px 0;
-              font-size: 16px;
-              font-weight: 600;
-              color: #1f2937;
-            ">${tour.title}</h3>
-            <p style="
-              margin: 0 0 12px 0;
-              font-size: 14px;
-              color: #6b7280;
-            ">${tour.addr1}</p>
-            <button
-              id="info-window-button-${tour.contentid}"
-              style="
-                width: 100%;
-                padding: 8px 16px;
-                background-color: #3b82f6;
-                color: white;
-                border: none;
-                border-radius: 6px;
-                font-size: 14px;
-                font-weight: 500;
-                cursor: pointer;
-                transition: background-color 0.2s;
-              "
-              onmouseover="this.style.backgroundColor='#2563eb'"
-              onmouseout="this.style.backgroundColor='#3b82f6'"
-            >
-              상세보기
-            </button>
+            <div style="
+              width: ${markerSize * 0.375}px;
+              height: ${markerSize * 0.375}px;
+              background-color: white;
+              border-radius: 50%;
+            "></div>
           </div>
-        `;
-
-        // 기존 인포윈도우 닫기
-        if (infoWindowRef.current) {
-          infoWindowRef.current.close();
-        }
-
-        // 새 인포윈도우 생성
-        const infoWindow = new window.naver.maps.InfoWindow({
-          content: infoContent,
-          maxWidth: 300,
-          backgroundColor: "white",
-          borderColor: "#e5e7eb",
-          borderWidth: 1,
-          anchorSize: { width: 10, height: 10 },
-          pixelOffset: { width: 0, height: -10 },
-        });
-
-        infoWindow.open(map, marker);
-        infoWindowRef.current = infoWindow;
-
-        // 상세보기 버튼 클릭 이벤트 (인포윈도우가 DOM에 추가된 후)
-        setTimeout(() => {
-          const button = document.getElementById(
-            `info-window-button-${tour.contentid}`
-          );
-          if (button) {
-            button.addEventListener("click", () => {
-              router.push(`/places/${tour.contentid}`);
-            });
+        `,
+        // 마커 클릭 시 인포윈도우 표시
+        onClick: () => {
+          setInfoWindowTarget({ tour, marker });
+
+          // 마커 클릭 콜백 호출
+          if (onMarkerClick) {
+            onMarkerClick(tour.contentid);
           }
-        }, 100);
-
-        // 마커 클릭 콜백 호출
-        if (onMarkerClick) {
-          onMarkerClick(tour.contentid);
-        }
+        },
       });
+      markers.push(marker);
 
-      markersRef.current.push(marker);
+      // 선택된 관광지는 마커를 다시 만들어도 인포윈도우 유지
+      if (isSelected) {
+        setInfoWindowTarget({ tour, marker });
+      }
     });
-  }, [tourCoordinates, router, onMarkerClick, hoveredContentId, selectedContentId]);
 
-  // 선택된 관광지로 지도 이동
+    return () => {
+      setInfoWindowTarget(null);
+      markers.forEach((marker) => marker.remove());
+    };
+  }, [mapInstance, clusters, onMarkerClick, hoveredContentId, selectedContentId]);
+
+  // 선택된 관광지로 지도 이동 (클러스터에 묶여 있으면 개별 마커가 보이도록 확대)
   useEffect(() => {
-    if (!mapInstanceRef.current || !selectedContentId) return;
+    if (!mapInstance || !selectedContentId) return;
 
     const selectedTour = tourCoordinates.find(
       (item) => item.tour.contentid === selectedContentId
     );
+    if (!selectedTour) return;
 
-    if (selectedTour) {
-      const map = mapInstanceRef.current;
-      const position = new window.naver.maps.LatLng(
-        selectedTour.coords.lat,
-        selectedTour.coords.lng
-      );
-
-      // 지도 이동 (애니메이션)
-      map.panTo(position);
-
-      // 해당 마커의 인포윈도우 표시
-      const marker = markersRef.current.find(
-        (m) =>
-          m.getPosition().lat() === selectedTour.coords.lat &&
-          m.getPosition().lng() === selectedTour.coords.lng
-      );
-
-      if (marker && window.naver?.maps) {
-        const infoContent = `
-          <div style="
-            padding: 12px;
-            min-width: 200px;
-            max-width: 300px;
-          ">
-            <h3 style="
-              margin: 0 0 8px 0;
-              font-size: 16px;
-              font-weight: 600;
-              color: #1f2937;
-            ">${selectedTour.tour.title}</h3>
-            <p style="
-              margin: 0 0 12px 0;
-              font-size: 14px;
-              color: #6b7280;
-            ">${selectedTour.tour.addr1}</p>
-            <button
-              id="info-window-button-${selectedTour.tour.contentid}"
-              style="
-                width: 100%;
-                padding: 8px 16px;
-                background-color: #3b82f6;
-                color: white;
-                border: none;
-                border-radius: 6px;
-                font-size: 14px;
-                font-weight: 500;
-                cursor: pointer;
-                transition: background-color 0.2s;
-              "
-              onmouseover="this.style.backgroundColor='#2563eb'"
-              onmouseout="this.style.backgroundColor='#3b82f6'"
-            >
-              상세보기
-            </button>
-          </div>
-        `;
-
-        if (infoWindowRef.current) {
-          infoWindowRef.current.close();
-        }
+    const isClustered = clustersRef.current.some(
+      ({ points }) =>
+        points.length > 1 && points.some(({ tour }) => tour.contentid === selectedContentId)
+    );
 
-        const infoWindow = new window.naver.maps.InfoWindow({
-          content: infoContent,
-          maxWidth: 300,
-          backgroundColor: "white",
-          borderColor: "#e5e7eb",
-          borderWidth: 1,
-          anchorSize: { width: 10, height: 10 },
-          pixelOffset: { width: 0, height: -10 },
-        });
-
-        infoWindow.open(map, marker);
-        infoWindowRef.current = infoWindow;
-
-        setTimeout(() => {
-          const button = document.getElementById(
-            `info-window-button-${selectedTour.tour.contentid}`
-          );
-          if (button) {
-            button.addEventListener("click", () => {
-              router.push(`/places/${selectedTour.tour.contentid}`);
-            });
-          }
-        }, 100);
-      }
+    // 지도 이동 (애니메이션, 인포윈도우는 마커 갱신 시 표시)
+    if (isClustered) {
+      mapInstance.zoomTo(selectedTour.coords, MARKER_CLUSTER_CONFIG.maxZoom + 1);
+    } else {
+      mapInstance.panTo(selectedTour.coords);
     }
-  }, [selectedContentId, tourCoordinates, router]);
+  }, [mapInstance, selectedContentId, tourCoordinates]);
 
   // 지도 타입 전환 핸들러
   const handleMapTypeToggle = useCallback(() => {
-    if (!mapInstanceRef.current || !window.naver?.maps) return;
-
-    const newMapType = mapType === "normal" ? "satellite" : "normal";
-    setMapType(newMapType);
-
-    mapInstanceRef.current.setMapTypeId(
-      newMapType === "satellite"
-        ? window.naver.maps.MapTypeId.SATELLITE
-        : window.naver.maps.MapTypeId.NORMAL
-    );
-  }, [mapType]);
+    setMapType((current) => (current === "normal" ? "satellite" : "normal"));
+  }, []);
 
   // 현재 위치로 이동 핸들러
   const handleCurrentLocation = useCallback(() => {
-    if (!mapInstanceRef.current || !window.naver?.maps) return;
+    if (!mapInstance) return;
 
     if (!navigator.geolocation) {
       alert("이 브라우저는 위치 서비스를 지원하지 않습니다.");
@@ -526,47 +390,95 @@ export function NaverMap({
     navigator.geolocation.getCurrentPosition(
       (position) => {
         const { latitude, longitude } = position.coords;
-        const map = mapInstanceRef.current;
-        if (!map) return;
+        const location = { lat: latitude, lng: longitude };
+        mapInstance.zoomTo(location, 15);
 
-        const location = new window.naver.maps.LatLng(latitude, longitude);
-        map.setCenter(location);
-        map.setZoom(15);
+        // 주변 관광지 검색 트리거
+        if (onCurrentLocation) {
+          onCurrentLocation(location);
+        }
       },
       (error) => {
         console.error("위치 정보를 가져올 수 없습니다:", error);
         alert("위치 정보를 가져올 수 없습니다. 위치 권한을 확인해주세요.");
       }
     );
-  }, []);
+  }, [mapInstance, onCurrentLocation]);
 
-  // 컴포넌트 언마운트 시 정리
-  useEffect(() => {
-    return () => {
-      // 마커 제거
-      markersRef.current.forEach((marker) => {
-        marker.setMap(null);
-      });
-      markersRef.current = [];
+  // 지도 중심 기준 거리순 핸들러 (위치 권한 없이 원하는 지점 기준으로 정렬)
+  const handleDistanceOrigin = useCallback(() => {
+    if (!mapInstance || !onDistanceOrigin) return;
 
-      // 인포윈도우 닫기
-      if (infoWindowRef.current) {
-        infoWindowRef.current.close();
-        infoWindowRef.current = null;
-      }
+    onDistanceOrigin(mapInstance.getCenter());
+  }, [mapInstance, onDistanceOrigin]);
 
-      // 지도 인스턴스 정리
-      if (mapInstanceRef.current) {
-        mapInstanceRef.current = null;
-      }
-    };
+  // "이 지역 검색" 핸들러 (화면 중심에서 모서리까지를 반경으로 주변 검색)
+  const handleSearchArea = useCallback(() => {
+    if (!mapInstance || !onSearchArea) return;
+
+    const areaCenter = mapInstance.getCenter();
+    // 화면 전체를 덮는 반경 (100m 단위 올림, API 최대 반경 이내)
+    const distance = haversineDistance(areaCenter, mapInstance.getBounds().northEast);
+    const areaRadius = Math.min(
+      Math.ceil(distance / 100) * 100,
+      NEAR_SEARCH_DEFAULTS.maxRadius
+    );
+
+    setHasMoved(false);
+    onSearchArea({ center: areaCenter, radius: areaRadius });
+  }, [mapInstance, onSearchArea]);
+
+  // 상세페이지 이동 핸들러 (인포윈도우 버튼, 마커 목록 Enter)
+  const handleOpenDetail = useCallback(
+    (contentId: string) => {
+      router.push(`/places/${contentId}`);
+    },
+    [router]
+  );
+
+  // 마커 목록 닫기 핸들러 (목록 전환 버튼으로 포커스 복귀)
+  const handleCloseList = useCallback(() => {
+    setIsListMode(false);
+    listToggleRef.current?.focus();
   }, []);
 
+  // 스크린 리더 안내 문구 (선택된 관광지)
+  const selectedIndex = tourCoordinates.findIndex(
+    ({ tour }) => tour.contentid === selectedContentId
+  );
+  const selectedTour = selectedIndex >= 0 ? tourCoordinates[selectedIndex].tour : null;
+  const announcement = selectedTour
+    ? `${selectedTour.title} 선택됨. ${getContentTypeNameById(selectedTour.contenttypeid)}${
+        selectedTour.addr1 ? `, ${selectedTour.addr1}` : ""
+      }. 전체 ${tourCoordinates.length}곳 중 ${selectedIndex + 1}번째`
+    : "";
+
   return (
-    <div className={cn("relative w-full h-full min-h-[400px] lg:min-h-[600px]", className)}>
+    <div
+      className={cn("relative w-full h-full min-h-[400px] lg:min-h-[600px]", className)}
+      role="region"
+      aria-label="관광지 지도"
+    >
       {/* 지도 컨테이너 */}
       <div ref={mapRef} className="w-full h-full rounded-lg overflow-hidden" />
 
+      {/* 인포윈도우 (React로 렌더링하여 관광지명/주소 이스케이프) */}
+      {infoWindowTarget && (
+        <MapInfoWindowPortal marker={infoWindowTarget.marker} maxWidth={300}>
+          <MapInfoWindowContent
+            title={infoWindowTarget.tour.title}
+            description={infoWindowTarget.tour.addr1}
+            actionLabel="상세보기"
+            onAction={() => handleOpenDetail(infoWindowTarget.tour.contentid)}
+          />
+        </MapInfoWindowPortal>
+      )}
+
+      {/* 선택된 관광지 안내 (스크린 리더) */}
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+
       {/* 로딩 상태 */}
       {isLoading && (
         <div className="absolute inset-0 flex items-center justify-center bg-muted/50 rounded-lg">
@@ -590,7 +502,7 @@ export function NaverMap({
                 </p>
               ) : error.includes("로드") || error.includes("타임아웃") ? (
                 <p className="text-xs text-muted-foreground">
-                  네이버 지도 API를 불러오는 중 문제가 발생했습니다. 잠시 후 다시 시도해주세요.
+                  지도 API를 불러오는 중 문제가 발생했습니다. 잠시 후 다시 시도해주세요.
                 </p>
               ) : (
                 <p className="text-xs text-muted-foreground">
@@ -610,33 +522,90 @@ export function NaverMap({
         </div>
       )}
 
+      {/* 이 지역 검색 버튼 (지도를 이동/확대한 후 표시) */}
+      {!isLoading && !error && onSearchArea && hasMoved && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10">
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleSearchArea}
+            className="rounded-full shadow-md"
+          >
+            <Search className="h-4 w-4" aria-hidden="true" />
+            이 지역 검색
+          </Button>
+        </div>
+      )}
+
+      {/* 접근성 지도 모드: 마커 목록 */}
+      {!isLoading && !error && isListMode && (
+        <MapMarkerList
+          tours={tourCoordinates.map(({ tour }) => tour)}
+          selectedContentId={selectedContentId}
+          onSelect={(contentId) => onMarkerClick?.(contentId)}
+          onOpen={handleOpenDetail}
+          onClose={handleCloseList}
+          className="absolute bottom-4 left-4 right-16 z-10 max-h-[50%] sm:right-auto sm:w-72"
+        />
+      )}
+
       {/* 지도 컨트롤 */}
       {!isLoading && !error && (
         <div className="absolute top-4 right-4 flex flex-col gap-2 z-10">
-          {/* 현재 위치 버튼 */}
+          {/* 접근성 지도 모드 전환 버튼 (키보드로 마커 목록 탐색) */}
           <Button
+            ref={listToggleRef}
             type="button"
-            variant="outline"
+            variant={isListMode ? "default" : "outline"}
             size="sm"
-            onClick={handleCurrentLocation}
-            className="bg-background/90 backdrop-blur-sm shadow-md"
-            aria-label="현재 위치로 이동"
-            title="현재 위치로 이동"
+            onClick={() => setIsListMode((current) => !current)}
+            className={cn("shadow-md", !isListMode && "bg-background/90 backdrop-blur-sm")}
+            aria-pressed={isListMode}
+            aria-label="지도 장소 목록으로 탐색"
+            title={isListMode ? "장소 목록 닫기" : "장소 목록으로 탐색"}
           >
-            <Locate className="h-4 w-4" />
+            <ListOrdered className="h-4 w-4" aria-hidden="true" />
           </Button>
-          {/* 지도 유형 선택 버튼 */}
+          {/* 현재 위치 버튼 */}
           <Button
             type="button"
             variant="outline"
             size="sm"
-            onClick={handleMapTypeToggle}
+            onClick={handleCurrentLocation}
             className="bg-background/90 backdrop-blur-sm shadow-md"
-            aria-label="지도 유형 전환"
-            title={mapType === "normal" ? "위성 지도로 전환" : "일반 지도로 전환"}
+            aria-label="현재 위치 주변 관광지 보기"
+            title="현재 위치 주변 관광지 보기"
           >
-            {mapType === "normal" ? "위성" : "일반"}
+            <Locate className="h-4 w-4" />
           </Button>
+          {/* 지도 중심 기준 거리순 버튼 */}
+          {onDistanceOrigin && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleDistanceOrigin}
+              className="bg-background/90 backdrop-blur-sm shadow-md"
+              aria-label="지도 중심 기준 거리순 정렬"
+              title="지도 중심 기준 거리순 정렬"
+            >
+              <Crosshair className="h-4 w-4" />
+            </Button>
+          )}
+          {/* 지도 유형 선택 버튼 (위성 지도를 지원하는 제공자만) */}
+          {provider?.supportsSatellite && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleMapTypeToggle}
+              className="bg-background/90 backdrop-blur-sm shadow-md"
+              aria-label="지도 유형 전환"
+              title={mapType === "normal" ? "위성 지도로 전환" : "일반 지도로 전환"}
+            >
+              {mapType === "normal" ? "위성" : "일반"}
+            </Button>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,35 @@
+/**
+ * @file components/partial-result-banner.tsx
+ * @description 일부 결과 안내 배너
+ *
+ * 조회 한도를 넘거나 일부 목록 조회에 실패하여 전체 결과 중 일부만 표시할 때,
+ * 목록이 전부가 아님을 사용자에게 알립니다.
+ */
+
+import { Info } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface PartialResultBannerProps {
+  /** 안내 문구 */
+  message: string;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 일부 결과 안내 배너
+ */
+export function PartialResultBanner({ message, className }: PartialResultBannerProps) {
+  return (
+    <div
+      role="status"
+      className={cn(
+        "flex items-start gap-2 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-900 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-100",
+        className
+      )}
+    >
+      <Info className="h-4 w-4 mt-0.5 shrink-0" aria-hidden="true" />
+      <p>{message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * @file components/route-stop-button.tsx
+ * @description 경로 담기 버튼 컴포넌트
+ *
+ * 관광지를 여러 장소 경로(길찾기)에 추가하거나 제거하는 토글 버튼입니다.
+ * 관광지 카드(홈 목록, 북마크)와 상세페이지 경로 패널에서 사용합니다.
+ *
+ * @dependencies
+ * - @/hooks/use-route-planner: useRoutePlanner
+ * - @/lib/utils/coordinates: parseTourCoordinates
+ */
+
+"use client";
+
+import { Check, Route } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useRoutePlanner } from "@/hooks/use-route-planner";
+import { ROUTE_PLANNER_CONFIG } from "@/lib/constants/map";
+import { parseTourCoordinates } from "@/lib/utils/coordinates";
+import { toastError, toastInfo, toastSuccess } from "@/lib/utils/toast";
+import { cn } from "@/lib/utils";
+
+interface RouteStopButtonProps {
+  /** 콘텐츠ID */
+  contentId: string;
+  /** 관광지명 */
+  title: string;
+  /** 경도 (KATEC 좌표계) */
+  mapx?: string;
+  /** 위도 (KATEC 좌표계) */
+  mapy?: string;
+  /** 버튼 문구 표시 여부 (false면 아이콘만 표시) */
+  showLabel?: boolean;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 경로 담기 버튼 컴포넌트
+ */
+export function RouteStopButton({
+  contentId,
+  title,
+  mapx,
+  mapy,
+  showLabel = false,
+  className,
+}: RouteStopButtonProps) {
+  const { stops, hasStop, addStop, removeStop } = useRoutePlanner();
+  const isAdded = hasStop(contentId);
+  const label = isAdded ? "경로에서 빼기" : "경로에 담기";
+
+  const handleClick = (e: React.MouseEvent<HTMLButtonElement>) => {
+    // 카드 링크(상세페이지 이동)로 클릭이 전달되지 않도록 함
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (isAdded) {
+      removeStop(contentId);
+      toastInfo("경로에서 뺐습니다.", title);
+      return;
+    }
+
+    const position = parseTourCoordinates(mapx, mapy);
+    if (!position) {
+      toastError("위치 정보가 없는 장소는 경로에 담을 수 없습니다.");
+      return;
+    }
+
+    if (!addStop({ contentId, title, position })) {
+      toastError(`경로에는 최대 ${ROUTE_PLANNER_CONFIG.maxStops}곳까지 담을 수 있습니다.`);
+      return;
+    }
+    toastSuccess(
+      `경로에 담았습니다. (${stops.length + 1}/${ROUTE_PLANNER_CONFIG.maxStops})`,
+      "관광지 상세페이지 지도에서 경로를 확인할 수 있습니다."
+    );
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={isAdded ? "default" : "outline"}
+      size="sm"
+      onClick={handleClick}
+      className={cn(!isAdded && "bg-background/90 backdrop-blur-sm", className)}
+      aria-pressed={isAdded}
+      aria-label={showLabel ? undefined : `${title} ${label}`}
+      title={label}
+    >
+      {isAdded ? (
+        <Check className="h-4 w-4" aria-hidden="true" />
+      ) : (
+        <Route className="h-4 w-4" aria-hidden="true" />
+      )}
+      {showLabel && label}
+    </Button>
+  );
+}
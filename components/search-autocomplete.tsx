@@ -0,0 +1,482 @@
+/**
+ * @file components/search-autocomplete.tsx
+ * @description 검색창 자동완성 컴포넌트
+ *
+ * 네비게이션 바 검색창에 입력하는 동안 일치하는 관광지/지역을 추천하고,
+ * 검색어가 비어 있으면 최근 검색어와 인기 검색어를 보여줍니다.
+ *
+ * 핵심 구현 로직:
+ * - 입력이 멈추면(디바운스) /api/search/suggest 호출, 이전 요청은 취소
+ * - ARIA combobox 패턴 (aria-expanded, aria-controls, aria-activedescendant)
+ * - 키보드 탐색: ↑/↓ 이동, Enter 선택, Esc 닫기
+ * - 관광지 선택 시 상세페이지로 이동, 지역 선택 시 홈페이지 지역 필터(areaCode) 적용
+ * - 최근 검색어는 브라우저(localStorage)에 저장
+ *
+ * @dependencies
+ * - @/components/highlighted-text: HighlightedText
+ * - @/lib/constants/tour-types: getContentTypeNameById
+ * - /api/search/suggest: 추천 조회
+ */
+
+"use client";
+
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import {
+  BedDouble,
+  Bike,
+  Building2,
+  Clock,
+  Landmark,
+  MapPin,
+  PartyPopper,
+  Route,
+  Search,
+  ShoppingBag,
+  TrendingUp,
+  Utensils,
+  type LucideIcon,
+} from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { HighlightedText } from "@/components/highlighted-text";
+import { getContentTypeNameById } from "@/lib/constants/tour-types";
+import { cn } from "@/lib/utils";
+import type { ApiResult } from "@/lib/types/api";
+import type {
+  PlaceSuggestion,
+  RegionSuggestion,
+  SearchSuggestions,
+} from "@/lib/types/search";
+
+/**
+ * 추천 요청 대기 시간 (ms, 입력이 멈춘 뒤 호출)
+ */
+const SUGGEST_DEBOUNCE_MS = 250;
+
+/**
+ * 최근 검색어 저장 키와 최대 개수
+ */
+const RECENT_SEARCHES_KEY = "recent-searches";
+const MAX_RECENT_SEARCHES = 5;
+
+/**
+ * 콘텐츠 타입별 아이콘
+ */
+const CONTENT_TYPE_ICONS: Record<string, LucideIcon> = {
+  "12": Landmark,
+  "14": Building2,
+  "15": PartyPopper,
+  "25": Route,
+  "28": Bike,
+  "32": BedDouble,
+  "38": ShoppingBag,
+  "39": Utensils,
+};
+
+/**
+ * 추천 항목
+ */
+type SuggestionOption =
+  | { type: "place"; place: PlaceSuggestion }
+  | { type: "region"; region: RegionSuggestion }
+  | { type: "recent"; query: string }
+  | { type: "popular"; query: string };
+
+/**
+ * 추천 항목 그룹
+ */
+interface SuggestionGroup {
+  key: string;
+  label: string;
+  options: SuggestionOption[];
+}
+
+interface SearchAutocompleteProps {
+  /** 검색 입력 필드 ID (데스크톱/모바일 검색창 구분) */
+  id: string;
+  /** 검색 입력 필드 추가 클래스 */
+  inputClassName?: string;
+  /** 검색/선택으로 페이지를 이동한 뒤 호출 (모바일 메뉴 닫기 등) */
+  onNavigate?: () => void;
+}
+
+/**
+ * 최근 검색어 조회
+ */
+function loadRecentSearches(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) ?? "[]");
+    return Array.isArray(saved)
+      ? saved.filter((query): query is string => typeof query === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 최근 검색어 저장 (가장 최근 검색어가 맨 앞)
+ */
+function saveRecentSearch(query: string): string[] {
+  const recent = [query, ...loadRecentSearches().filter((saved) => saved !== query)].slice(
+    0,
+    MAX_RECENT_SEARCHES
+  );
+  try {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent));
+  } catch {
+    // 저장 공간이 없거나 비활성화된 경우 최근 검색어만 저장하지 않음
+  }
+  return recent;
+}
+
+/**
+ * 추천 항목 키 (React key 및 옵션 ID용)
+ */
+function getOptionKey(option: SuggestionOption): string {
+  switch (option.type) {
+    case "place":
+      return `place-${option.place.contentId}`;
+    case "region":
+      return `region-${option.region.areaCode}`;
+    default:
+      return `${option.type}-${option.query}`;
+  }
+}
+
+/**
+ * 검색창 자동완성 컴포넌트
+ */
+export function SearchAutocomplete({ id, inputClassName, onNavigate }: SearchAutocompleteProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const listboxId = useId();
+
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const trimmedQuery = query.trim();
+
+  // 최근 검색어 로드 (localStorage는 클라이언트에서만 접근 가능)
+  useEffect(() => {
+    setRecentSearches(loadRecentSearches());
+  }, []);
+
+  // 입력이 멈추면 추천 조회 (검색창이 열려 있을 때만)
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(
+          `/api/search/suggest?q=${encodeURIComponent(trimmedQuery)}`,
+          { signal: controller.signal }
+        );
+        const result = (await response.json()) as ApiResult<SearchSuggestions>;
+        // 자동완성은 부가 기능이므로 실패 시 추천만 비움
+        setSuggestions(result.success === true ? result.data : null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setSuggestions(null);
+        if (process.env.NODE_ENV === "development") {
+          console.error("검색어 추천 조회 실패:", error);
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmedQuery, isOpen]);
+
+  // 검색어가 있으면 지역/관광지, 없으면 최근/인기 검색어
+  const groups = useMemo<SuggestionGroup[]>(() => {
+    const result: SuggestionGroup[] = trimmedQuery
+      ? [
+          {
+            key: "regions",
+            label: "지역",
+            options: (suggestions?.regions ?? []).map((region) => ({ type: "region", region })),
+          },
+          {
+            key: "places",
+            label: "관광지",
+            options: (suggestions?.places ?? []).map((place) => ({ type: "place", place })),
+          },
+        ]
+      : [
+          {
+            key: "recent",
+            label: "최근 검색어",
+            options: recentSearches.map((recent) => ({ type: "recent", query: recent })),
+          },
+          {
+            key: "popular",
+            label: "인기 검색어",
+            options: (suggestions?.popular ?? []).map((popular) => ({
+              type: "popular",
+              query: popular,
+            })),
+          },
+        ];
+    return result.filter((group) => group.options.length > 0);
+  }, [trimmedQuery, suggestions, recentSearches]);
+
+  const options = useMemo(() => groups.flatMap((group) => group.options), [groups]);
+  const isExpanded = isOpen && options.length > 0;
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
+
+  // 추천 목록이 바뀌면 선택 초기화
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [options]);
+
+  // 키보드로 선택한 항목이 보이도록 스크롤
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    document
+      .getElementById(`${listboxId}-option-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex, listboxId]);
+
+  /**
+   * 페이지 이동 후 검색창 정리
+   */
+  const finishNavigation = (path: string) => {
+    router.push(path);
+    setIsOpen(false);
+    inputRef.current?.blur();
+    onNavigate?.();
+  };
+
+  /**
+   * 키워드 검색 실행
+   */
+  const submitKeyword = (keyword: string) => {
+    const trimmed = keyword.trim();
+    if (!trimmed) return;
+
+    setQuery(trimmed);
+    setRecentSearches(saveRecentSearch(trimmed));
+    finishNavigation(`/?keyword=${encodeURIComponent(trimmed)}`);
+  };
+
+  /**
+   * 추천 항목 선택
+   */
+  const selectOption = (option: SuggestionOption) => {
+    switch (option.type) {
+      case "place":
+        setRecentSearches(saveRecentSearch(option.place.title));
+        setQuery("");
+        finishNavigation(`/places/${option.place.contentId}`);
+        break;
+      case "region": {
+        // 홈페이지에서는 현재 필터를 유지한 채 지역만 변경 (지역명으로 검색하지 않도록 검색어 제거)
+        const params = new URLSearchParams(pathname === "/" ? window.location.search : "");
+        params.set("areaCode", option.region.areaCode);
+        params.delete("sigunguCode");
+        params.delete("keyword");
+        params.delete("pageNo");
+        setQuery("");
+        finishNavigation(`/?${params.toString()}`);
+        break;
+      }
+      default:
+        submitKeyword(option.query);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    submitKeyword(query);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        e.preventDefault();
+        if (!isOpen) {
+          setIsOpen(true);
+          return;
+        }
+        if (options.length === 0) return;
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        // 처음/끝에서 반대쪽으로 순환 (-1은 입력창)
+        setActiveIndex((current) => {
+          const next = current + step;
+          if (next >= options.length) return -1;
+          if (next < -1) return options.length - 1;
+          return next;
+        });
+        break;
+      }
+      case "Enter":
+        if (isExpanded && activeIndex >= 0) {
+          e.preventDefault();
+          selectOption(options[activeIndex]);
+        }
+        break;
+      case "Escape":
+        if (isOpen) {
+          e.preventDefault();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        }
+        break;
+    }
+  };
+
+  let optionIndex = 0;
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2" role="search">
+      <label htmlFor={id} className="sr-only">
+        관광지 검색
+      </label>
+      <div className="relative flex-1">
+        <Search
+          className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+          aria-hidden="true"
+        />
+        <Input
+          ref={inputRef}
+          id={id}
+          type="search"
+          placeholder="관광지 검색..."
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          className={cn("pl-9", inputClassName)}
+          role="combobox"
+          autoComplete="off"
+          aria-autocomplete="list"
+          aria-expanded={isExpanded}
+          aria-controls={listboxId}
+          aria-activedescendant={
+            isExpanded && activeIndex >= 0 ? getOptionId(activeIndex) : undefined
+          }
+          aria-busy={isLoading}
+        />
+
+        <div
+          id={listboxId}
+          role="listbox"
+          aria-label="검색어 추천"
+          hidden={!isExpanded}
+          className="absolute left-0 right-0 top-full z-50 mt-1 max-h-96 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {isExpanded &&
+            groups.map((group) => (
+              <div
+                key={group.key}
+                role="group"
+                aria-labelledby={`${listboxId}-${group.key}`}
+                className="py-1"
+              >
+                <div
+                  id={`${listboxId}-${group.key}`}
+                  role="presentation"
+                  className="px-2 py-1 text-xs font-medium text-muted-foreground"
+                >
+                  {group.label}
+                </div>
+                {group.options.map((option) => {
+                  const index = optionIndex++;
+                  return (
+                    <div
+                      key={getOptionKey(option)}
+                      id={getOptionId(index)}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      // 입력창 포커스를 유지하여 blur로 목록이 먼저 닫히지 않도록 함
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => selectOption(option)}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      className={cn(
+                        "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm",
+                        index === activeIndex && "bg-accent text-accent-foreground"
+                      )}
+                    >
+                      <SuggestionOptionContent option={option} />
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+        </div>
+
+        {/* 스크린 리더에 추천 개수 안내 */}
+        <div className="sr-only" aria-live="polite">
+          {isExpanded ? `검색어 추천 ${options.length}개` : ""}
+        </div>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * 추천 항목 내용 (아이콘 + 이름 + 부가 정보)
+ */
+function SuggestionOptionContent({ option }: { option: SuggestionOption }) {
+  const iconClassName = "h-4 w-4 shrink-0 text-muted-foreground";
+
+  switch (option.type) {
+    case "place": {
+      const { place } = option;
+      const Icon = CONTENT_TYPE_ICONS[place.contentTypeId] ?? MapPin;
+      const typeName = getContentTypeNameById(place.contentTypeId);
+      return (
+        <>
+          <Icon className={iconClassName} aria-hidden="true" />
+          <span className="min-w-0 flex-1 truncate">
+            <HighlightedText text={place.title} ranges={place.highlights} />
+          </span>
+          <span className="shrink-0 text-xs text-muted-foreground">
+            {[place.areaName, typeName].filter(Boolean).join(" · ")}
+          </span>
+        </>
+      );
+    }
+    case "region":
+      return (
+        <>
+          <MapPin className={iconClassName} aria-hidden="true" />
+          <span className="min-w-0 flex-1 truncate">
+            <HighlightedText text={option.region.name} ranges={option.region.highlights} />
+          </span>
+          <span className="shrink-0 text-xs text-muted-foreground">지역 필터</span>
+        </>
+      );
+    case "recent":
+      return (
+        <>
+          <Clock className={iconClassName} aria-hidden="true" />
+          <span className="min-w-0 flex-1 truncate">{option.query}</span>
+        </>
+      );
+    case "popular":
+      return (
+        <>
+          <TrendingUp className={iconClassName} aria-hidden="true" />
+          <span className="min-w-0 flex-1 truncate">{option.query}</span>
+        </>
+      );
+  }
+}
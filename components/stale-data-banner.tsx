@@ -0,0 +1,36 @@
+/**
+ * @file components/stale-data-banner.tsx
+ * @description 오래된 데이터 안내 배너
+ *
+ * 한국관광공사 API 장애로 마지막 정상 응답을 대신 표시할 때,
+ * 최신 정보가 아닐 수 있음을 사용자에게 알립니다.
+ */
+
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StaleDataBannerProps {
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 오래된 데이터 안내 배너
+ */
+export function StaleDataBanner({ className }: StaleDataBannerProps) {
+  return (
+    <div
+      role="status"
+      className={cn(
+        "flex items-start gap-2 rounded-lg border border-yellow-300 bg-yellow-50 px-4 py-3 text-sm text-yellow-900 dark:border-yellow-700 dark:bg-yellow-950 dark:text-yellow-100",
+        className
+      )}
+    >
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" aria-hidden="true" />
+      <p>
+        데이터가 최신이 아닐 수 있습니다. 관광 정보 서비스가 일시적으로 원활하지
+        않아 이전에 조회한 정보를 표시하고 있습니다.
+      </p>
+    </div>
+  );
+}
@@ -3,25 +3,26 @@
  * @description 통계 데이터 에러 표시 컴포넌트 (재시도 버튼 포함)
  *
  * Server Component에서 사용할 수 있는 에러 컴포넌트입니다.
- * 재시도 버튼을 클릭하면 페이지를 새로고침합니다.
+ * 에러 종류에 따라 복구 방법을 안내하며, 재시도 버튼을 클릭하면 페이지를 새로고침합니다.
  */
 
 "use client";
 
 import { useRouter } from "next/navigation";
-import { Error } from "@/components/ui/error";
+import { ApiErrorState } from "@/components/api-error-state";
+import type { TourApiErrorKind } from "@/lib/types/api";
 
 interface StatsErrorProps {
   /** 에러 메시지 */
   message: string;
-  /** 에러 타입 */
-  type?: "network" | "api" | "general";
+  /** 에러 종류 */
+  kind?: TourApiErrorKind;
 }
 
 /**
  * 통계 데이터 에러 표시 컴포넌트
  */
-export function StatsError({ message, type = "api" }: StatsErrorProps) {
+export function StatsError({ message, kind }: StatsErrorProps) {
   const router = useRouter();
 
   const handleRetry = () => {
@@ -29,12 +30,7 @@ export function StatsError({ message, type = "api" }: StatsErrorProps) {
   };
 
   return (
-    <Error
-      message={message}
-      type={type}
-      onRetry={handleRetry}
-      retryText="다시 시도"
-    />
+    <ApiErrorState message={message} kind={kind} onRetry={handleRetry} />
   );
 }
 
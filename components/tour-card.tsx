@@ -3,8 +3,10 @@
  * @description 관광지 카드 컴포넌트
  *
  * 관광지 정보를 카드 형태로 표시하는 컴포넌트입니다.
- * 썸네일 이미지, 관광지명, 주소, 타입 뱃지를 표시하고,
- * 클릭 시 상세페이지로 이동합니다.
+ * 썸네일 이미지, 관광지명, 주소, 타입/분류 뱃지(축제/행사는 행사 기간),
+ * 기준 위치로부터의 거리 뱃지(주변 검색/거리순 정렬)를 표시하고,
+ * 클릭 시 상세페이지로 이동합니다. 검색 결과는 관광지명의 검색어 일치 구간을 강조합니다.
+ * 썸네일 위의 경로 담기 버튼으로 여러 장소 경로(길찾기)에 추가할 수 있습니다.
  */
 
 "use client";
@@ -12,13 +14,21 @@
 import { useState, memo } from "react";
 import Link from "next/link";
 import Image from "next/image";
+import { CalendarDays, Navigation } from "lucide-react";
 import { TourItem } from "@/lib/types/tour";
+import type { HighlightRange } from "@/lib/types/search";
+import { HighlightedText } from "@/components/highlighted-text";
+import { RouteStopButton } from "@/components/route-stop-button";
 import { getContentTypeNameById } from "@/lib/constants/tour-types";
 import { cn } from "@/lib/utils";
+import { formatEventPeriod } from "@/lib/utils/date";
+import { formatDistance } from "@/lib/utils/coordinates";
 
 interface TourCardProps {
   /** 관광지 정보 */
   tour: TourItem;
+  /** 분류명 (예: 해수욕장, 사찰, 등산로) */
+  categoryName?: string;
   /** 추가 클래스명 */
   className?: string;
   /** 선택된 상태 */
@@ -31,6 +41,8 @@ interface TourCardProps {
   onMouseLeave?: () => void;
   /** 이미지 priority 속성 (above-the-fold 이미지용) */
   priority?: boolean;
+  /** 관광지명 하이라이트 범위 (검색 결과일 때) */
+  highlights?: HighlightRange[];
 }
 
 /**
@@ -45,12 +57,14 @@ const DEFAULT_IMAGE_URL =
  */
 export const TourCard = memo(function TourCard({
   tour,
+  categoryName,
   className,
   isSelected = false,
   onClick,
   onMouseEnter,
   onMouseLeave,
   priority = false,
+  highlights,
 }: TourCardProps) {
   const {
     contentid,
@@ -59,6 +73,11 @@ export const TourCard = memo(function TourCard({
     addr2,
     firstimage,
     contenttypeid,
+    eventstartdate,
+    eventenddate,
+    dist,
+    mapx,
+    mapy,
   } = tour;
 
   // 이미지 에러 상태 관리
@@ -74,6 +93,13 @@ export const TourCard = memo(function TourCard({
   // 주소 조합
   const address = addr2 ? `${addr1} ${addr2}` : addr1;
 
+  // 행사 기간 (searchFestival2 응답에만 포함)
+  const eventPeriod = formatEventPeriod(eventstartdate, eventenddate);
+
+  // 기준 위치로부터의 거리 (주변 검색 또는 거리순 정렬일 때만 포함)
+  const distanceMeters = dist ? parseFloat(dist) : NaN;
+  const distance = Number.isFinite(distanceMeters) ? formatDistance(distanceMeters) : null;
+
   const handleClick = (e: React.MouseEvent) => {
     // 지도 연동을 위한 클릭 핸들러가 있으면 먼저 실행
     // 상세페이지 이동은 인포윈도우의 버튼을 통해 수행
@@ -97,7 +123,7 @@ export const TourCard = memo(function TourCard({
   };
 
   return (
-    <div id={`tour-card-${contentid}`}>
+    <div id={`tour-card-${contentid}`} className="relative">
       <Link
         href={`/places/${contentid}`}
         onClick={handleClick}
@@ -132,7 +158,7 @@ export const TourCard = memo(function TourCard({
       <div className="flex flex-1 flex-col gap-2 p-4">
         {/* 관광지명 */}
         <h3 className="line-clamp-2 text-lg font-semibold leading-tight group-hover:text-primary transition-colors">
-          {title}
+          <HighlightedText text={title} ranges={highlights} />
         </h3>
 
         {/* 주소 */}
@@ -140,14 +166,44 @@ export const TourCard = memo(function TourCard({
           {address}
         </p>
 
-        {/* 관광 타입 뱃지 */}
-        <div className="mt-auto flex items-center gap-2">
+        {/* 행사 기간 (축제/행사) */}
+        {eventPeriod && (
+          <p className="flex items-center gap-1.5 text-sm font-medium text-primary">
+            <CalendarDays className="h-4 w-4 shrink-0" aria-hidden="true" />
+            <span aria-label={`행사 기간 ${eventPeriod}`}>{eventPeriod}</span>
+          </p>
+        )}
+
+        {/* 관광 타입 및 분류 뱃지 */}
+        <div className="mt-auto flex flex-wrap items-center gap-2">
           <span className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary">
             {typeName}
           </span>
+          {categoryName && categoryName !== typeName && (
+            <span className="inline-flex items-center rounded-full bg-muted px-2.5 py-0.5 text-xs font-medium text-muted-foreground">
+              {categoryName}
+            </span>
+          )}
+          {distance && (
+            <span
+              className="inline-flex items-center gap-1 rounded-full bg-secondary px-2.5 py-0.5 text-xs font-medium text-secondary-foreground"
+              aria-label={`기준 위치에서 ${distance}`}
+            >
+              <Navigation className="h-3 w-3" aria-hidden="true" />
+              {distance}
+            </span>
+          )}
         </div>
       </div>
     </Link>
+    {/* 경로 담기 버튼 (링크 안에 버튼을 둘 수 없으므로 카드 위에 겹쳐 배치) */}
+    <RouteStopButton
+      contentId={contentid}
+      title={title}
+      mapx={mapx}
+      mapy={mapy}
+      className="absolute right-2 top-2 z-10 h-8 w-8 rounded-full p-0 shadow-md"
+    />
     </div>
   );
 });
@@ -0,0 +1,146 @@
+/**
+ * @file components/tour-detail/detail-course.tsx
+ * @description 여행코스 일정 섹션 컴포넌트
+ *
+ * 여행코스(타입 25)의 경유지를 순서대로 표시하는 컴포넌트입니다.
+ * 각 경유지는 해당 장소의 상세페이지로 이동할 수 있는 링크를 제공합니다.
+ * Server Component로 구현되어 있습니다.
+ */
+
+import Link from "next/link";
+import Image from "next/image";
+import { Route, ChevronRight, Clock, Footprints } from "lucide-react";
+import { CourseStop } from "@/lib/types/tour";
+
+interface DetailCourseProps {
+  /** 코스 경유지 목록 (순서대로 정렬) */
+  stops: CourseStop[] | null;
+  /** 코스 총거리 (detailIntro2의 distance) */
+  distance?: string;
+  /** 코스 총 소요시간 (detailIntro2의 taketime) */
+  taketime?: string;
+}
+
+/**
+ * 경유지 항목 컴포넌트
+ */
+function CourseStopItem({
+  stop,
+  isLast,
+}: {
+  stop: CourseStop;
+  isLast: boolean;
+}) {
+  const content = (
+    <div className="flex flex-1 gap-3 rounded-lg border bg-card p-3 transition-colors group-hover:bg-muted/50">
+      {/* 경유지 이미지 */}
+      {stop.image && (
+        <div className="relative h-16 w-16 shrink-0 overflow-hidden rounded-md bg-muted sm:h-20 sm:w-20">
+          <Image
+            src={stop.image}
+            alt={stop.imageAlt || stop.name}
+            fill
+            className="object-cover"
+            sizes="80px"
+            quality={75}
+          />
+        </div>
+      )}
+
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold leading-tight group-hover:text-primary transition-colors">
+            {stop.name}
+          </h3>
+          {stop.contentId && (
+            <ChevronRight
+              className="h-4 w-4 shrink-0 text-muted-foreground"
+              aria-hidden="true"
+            />
+          )}
+        </div>
+        {stop.overview && (
+          <p className="line-clamp-3 text-sm leading-relaxed text-muted-foreground">
+            {stop.overview}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <li className="relative flex gap-3">
+      {/* 순서 번호 및 연결선 */}
+      <div className="flex flex-col items-center">
+        <span
+          className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary text-sm font-semibold text-primary-foreground"
+          aria-hidden="true"
+        >
+          {stop.order}
+        </span>
+        {!isLast && <span className="w-0.5 flex-1 bg-border" aria-hidden="true" />}
+      </div>
+
+      <div className="flex-1 pb-4">
+        {stop.contentId ? (
+          <Link
+            href={`/places/${stop.contentId}`}
+            className="group flex rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            aria-label={`${stop.order}번째 코스 ${stop.name} 상세보기`}
+          >
+            {content}
+          </Link>
+        ) : (
+          <div className="flex">{content}</div>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * 여행코스 일정 섹션 컴포넌트
+ */
+export function DetailCourse({ stops, distance, taketime }: DetailCourseProps) {
+  // 경유지 정보가 없으면 섹션을 표시하지 않음
+  if (!stops || stops.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4" aria-label="코스 일정">
+      <h2 className="text-2xl font-bold flex items-center gap-2">
+        <Route className="h-6 w-6" aria-hidden="true" />
+        코스 일정
+      </h2>
+
+      {/* 코스 요약 (총거리/소요시간) */}
+      {(distance || taketime) && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          {distance && (
+            <span className="flex items-center gap-1.5">
+              <Footprints className="h-4 w-4 shrink-0" aria-hidden="true" />
+              총거리 {distance}
+            </span>
+          )}
+          {taketime && (
+            <span className="flex items-center gap-1.5">
+              <Clock className="h-4 w-4 shrink-0" aria-hidden="true" />
+              소요시간 {taketime}
+            </span>
+          )}
+        </div>
+      )}
+
+      <ol className="space-y-0">
+        {stops.map((stop, index) => (
+          <CourseStopItem
+            key={`${stop.order}-${stop.contentId || stop.name}`}
+            stop={stop}
+            isLast={index === stops.length - 1}
+          />
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -3,6 +3,7 @@
  * @description 관광지 운영 정보 섹션 컴포넌트
  *
  * 관광지의 운영 정보(운영시간, 휴무일, 이용요금, 주차 정보 등)를 표시하는 컴포넌트입니다.
+ * 축제/행사는 행사 기간, 장소, 공연시간을, 여행코스는 코스 테마를 함께 표시합니다.
  * Server Component로 구현되어 있습니다.
  */
 
@@ -19,8 +20,12 @@ import {
   Calendar,
   Info,
   CreditCard,
+  CalendarDays,
+  MapPin,
+  Route,
 } from "lucide-react";
 import { TourIntro } from "@/lib/types/tour";
+import { formatEventPeriod } from "@/lib/utils/date";
 
 interface DetailIntroProps {
   /** 관광지 운영 정보 */
@@ -82,8 +87,17 @@ export function DetailIntro({ intro }: DetailIntroProps) {
     reservation,
     discountinfo,
     refund,
+    eventstartdate,
+    eventenddate,
+    eventplace,
+    playtime,
+    usetimefestival,
+    theme,
   } = intro;
 
+  // 행사 기간 (축제/행사)
+  const eventPeriod = formatEventPeriod(eventstartdate, eventenddate);
+
   // 표시할 정보가 있는지 확인
   const hasAnyInfo =
     usetime ||
@@ -100,7 +114,12 @@ export function DetailIntro({ intro }: DetailIntroProps) {
     infocenter ||
     reservation ||
     discountinfo ||
-    refund;
+    refund ||
+    eventPeriod ||
+    eventplace ||
+    playtime ||
+    usetimefestival ||
+    theme;
 
   if (!hasAnyInfo) {
     return null;
@@ -111,6 +130,46 @@ export function DetailIntro({ intro }: DetailIntroProps) {
       <h2 className="text-2xl font-bold">운영 정보</h2>
 
       <div className="space-y-3">
+        {/* 행사 기간 (축제/행사) */}
+        {eventPeriod && (
+          <InfoItem
+            icon={CalendarDays}
+            label="행사 기간"
+            value={eventPeriod}
+            ariaLabel="행사 기간 정보"
+          />
+        )}
+
+        {/* 행사 장소 (축제/행사) */}
+        {eventplace && (
+          <InfoItem
+            icon={MapPin}
+            label="행사 장소"
+            value={eventplace}
+            ariaLabel="행사 장소 정보"
+          />
+        )}
+
+        {/* 공연시간 (축제/행사) */}
+        {playtime && (
+          <InfoItem
+            icon={Clock}
+            label="공연시간"
+            value={playtime}
+            ariaLabel="공연시간 정보"
+          />
+        )}
+
+        {/* 코스 테마 (여행코스) */}
+        {theme && (
+          <InfoItem
+            icon={Route}
+            label="코스 테마"
+            value={theme}
+            ariaLabel="코스 테마 정보"
+          />
+        )}
+
         {/* 운영시간 */}
         {usetime && (
           <InfoItem
@@ -141,6 +200,16 @@ export function DetailIntro({ intro }: DetailIntroProps) {
           />
         )}
 
+        {/* 이용요금 (축제/행사) */}
+        {!usefee && usetimefestival && (
+          <InfoItem
+            icon={DollarSign}
+            label="이용요금"
+            value={usetimefestival}
+            ariaLabel="이용요금 정보"
+          />
+        )}
+
         {/* 주차 가능 여부 */}
         {parking && (
           <InfoItem
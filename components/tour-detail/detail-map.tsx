@@ -2,29 +2,45 @@
  * @file components/tour-detail/detail-map.tsx
  * @description 관광지 상세페이지 지도 컴포넌트
  *
- * 관광지의 위치를 네이버 지도에 표시하는 컴포넌트입니다.
+ * 관광지의 위치를 지도 제공자(네이버 지도, 대체 Leaflet)로 표시하는 컴포넌트입니다.
  * 단일 관광지의 위치를 마커로 표시하고, 길찾기 기능을 제공합니다.
+ * 여행코스는 경유지를 번호 마커와 경로선(Polyline)으로 연결하여 표시합니다.
+ * 사용자가 담은 여러 장소 경로(내 경로)도 구간별 직선 거리와 함께 같은 방식으로 표시합니다.
  *
  * @dependencies
- * - naver.maps: 네이버 지도 API (동적 로드)
- * - lib/utils/naver-maps: 네이버 지도 API 스크립트 로드
+ * - hooks/use-map-provider: 지도 제공자 로드
+ * - lib/types/map: 지도 제공자 인터페이스
+ * - components/map-info-window: 인포윈도우 (React 렌더링)
  * - lib/utils/coordinates: 좌표 변환 유틸리티
+ * - hooks/use-route-planner: 여러 장소 경로
+ * - components/tour-detail/route-planner: 경로 패널 (순서 변경, 길찾기 링크/GPX 내보내기)
  */
 
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
-import { katecToWgs84 } from "@/lib/utils/coordinates";
-import { loadNaverMapsScript } from "@/lib/utils/naver-maps";
+import { useEffect, useRef, useState, useCallback, useMemo } from "react";
+import { formatDistance, haversineDistance, parseTourCoordinates } from "@/lib/utils/coordinates";
+import { useMapProvider } from "@/hooks/use-map-provider";
+import { useRoutePlanner } from "@/hooks/use-route-planner";
+import type { MapInstance, MapMarker, MapPolyline } from "@/lib/types/map";
+import { MapInfoWindowContent, MapInfoWindowPortal } from "@/components/map-info-window";
+import { RoutePlanner } from "@/components/tour-detail/route-planner";
 import { cn } from "@/lib/utils";
 import { Loader2, MapPin, Navigation, Copy, ChevronDown, ChevronUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import type { TourDetail } from "@/lib/types/tour";
+import type { TourDetail, CourseStop } from "@/lib/types/tour";
+
+/**
+ * 관광지 위치 표시 줌 레벨
+ */
+const DETAIL_ZOOM = 15;
 
 interface DetailMapProps {
   /** 관광지 상세 정보 */
   detail: TourDetail;
+  /** 여행코스 경유지 목록 (좌표가 있는 경유지가 2개 이상이면 경로로 표시) */
+  courseStops?: CourseStop[] | null;
   /** 추가 클래스명 */
   className?: string;
 }
@@ -32,169 +48,229 @@ interface DetailMapProps {
 /**
  * 관광지 상세페이지 지도 컴포넌트
  */
-export function DetailMap({ detail, className }: DetailMapProps) {
+export function DetailMap({ detail, courseStops, className }: DetailMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
-  const mapInstanceRef = useRef<naver.maps.Map | null>(null);
-  const markerRef = useRef<naver.maps.Marker | null>(null);
-  const infoWindowRef = useRef<naver.maps.InfoWindow | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { provider, error: providerError } = useMapProvider();
+  const [mapInstance, setMapInstance] = useState<MapInstance | null>(null);
+  const [isMapLoading, setIsMapLoading] = useState(true);
+  const [initError, setInitError] = useState<string | null>(null);
   const [showCoordinates, setShowCoordinates] = useState(false);
+  const { stops: plannedStops } = useRoutePlanner();
+  // 지도에 내 경로 표시 여부 (표시하지 않으면 관광지 위치/여행코스 표시)
+  const [showPlannedRoute, setShowPlannedRoute] = useState(false);
+  // 인포윈도우를 표시할 마커와 내용
+  const [infoWindowTarget, setInfoWindowTarget] = useState<{
+    marker: MapMarker;
+    eyebrow?: string;
+    title: string;
+    description?: string;
+    maxWidth: number;
+  } | null>(null);
+  const error = providerError ?? initError;
+  const isLoading = isMapLoading && !error;
 
   // 좌표 변환
-  const coordinates = (() => {
+  const coordinates = useMemo(
+    () => parseTourCoordinates(detail.mapx, detail.mapy),
+    [detail.mapx, detail.mapy]
+  );
+
+  // 여행코스 경유지 좌표 변환 (좌표가 없는 경유지는 경로에서 제외)
+  const routeStops = useMemo(() => {
+    if (!courseStops) return [];
+    return courseStops.flatMap((stop) => {
+      const position = parseTourCoordinates(stop.mapx, stop.mapy);
+      if (!position) return [];
+      return [
+        {
+          order: stop.order,
+          name: stop.name,
+          label: `코스 ${stop.order}`,
+          position,
+        },
+      ];
+    });
+  }, [courseStops]);
+
+  const isPlannedRoute = showPlannedRoute && plannedStops.length >= 2;
+
+  // 지도에 표시할 경로 (내 경로를 표시하면 여행코스 대신 표시)
+  const mapRoute = useMemo(
+    () =>
+      isPlannedRoute
+        ? plannedStops.map((stop, index) => ({
+            order: index + 1,
+            name: stop.title,
+            label: `경로 ${index + 1}`,
+            position: stop.position,
+          }))
+        : routeStops,
+    [isPlannedRoute, plannedStops, routeStops]
+  );
+
+  const isRouteMode = mapRoute.length >= 2;
+
+  // 지도 초기화 (지도 제공자 로드 후, 경로가 바뀌어도 지도는 다시 만들지 않음)
+  useEffect(() => {
+    if (!mapRef.current || !coordinates || !provider) return;
+
+    setIsMapLoading(true);
+    setInitError(null);
+
+    let map: MapInstance;
     try {
-      return katecToWgs84(detail.mapx, detail.mapy);
-    } catch {
-      return null;
+      // 지도 생성
+      map = provider.createMap(mapRef.current, {
+        center: coordinates,
+        zoom: DETAIL_ZOOM,
+      });
+    } catch (err) {
+      setInitError(
+        err instanceof Error ? err.message : "지도를 초기화하는 중 오류가 발생했습니다."
+      );
+      setIsMapLoading(false);
+      console.error("지도 초기화 오류:", err);
+      return;
     }
-  })();
 
-  // 지도 초기화
-  useEffect(() => {
-    if (!mapRef.current || !coordinates) return;
+    setMapInstance(map);
+    setIsMapLoading(false);
 
-    let isMounted = true;
+    // 지도 정리
+    return () => {
+      setInfoWindowTarget(null);
+      setMapInstance(null);
+      map.destroy();
+    };
+  }, [provider, coordinates]);
 
-    const initMap = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
+  // 관광지 마커 또는 경로(마커, 경로선, 구간 거리) 표시 (경로가 바뀌면 오버레이만 다시 그림)
+  useEffect(() => {
+    if (!mapInstance || !coordinates) return;
 
-        // 네이버 지도 API 스크립트 로드
-        await loadNaverMapsScript();
+    const map = mapInstance;
+    const overlays: Array<MapMarker | MapPolyline> = [];
 
-        if (!isMounted || !mapRef.current) return;
+    // 여행코스/내 경로: 경유지를 번호 마커와 경로선으로 표시
+    if (isRouteMode) {
+      const path = mapRoute.map(({ position }) => position);
 
-        // 네이버 지도 API 확인
-        if (!window.naver?.maps) {
-          throw new Error("네이버 지도 API를 사용할 수 없습니다.");
-        }
+      // 경로선 (코스 순서대로 연결)
+      overlays.push(map.addPolyline({ path, color: "#3b82f6", weight: 4, opacity: 0.8 }));
 
-        // 지도 생성
-        const map = new window.naver.maps.Map(mapRef.current, {
-          center: new window.naver.maps.LatLng(coordinates.lat, coordinates.lng),
-          zoom: 15, // 상세 위치 표시에 적합한 줌 레벨
-          mapTypeControl: false,
+      // 번호 마커
+      mapRoute.forEach((stop) => {
+        const stopMarker = map.addMarker({
+          position: stop.position,
+          title: `${stop.order}. ${stop.name}`,
+          size: 32,
+          html: `
+            <div style="
+              width: 32px;
+              height: 32px;
+              background-color: #3b82f6;
+              border: 3px solid white;
+              border-radius: 50%;
+              box-shadow: 0 2px 6px rgba(0,0,0,0.4);
+              display: flex;
+              align-items: center;
+              justify-content: center;
+              color: white;
+              font-size: 14px;
+              font-weight: 700;
+            ">${stop.order}</div>
+          `,
+          // 마커 클릭 시 경유지 인포윈도우 표시
+          onClick: () =>
+            setInfoWindowTarget({
+              marker: stopMarker,
+              eyebrow: stop.label,
+              title: stop.name,
+              maxWidth: 260,
+            }),
         });
-
-        mapInstanceRef.current = map;
-        setIsLoading(false);
-
-        // 마커 생성
-        const marker = new window.naver.maps.Marker({
-          position: new window.naver.maps.LatLng(coordinates.lat, coordinates.lng),
-          map,
-          title: detail.title,
-          icon: {
-            content: `
-              <div style="
-                width: 40px;
-                height: 40px;
-                background-color: #3b82f6;
-                border: 3px solid white;
-                border-radius: 50%;
-                box-shadow: 0 4px 8px rgba(0,0,0,0.4);
-                display: flex;
-                align-items: center;
-                justify-content: center;
-                cursor: pointer;
-              ">
-                <div style="
-                  width: 15px;
-                  height: 15px;
-                  background-color: white;
-                  border-radius: 50%;
-                "></div>
-              </div>
-            `,
-            anchor: new window.naver.maps.Point(20, 20),
+        overlays.push(stopMarker);
+      });
+
+      // 구간별 직선 거리 (구간 가운데에 표시)
+      mapRoute.slice(1).forEach((to, index) => {
+        const from = mapRoute[index];
+        const distance = formatDistance(haversineDistance(from.position, to.position));
+        const legMarker = map.addMarker({
+          position: {
+            lat: (from.position.lat + to.position.lat) / 2,
+            lng: (from.position.lng + to.position.lng) / 2,
           },
+          title: `${from.name} → ${to.name} 직선 ${distance}`,
+          size: 0, // 글자 길이에 맞춰 가운데 정렬 (transform)
+          html: `
+            <div style="
+              transform: translate(-50%, -50%);
+              padding: 2px 8px;
+              background-color: white;
+              border: 1px solid #3b82f6;
+              border-radius: 9999px;
+              box-shadow: 0 1px 3px rgba(0,0,0,0.3);
+              color: #1d4ed8;
+              font-size: 12px;
+              font-weight: 600;
+              white-space: nowrap;
+            ">${distance}</div>
+          `,
         });
+        overlays.push(legMarker);
+      });
 
-        markerRef.current = marker;
-
-        // 마커 클릭 시 인포윈도우 표시
-        window.naver.maps.Event.addListener(marker, "click", () => {
-          const infoContent = `
+      // 전체 경로가 보이도록 지도 범위 조정
+      map.fitBounds(path, 40);
+    } else {
+      // 마커 생성
+      const marker = map.addMarker({
+        position: coordinates,
+        title: detail.title,
+        size: 40,
+        html: `
+          <div style="
+            width: 40px;
+            height: 40px;
+            background-color: #3b82f6;
+            border: 3px solid white;
+            border-radius: 50%;
+            box-shadow: 0 4px 8px rgba(0,0,0,0.4);
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            cursor: pointer;
+          ">
             <div style="
-              padding: 12px;
-              min-width: 200px;
-              max-width: 300px;
-            ">
-              <h3 style="
-                margin: 0 0 8px 0;
-                font-size: 16px;
-                font-weight: 600;
-                color: #1f2937;
-              ">${detail.title}</h3>
-              <p style="
-                margin: 0;
-                font-size: 14px;
-                color: #6b7280;
-              ">${detail.addr1}${detail.addr2 ? ` ${detail.addr2}` : ""}</p>
-            </div>
-          `;
-
-          // 기존 인포윈도우 닫기
-          if (infoWindowRef.current) {
-            infoWindowRef.current.close();
-          }
-
-          // 새 인포윈도우 생성
-          const infoWindow = new window.naver.maps.InfoWindow({
-            content: infoContent,
+              width: 15px;
+              height: 15px;
+              background-color: white;
+              border-radius: 50%;
+            "></div>
+          </div>
+        `,
+        // 마커 클릭 시 인포윈도우 표시
+        onClick: () =>
+          setInfoWindowTarget({
+            marker,
+            title: detail.title,
+            description: `${detail.addr1}${detail.addr2 ? ` ${detail.addr2}` : ""}`,
             maxWidth: 300,
-            backgroundColor: "white",
-            borderColor: "#e5e7eb",
-            borderWidth: 1,
-            anchorSize: { width: 10, height: 10 },
-            pixelOffset: { width: 0, height: -10 },
-          });
-
-          infoWindow.open(map, marker);
-          infoWindowRef.current = infoWindow;
-        });
-      } catch (err) {
-        if (!isMounted) return;
-        const errorMessage =
-          err instanceof Error
-            ? err.message
-            : "지도를 초기화하는 중 오류가 발생했습니다.";
-        setError(errorMessage);
-        setIsLoading(false);
-        console.error("지도 초기화 오류:", err);
-      }
-    };
-
-    initMap();
+          }),
+      });
+      overlays.push(marker);
 
-    return () => {
-      isMounted = false;
-    };
-  }, [coordinates, detail]);
+      // 경로를 표시하다 돌아온 경우 관광지 위치로 다시 이동
+      map.zoomTo(coordinates, DETAIL_ZOOM);
+    }
 
-  // 컴포넌트 언마운트 시 정리
-  useEffect(() => {
+    // 오버레이 정리 (인포윈도우 포함)
     return () => {
-      // 마커 제거
-      if (markerRef.current) {
-        markerRef.current.setMap(null);
-        markerRef.current = null;
-      }
-
-      // 인포윈도우 닫기
-      if (infoWindowRef.current) {
-        infoWindowRef.current.close();
-        infoWindowRef.current = null;
-      }
-
-      // 지도 인스턴스 정리
-      if (mapInstanceRef.current) {
-        mapInstanceRef.current = null;
-      }
+      setInfoWindowTarget(null);
+      overlays.forEach((overlay) => overlay.remove());
     };
-  }, []);
+  }, [mapInstance, coordinates, detail, isRouteMode, mapRoute]);
 
   // 길찾기 버튼 핸들러
   const handleDirections = useCallback(() => {
@@ -246,15 +322,37 @@ export function DetailMap({ detail, className }: DetailMapProps) {
 
   return (
     <section className={cn("space-y-4", className)} aria-label="지도">
-      <h2 className="text-2xl font-bold">위치</h2>
+      <h2 className="text-2xl font-bold">
+        {isPlannedRoute ? "내 경로" : isRouteMode ? "코스 경로" : "위치"}
+      </h2>
       <div
         className="relative w-full h-[300px] md:h-[400px] rounded-lg overflow-hidden bg-muted"
         role="application"
-        aria-label={`${detail.title} 위치 지도`}
+        aria-label={
+          isPlannedRoute
+            ? `내 경로 지도 (장소 ${mapRoute.length}곳)`
+            : isRouteMode
+            ? `${detail.title} 코스 경로 지도 (경유지 ${mapRoute.length}곳)`
+            : `${detail.title} 위치 지도`
+        }
       >
         {/* 지도 컨테이너 */}
         <div ref={mapRef} className="w-full h-full" />
 
+        {/* 인포윈도우 (React로 렌더링하여 관광지명/주소 이스케이프) */}
+        {infoWindowTarget && (
+          <MapInfoWindowPortal
+            marker={infoWindowTarget.marker}
+            maxWidth={infoWindowTarget.maxWidth}
+          >
+            <MapInfoWindowContent
+              eyebrow={infoWindowTarget.eyebrow}
+              title={infoWindowTarget.title}
+              description={infoWindowTarget.description}
+            />
+          </MapInfoWindowPortal>
+        )}
+
         {/* 로딩 상태 */}
         {isLoading && (
           <div className="absolute inset-0 flex items-center justify-center bg-muted/50">
@@ -352,7 +450,13 @@ export function DetailMap({ detail, className }: DetailMapProps) {
           </div>
         )}
       </div>
+
+      {/* 여러 장소 경로 (내 경로) */}
+      <RoutePlanner
+        detail={detail}
+        isShownOnMap={isPlannedRoute}
+        onShowOnMapChange={setShowPlannedRoute}
+      />
     </section>
   );
 }
-
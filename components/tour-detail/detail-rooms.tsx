@@ -0,0 +1,185 @@
+/**
+ * @file components/tour-detail/detail-rooms.tsx
+ * @description 숙박 객실 정보 섹션 컴포넌트
+ *
+ * 숙박 시설의 객실별 정보(객실 타입, 기준/최대 인원, 비수기/성수기 요금, 편의시설)를
+ * 표시하는 컴포넌트입니다. 객실 간 비교가 쉽도록 카드 목록 형태로 표시합니다.
+ * Server Component로 구현되어 있습니다.
+ */
+
+import Image from "next/image";
+import { BedDouble, Users, Ruler, DoorOpen } from "lucide-react";
+import { RoomFee, RoomInfo } from "@/lib/types/tour";
+
+interface DetailRoomsProps {
+  /** 객실 정보 목록 */
+  rooms: RoomInfo[] | null;
+}
+
+/**
+ * 요금 포맷팅 (정보가 없으면 "-")
+ */
+function formatFee(fee: number | null): string {
+  return fee ? `${fee.toLocaleString("ko-KR")}원~` : "-";
+}
+
+/**
+ * 요금 정보가 하나라도 있는지 확인
+ */
+function hasFee(fee: RoomFee): boolean {
+  return fee.weekday !== null || fee.weekend !== null;
+}
+
+/**
+ * 인원 정보 포맷팅
+ */
+function formatOccupancy(room: RoomInfo): string | null {
+  const { baseOccupancy, maxOccupancy } = room;
+  if (baseOccupancy && maxOccupancy) {
+    return `기준 ${baseOccupancy}명 / 최대 ${maxOccupancy}명`;
+  }
+  if (baseOccupancy) return `기준 ${baseOccupancy}명`;
+  if (maxOccupancy) return `최대 ${maxOccupancy}명`;
+  return null;
+}
+
+/**
+ * 객실 카드 컴포넌트
+ */
+function RoomCard({ room }: { room: RoomInfo }) {
+  const occupancy = formatOccupancy(room);
+  const showFees = hasFee(room.offSeasonFee) || hasFee(room.peakSeasonFee);
+  const image = room.images[0];
+
+  return (
+    <article
+      className="flex flex-col overflow-hidden rounded-lg border bg-card sm:flex-row"
+      aria-label={`${room.roomType} 객실 정보`}
+    >
+      {/* 객실 사진 */}
+      {image && (
+        <div className="relative aspect-video w-full shrink-0 bg-muted sm:aspect-auto sm:w-48">
+          <Image
+            src={image.url}
+            alt={image.alt}
+            fill
+            className="object-cover"
+            sizes="(max-width: 640px) 100vw, 192px"
+            quality={75}
+          />
+        </div>
+      )}
+
+      <div className="flex flex-1 flex-col gap-3 p-4">
+        {/* 객실 타입 */}
+        <h3 className="text-lg font-semibold leading-tight">{room.roomType}</h3>
+
+        {/* 인원/크기/객실수 */}
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          {occupancy && (
+            <span className="flex items-center gap-1.5">
+              <Users className="h-4 w-4 shrink-0" aria-hidden="true" />
+              {occupancy}
+            </span>
+          )}
+          {room.roomSize && (
+            <span className="flex items-center gap-1.5">
+              <Ruler className="h-4 w-4 shrink-0" aria-hidden="true" />
+              {room.roomSize}평
+            </span>
+          )}
+          {room.roomCount && (
+            <span className="flex items-center gap-1.5">
+              <DoorOpen className="h-4 w-4 shrink-0" aria-hidden="true" />
+              {room.roomCount}실
+            </span>
+          )}
+        </div>
+
+        {/* 요금표 (비수기/성수기 × 주중/주말) */}
+        {showFees && (
+          <table className="w-full text-sm" aria-label={`${room.roomType} 요금`}>
+            <thead>
+              <tr className="border-b text-muted-foreground">
+                <th scope="col" className="py-1 text-left font-medium">
+                  구분
+                </th>
+                <th scope="col" className="py-1 text-right font-medium">
+                  주중
+                </th>
+                <th scope="col" className="py-1 text-right font-medium">
+                  주말
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <th scope="row" className="py-1 text-left font-normal">
+                  비수기
+                </th>
+                <td className="py-1 text-right">{formatFee(room.offSeasonFee.weekday)}</td>
+                <td className="py-1 text-right">{formatFee(room.offSeasonFee.weekend)}</td>
+              </tr>
+              <tr>
+                <th scope="row" className="py-1 text-left font-normal">
+                  성수기
+                </th>
+                <td className="py-1 text-right">{formatFee(room.peakSeasonFee.weekday)}</td>
+                <td className="py-1 text-right">{formatFee(room.peakSeasonFee.weekend)}</td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+
+        {/* 편의시설 */}
+        {room.amenities.length > 0 && (
+          <ul className="flex flex-wrap gap-1.5" aria-label="편의시설">
+            {room.amenities.map((amenity) => (
+              <li
+                key={amenity}
+                className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary"
+              >
+                {amenity}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* 객실소개 */}
+        {room.intro && (
+          <p className="whitespace-pre-line text-sm leading-relaxed text-muted-foreground">
+            {room.intro}
+          </p>
+        )}
+      </div>
+    </article>
+  );
+}
+
+/**
+ * 숙박 객실 정보 섹션 컴포넌트
+ */
+export function DetailRooms({ rooms }: DetailRoomsProps) {
+  // 객실 정보가 없으면 섹션을 표시하지 않음
+  if (!rooms || rooms.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4" aria-label="객실 정보">
+      <h2 className="text-2xl font-bold flex items-center gap-2">
+        <BedDouble className="h-6 w-6" aria-hidden="true" />
+        객실 정보
+        <span className="text-base font-normal text-muted-foreground">
+          ({rooms.length})
+        </span>
+      </h2>
+
+      <div className="space-y-3">
+        {rooms.map((room, index) => (
+          <RoomCard key={room.roomCode || index} room={room} />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,237 @@
+/**
+ * @file components/tour-detail/route-planner.tsx
+ * @description 여러 장소 경로(길찾기) 패널 컴포넌트
+ *
+ * 관광지 카드(홈 목록, 북마크)에서 담은 장소를 순서대로 보여주고,
+ * 여러 장소를 경유하는 경로로 지도에 표시하거나 내비게이션 앱으로 내보냅니다.
+ *
+ * 주요 기능:
+ * 1. 현재 관광지 담기/빼기, 장소 순서 변경 및 제거
+ * 2. 구간별/전체 직선 거리 표시
+ * 3. 상세페이지 지도에 경로선 표시 (DetailMap)
+ * 4. 네이버 지도/카카오맵 길찾기 링크, GPX 파일 내보내기
+ *
+ * @dependencies
+ * - @/hooks/use-route-planner: useRoutePlanner
+ * - @/lib/utils/route: 구간 거리, 길찾기 링크, GPX 변환
+ */
+
+"use client";
+
+import Link from "next/link";
+import { ArrowDown, ArrowUp, Download, Map as MapIcon, Route, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RouteStopButton } from "@/components/route-stop-button";
+import { useRoutePlanner } from "@/hooks/use-route-planner";
+import { ROUTE_PLANNER_CONFIG } from "@/lib/constants/map";
+import { formatDistance } from "@/lib/utils/coordinates";
+import {
+  buildKakaoRouteUrl,
+  buildNaverAppRouteUrl,
+  buildNaverRouteUrl,
+  buildRouteGpx,
+  getRouteDistance,
+  getRouteLegs,
+} from "@/lib/utils/route";
+import { toastSuccess } from "@/lib/utils/toast";
+import { cn } from "@/lib/utils";
+import type { TourDetail } from "@/lib/types/tour";
+
+interface RoutePlannerProps {
+  /** 현재 관광지 상세 정보 (경로 담기 버튼용) */
+  detail: TourDetail;
+  /** 지도에 경로 표시 여부 */
+  isShownOnMap: boolean;
+  /** 지도에 경로 표시 여부 변경 핸들러 */
+  onShowOnMapChange: (isShown: boolean) => void;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 여러 장소 경로 패널 컴포넌트
+ */
+export function RoutePlanner({
+  detail,
+  isShownOnMap,
+  onShowOnMapChange,
+  className,
+}: RoutePlannerProps) {
+  const { stops, moveStop, removeStop, clearStops } = useRoutePlanner();
+  const legs = getRouteLegs(stops);
+  const canRoute = stops.length >= 2;
+  const routeName = canRoute ? `${stops[0].title} → ${stops[stops.length - 1].title}` : "";
+
+  // 네이버 지도 길찾기 (모바일은 앱, 앱이 없으면 웹으로 fallback)
+  const handleOpenNaver = () => {
+    const webUrl = buildNaverRouteUrl(stops);
+    const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
+
+    if (isMobile) {
+      window.location.href = buildNaverAppRouteUrl(stops);
+      setTimeout(() => {
+        window.open(webUrl, "_blank");
+      }, 500);
+    } else {
+      window.open(webUrl, "_blank");
+    }
+  };
+
+  // 카카오맵 길찾기
+  const handleOpenKakao = () => {
+    window.open(buildKakaoRouteUrl(stops), "_blank");
+  };
+
+  // GPX 파일 다운로드 (내비게이션/등산 앱에서 가져오기)
+  const handleDownloadGpx = () => {
+    const blob = new Blob([buildRouteGpx(stops, routeName)], { type: "application/gpx+xml" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "my-trip-route.gpx";
+    link.click();
+    URL.revokeObjectURL(url);
+    toastSuccess("GPX 파일을 저장했습니다.", routeName);
+  };
+
+  return (
+    <div className={cn("space-y-4 rounded-lg border bg-card p-4", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="flex items-center gap-2 text-lg font-semibold">
+          <Route className="h-5 w-5" aria-hidden="true" />
+          내 경로
+          <span className="text-sm font-normal text-muted-foreground">
+            ({stops.length}/{ROUTE_PLANNER_CONFIG.maxStops})
+          </span>
+        </h3>
+        <RouteStopButton
+          contentId={detail.contentid}
+          title={detail.title}
+          mapx={detail.mapx}
+          mapy={detail.mapy}
+          showLabel
+        />
+      </div>
+
+      {stops.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          관광지 목록이나 북마크의 경로 담기 버튼으로 장소를 고르면 여러 곳을 순서대로 경유하는
+          경로를 만들 수 있습니다.
+        </p>
+      ) : (
+        <ol className="space-y-1" aria-label="경로 장소 순서">
+          {stops.map((stop, index) => (
+            <li key={stop.contentId}>
+              <div className="flex items-center gap-2">
+                <span
+                  className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-semibold text-primary-foreground"
+                  aria-hidden="true"
+                >
+                  {index + 1}
+                </span>
+                <Link
+                  href={`/places/${stop.contentId}`}
+                  className={cn(
+                    "min-w-0 flex-1 truncate text-sm font-medium hover:text-primary hover:underline",
+                    stop.contentId === detail.contentid && "text-primary"
+                  )}
+                >
+                  {stop.title}
+                </Link>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => moveStop(stop.contentId, -1)}
+                  disabled={index === 0}
+                  aria-label={`${stop.title} 앞으로 이동`}
+                  title="앞으로 이동"
+                >
+                  <ArrowUp className="h-4 w-4" aria-hidden="true" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => moveStop(stop.contentId, 1)}
+                  disabled={index === stops.length - 1}
+                  aria-label={`${stop.title} 뒤로 이동`}
+                  title="뒤로 이동"
+                >
+                  <ArrowDown className="h-4 w-4" aria-hidden="true" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => removeStop(stop.contentId)}
+                  aria-label={`${stop.title} 경로에서 빼기`}
+                  title="경로에서 빼기"
+                >
+                  <X className="h-4 w-4" aria-hidden="true" />
+                </Button>
+              </div>
+              {/* 다음 장소까지 구간 거리 */}
+              {legs[index] && (
+                <p className="ml-3 border-l-2 border-dashed py-1 pl-5 text-xs text-muted-foreground">
+                  직선 {formatDistance(legs[index].distance)}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {stops.length === 1 && (
+        <p className="text-sm text-muted-foreground">장소를 하나 더 담으면 경로를 만들 수 있습니다.</p>
+      )}
+
+      {canRoute && (
+        <>
+          <p className="text-sm">
+            총 직선 거리 <span className="font-semibold">{formatDistance(getRouteDistance(legs))}</span>
+            <span className="text-muted-foreground"> (실제 이동 거리와 다를 수 있습니다)</span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              variant={isShownOnMap ? "default" : "outline"}
+              size="sm"
+              onClick={() => onShowOnMapChange(!isShownOnMap)}
+              aria-pressed={isShownOnMap}
+            >
+              <MapIcon className="h-4 w-4" aria-hidden="true" />
+              {isShownOnMap ? "지도에서 경로 숨기기" : "지도에 경로 표시"}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleOpenNaver}>
+              네이버 지도
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleOpenKakao}>
+              카카오맵
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleDownloadGpx}>
+              <Download className="h-4 w-4" aria-hidden="true" />
+              GPX
+            </Button>
+          </div>
+        </>
+      )}
+
+      {stops.length > 0 && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={clearStops}
+          className="text-muted-foreground"
+        >
+          <Trash2 className="h-4 w-4" aria-hidden="true" />
+          경로 비우기
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -8,14 +8,20 @@
  * 주요 기능:
  * - 지역 필터 (시/도 선택)
  * - 관광 타입 필터 (다중 선택)
+ * - 서비스 분류 필터 (대분류 → 중분류 → 소분류)
  * - 정렬 옵션
+ * - 축제/행사 기간 검색
+ * - 검색 조건 저장 및 다시 실행 (로그인 사용자)
  * - 필터 초기화
  *
  * @dependencies
  * - next/navigation: useRouter, useSearchParams
  * - components/tour-filters/area-filter.tsx
  * - components/tour-filters/type-filter.tsx
+ * - components/tour-filters/category-filter.tsx
  * - components/tour-filters/sort-filter.tsx
+ * - components/tour-filters/festival-filter.tsx
+ * - components/tour-filters/saved-searches.tsx
  */
 
 "use client";
@@ -23,8 +29,11 @@
 import { useRouter, useSearchParams } from "next/navigation";
 import { AreaFilter } from "@/components/tour-filters/area-filter";
 import { TypeFilter } from "@/components/tour-filters/type-filter";
+import { CategoryFilter } from "@/components/tour-filters/category-filter";
 import { SortFilter } from "@/components/tour-filters/sort-filter";
 import { PetFilter } from "@/components/tour-filters/pet-filter";
+import { FestivalFilter } from "@/components/tour-filters/festival-filter";
+import { SavedSearches } from "@/components/tour-filters/saved-searches";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { X } from "lucide-react";
@@ -58,7 +67,10 @@ export function TourFilters({ className }: TourFiltersProps) {
   const activeFiltersCount =
     (searchParams.get("areaCode") ? 1 : 0) +
     (searchParams.get("contentTypeId") ? 1 : 0) +
+    (searchParams.get("cat1") ? 1 : 0) +
     (searchParams.get("pet") === "true" ? 1 : 0) +
+    (searchParams.get("near") ? 1 : 0) +
+    (searchParams.get("festival") === "true" ? 1 : 0) +
     (searchParams.get("sort") && searchParams.get("sort") !== "modifiedtime"
       ? 1
       : 0);
@@ -100,10 +112,25 @@ export function TourFilters({ className }: TourFiltersProps) {
             <TypeFilter />
           </div>
 
-          {/* 세 번째 행: 반려동물 필터 */}
+          {/* 세 번째 행: 서비스 분류 필터 (대분류 → 중분류 → 소분류) */}
+          <div className="w-full">
+            <CategoryFilter />
+          </div>
+
+          {/* 네 번째 행: 반려동물 필터 */}
           <div className="w-full">
             <PetFilter />
           </div>
+
+          {/* 다섯 번째 행: 축제/행사 기간 검색 */}
+          <div className="w-full">
+            <FestivalFilter />
+          </div>
+
+          {/* 여섯 번째 행: 저장한 검색 (로그인 사용자) */}
+          <div className="w-full">
+            <SavedSearches />
+          </div>
         </div>
       </CardContent>
     </Card>
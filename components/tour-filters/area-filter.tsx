@@ -2,8 +2,9 @@
  * @file components/tour-filters/area-filter.tsx
  * @description 지역 필터 컴포넌트
  *
- * 시/도 단위 지역 선택 필터입니다.
- * getAreaCode API를 사용하여 지역 목록을 로드합니다.
+ * 시/도 및 시/군/구 단위 지역 선택 필터입니다.
+ * getAreaCode API를 사용하여 지역 목록을 로드하고,
+ * 시/도를 선택하면 해당 시/도의 시/군/구 목록을 추가로 로드합니다.
  */
 
 "use client";
@@ -22,19 +23,51 @@ import {
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 
+/**
+ * 지역 선택 옵션
+ */
+interface AreaOption {
+  code: string;
+  name: string;
+}
+
+/**
+ * areaCode2 응답을 지역 선택 옵션으로 변환
+ *
+ * areaCode2 API는 TourItem 구조를 반환하지만,
+ * 지역 코드 정보만 포함합니다.
+ * 실제 API 응답 구조에 따라 필드명이 다를 수 있으므로
+ * 여러 가능성을 고려합니다.
+ */
+function toAreaOptions(items: TourItem[]): AreaOption[] {
+  const areaList = items.map((item: TourItem & { code?: string; name?: string }) => {
+    // areacode 필드가 있으면 사용, 없으면 code 필드 확인
+    const code = item.areacode || item.code || "";
+    // title 필드가 있으면 사용, 없으면 name 필드 확인
+    const name = item.title || item.name || `지역 ${code}`;
+    return { code, name };
+  });
+
+  // 중복 제거 및 정렬
+  return Array.from(
+    new Map(areaList.map((area) => [area.code, area])).values()
+  ).sort((a, b) => a.name.localeCompare(b.name, "ko"));
+}
+
 /**
  * 지역 필터 컴포넌트
  */
 export function AreaFilter() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [areas, setAreas] = useState<Array<{ code: string; name: string }>>(
-    []
-  );
+  const [areas, setAreas] = useState<AreaOption[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sigungus, setSigungus] = useState<AreaOption[]>([]);
+  const [isSigunguLoading, setIsSigunguLoading] = useState(false);
 
   const selectedAreaCode = searchParams.get("areaCode") || "";
+  const selectedSigunguCode = searchParams.get("sigunguCode") || "";
 
   /**
    * 지역 목록 로드
@@ -45,32 +78,14 @@ export function AreaFilter() {
         setIsLoading(true);
         setError(null);
 
-        const result = await getAreaCode(undefined, false);
+        const result = await getAreaCode(undefined, false); // API 프록시(/api/tour) 경유
 
-        if (!result.success) {
+        if (result.success === false) {
           setError(result.error || "지역 목록을 불러올 수 없습니다.");
           return;
         }
 
-        // TourItem에서 지역 코드와 이름 추출
-        // areaCode2 API는 TourItem 구조를 반환하지만,
-        // 지역 코드 정보만 포함합니다.
-        // 실제 API 응답 구조에 따라 필드명이 다를 수 있으므로
-        // 여러 가능성을 고려합니다.
-        const areaList = (result.data || []).map((item: TourItem) => {
-          // areacode 필드가 있으면 사용, 없으면 code 필드 확인
-          const code = item.areacode || (item as any).code || "";
-          // title 필드가 있으면 사용, 없으면 name 필드 확인
-          const name = item.title || (item as any).name || `지역 ${code}`;
-          return { code, name };
-        });
-
-        // 중복 제거 및 정렬
-        const uniqueAreas = Array.from(
-          new Map(areaList.map((area) => [area.code, area])).values()
-        ).sort((a, b) => a.name.localeCompare(b.name, "ko"));
-
-        setAreas(uniqueAreas);
+        setAreas(toAreaOptions(result.data || []));
       } catch (err) {
         setError("지역 목록을 불러오는 중 오류가 발생했습니다.");
         console.error("Failed to load areas:", err);
@@ -82,6 +97,45 @@ export function AreaFilter() {
     loadAreas();
   }, []);
 
+  /**
+   * 선택된 시/도의 시/군/구 목록 로드
+   */
+  useEffect(() => {
+    if (!selectedAreaCode) {
+      setSigungus([]);
+      return;
+    }
+
+    let isMounted = true;
+
+    async function loadSigungus() {
+      try {
+        setIsSigunguLoading(true);
+
+        const result = await getAreaCode(selectedAreaCode, false); // API 프록시(/api/tour) 경유
+
+        if (!isMounted) return;
+
+        // 시/군/구 목록은 부가 기능이므로 실패 시 드롭다운만 숨김
+        setSigungus(result.success ? toAreaOptions(result.data || []) : []);
+      } catch (err) {
+        if (!isMounted) return;
+        setSigungus([]);
+        console.error("Failed to load sigungus:", err);
+      } finally {
+        if (isMounted) {
+          setIsSigunguLoading(false);
+        }
+      }
+    }
+
+    loadSigungus();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [selectedAreaCode]);
+
   /**
    * 지역 선택 변경 핸들러
    */
@@ -94,6 +148,27 @@ export function AreaFilter() {
       params.set("areaCode", value);
     }
 
+    // 상위 지역이 바뀌면 시/군/구 선택 해제
+    params.delete("sigunguCode");
+
+    // 페이지 번호 리셋
+    params.delete("pageNo");
+
+    router.push(`/?${params.toString()}`);
+  };
+
+  /**
+   * 시/군/구 선택 변경 핸들러
+   */
+  const handleSigunguChange = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+
+    if (value === "" || value === "all") {
+      params.delete("sigunguCode");
+    } else {
+      params.set("sigunguCode", value);
+    }
+
     // 페이지 번호 리셋
     params.delete("pageNo");
 
@@ -108,22 +183,53 @@ export function AreaFilter() {
       ) : error ? (
         <div className="text-sm text-destructive">{error}</div>
       ) : (
-        <Select
-          value={selectedAreaCode || "all"}
-          onValueChange={handleAreaChange}
-        >
-          <SelectTrigger id="area-filter" className="w-full">
-            <SelectValue placeholder="전체 지역" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">전체</SelectItem>
-            {areas.map((area) => (
-              <SelectItem key={area.code} value={area.code}>
-                {area.name}
-              </SelectItem>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Select
+            value={selectedAreaCode || "all"}
+            onValueChange={handleAreaChange}
+          >
+            <SelectTrigger id="area-filter" className="w-full">
+              <SelectValue placeholder="전체 지역" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">전체</SelectItem>
+              {areas.map((area) => (
+                <SelectItem key={area.code} value={area.code}>
+                  {area.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* 시/군/구 선택 (시/도 선택 시에만 표시) */}
+          {selectedAreaCode &&
+            (isSigunguLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              sigungus.length > 0 && (
+                <Select
+                  value={selectedSigunguCode || "all"}
+                  onValueChange={handleSigunguChange}
+                >
+                  <SelectTrigger
+                    id="sigungu-filter"
+                    className="w-full"
+                    aria-label="시/군/구"
+                  >
+                    <SelectValue placeholder="전체 시/군/구" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">전체 시/군/구</SelectItem>
+                    {sigungus.map((sigungu) => (
+                      <SelectItem key={sigungu.code} value={sigungu.code}>
+                        {sigungu.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )
             ))}
-          </SelectContent>
-        </Select>
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,236 @@
+/**
+ * @file components/tour-filters/category-filter.tsx
+ * @description 서비스 분류 필터 컴포넌트
+ *
+ * 대분류(cat1) → 중분류(cat2) → 소분류(cat3) 순으로 선택하는 계층형 분류 필터입니다.
+ * getCategoryCode API로 상위 분류에 해당하는 하위 분류 목록을 로드하며,
+ * 관광 타입을 하나만 선택한 경우 해당 타입의 분류만 표시합니다.
+ * 선택한 분류는 URL(cat1, cat2, cat3)에 저장됩니다.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { getCategoryCode } from "@/lib/api/tour-api";
+import { parseCategoryFilter } from "@/lib/api/category-api";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { CategoryCode } from "@/lib/types/category";
+
+/**
+ * 분류 단계
+ */
+type CategoryLevel = "cat1" | "cat2" | "cat3";
+
+/**
+ * 분류 단계별 라벨
+ */
+const CATEGORY_LEVEL_LABELS: Record<CategoryLevel, string> = {
+  cat1: "대분류",
+  cat2: "중분류",
+  cat3: "소분류",
+};
+
+/**
+ * 상위 분류에 해당하는 분류 목록 로드 훅
+ *
+ * @param enabled 로드 여부 (상위 분류가 선택된 경우에만 true)
+ * @param contentTypeId 콘텐츠 타입 ID
+ * @param cat1 대분류 코드
+ * @param cat2 중분류 코드
+ */
+function useCategoryOptions(
+  enabled: boolean,
+  contentTypeId?: number,
+  cat1?: string,
+  cat2?: string
+) {
+  const [options, setOptions] = useState<CategoryCode[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      setOptions([]);
+      return;
+    }
+
+    let isMounted = true;
+
+    async function loadOptions() {
+      try {
+        setIsLoading(true);
+
+        const result = await getCategoryCode(contentTypeId, cat1, cat2, false); // API 프록시(/api/tour) 경유
+
+        if (!isMounted) return;
+
+        // 분류 목록은 부가 기능이므로 실패 시 드롭다운만 숨김
+        if (result.success && result.data) {
+          setOptions(result.data);
+        } else {
+          setOptions([]);
+        }
+      } catch (err) {
+        if (!isMounted) return;
+        setOptions([]);
+        console.error("Failed to load categories:", err);
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadOptions();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [enabled, contentTypeId, cat1, cat2]);
+
+  return { options, isLoading };
+}
+
+/**
+ * 분류 선택 드롭다운
+ */
+function CategorySelect({
+  level,
+  value,
+  options,
+  isLoading,
+  onChange,
+}: {
+  level: CategoryLevel;
+  value?: string;
+  options: CategoryCode[];
+  isLoading: boolean;
+  onChange: (level: CategoryLevel, value: string) => void;
+}) {
+  if (isLoading) {
+    return <Skeleton className="h-10 w-full" />;
+  }
+
+  if (options.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={value || "all"}
+      onValueChange={(newValue) => onChange(level, newValue)}
+    >
+      <SelectTrigger
+        id={`category-filter-${level}`}
+        className="w-full"
+        aria-label={CATEGORY_LEVEL_LABELS[level]}
+      >
+        <SelectValue placeholder={`전체 ${CATEGORY_LEVEL_LABELS[level]}`} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">전체 {CATEGORY_LEVEL_LABELS[level]}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.code} value={option.code}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * 서비스 분류 필터 컴포넌트
+ */
+export function CategoryFilter() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // URL에서 분류 필터 파싱 (계층이 맞지 않는 하위 분류는 무시)
+  const category = parseCategoryFilter(
+    searchParams.get("cat1"),
+    searchParams.get("cat2"),
+    searchParams.get("cat3")
+  );
+
+  // 관광 타입을 하나만 선택한 경우 해당 타입의 분류만 조회
+  const selectedTypeIds =
+    searchParams.get("contentTypeId")?.split(",").filter(Boolean) || [];
+  const contentTypeId =
+    selectedTypeIds.length === 1 ? Number(selectedTypeIds[0]) : undefined;
+
+  const cat1Options = useCategoryOptions(true, contentTypeId);
+  const cat2Options = useCategoryOptions(
+    !!category?.cat1,
+    contentTypeId,
+    category?.cat1
+  );
+  const cat3Options = useCategoryOptions(
+    !!category?.cat2,
+    contentTypeId,
+    category?.cat1,
+    category?.cat2
+  );
+
+  /**
+   * 분류 선택 변경 핸들러
+   * 상위 분류가 바뀌면 하위 분류 선택을 해제합니다.
+   */
+  const handleCategoryChange = (level: CategoryLevel, value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    const levels: CategoryLevel[] = ["cat1", "cat2", "cat3"];
+
+    // 선택한 단계 이하의 분류 제거
+    levels.slice(levels.indexOf(level)).forEach((key) => params.delete(key));
+
+    if (value !== "" && value !== "all") {
+      params.set(level, value);
+    }
+
+    // 페이지 번호 리셋
+    params.delete("pageNo");
+
+    router.push(`/?${params.toString()}`);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="category-filter-cat1">분류</Label>
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+        <CategorySelect
+          level="cat1"
+          value={category?.cat1}
+          options={cat1Options.options}
+          isLoading={cat1Options.isLoading}
+          onChange={handleCategoryChange}
+        />
+        {category?.cat1 && (
+          <CategorySelect
+            level="cat2"
+            value={category.cat2}
+            options={cat2Options.options}
+            isLoading={cat2Options.isLoading}
+            onChange={handleCategoryChange}
+          />
+        )}
+        {category?.cat2 && (
+          <CategorySelect
+            level="cat3"
+            value={category.cat3}
+            options={cat3Options.options}
+            isLoading={cat3Options.isLoading}
+            onChange={handleCategoryChange}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
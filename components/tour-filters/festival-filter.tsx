@@ -0,0 +1,149 @@
+/**
+ * @file components/tour-filters/festival-filter.tsx
+ * @description 축제/행사 기간 검색 필터 컴포넌트
+ *
+ * 축제/행사 모드 토글과 행사 기간(시작일~종료일) 선택을 제공합니다.
+ * 선택한 조건은 URL(festival, eventStartDate, eventEndDate)에 YYYYMMDD 형식으로 저장되며,
+ * 실제 조회는 서버에서 searchFestival2 API로 수행됩니다.
+ */
+
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  apiDateToInputValue,
+  inputValueToApiDate,
+  toApiDate,
+} from "@/lib/utils/date";
+
+/**
+ * 축제/행사 필터 컴포넌트
+ */
+export function FestivalFilter() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // URL에서 축제/행사 필터 상태 파싱 (시작일 기본값: 오늘)
+  // 반려동물 필터와 함께 지정되면 반려동물 필터가 우선하므로 꺼진 상태로 표시 (홈페이지와 동일)
+  const isFestivalEnabled =
+    searchParams.get("festival") === "true" && searchParams.get("pet") !== "true";
+  const startDateValue =
+    apiDateToInputValue(searchParams.get("eventStartDate")) ||
+    apiDateToInputValue(toApiDate());
+  const endDateValue = apiDateToInputValue(searchParams.get("eventEndDate"));
+
+  /**
+   * 축제/행사 모드 토글 핸들러
+   */
+  const handleFestivalToggle = (checked: boolean) => {
+    const params = new URLSearchParams(searchParams.toString());
+
+    if (checked) {
+      params.set("festival", "true");
+      // 축제/행사 모드는 타입이 고정되고 주변 검색, 반려동물 필터와 함께 사용할 수 없음
+      params.delete("contentTypeId");
+      params.delete("near");
+      params.delete("radius");
+      params.delete("mapArea");
+      params.delete("pet");
+      params.delete("petSize");
+    } else {
+      params.delete("festival");
+      params.delete("eventStartDate");
+      params.delete("eventEndDate");
+    }
+
+    // 정렬 기본값이 모드별로 다르므로 정렬 및 페이지 번호 리셋
+    params.delete("sort");
+    params.delete("pageNo");
+
+    router.push(`/?${params.toString()}`);
+  };
+
+  /**
+   * 행사 기간 변경 핸들러
+   */
+  const handleDateChange = (
+    key: "eventStartDate" | "eventEndDate",
+    value: string
+  ) => {
+    const params = new URLSearchParams(searchParams.toString());
+    const apiDate = inputValueToApiDate(value);
+
+    if (apiDate) {
+      params.set(key, apiDate);
+    } else {
+      params.delete(key);
+    }
+
+    // 시작일이 종료일보다 늦어지면 종료일 제거
+    const startDate = params.get("eventStartDate");
+    const endDate = params.get("eventEndDate");
+    if (startDate && endDate && startDate > endDate) {
+      params.delete(key === "eventStartDate" ? "eventEndDate" : "eventStartDate");
+    }
+
+    params.set("festival", "true");
+
+    // 페이지 번호 리셋
+    params.delete("pageNo");
+
+    router.push(`/?${params.toString()}`);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border bg-card p-3 lg:p-4">
+      {/* 축제/행사 모드 토글 */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="text-lg">🎉</span>
+          <Label
+            htmlFor="festival-filter"
+            className="text-sm font-medium leading-none cursor-pointer"
+          >
+            축제/행사 기간 검색
+          </Label>
+        </div>
+        <Switch
+          id="festival-filter"
+          checked={isFestivalEnabled}
+          onCheckedChange={handleFestivalToggle}
+        />
+      </div>
+
+      {/* 행사 기간 선택 (축제/행사 모드가 활성화된 경우에만 표시) */}
+      {isFestivalEnabled && (
+        <div className="space-y-2 pt-2 border-t">
+          <Label className="text-xs text-muted-foreground">행사 기간</Label>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <Input
+              type="date"
+              aria-label="행사 시작일"
+              value={startDateValue}
+              max={endDateValue || undefined}
+              onChange={(e) => handleDateChange("eventStartDate", e.target.value)}
+              className="sm:w-[170px]"
+            />
+            <span className="hidden text-muted-foreground sm:inline" aria-hidden="true">
+              ~
+            </span>
+            <Input
+              type="date"
+              aria-label="행사 종료일"
+              value={endDateValue}
+              min={startDateValue || undefined}
+              onChange={(e) => handleDateChange("eventEndDate", e.target.value)}
+              className="sm:w-[170px]"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            종료일을 비워두면 시작일 이후 진행 중인 모든 행사를 보여드립니다.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
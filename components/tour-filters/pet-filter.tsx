@@ -3,7 +3,8 @@
  * @description 반려동물 동반 가능 필터 컴포넌트
  *
  * 반려동물 동반 가능 여부 및 크기별 필터를 제공합니다.
- * MVP 2.5 기능으로, 기본 UI만 구현하고 필터링 로직은 향후 개선 예정입니다.
+ * 선택한 조건은 URL(pet, petSize)에 저장되며, 실제 필터링은
+ * 서버의 반려동물 필터 파이프라인(lib/api/pet-tour-api.ts)에서 수행됩니다.
  */
 
 "use client";
@@ -13,11 +14,7 @@ import { Switch } from "@/components/ui/switch";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
-
-/**
- * 반려동물 크기 타입
- */
-type PetSize = "small" | "medium" | "large";
+import type { PetSize } from "@/lib/api/pet-tour-api";
 
 /**
  * 반려동물 크기 라벨 매핑
@@ -28,6 +25,24 @@ const PET_SIZE_LABELS: Record<PetSize, string> = {
   large: "대형",
 };
 
+/**
+ * 반려동물 필터와 함께 사용할 수 없는 주변 검색(현재 위치/지도 영역)과
+ * 축제/행사 모드 파라미터 제거
+ */
+function clearExclusiveModes(params: URLSearchParams) {
+  params.delete("near");
+  params.delete("radius");
+  params.delete("mapArea");
+
+  if (params.get("festival") === "true") {
+    // 축제/행사 모드의 정렬(행사 시작일순)은 반려동물 필터에서 지원하지 않음
+    params.delete("sort");
+  }
+  params.delete("festival");
+  params.delete("eventStartDate");
+  params.delete("eventEndDate");
+}
+
 /**
  * 반려동물 필터 컴포넌트
  */
@@ -50,6 +65,8 @@ export function PetFilter() {
 
     if (checked) {
       params.set("pet", "true");
+      // 반려동물 필터는 지역/타입 후보 목록 기준이라 주변 검색, 축제/행사 모드와 함께 사용할 수 없음
+      clearExclusiveModes(params);
     } else {
       params.delete("pet");
       params.delete("petSize"); // 반려동물 필터 해제 시 크기 필터도 제거
@@ -70,6 +87,7 @@ export function PetFilter() {
     // 반려동물 필터가 활성화되어 있지 않으면 활성화
     if (!isPetEnabled) {
       params.set("pet", "true");
+      clearExclusiveModes(params);
     }
 
     let newSelectedSizes: PetSize[];
@@ -0,0 +1,380 @@
+/**
+ * @file components/tour-filters/saved-searches.tsx
+ * @description 저장한 검색 컴포넌트
+ *
+ * 로그인 사용자가 현재 필터 조건(URL 쿼리)을 이름을 붙여 저장하고,
+ * 저장한 검색을 다시 실행하거나 삭제할 수 있습니다.
+ * 적용한 검색 조건은 검색 기록(search_history)에 남아 최근 검색 조건으로 표시됩니다.
+ *
+ * 핵심 구현 로직:
+ * - 검색 조건은 검색 관련 파라미터만 정규화하여 저장 (lib/utils/search-query.ts)
+ * - 저장한 검색별로 마지막 방문 이후 수정된 관광지 수를 조회하여 "N개 새 항목" 뱃지 표시
+ * - 저장한 검색을 다시 실행하면 방문 시각을 갱신하여 뱃지 초기화
+ * - 검색 기록은 조건이 일정 시간 유지된 경우에만 추가 (필터 변경마다 기록하지 않음)
+ *
+ * @dependencies
+ * - @/lib/api/supabase-api: 검색 기록/저장한 검색 API
+ * - /api/saved-searches/new-items: 새 항목 수 조회
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useUser } from "@clerk/nextjs";
+import { BookmarkPlus, History, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import {
+  addSavedSearch,
+  addSearchHistory,
+  clearSearchHistory,
+  getSavedSearches,
+  getSearchHistory,
+  markSavedSearchVisited,
+  removeSavedSearch,
+  type SavedSearch,
+  type SearchHistoryEntry,
+} from "@/lib/api/supabase-api";
+import { getAreaCode } from "@/lib/api/tour-api";
+import { SAVED_SEARCH_CONFIG } from "@/lib/constants/api";
+import { getSearchQueryLabel, toSearchQuery } from "@/lib/utils/search-query";
+import { toastError, toastSuccess } from "@/lib/utils/toast";
+import type { ApiResult } from "@/lib/types/api";
+import type { SavedSearchNewItems } from "@/lib/types/search";
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * 저장한 검색의 새 항목 수 조회 (실패 시 null, 뱃지만 표시하지 않음)
+ */
+async function fetchNewItems(savedSearch: SavedSearch): Promise<SavedSearchNewItems | null> {
+  try {
+    const params = new URLSearchParams({
+      query: savedSearch.query,
+      since: savedSearch.last_visited_at,
+    });
+    const response = await fetch(`/api/saved-searches/new-items?${params.toString()}`);
+    const result = (await response.json()) as ApiResult<SavedSearchNewItems>;
+    return result.success === true ? result.data : null;
+  } catch (error) {
+    console.error("Failed to fetch new items:", error);
+    return null;
+  }
+}
+
+/**
+ * 저장한 검색 컴포넌트
+ */
+export function SavedSearches() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, isLoaded } = useUser();
+  const supabase = useClerkSupabaseClient();
+
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [newItems, setNewItems] = useState<Record<string, SavedSearchNewItems | null>>({});
+  const [history, setHistory] = useState<SearchHistoryEntry[]>([]);
+  const [areaNames, setAreaNames] = useState<Map<string, string>>(new Map());
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  // 같은 검색 조건을 연속으로 기록하지 않도록 마지막 기록 조건 보관
+  const lastRecordedQueryRef = useRef<string | null>(null);
+
+  const currentQuery = toSearchQuery(new URLSearchParams(searchParams.toString()));
+  const isCurrentSaved = savedSearches.some((saved) => saved.query === currentQuery);
+
+  // 저장한 검색, 검색 기록, 지역명 로드
+  useEffect(() => {
+    if (!isLoaded || !user) return;
+
+    let isMounted = true;
+
+    async function loadSavedSearches() {
+      const [savedResult, historyResult, areaResult] = await Promise.all([
+        getSavedSearches(supabase, user!.id),
+        getSearchHistory(supabase, user!.id),
+        getAreaCode(undefined, false), // API 프록시(/api/tour) 경유
+      ]);
+      if (!isMounted) return;
+
+      if (areaResult.success === true) {
+        setAreaNames(
+          new Map(
+            // 실제 API 응답은 code/name 필드를 사용하므로 함께 확인
+            areaResult.data.map((area: TourItem & { code?: string; name?: string }) => [
+              area.areacode || area.code || "",
+              area.title || area.name || "",
+            ])
+          )
+        );
+      }
+      if (historyResult.success) {
+        setHistory(historyResult.data || []);
+      }
+      if (!savedResult.success) return;
+
+      const saved = savedResult.data || [];
+      setSavedSearches(saved);
+
+      // 새 항목 수는 저장한 검색별로 조회하여 도착하는 대로 표시
+      saved.forEach(async (savedSearch) => {
+        const items = await fetchNewItems(savedSearch);
+        if (isMounted) {
+          setNewItems((current) => ({ ...current, [savedSearch.id]: items }));
+        }
+      });
+    }
+
+    loadSavedSearches();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isLoaded, user, supabase]);
+
+  // 적용한 검색 조건을 검색 기록에 추가
+  // 필터를 연달아 바꾸는 동안의 중간 조건은 기록하지 않도록 조건이 일정 시간 유지된 경우만 기록
+  useEffect(() => {
+    if (!isLoaded || !user || !currentQuery) return;
+    if (lastRecordedQueryRef.current === currentQuery) return;
+
+    const timer = setTimeout(() => {
+      lastRecordedQueryRef.current = currentQuery;
+
+      addSearchHistory(supabase, user.id, currentQuery).then((result) => {
+        if (!result.success) return;
+        // 서버와 같이 같은 조건의 이전 기록은 제거하고 최신 기록으로 추가
+        setHistory((current) => [
+          {
+            id: `local-${Date.now()}`,
+            user_id: "",
+            query: currentQuery,
+            created_at: new Date().toISOString(),
+          },
+          ...current.filter((entry) => entry.query !== currentQuery),
+        ]);
+      });
+    }, SAVED_SEARCH_CONFIG.historyRecordDelayMs);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [isLoaded, user, supabase, currentQuery]);
+
+  // 로그인 사용자만 사용 가능
+  if (!isLoaded || !user) {
+    return null;
+  }
+
+  // 최근 검색 조건 (현재 조건과 저장한 검색 제외, 중복 제거)
+  const recentQueries = [...new Set(history.map((entry) => entry.query))]
+    .filter(
+      (query) => query !== currentQuery && !savedSearches.some((saved) => saved.query === query)
+    )
+    .slice(0, SAVED_SEARCH_CONFIG.historyDisplayCount);
+
+  /**
+   * 저장 다이얼로그 열기 (현재 조건으로 기본 이름 생성)
+   */
+  const handleOpenDialog = () => {
+    setName(getSearchQueryLabel(currentQuery, areaNames));
+    setIsDialogOpen(true);
+  };
+
+  /**
+   * 현재 검색 조건 저장
+   */
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      const result = await addSavedSearch(supabase, user.id, trimmedName, currentQuery);
+      if (result.success && result.data) {
+        const saved = result.data;
+        setSavedSearches((current) => [saved, ...current]);
+        setNewItems((current) => ({ ...current, [saved.id]: { newCount: 0, hasMore: false } }));
+        setIsDialogOpen(false);
+        toastSuccess("검색 조건을 저장했습니다", trimmedName);
+      } else {
+        toastError("검색 조건 저장 실패", result.error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 저장한 검색 다시 실행 (방문 시각 갱신)
+   */
+  const handleRun = async (savedSearch: SavedSearch) => {
+    router.push(`/?${savedSearch.query}`);
+
+    const result = await markSavedSearchVisited(supabase, user.id, savedSearch.id);
+    if (result.success && result.data) {
+      const visited = result.data;
+      setSavedSearches((current) =>
+        current.map((saved) => (saved.id === visited.id ? visited : saved))
+      );
+      setNewItems((current) => ({ ...current, [visited.id]: { newCount: 0, hasMore: false } }));
+    }
+  };
+
+  /**
+   * 저장한 검색 삭제
+   */
+  const handleRemove = async (savedSearch: SavedSearch) => {
+    const result = await removeSavedSearch(supabase, user.id, savedSearch.id);
+    if (result.success) {
+      setSavedSearches((current) => current.filter((saved) => saved.id !== savedSearch.id));
+      toastSuccess("저장한 검색을 삭제했습니다", savedSearch.name);
+    } else {
+      toastError("저장한 검색 삭제 실패", result.error);
+    }
+  };
+
+  /**
+   * 검색 기록 전체 삭제
+   */
+  const handleClearHistory = async () => {
+    const result = await clearSearchHistory(supabase, user.id);
+    if (result.success) {
+      setHistory([]);
+    } else {
+      toastError("검색 기록 삭제 실패", result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label>저장한 검색</Label>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleOpenDialog}
+          disabled={!currentQuery || isCurrentSaved}
+        >
+          <BookmarkPlus className="mr-2 h-4 w-4" aria-hidden="true" />
+          {isCurrentSaved ? "저장됨" : "현재 조건 저장"}
+        </Button>
+      </div>
+
+      {savedSearches.length > 0 ? (
+        <ul className="flex flex-wrap gap-2" aria-label="저장한 검색 목록">
+          {savedSearches.map((savedSearch) => {
+            const items = newItems[savedSearch.id];
+            const newLabel =
+              items && items.newCount > 0
+                ? `${items.newCount}${items.hasMore ? "+" : ""}개 새 항목`
+                : null;
+
+            return (
+              <li
+                key={savedSearch.id}
+                className="flex items-center rounded-md border bg-card"
+              >
+                <button
+                  type="button"
+                  onClick={() => handleRun(savedSearch)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm hover:text-primary"
+                  aria-current={savedSearch.query === currentQuery ? "true" : undefined}
+                  title={getSearchQueryLabel(savedSearch.query, areaNames)}
+                >
+                  <span className="max-w-[200px] truncate">{savedSearch.name}</span>
+                  {newLabel && (
+                    <span className="rounded-full bg-primary px-2 py-0.5 text-xs text-primary-foreground">
+                      {newLabel}
+                    </span>
+                  )}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleRemove(savedSearch)}
+                  aria-label={`${savedSearch.name} 삭제`}
+                >
+                  <X className="h-3.5 w-3.5" aria-hidden="true" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          자주 찾는 필터 조합을 저장하면 새로 등록되거나 수정된 관광지를 알려드립니다.
+        </p>
+      )}
+
+      {recentQueries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 pt-1">
+          <History className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          <span className="sr-only">최근 검색 조건</span>
+          {recentQueries.map((query) => (
+            <button
+              key={query}
+              type="button"
+              onClick={() => router.push(`/?${query}`)}
+              className="rounded-md px-2 py-1 text-xs text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+            >
+              {getSearchQueryLabel(query, areaNames)}
+            </button>
+          ))}
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto px-1 text-xs"
+            onClick={handleClearHistory}
+          >
+            기록 삭제
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>검색 조건 저장</DialogTitle>
+              <DialogDescription>
+                저장한 검색은 필터 영역에서 다시 실행할 수 있습니다.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="saved-search-name">검색 이름</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={SAVED_SEARCH_CONFIG.maxNameLength}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                취소
+              </Button>
+              <Button type="submit" disabled={!name.trim() || isSaving}>
+                {isSaving ? "저장 중..." : "저장"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
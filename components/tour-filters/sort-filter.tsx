@@ -5,6 +5,14 @@
  * 관광지 목록 정렬 옵션을 제공합니다.
  * - 최신순 (modifiedtime DESC)
  * - 이름순 (title ASC, 가나다순)
+ * - 행사 시작일순 (축제/행사 모드에서만 표시, 기본값)
+ * - 관련도순 (검색 모드에서만 표시, 기본값)
+ * - 거리순 (현재 위치 또는 지도에서 선택한 지점 기준, 주변 검색 모드에서는 기본값)
+ *   전체 결과를 모아 정렬하는 반려동물/축제/검색 모드와 주변 검색 모드에서만 표시
+ *   (지역/숙박 목록 API는 거리순 조회를 지원하지 않음)
+ *
+ * 거리순 선택 시 브라우저 위치 정보로 기준 위치(origin)를 설정하며,
+ * 위치 권한이 거부되면 안내 메시지를 표시하고 기존 정렬을 유지합니다.
  */
 
 "use client";
@@ -18,18 +26,60 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { formatLatLng } from "@/lib/utils/coordinates";
+import { toastError, toastInfo } from "@/lib/utils/toast";
 
 /**
  * 정렬 옵션 타입
  */
-type SortOption = "modifiedtime" | "title";
+type SortOption = "modifiedtime" | "title" | "eventstart" | "relevance" | "dist";
+
+/**
+ * 정렬 옵션 라벨 매핑 (지역/숙박 목록)
+ */
+const SORT_OPTIONS: Record<Extract<SortOption, "modifiedtime" | "title">, string> = {
+  modifiedtime: "최신순",
+  title: "이름순",
+};
 
 /**
- * 정렬 옵션 라벨 매핑
+ * 반려동물 필터 모드 정렬 옵션 라벨 매핑
+ * (필터링된 전체 결과를 정렬하므로 거리순 제공)
  */
-const SORT_OPTIONS: Record<SortOption, string> = {
+const PET_SORT_OPTIONS: Record<Exclude<SortOption, "eventstart" | "relevance">, string> = {
   modifiedtime: "최신순",
   title: "이름순",
+  dist: "거리순",
+};
+
+/**
+ * 검색 모드 정렬 옵션 라벨 매핑
+ * (검색어와 일치하는 정도가 높은 관광지를 먼저 보여주도록 관련도순을 기본값으로 사용)
+ */
+const SEARCH_SORT_OPTIONS: Record<Exclude<SortOption, "eventstart">, string> = {
+  relevance: "관련도순",
+  modifiedtime: "최신순",
+  title: "이름순",
+  dist: "거리순",
+};
+
+/**
+ * 축제/행사 모드 정렬 옵션 라벨 매핑
+ * (행사는 수정일보다 시작일 기준 정렬이 의미 있으므로 시작일순을 기본값으로 사용)
+ */
+const FESTIVAL_SORT_OPTIONS: Record<Exclude<SortOption, "modifiedtime" | "relevance">, string> =
+  {
+    eventstart: "시작일순",
+    title: "이름순",
+    dist: "거리순",
+  };
+
+/**
+ * 주변 검색 모드 정렬 옵션 라벨 매핑
+ * (API가 기준 위치에서 가까운 순으로 조회하므로 거리순만 제공)
+ */
+const NEAR_SORT_OPTIONS: Record<Extract<SortOption, "dist">, string> = {
+  dist: "거리순",
 };
 
 /**
@@ -39,16 +89,55 @@ export function SortFilter() {
   const router = useRouter();
   const searchParams = useSearchParams();
 
+  const isNearMode = !!searchParams.get("near");
+  const isPetMode = searchParams.get("pet") === "true" && !isNearMode;
+  // 축제/행사와 반려동물 필터가 함께 지정되면 반려동물 필터 우선 (홈페이지와 동일)
+  const isFestivalMode =
+    searchParams.get("festival") === "true" && !isNearMode && !isPetMode;
+  // 검색 모드 조건은 홈페이지(app/page.tsx)의 검색 모드와 동일
+  const isSearchMode =
+    !!searchParams.get("keyword")?.trim() &&
+    !isPetMode &&
+    !isNearMode &&
+    !isFestivalMode;
+  const defaultSort: SortOption = isNearMode
+    ? "dist"
+    : isFestivalMode
+      ? "eventstart"
+      : isSearchMode
+        ? "relevance"
+        : "modifiedtime";
+  const sortOptions = isNearMode
+    ? NEAR_SORT_OPTIONS
+    : isFestivalMode
+      ? FESTIVAL_SORT_OPTIONS
+      : isSearchMode
+        ? SEARCH_SORT_OPTIONS
+        : isPetMode
+          ? PET_SORT_OPTIONS
+          : SORT_OPTIONS;
+
+  const requestedSort = searchParams.get("sort") as SortOption | null;
+  // 거리순은 기준 위치가 있을 때만 적용 (홈페이지와 동일)
+  const hasOrigin = isNearMode || !!searchParams.get("origin");
   const selectedSort =
-    (searchParams.get("sort") as SortOption) || "modifiedtime";
+    requestedSort && requestedSort in sortOptions && (requestedSort !== "dist" || hasOrigin)
+      ? requestedSort
+      : defaultSort;
 
   /**
    * 정렬 옵션 변경 핸들러
    */
   const handleSortChange = (value: string) => {
+    // 거리순은 현재 위치를 기준 위치로 설정한 뒤 적용
+    if (value === "dist" && !isNearMode) {
+      applyDistanceSort();
+      return;
+    }
+
     const params = new URLSearchParams(searchParams.toString());
 
-    if (value === "modifiedtime") {
+    if (value === defaultSort) {
       // 기본값이면 파라미터 제거
       params.delete("sort");
     } else {
@@ -61,6 +150,38 @@ export function SortFilter() {
     router.push(`/?${params.toString()}`);
   };
 
+  /**
+   * 현재 위치 기준 거리순 정렬 적용
+   * (위치 정보를 사용할 수 없으면 안내 후 기존 정렬 유지)
+   */
+  const applyDistanceSort = () => {
+    if (!navigator.geolocation) {
+      toastError(
+        "이 브라우저는 위치 서비스를 지원하지 않습니다.",
+        "지도의 지도 중심 기준 거리순 버튼을 사용해주세요."
+      );
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const params = new URLSearchParams(searchParams.toString());
+        const { latitude, longitude } = position.coords;
+        params.set("origin", formatLatLng({ lat: latitude, lng: longitude }));
+        params.set("sort", "dist");
+        params.delete("pageNo");
+        router.push(`/?${params.toString()}`);
+      },
+      (error) => {
+        console.error("위치 정보를 가져올 수 없습니다:", error);
+        toastInfo(
+          "위치 정보를 가져올 수 없어 거리순으로 정렬할 수 없습니다.",
+          "위치 권한을 허용하거나 지도의 지도 중심 기준 거리순 버튼을 사용해주세요."
+        );
+      }
+    );
+  };
+
   return (
     <div className="space-y-2">
       <Label htmlFor="sort-filter">정렬</Label>
@@ -69,7 +190,7 @@ export function SortFilter() {
           <SelectValue />
         </SelectTrigger>
         <SelectContent>
-          {Object.entries(SORT_OPTIONS).map(([value, label]) => (
+          {Object.entries(sortOptions).map(([value, label]) => (
             <SelectItem key={value} value={value}>
               {label}
             </SelectItem>
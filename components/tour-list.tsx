@@ -9,10 +9,13 @@
 "use client";
 
 import { TourItem } from "@/lib/types/tour";
+import type { TourSearchItem } from "@/lib/types/search";
 import { TourCard } from "@/components/tour-card";
 import { SkeletonCardList } from "@/components/ui/skeleton-card";
-import { Error } from "@/components/ui/error";
+import { ApiErrorState } from "@/components/api-error-state";
 import { cn } from "@/lib/utils";
+import { getTourCategoryName } from "@/lib/api/category-api";
+import type { TourApiErrorKind } from "@/lib/types/api";
 
 interface TourListProps {
   /** 관광지 목록 */
@@ -21,10 +24,14 @@ interface TourListProps {
   isLoading?: boolean;
   /** 에러 메시지 */
   error?: string | null;
+  /** 에러 종류 (복구 안내 표시용) */
+  errorKind?: TourApiErrorKind;
   /** 추가 클래스명 */
   className?: string;
   /** 검색 키워드 (검색 모드일 때) */
   searchKeyword?: string;
+  /** 분류 코드 → 분류명 매핑 (카드 뱃지 표시용) */
+  categoryNames?: Record<string, string>;
   /** 선택된 관광지 ID (지도 연동용) */
   selectedContentId?: string;
   /** 카드 클릭 핸들러 (지도 연동용) */
@@ -44,8 +51,10 @@ export function TourList({
   tours,
   isLoading = false,
   error = null,
+  errorKind,
   className,
   searchKeyword,
+  categoryNames,
   selectedContentId,
   onCardClick,
   onCardHover,
@@ -63,20 +72,13 @@ export function TourList({
     );
   }
 
-  // 에러 상태
-  if (error) {
-    // 에러 타입 판단 (네트워크 에러인지 API 에러인지)
-    const errorType = error.toLowerCase().includes("network") || 
-                      error.toLowerCase().includes("fetch") ||
-                      error.toLowerCase().includes("네트워크")
-                      ? "network" 
-                      : "api";
-    
+  // 에러 상태 (조회된 데이터가 없는 경우는 빈 상태로 표시)
+  if (error && errorKind !== "no-data") {
     return (
       <div className={cn("w-full", className)}>
-        <Error
+        <ApiErrorState
           message={error}
-          type={errorType}
+          kind={errorKind}
           className="w-full"
           onRetry={onRetry}
         />
@@ -138,11 +140,14 @@ export function TourList({
           <TourCard
             key={tour.contentid}
             tour={tour}
+            categoryName={getTourCategoryName(tour, categoryNames)}
             isSelected={selectedContentId === tour.contentid}
             onClick={onCardClick}
             onMouseEnter={onCardHover}
             onMouseLeave={onCardHoverLeave}
             priority={index < 6}
+            // 검색 결과 항목에만 하이라이트 범위가 포함됨
+            highlights={(tour as TourSearchItem).highlights}
           />
         ))}
       </div>
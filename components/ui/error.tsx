@@ -5,6 +5,7 @@
  * 다양한 타입의 에러를 표시하고 재시도 기능을 제공합니다.
  */
 
+import type { ReactNode } from "react";
 import { AlertCircle, WifiOff, ServerOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -16,6 +17,8 @@ interface ErrorProps {
   message: string;
   /** 에러 타입 */
   type?: ErrorType;
+  /** 제목 (기본값: 에러 타입별 제목) */
+  title?: string;
   /** 재시도 함수 */
   onRetry?: () => void;
   /** 재시도 버튼 텍스트 */
@@ -24,6 +27,8 @@ interface ErrorProps {
   className?: string;
   /** 컴팩트 모드 (작은 크기) */
   compact?: boolean;
+  /** 메시지 아래에 표시할 추가 안내/복구 액션 */
+  children?: ReactNode;
 }
 
 const iconMap = {
@@ -44,13 +49,14 @@ const titleMap = {
 export function Error({
   message,
   type = "general",
+  title,
   onRetry,
   retryText = "다시 시도",
   className,
   compact = false,
+  children,
 }: ErrorProps) {
   const Icon = iconMap[type];
-  const title = titleMap[type];
 
   return (
     <div
@@ -76,7 +82,7 @@ export function Error({
             compact ? "text-sm" : "text-base"
           )}
         >
-          {title}
+          {title || titleMap[type]}
         </h3>
         <p
           className={cn(
@@ -87,6 +93,7 @@ export function Error({
           {message}
         </p>
       </div>
+      {children}
       {onRetry && (
         <Button
           onClick={onRetry}
@@ -0,0 +1,63 @@
+/**
+ * @file hooks/use-map-provider.ts
+ * @description 지도 제공자 로드 훅
+ *
+ * 지도 컴포넌트(NaverMap, DetailMap)가 사용할 지도 제공자를 로드합니다.
+ *
+ * 주요 기능:
+ * - 환경변수에 따른 지도 제공자 선택 및 스크립트 로드 (lib/utils/map-provider.ts)
+ * - 네이버 지도 인증 실패(잘못된 키, 사용량 초과) 시 대체 지도로 다시 로드
+ *
+ * @dependencies
+ * - @/lib/utils/map-provider: loadMapProvider
+ * - @/lib/utils/naver-maps: onNaverMapsAuthFailure
+ */
+
+import { useEffect, useState } from "react";
+import { loadMapProvider } from "@/lib/utils/map-provider";
+import { onNaverMapsAuthFailure } from "@/lib/utils/naver-maps";
+import type { MapProvider } from "@/lib/types/map";
+
+interface UseMapProviderReturn {
+  /** 로드된 지도 제공자 (로드 중이거나 실패하면 null) */
+  provider: MapProvider | null;
+  /** 로드 에러 메시지 */
+  error: string | null;
+}
+
+/**
+ * 지도 제공자 로드 훅
+ */
+export function useMapProvider(): UseMapProviderReturn {
+  const [provider, setProvider] = useState<MapProvider | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // 네이버 지도 인증 실패 횟수 (변경 시 제공자 다시 선택)
+  const [authFailureCount, setAuthFailureCount] = useState(0);
+
+  useEffect(() => {
+    return onNaverMapsAuthFailure(() => setAuthFailureCount((count) => count + 1));
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    loadMapProvider()
+      .then((loaded) => {
+        if (!isMounted) return;
+        setProvider(loaded);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!isMounted) return;
+        setProvider(null);
+        setError(err instanceof Error ? err.message : "지도를 불러오는 중 오류가 발생했습니다.");
+        console.error("지도 제공자 로드 오류:", err);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [authFailureCount]);
+
+  return { provider, error };
+}
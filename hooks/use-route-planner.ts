@@ -0,0 +1,171 @@
+/**
+ * @file hooks/use-route-planner.ts
+ * @description 여러 장소 경로(길찾기) 훅
+ *
+ * 북마크나 관광지 목록에서 고른 장소를 순서대로 담아 여러 장소를 경유하는 경로를 만듭니다.
+ * 경로는 브라우저(localStorage)에 저장되어 관광지 카드와 상세페이지 지도가 같은 경로를 공유합니다.
+ *
+ * 핵심 구현 로직:
+ * - 모듈 단위 저장소 + useSyncExternalStore (여러 컴포넌트에서 같은 경로 구독)
+ * - 다른 탭에서 경로를 바꾸면 storage 이벤트로 동기화
+ * - 최대 장소 수 제한 (ROUTE_PLANNER_CONFIG.maxStops)
+ *
+ * @dependencies
+ * - @/lib/constants/map: ROUTE_PLANNER_CONFIG
+ * - @/lib/types/route: RouteStop
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import { ROUTE_PLANNER_CONFIG } from "@/lib/constants/map";
+import type { RouteStop } from "@/lib/types/route";
+
+/**
+ * 서버 렌더링 및 저장된 경로가 없을 때 사용하는 빈 경로
+ */
+const EMPTY_STOPS: RouteStop[] = [];
+
+/**
+ * 현재 경로 (처음 조회할 때 localStorage에서 로드)
+ */
+let cachedStops: RouteStop[] | null = null;
+
+/**
+ * 경로 변경 구독자
+ */
+const listeners = new Set<() => void>();
+
+/**
+ * 저장된 경로 로드 (형식이 맞지 않는 항목은 제외)
+ */
+function loadStops(): RouteStop[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ROUTE_PLANNER_CONFIG.storageKey) ?? "[]");
+    if (!Array.isArray(saved)) return EMPTY_STOPS;
+    return saved
+      .filter(
+        (stop): stop is RouteStop =>
+          typeof stop?.contentId === "string" &&
+          typeof stop.title === "string" &&
+          Number.isFinite(stop.position?.lat) &&
+          Number.isFinite(stop.position?.lng)
+      )
+      .slice(0, ROUTE_PLANNER_CONFIG.maxStops);
+  } catch {
+    return EMPTY_STOPS;
+  }
+}
+
+function getSnapshot(): RouteStop[] {
+  if (cachedStops === null) {
+    cachedStops = loadStops();
+  }
+  return cachedStops;
+}
+
+function getServerSnapshot(): RouteStop[] {
+  return EMPTY_STOPS;
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+
+  // 다른 탭에서 변경한 경로 반영
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === ROUTE_PLANNER_CONFIG.storageKey) {
+      cachedStops = null;
+      listener();
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+/**
+ * 경로 저장 및 구독자 알림
+ */
+function saveStops(stops: RouteStop[]): void {
+  cachedStops = stops;
+  try {
+    localStorage.setItem(ROUTE_PLANNER_CONFIG.storageKey, JSON.stringify(stops));
+  } catch {
+    // 저장 공간이 없거나 비활성화된 경우 현재 페이지에서만 유지
+  }
+  listeners.forEach((listener) => listener());
+}
+
+interface UseRoutePlannerReturn {
+  /** 경로 장소 목록 (순서대로) */
+  stops: RouteStop[];
+  /** 경로에 더 담을 수 있는지 여부 */
+  isFull: boolean;
+  /** 경로에 포함된 장소인지 확인 */
+  hasStop: (contentId: string) => boolean;
+  /**
+   * 경로 끝에 장소 추가
+   * @returns 추가 여부 (이미 있거나 최대 장소 수를 넘으면 false)
+   */
+  addStop: (stop: RouteStop) => boolean;
+  /** 경로에서 장소 제거 */
+  removeStop: (contentId: string) => void;
+  /** 장소 순서 이동 (-1: 앞으로, 1: 뒤로) */
+  moveStop: (contentId: string, direction: -1 | 1) => void;
+  /** 경로 비우기 */
+  clearStops: () => void;
+}
+
+/**
+ * 여러 장소 경로 훅
+ */
+export function useRoutePlanner(): UseRoutePlannerReturn {
+  const stops = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const hasStop = useCallback(
+    (contentId: string) => stops.some((stop) => stop.contentId === contentId),
+    [stops]
+  );
+
+  const addStop = useCallback((stop: RouteStop) => {
+    const current = getSnapshot();
+    if (
+      current.length >= ROUTE_PLANNER_CONFIG.maxStops ||
+      current.some(({ contentId }) => contentId === stop.contentId)
+    ) {
+      return false;
+    }
+    saveStops([...current, stop]);
+    return true;
+  }, []);
+
+  const removeStop = useCallback((contentId: string) => {
+    saveStops(getSnapshot().filter((stop) => stop.contentId !== contentId));
+  }, []);
+
+  const moveStop = useCallback((contentId: string, direction: -1 | 1) => {
+    const current = getSnapshot();
+    const index = current.findIndex((stop) => stop.contentId === contentId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= current.length) return;
+
+    const next = [...current];
+    [next[index], next[target]] = [next[target], next[index]];
+    saveStops(next);
+  }, []);
+
+  const clearStops = useCallback(() => {
+    saveStops(EMPTY_STOPS);
+  }, []);
+
+  return {
+    stops,
+    isFull: stops.length >= ROUTE_PLANNER_CONFIG.maxStops,
+    hasStop,
+    addStop,
+    removeStop,
+    moveStop,
+    clearStops,
+  };
+}
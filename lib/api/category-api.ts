@@ -0,0 +1,118 @@
+/**
+ * @file lib/api/category-api.ts
+ * @description 서비스 분류(cat1/cat2/cat3) 유틸리티
+ *
+ * 관광지 목록의 분류 필터 파싱과 분류 코드 → 분류명 변환을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. URL 쿼리 값에서 분류 필터 파싱 (parseCategoryFilter)
+ * 2. 관광지 목록에 포함된 분류 코드의 이름 조회 (getCategoryNames)
+ *
+ * 핵심 구현 로직:
+ * - 하위 분류 코드는 상위 분류 코드로 시작하므로 접두사로 계층 관계를 검증
+ * - 분류명은 현재 목록에 등장한 대분류/중분류 단위로만 categoryCode2를 조회 (24시간 캐싱)
+ *
+ * @dependencies
+ * - @/lib/api/tour-api: getCategoryCode
+ */
+
+import { getCategoryCode } from "@/lib/api/tour-api";
+import type { TourItem } from "@/lib/types/tour";
+import type { CategoryFilter } from "@/lib/types/category";
+
+/**
+ * URL 쿼리 값에서 분류 필터 파싱
+ *
+ * 상위 분류가 없거나 상위 분류와 맞지 않는 하위 분류는 무시합니다.
+ *
+ * @param cat1 대분류 코드
+ * @param cat2 중분류 코드
+ * @param cat3 소분류 코드
+ * @returns 유효한 분류 필터 (분류가 없으면 undefined)
+ */
+export function parseCategoryFilter(
+  cat1?: string | null,
+  cat2?: string | null,
+  cat3?: string | null
+): CategoryFilter | undefined {
+  if (!cat1) return undefined;
+
+  const validCat2 = cat2 && cat2.startsWith(cat1) ? cat2 : undefined;
+  const validCat3 =
+    validCat2 && cat3 && cat3.startsWith(validCat2) ? cat3 : undefined;
+
+  return {
+    cat1,
+    ...(validCat2 && { cat2: validCat2 }),
+    ...(validCat3 && { cat3: validCat3 }),
+  };
+}
+
+/**
+ * 관광지 목록의 분류명 조회
+ *
+ * 목록에 등장한 분류 코드에 대해서만 categoryCode2를 조회하여
+ * 분류 코드 → 분류명 매핑을 만듭니다. 조회에 실패한 분류는 매핑에서 제외됩니다.
+ *
+ * @param tours 관광지 목록
+ * @returns 분류 코드를 키로 하는 분류명 매핑
+ */
+export async function getCategoryNames(
+  tours: TourItem[]
+): Promise<Record<string, string>> {
+  const cat1Codes = new Set<string>();
+  const cat2Pairs = new Map<string, [string, string]>();
+
+  for (const tour of tours) {
+    if (!tour.cat1) continue;
+    cat1Codes.add(tour.cat1);
+    if (tour.cat2) {
+      cat2Pairs.set(tour.cat2, [tour.cat1, tour.cat2]);
+    }
+  }
+
+  if (cat1Codes.size === 0) {
+    return {};
+  }
+
+  // 대분류 목록, 대분류별 중분류 목록, 중분류별 소분류 목록을 병렬 조회
+  const results = await Promise.all([
+    getCategoryCode(undefined, undefined, undefined, true),
+    ...Array.from(cat1Codes).map((cat1) =>
+      getCategoryCode(undefined, cat1, undefined, true)
+    ),
+    ...Array.from(cat2Pairs.values()).map(([cat1, cat2]) =>
+      getCategoryCode(undefined, cat1, cat2, true)
+    ),
+  ]);
+
+  const names: Record<string, string> = {};
+  for (const result of results) {
+    if (!result.success || !result.data) continue;
+    for (const item of result.data) {
+      names[item.code] = item.name;
+    }
+  }
+
+  return names;
+}
+
+/**
+ * 관광지의 가장 구체적인 분류명 반환 (소분류 → 중분류 → 대분류 순)
+ *
+ * @param tour 관광지 정보
+ * @param categoryNames 분류 코드 → 분류명 매핑
+ * @returns 분류명 (매핑이 없으면 undefined)
+ */
+export function getTourCategoryName(
+  tour: Pick<TourItem, "cat1" | "cat2" | "cat3">,
+  categoryNames?: Record<string, string>
+): string | undefined {
+  if (!categoryNames) return undefined;
+  return (
+    (tour.cat3 && categoryNames[tour.cat3]) ||
+    (tour.cat2 && categoryNames[tour.cat2]) ||
+    (tour.cat1 && categoryNames[tour.cat1]) ||
+    undefined
+  );
+}
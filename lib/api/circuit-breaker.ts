@@ -0,0 +1,99 @@
+/**
+ * @file lib/api/circuit-breaker.ts
+ * @description 외부 API 장애 차단기 (circuit breaker)
+ *
+ * 외부 API가 장애 상태일 때 매 요청마다 재시도하며 응답을 지연시키지 않도록,
+ * 연속 실패가 일정 횟수를 넘으면 일정 시간 동안 호출을 차단합니다.
+ *
+ * 상태:
+ * - closed: 정상 (모든 요청 허용)
+ * - open: 차단 (요청하지 않고 즉시 실패 처리)
+ * - half-open: 차단 시간이 지나 시험 요청 1건만 허용 (성공 시 closed, 실패 시 다시 open)
+ */
+
+/**
+ * 차단기 상태
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * 차단기 옵션
+ */
+export interface CircuitBreakerOptions {
+  /** 차단까지 허용하는 연속 실패 횟수 */
+  failureThreshold: number;
+  /** 차단 유지 시간 (ms, 이후 시험 요청 허용) */
+  resetTimeoutMs: number;
+}
+
+/**
+ * 차단기 생성
+ *
+ * @param options 차단기 옵션
+ * @returns 요청 허용 확인 및 결과 기록 함수
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions) {
+  let state: CircuitState = "closed";
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  /**
+   * 요청 허용 여부 확인
+   * 차단 시간이 지났으면 half-open으로 전환하고 시험 요청 1건만 허용합니다.
+   * 허용된 요청은 결과와 관계없이 recordSuccess/recordFailure 중 하나로 반드시 종료해야 합니다.
+   */
+  function canRequest(): boolean {
+    if (state === "closed") return true;
+
+    if (state === "open" && Date.now() - openedAt >= options.resetTimeoutMs) {
+      state = "half-open";
+      trialInFlight = false;
+    }
+
+    if (state === "half-open" && !trialInFlight) {
+      trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 요청 성공 기록 (차단 해제)
+   */
+  function recordSuccess(): void {
+    state = "closed";
+    consecutiveFailures = 0;
+    trialInFlight = false;
+  }
+
+  /**
+   * 요청 실패 기록 (연속 실패가 기준을 넘거나 시험 요청이 실패하면 차단)
+   */
+  function recordFailure(): void {
+    consecutiveFailures++;
+    trialInFlight = false;
+
+    if (
+      state === "half-open" ||
+      consecutiveFailures >= options.failureThreshold
+    ) {
+      if (state !== "open" && process.env.NODE_ENV === "development") {
+        console.warn(
+          `API 장애 감지: ${options.resetTimeoutMs / 1000}초 동안 호출을 차단합니다.`
+        );
+      }
+      state = "open";
+      openedAt = Date.now();
+    }
+  }
+
+  /**
+   * 현재 상태 조회
+   */
+  function getState(): CircuitState {
+    return state;
+  }
+
+  return { canRequest, recordSuccess, recordFailure, getState };
+}
@@ -0,0 +1,230 @@
+/**
+ * @file lib/api/merge-paginator.ts
+ * @description 다중 타입 목록 병합 페이지네이션
+ *
+ * 한국관광공사 목록 API는 contentTypeId를 하나만 받으므로, 여러 타입을 선택한 경우
+ * 타입별 목록(스트림)을 각각 조회한 뒤 하나의 목록처럼 페이지를 나눠야 합니다.
+ *
+ * 핵심 구현 로직:
+ * - 각 스트림은 API arrange 파라미터로 같은 기준으로 정렬된 상태로 조회
+ * - 정렬 비교 함수로 스트림의 첫 항목을 비교하며 k-way 병합
+ * - 요청한 페이지를 채우는 데 필요한 만큼만 스트림별로 다음 묶음을 추가 조회
+ * - totalCount는 스트림별로 실제 조회할 수 있는 항목 수의 합에서 병합 중 확인한 중복 항목을 제외
+ *   (조회 횟수 제한이나 조회 실패로 읽지 못하는 항목은 제외하여 빈 페이지가 생기지 않도록 함)
+ * - 일부 스트림 조회에 실패하면 결과에 partial 표시
+ *
+ * @dependencies
+ * - @/lib/utils/tour-sort: getTourComparator
+ * - @/lib/constants/api: MERGE_PAGINATOR_CONFIG
+ */
+
+import { MERGE_PAGINATOR_CONFIG } from "@/lib/constants/api";
+import { getTourComparator } from "@/lib/utils/tour-sort";
+import type { TourItem } from "@/lib/types/tour";
+import type { ApiResult, TourApiErrorKind } from "@/lib/types/api";
+
+/**
+ * 스트림 페이지 조회 함수 (numOfRows, pageNo를 받아 한 페이지를 반환)
+ */
+export type TourPageFetcher = (
+  numOfRows: number,
+  pageNo: number
+) => Promise<ApiResult<TourItem[]>>;
+
+/**
+ * 병합 페이지네이션 옵션
+ */
+export interface MergePaginateOptions {
+  /** 정렬 옵션 (스트림 병합 기준) */
+  sort: string;
+  /** 페이지당 항목 수 */
+  numOfRows: number;
+  /** 페이지 번호 */
+  pageNo: number;
+}
+
+/**
+ * 스트림 상태
+ */
+interface TourStream {
+  fetcher: TourPageFetcher;
+  /** 아직 병합되지 않은 항목 */
+  buffer: TourItem[];
+  /** 다음에 조회할 묶음 번호 */
+  nextChunk: number;
+  /** 스트림 전체 항목 수 (첫 조회 후 설정) */
+  totalCount: number;
+  /** 지금까지 조회한 항목 수 */
+  fetchedCount: number;
+  /** 더 조회할 항목이 없는지 여부 */
+  exhausted: boolean;
+  /** 장애로 대체된 오래된 응답을 받았는지 여부 */
+  stale: boolean;
+  /** 조회에 실패하여 남은 항목을 읽지 못했는지 여부 */
+  failed: boolean;
+  /** 첫 조회 실패 시 에러 */
+  error?: { error: string; code?: string; kind: TourApiErrorKind };
+}
+
+/**
+ * 스트림의 다음 묶음 조회
+ */
+async function fillStream(stream: TourStream): Promise<void> {
+  if (stream.exhausted || stream.buffer.length > 0) return;
+
+  const { chunkSize, maxChunksPerSource } = MERGE_PAGINATOR_CONFIG;
+  const result = await stream.fetcher(chunkSize, stream.nextChunk);
+
+  if (result.success === false) {
+    if (stream.nextChunk === 1) {
+      stream.error = {
+        error: result.error,
+        code: result.code,
+        kind: result.kind,
+      };
+    }
+    stream.failed = true;
+    stream.exhausted = true;
+    return;
+  }
+
+  const items = result.data;
+  stream.stale = stream.stale || Boolean(result.stale);
+  if (stream.nextChunk === 1) {
+    stream.totalCount = result.totalCount ?? items.length;
+  }
+
+  stream.buffer.push(...items);
+  stream.fetchedCount += items.length;
+  stream.exhausted =
+    items.length === 0 ||
+    stream.nextChunk * chunkSize >= stream.totalCount ||
+    stream.nextChunk >= maxChunksPerSource;
+  stream.nextChunk++;
+}
+
+/**
+ * 스트림에서 실제로 조회할 수 있는 항목 수
+ * (조회가 끝난 스트림은 조회한 항목 수, 진행 중이면 조회 횟수 제한 안의 항목 수)
+ */
+function getServableCount(stream: TourStream): number {
+  if (stream.exhausted) return stream.fetchedCount;
+
+  const { chunkSize, maxChunksPerSource } = MERGE_PAGINATOR_CONFIG;
+  return Math.min(stream.totalCount, chunkSize * maxChunksPerSource);
+}
+
+/**
+ * 병합 결과 상태 표시
+ * - 오래된 응답이 섞인 스트림이 있으면 stale
+ * - 조회에 실패한 스트림이 있으면 partial
+ */
+function getResultFlags(streams: TourStream[]): { stale?: boolean; partial?: boolean } {
+  return {
+    ...(streams.some((stream) => stream.stale) && { stale: true }),
+    ...(streams.some((stream) => stream.failed) && { partial: true }),
+  };
+}
+
+/**
+ * 여러 목록 스트림을 정렬 기준에 맞춰 병합하고 요청한 페이지를 반환
+ *
+ * 스트림이 하나뿐이면 병합 없이 해당 페이지를 그대로 조회합니다.
+ *
+ * @param fetchers 스트림별 페이지 조회 함수 (각 스트림은 sort 기준으로 정렬되어 있어야 함)
+ * @param options 병합 페이지네이션 옵션
+ * @returns 요청한 페이지의 목록 (totalCount는 조회할 수 있는 중복 제외 항목 수)
+ */
+export async function mergePaginate(
+  fetchers: TourPageFetcher[],
+  options: MergePaginateOptions
+): Promise<ApiResult<TourItem[]>> {
+  const { sort, numOfRows, pageNo } = options;
+
+  if (fetchers.length === 1) {
+    return fetchers[0](numOfRows, pageNo);
+  }
+
+  const streams: TourStream[] = fetchers.map((fetcher) => ({
+    fetcher,
+    buffer: [],
+    nextChunk: 1,
+    totalCount: 0,
+    fetchedCount: 0,
+    exhausted: false,
+    stale: false,
+    failed: false,
+  }));
+
+  // 첫 묶음은 병렬로 조회하여 스트림별 totalCount 확보
+  await Promise.all(streams.map(fillStream));
+
+  const failedStreams = streams.filter((stream) => stream.error);
+  if (failedStreams.length === streams.length) {
+    return { success: false, ...failedStreams[0].error! };
+  }
+  if (failedStreams.length > 0 && process.env.NODE_ENV === "development") {
+    console.error(
+      "일부 타입 목록 조회 실패:",
+      failedStreams.map((stream) => stream.error)
+    );
+  }
+
+  const skip = (pageNo - 1) * numOfRows;
+  let duplicateCount = 0;
+  const getTotalCount = () =>
+    streams.reduce((sum, stream) => sum + getServableCount(stream), 0) - duplicateCount;
+
+  const estimatedTotalCount = getTotalCount();
+  if (skip >= estimatedTotalCount) {
+    return {
+      success: true,
+      data: [],
+      totalCount: estimatedTotalCount,
+      ...getResultFlags(streams),
+    };
+  }
+
+  const comparator = getTourComparator(sort);
+  const seen = new Set<string>();
+  const page: TourItem[] = [];
+  let position = 0;
+  let isDrained = false;
+
+  while (page.length < numOfRows) {
+    // 비어 있는 스트림은 다음 묶음을 병렬로 조회
+    await Promise.all(streams.map(fillStream));
+
+    // 각 스트림의 첫 항목 중 정렬 순서가 가장 앞선 항목 선택
+    let next: TourStream | null = null;
+    for (const stream of streams) {
+      if (stream.buffer.length === 0) continue;
+      if (!next || comparator(stream.buffer[0], next.buffer[0]) < 0) {
+        next = stream;
+      }
+    }
+
+    if (!next) {
+      isDrained = true;
+      break;
+    }
+
+    const item = next.buffer.shift()!;
+    // 여러 타입에 중복으로 등록된 항목은 한 번만 포함
+    if (seen.has(item.contentid)) {
+      duplicateCount++;
+      continue;
+    }
+    seen.add(item.contentid);
+
+    if (position >= skip) {
+      page.push(item);
+    }
+    position++;
+  }
+
+  // 모든 스트림을 다 읽었으면 병합한 항목 수가 정확한 전체 수
+  const totalCount = isDrained ? position : Math.max(getTotalCount(), position);
+
+  return { success: true, data: page, totalCount, ...getResultFlags(streams) };
+}
@@ -0,0 +1,388 @@
+/**
+ * @file lib/api/pet-tour-api.ts
+ * @description 반려동물 동반 필터 파이프라인
+ *
+ * 한국관광공사 API는 목록 조회 시 반려동물 동반 조건 필터를 지원하지 않으므로,
+ * 서버에서 후보 목록과 반려동물 정보 인덱스를 대조하여 필터링합니다.
+ *
+ * 주요 기능:
+ * 1. 반려동물 정보 인덱스 구축 (getPetTourIndex)
+ * 2. 크기/입장 장소 조건 매칭 (matchesPetFilter)
+ * 3. 필터링된 목록 페이지네이션 (getPetFriendlyTours)
+ *
+ * 핵심 구현 로직:
+ * - detailPetTour2 전체 목록을 contentid 기준 인덱스로 변환하여 24시간 캐싱
+ *   (페이지 조회에 하나라도 실패하면 캐시하지 않음)
+ * - 지역/타입(또는 키워드) 후보 목록을 순회하며 인덱스와 대조
+ * - 일부 페이지 조회 실패나 최대 조회 페이지 수 제한으로 일부만 대조한 경우 partial 표시
+ * - 전체 매칭 결과를 정렬한 뒤 페이지 단위로 잘라 totalCount를 정확하게 유지
+ * - Server Component에서만 사용 (isServer: true)
+ *
+ * @dependencies
+ * - @/lib/api/tour-api: getPetTourList, getAreaBasedList, searchKeyword
+ * - @/lib/utils/tour-sort: sortTours
+ * - @/lib/utils/coordinates: withTourDistances (거리순 정렬)
+ * - @/lib/constants/api: PET_FILTER_CONFIG
+ */
+
+import { unstable_cache } from "next/cache";
+import {
+  getPetTourList,
+  getAreaBasedList,
+  searchKeyword,
+} from "@/lib/api/tour-api";
+import { PET_FILTER_CONFIG } from "@/lib/constants/api";
+import { sortTours } from "@/lib/utils/tour-sort";
+import { withTourDistances, type Coordinates } from "@/lib/utils/coordinates";
+import type { TourItem, PetTourInfo } from "@/lib/types/tour";
+import type { ApiResult, TourApiErrorKind } from "@/lib/types/api";
+import type { CategoryFilter } from "@/lib/types/category";
+
+/**
+ * 반려동물 크기 타입
+ */
+export type PetSize = "small" | "medium" | "large";
+
+/**
+ * 반려동물 크기별 매칭 키워드 (chkpetsize 텍스트 기준)
+ */
+const PET_SIZE_KEYWORDS: Record<PetSize, string[]> = {
+  small: ["소형"],
+  medium: ["중형"],
+  large: ["대형"],
+};
+
+/**
+ * 크기 제한이 없음을 나타내는 키워드
+ */
+const ALL_SIZES_KEYWORDS = ["모든", "전체", "제한없음", "무관", "상관없음"];
+
+/**
+ * 반려동물 정보 인덱스 항목 (필터링에 필요한 필드만 유지)
+ */
+type PetTourIndexEntry = Pick<
+  PetTourInfo,
+  "contentid" | "chkpetsize" | "chkpetplace"
+>;
+
+/**
+ * 반려동물 필터 옵션
+ */
+export interface PetTourFilterOptions {
+  /** 지역 코드 */
+  areaCode: string;
+  /** 시/군/구 코드 (없으면 시/도 전체) */
+  sigunguCode?: string;
+  /** 콘텐츠 타입 ID 목록 (비어 있으면 전체 타입) */
+  contentTypeIds: number[];
+  /** 서비스 분류 필터 (cat1/cat2/cat3) */
+  category?: CategoryFilter;
+  /** 선택된 반려동물 크기 (비어 있으면 크기 무관) */
+  petSizes: PetSize[];
+  /** 검색 키워드 (있으면 키워드 검색 결과를 후보로 사용) */
+  keyword?: string;
+  /** 정렬 옵션 */
+  sort: string;
+  /** 거리 기준 좌표 (선택사항, 지정하면 결과에 거리(dist) 포함) */
+  origin?: Coordinates;
+  /** 페이지당 항목 수 */
+  numOfRows: number;
+  /** 페이지 번호 */
+  pageNo: number;
+}
+
+/**
+ * URL 쿼리 값에서 반려동물 크기 목록 파싱
+ *
+ * @param value petSize 쿼리 값 (예: "small,medium")
+ * @returns 유효한 반려동물 크기 목록
+ */
+export function parsePetSizes(value?: string): PetSize[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((size) => size.trim())
+    .filter((size): size is PetSize => size in PET_SIZE_KEYWORDS);
+}
+
+/**
+ * 반려동물 정보가 필터 조건에 맞는지 확인
+ *
+ * - 입장 장소가 "불가"로만 표기된 경우 제외합니다.
+ * - 크기를 선택하지 않았으면 반려동물 정보가 있는 모든 항목이 매칭됩니다.
+ * - 크기를 선택했으면 하나 이상의 크기가 허용되는 경우 매칭됩니다.
+ *
+ * @param info 반려동물 정보
+ * @param petSizes 선택된 반려동물 크기
+ * @returns 매칭 여부
+ */
+export function matchesPetFilter(
+  info: PetTourIndexEntry,
+  petSizes: PetSize[]
+): boolean {
+  const place = (info.chkpetplace || "").replace(/\s/g, "");
+  if (place.includes("불가") && !place.includes("가능")) {
+    return false;
+  }
+
+  if (petSizes.length === 0) {
+    return true;
+  }
+
+  const sizeText = (info.chkpetsize || "").replace(/\s/g, "");
+  if (!sizeText) {
+    return false;
+  }
+
+  if (ALL_SIZES_KEYWORDS.some((keyword) => sizeText.includes(keyword))) {
+    return true;
+  }
+
+  // "소형견 가능, 대형견 불가"처럼 크기별 조건이 섞인 경우를 위해 구간별로 확인
+  const segments = sizeText.split(/[,，、/·]/);
+  return petSizes.some((size) =>
+    segments.some(
+      (segment) =>
+        PET_SIZE_KEYWORDS[size].some((keyword) => segment.includes(keyword)) &&
+        !segment.includes("불가")
+    )
+  );
+}
+
+/**
+ * 반려동물 정보 인덱스 구축 (내부 구현)
+ *
+ * 어느 페이지든 조회에 실패하면 일부가 빠진 인덱스 대신 실패를 반환합니다.
+ * 최대 조회 페이지 수를 넘는 항목이 있으면 partial로 표시합니다.
+ *
+ * @returns contentid를 키로 하는 반려동물 정보 인덱스
+ */
+async function getPetTourIndexInternal(): Promise<
+  ApiResult<Record<string, PetTourIndexEntry>>
+> {
+  const index: Record<string, PetTourIndexEntry> = {};
+  let isPartial = false;
+
+  for (let pageNo = 1; pageNo <= PET_FILTER_CONFIG.maxScanPages; pageNo++) {
+    const result = await getPetTourList(
+      PET_FILTER_CONFIG.scanPageSize,
+      pageNo,
+      true // isServer: true
+    );
+
+    if (result.success === false) {
+      // 일부가 빠진 인덱스로 필터링하면 결과가 누락되므로 실패로 처리
+      return {
+        success: false,
+        error: result.error || "반려동물 정보를 불러오지 못했습니다.",
+        code: result.code,
+        kind: result.kind,
+      };
+    }
+
+    const items = result.data;
+    for (const item of items) {
+      index[item.contentid] = {
+        contentid: item.contentid,
+        chkpetsize: item.chkpetsize,
+        chkpetplace: item.chkpetplace,
+      };
+    }
+
+    const totalCount = result.totalCount ?? items.length;
+    if (pageNo * PET_FILTER_CONFIG.scanPageSize >= totalCount) {
+      break;
+    }
+    if (pageNo === PET_FILTER_CONFIG.maxScanPages) {
+      isPartial = true;
+    }
+  }
+
+  return {
+    success: true,
+    data: index,
+    ...(isPartial && { partial: true }),
+  };
+}
+
+/**
+ * 반려동물 정보 인덱스 조회 (캐싱 적용)
+ *
+ * 조회 실패 결과를 캐시하면 재검증 주기 동안 필터링할 수 없으므로,
+ * 캐시 함수 안에서 예외를 던져 저장을 건너뛰고 밖에서 실패 결과를 반환합니다.
+ *
+ * @returns contentid를 키로 하는 반려동물 정보 인덱스
+ */
+export async function getPetTourIndex(): Promise<
+  ApiResult<Record<string, PetTourIndexEntry>>
+> {
+  let failure: ApiResult<Record<string, PetTourIndexEntry>> | undefined;
+
+  try {
+    return await unstable_cache(
+      async () => {
+        const result = await getPetTourIndexInternal();
+        if (result.success === false) {
+          failure = result;
+          throw new Error(result.error);
+        }
+        return result;
+      },
+      ["pet-tour-index"],
+      { revalidate: 86400, tags: ["pet-tour-list"] } // 24시간마다 재검증
+    )();
+  } catch (error) {
+    if (failure) {
+      return failure;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 필터 후보 목록 수집
+ *
+ * 선택된 타입별로 지역 기반 목록(또는 키워드 검색 결과)을 순회하여
+ * 중복 없이 수집합니다. 일부 페이지 조회에 실패하거나 최대 조회 페이지 수에
+ * 도달하여 일부만 수집한 경우 partial로 표시합니다.
+ *
+ * @param options 반려동물 필터 옵션
+ * @returns 후보 관광지 목록
+ */
+async function collectCandidates(
+  options: Pick<
+    PetTourFilterOptions,
+    "areaCode" | "sigunguCode" | "contentTypeIds" | "category" | "keyword"
+  >
+): Promise<ApiResult<TourItem[]>> {
+  const { areaCode, sigunguCode, contentTypeIds, category, keyword } = options;
+  const typeIds: Array<number | undefined> =
+    contentTypeIds.length > 0 ? contentTypeIds : [undefined];
+
+  const candidates = new Map<string, TourItem>();
+  let isStale = false;
+  let isPartial = false;
+  let lastError: { error: string; code?: string; kind: TourApiErrorKind } | null =
+    null;
+
+  for (const typeId of typeIds) {
+    for (let pageNo = 1; pageNo <= PET_FILTER_CONFIG.maxScanPages; pageNo++) {
+      const result = keyword
+        ? await searchKeyword(
+            keyword,
+            areaCode,
+            typeId,
+            PET_FILTER_CONFIG.scanPageSize,
+            pageNo,
+            true, // isServer: true
+            sigunguCode,
+            category
+          )
+        : await getAreaBasedList(
+            areaCode,
+            typeId,
+            PET_FILTER_CONFIG.scanPageSize,
+            pageNo,
+            true, // isServer: true
+            sigunguCode,
+            category
+          );
+
+      if (result.success === false) {
+        lastError = {
+          error: result.error,
+          code: result.code,
+          kind: result.kind,
+        };
+        isPartial = true;
+        break;
+      }
+
+      const items = result.data;
+      isStale = isStale || Boolean(result.stale);
+      for (const item of items) {
+        candidates.set(item.contentid, item);
+      }
+
+      const totalCount = result.totalCount ?? items.length;
+      if (pageNo * PET_FILTER_CONFIG.scanPageSize >= totalCount) {
+        break;
+      }
+      if (pageNo === PET_FILTER_CONFIG.maxScanPages) {
+        isPartial = true;
+      }
+    }
+  }
+
+  if (candidates.size === 0 && lastError) {
+    return { success: false, ...lastError };
+  }
+
+  return {
+    success: true,
+    data: Array.from(candidates.values()),
+    ...(isStale && { stale: true }),
+    ...(isPartial && { partial: true }),
+  };
+}
+
+/**
+ * 반려동물 동반 가능 관광지 목록 조회
+ *
+ * 후보 목록 전체를 필터링하고 정렬한 뒤 요청한 페이지만 반환합니다.
+ * totalCount는 필터링된 전체 항목 수이며, 후보 목록이나 인덱스를
+ * 일부만 조회한 경우 partial로 표시합니다.
+ *
+ * @param options 반려동물 필터 옵션
+ * @returns 반려동물 동반 가능 관광지 목록
+ */
+export async function getPetFriendlyTours(
+  options: PetTourFilterOptions
+): Promise<ApiResult<TourItem[]>> {
+  try {
+    const [indexResult, candidateResult] = await Promise.all([
+      getPetTourIndex(),
+      collectCandidates(options),
+    ]);
+
+    if (indexResult.success === false) {
+      return {
+        success: false,
+        error: indexResult.error,
+        code: indexResult.code,
+        kind: indexResult.kind,
+      };
+    }
+    if (candidateResult.success === false) {
+      return candidateResult;
+    }
+
+    const petIndex = indexResult.data;
+    const matched = candidateResult.data.filter((tour) => {
+      const info = petIndex[tour.contentid];
+      return info ? matchesPetFilter(info, options.petSizes) : false;
+    });
+
+    // 거리는 전체 매칭 결과에 계산해야 거리순 정렬이 페이지와 관계없이 일관됨
+    const located = options.origin ? withTourDistances(matched, options.origin) : matched;
+    sortTours(located, options.sort);
+
+    const start = (options.pageNo - 1) * options.numOfRows;
+    return {
+      success: true,
+      data: located.slice(start, start + options.numOfRows),
+      totalCount: located.length,
+      ...(candidateResult.stale && { stale: true }),
+      ...((candidateResult.partial || indexResult.partial) && { partial: true }),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "반려동물 동반 관광지 조회 중 오류가 발생했습니다.",
+      kind: "unknown",
+    };
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * @file lib/api/request-cache.ts
+ * @description 중복 API 호출 병합 및 LRU 캐시
+ *
+ * 같은 요청(오퍼레이션 + 파라미터)이 동시에 여러 번 발생하면 하나의 호출로 병합하고,
+ * 완료된 응답은 짧은 시간 동안 메모리(LRU)에 보관하여 재사용합니다.
+ * unstable_cache가 적용되지 않는 클라이언트 호출과, 한 번의 렌더링 안에서
+ * 같은 데이터를 여러 번 조회하는 서버 호출(generateMetadata + 페이지)에 모두 적용됩니다.
+ *
+ * 핵심 구현 로직:
+ * - 진행 중인 요청(in-flight)은 Promise를 공유하여 병합
+ * - Map의 삽입 순서를 이용한 LRU (조회 시 맨 뒤로 이동, 가득 차면 맨 앞부터 제거)
+ * - 항목별 만료 시간(TTL) 적용, 실패한 응답은 보관하지 않음
+ * - 만료된 응답도 LRU에서 밀려나기 전까지는 장애 시 대체 응답(peek)으로 사용
+ * - 적중/미적중/병합/제거 횟수 집계
+ */
+
+/**
+ * 요청 캐시 옵션
+ */
+export interface RequestCacheOptions {
+  /** 최대 보관 항목 수 */
+  maxEntries: number;
+  /** 기본 보관 시간 (ms) */
+  ttlMs: number;
+}
+
+/**
+ * 요청 캐시 집계
+ */
+export interface RequestCacheStats {
+  /** 보관된 응답을 재사용한 횟수 */
+  hits: number;
+  /** 새로 호출한 횟수 */
+  misses: number;
+  /** 진행 중인 요청에 병합된 횟수 */
+  coalesced: number;
+  /** 최대 항목 수 초과로 제거된 횟수 */
+  evictions: number;
+  /** 현재 보관 중인 항목 수 */
+  size: number;
+  /** 재사용 비율 ((hits + coalesced) / 전체 요청) */
+  hitRate: number;
+}
+
+/**
+ * 요청 실행 옵션
+ */
+interface RequestOptions<T> {
+  /** 보관 시간 (ms, 기본값: 캐시 옵션의 ttlMs) */
+  ttlMs?: number;
+  /** 응답 보관 여부 판단 (기본값: 항상 보관) */
+  shouldCache?: (value: T) => boolean;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * 요청 캐시 생성
+ *
+ * @param options 요청 캐시 옵션
+ * @returns 요청 병합/캐시 함수와 집계 조회 함수
+ */
+export function createRequestCache(options: RequestCacheOptions) {
+  const entries = new Map<string, CacheEntry>();
+  const inFlight = new Map<string, Promise<unknown>>();
+  const counters = { hits: 0, misses: 0, coalesced: 0, evictions: 0 };
+
+  /**
+   * 보관된 응답 조회 (만료된 응답은 미적중으로 처리하되 대체 응답용으로 남겨둠)
+   */
+  const get = (key: string): CacheEntry | undefined => {
+    const entry = entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) return undefined;
+
+    // 최근 사용 항목을 맨 뒤로 이동
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry;
+  };
+
+  /**
+   * 응답 보관 (가득 차면 가장 오래 사용하지 않은 항목부터 제거)
+   */
+  const set = (key: string, value: unknown, ttlMs: number) => {
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (entries.size > options.maxEntries) {
+      const oldestKey = entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      entries.delete(oldestKey);
+      counters.evictions++;
+    }
+  };
+
+  /**
+   * 요청 실행 (보관된 응답 또는 진행 중인 요청이 있으면 재사용)
+   *
+   * @param key 요청 키
+   * @param fetcher 실제 요청 함수
+   * @param requestOptions 요청 실행 옵션
+   * @returns 응답
+   */
+  async function run<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    requestOptions: RequestOptions<T> = {}
+  ): Promise<T> {
+    const cached = get(key);
+    if (cached) {
+      counters.hits++;
+      return cached.value as T;
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+      counters.coalesced++;
+      return pending as Promise<T>;
+    }
+
+    counters.misses++;
+    const request = (async () => {
+      try {
+        const value = await fetcher();
+        if (!requestOptions.shouldCache || requestOptions.shouldCache(value)) {
+          set(key, value, requestOptions.ttlMs ?? options.ttlMs);
+        }
+        return value;
+      } finally {
+        inFlight.delete(key);
+      }
+    })();
+
+    inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * 만료 여부와 관계없이 마지막으로 보관된 응답 조회 (장애 시 대체 응답용)
+   *
+   * @param key 요청 키
+   * @returns 마지막 정상 응답 (없으면 undefined)
+   */
+  function peek<T>(key: string): T | undefined {
+    return entries.get(key)?.value as T | undefined;
+  }
+
+  /**
+   * 집계 조회
+   */
+  function getStats(): RequestCacheStats {
+    const total = counters.hits + counters.misses + counters.coalesced;
+    return {
+      ...counters,
+      size: entries.size,
+      hitRate: total > 0 ? (counters.hits + counters.coalesced) / total : 0,
+    };
+  }
+
+  /**
+   * 보관된 응답 모두 제거 (집계는 유지)
+   */
+  function clear(): void {
+    entries.clear();
+  }
+
+  return { run, peek, getStats, clear };
+}
@@ -0,0 +1,171 @@
+/**
+ * @file lib/api/saved-search-api.ts
+ * @description 저장한 검색 새 항목 확인 (서버 전용)
+ *
+ * 저장한 검색 조건(URL 쿼리 문자열)으로 홈페이지와 같은 목록을 최신순으로 조회하여,
+ * 마지막 방문 이후 수정된(modifiedtime) 관광지 수를 계산합니다.
+ * (저장한 검색 목록의 "N개 새 항목" 뱃지에 사용)
+ *
+ * 핵심 구현 로직:
+ * - 홈페이지와 같은 모드 구분: 반려동물 > 축제/행사 > 키워드 검색 > 지역 목록
+ * - 최신순 첫 페이지(SAVED_SEARCH_CONFIG.newItemsScanSize개)만 확인하여 API 호출 수 제한
+ * - 주변 검색(near)은 위치가 매번 달라지므로 지원하지 않음
+ *
+ * @dependencies
+ * - @/lib/api/tour-api: getAreaBasedList, searchFestival
+ * - @/lib/api/search-api: searchTours
+ * - @/lib/api/pet-tour-api: getPetFriendlyTours
+ * - @/lib/api/merge-paginator: mergePaginate
+ * - @/lib/api/category-api: parseCategoryFilter
+ */
+
+import { getAreaBasedList, searchFestival } from "@/lib/api/tour-api";
+import { searchTours } from "@/lib/api/search-api";
+import { getPetFriendlyTours, parsePetSizes } from "@/lib/api/pet-tour-api";
+import { parseCategoryFilter } from "@/lib/api/category-api";
+import { mergePaginate, type TourPageFetcher } from "@/lib/api/merge-paginator";
+import { FESTIVAL_SEARCH_CONFIG, SAVED_SEARCH_CONFIG } from "@/lib/constants/api";
+import { isValidApiDate, toApiDate, toApiDateTime } from "@/lib/utils/date";
+import type { ApiResult } from "@/lib/types/api";
+import type { SavedSearchNewItems } from "@/lib/types/search";
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * 홈페이지 기본 지역 (서울)
+ */
+const DEFAULT_AREA_CODE = "1";
+
+/**
+ * 검색 조건으로 최신순 목록 조회 (홈페이지 목록과 같은 조건)
+ */
+async function fetchLatestItems(params: URLSearchParams): Promise<ApiResult<TourItem[]>> {
+  const scanSize = SAVED_SEARCH_CONFIG.newItemsScanSize;
+  const areaCode = params.get("areaCode") || undefined;
+  const finalAreaCode = areaCode || DEFAULT_AREA_CODE;
+  const sigunguCode = areaCode ? params.get("sigunguCode") || undefined : undefined;
+  const contentTypeIds = (params.get("contentTypeId") ?? "")
+    .split(",")
+    .map((id) => parseInt(id.trim(), 10))
+    .filter(Boolean);
+  const category = parseCategoryFilter(params.get("cat1"), params.get("cat2"), params.get("cat3"));
+  const keyword = params.get("keyword")?.trim() || undefined;
+
+  // 반려동물 필터 모드
+  if (params.get("pet") === "true") {
+    return getPetFriendlyTours({
+      areaCode: finalAreaCode,
+      sigunguCode,
+      contentTypeIds,
+      category,
+      petSizes: parsePetSizes(params.get("petSize") ?? undefined),
+      keyword,
+      sort: "modifiedtime",
+      numOfRows: scanSize,
+      pageNo: 1,
+    });
+  }
+
+  // 축제/행사 모드 (기간 내 행사 전체를 조회하므로 전체 중 새 항목 집계)
+  if (params.get("festival") === "true") {
+    const eventStartDate = params.get("eventStartDate");
+    const eventEndDate = params.get("eventEndDate");
+    const startDate = isValidApiDate(eventStartDate) ? eventStartDate : toApiDate();
+    return searchFestival(
+      startDate,
+      isValidApiDate(eventEndDate) && eventEndDate >= startDate ? eventEndDate : undefined,
+      areaCode,
+      FESTIVAL_SEARCH_CONFIG.scanPageSize,
+      1,
+      true, // 서버 사이드 호출
+      sigunguCode
+    );
+  }
+
+  // 키워드 검색 모드
+  if (keyword) {
+    return searchTours({
+      query: keyword,
+      areaCode: finalAreaCode,
+      sigunguCode,
+      contentTypeIds,
+      category,
+      sort: "modifiedtime",
+      numOfRows: scanSize,
+      pageNo: 1,
+    });
+  }
+
+  // 지역 목록 모드 (타입별 수정일순 목록 병합)
+  const fetchers: TourPageFetcher[] = (
+    contentTypeIds.length > 0 ? contentTypeIds : [undefined]
+  ).map((typeId) => (numOfRows, pageNo) =>
+    getAreaBasedList(
+      finalAreaCode,
+      typeId,
+      numOfRows,
+      pageNo,
+      true, // 서버 사이드 호출
+      sigunguCode,
+      category,
+      "C", // 수정일순
+      "low" // 뱃지용 부가 조회
+    )
+  );
+
+  return mergePaginate(fetchers, { sort: "modifiedtime", numOfRows: scanSize, pageNo: 1 });
+}
+
+/**
+ * 저장한 검색의 새 항목 수 계산
+ *
+ * @param query 저장한 검색 조건 (URL 쿼리 문자열)
+ * @param since 기준 시각 (마지막 방문 시각)
+ * @returns 기준 시각 이후 수정된 관광지 수
+ *
+ * @example
+ * ```ts
+ * const result = await countNewSearchItems("areaCode=6&contentTypeId=39", new Date(lastVisitedAt));
+ * if (result.success) {
+ *   console.log(`${result.data.newCount}${result.data.hasMore ? "+" : ""}개 새 항목`);
+ * }
+ * ```
+ */
+export async function countNewSearchItems(
+  query: string,
+  since: Date
+): Promise<ApiResult<SavedSearchNewItems>> {
+  const params = new URLSearchParams(query);
+  if (params.get("near")) {
+    return {
+      success: false,
+      error: "주변 검색 조건은 새 항목 확인을 지원하지 않습니다.",
+      kind: "http",
+    };
+  }
+
+  const result = await fetchLatestItems(params);
+  if (result.success === false) {
+    // 조건에 맞는 관광지가 없으면 새 항목도 없음
+    return result.kind === "no-data"
+      ? { success: true, data: { newCount: 0, hasMore: false } }
+      : result;
+  }
+
+  // modifiedtime(YYYYMMDDHHmmss, 한국 시간)과 같은 형식으로 비교
+  const sinceTime = toApiDateTime(since);
+  const newCount = result.data.filter((item) => (item.modifiedtime || "") > sinceTime).length;
+  const isFestival = params.get("festival") === "true";
+
+  return {
+    success: true,
+    data: {
+      newCount,
+      // 최신순으로 확인한 항목이 모두 새 항목이면 확인 범위 밖에도 새 항목이 있을 수 있음
+      hasMore:
+        !isFestival &&
+        newCount > 0 &&
+        newCount === result.data.length &&
+        (result.totalCount ?? newCount) > newCount,
+    },
+  };
+}
@@ -0,0 +1,658 @@
+/**
+ * @file lib/api/search-api.ts
+ * @description 관광지 검색 서비스 (서버 전용)
+ *
+ * searchKeyword2는 관광지명 부분 일치만 지원하므로 "ㄱㅂㄱ", "경북궁" 같은 검색어로는
+ * 경복궁을 찾을 수 없습니다. 관광지 미러(lib/api/tour-mirror.ts)를 서버 메모리에 색인하여
+ * 초성 검색, 자모 단위 오타 허용 검색, 관련도 정렬, 하이라이트를 제공합니다.
+ * (홈페이지 검색 모드와 /api/search에서 사용)
+ *
+ * 핵심 구현 로직:
+ * - 색인: 관광지명(정규화/초성/자모 분해), 주소, 개요를 미리 계산하여 보관
+ * - 점수: 관광지명 전체 > 앞부분 > 일부 > 초성 > 오타 허용 > 주소 > 개요 순
+ * - 색인은 일정 주기로 갱신하며, 갱신 중에는 이전 색인으로 응답
+ * - 미러를 사용하지 않거나 색인을 불러오지 못하면 searchKeyword2로 검색하고 하이라이트만 계산
+ * - 자동완성: 관광지/지역 추천은 검색어별로 메모리에 캐시하고, 인기 검색어는 검색 횟수로 집계
+ *
+ * @dependencies
+ * - @/lib/api/tour-mirror: getMirrorCatalog, isTourMirrorEnabled
+ * - @/lib/api/tour-api: searchKeyword (대체 검색), getAreaCode (지역명)
+ * - @/lib/api/request-cache: createRequestCache (추천 결과 캐시)
+ * - @/lib/api/merge-paginator: mergePaginate (대체 검색의 다중 타입 병합)
+ * - @/lib/utils/hangul: 한글 분해 유틸리티
+ */
+
+import { getAreaCode, searchKeyword } from "@/lib/api/tour-api";
+import { getMirrorCatalog, isTourMirrorEnabled } from "@/lib/api/tour-mirror";
+import { mergePaginate, type TourPageFetcher } from "@/lib/api/merge-paginator";
+import { createRequestCache } from "@/lib/api/request-cache";
+import { TOUR_SEARCH_CONFIG, TOUR_SUGGEST_CONFIG } from "@/lib/constants/api";
+import {
+  disassemble,
+  findApproximateMatch,
+  getChosung,
+  isChosungQuery,
+  isHangulConsonant,
+  toSearchableText,
+  type DisassembledText,
+  type SearchableText,
+} from "@/lib/utils/hangul";
+import { getTourComparator, getTourSortArrange } from "@/lib/utils/tour-sort";
+import { getTourDistance, withTourDistances } from "@/lib/utils/coordinates";
+import type { ApiResult } from "@/lib/types/api";
+import type { TourCatalogItem, TourItem } from "@/lib/types/tour";
+import type {
+  HighlightRange,
+  PlaceSuggestion,
+  RegionSuggestion,
+  SearchSuggestions,
+  TourSearchItem,
+  TourSearchMatchType,
+  TourSearchOptions,
+} from "@/lib/types/search";
+
+/**
+ * 색인 문서
+ */
+interface SearchDocument {
+  item: TourCatalogItem;
+  /** 정규화 관광지명 */
+  title: SearchableText;
+  /** 관광지명 초성 (정규화 관광지명과 같은 길이) */
+  titleChosung: string;
+  /** 관광지명 자모 분해 */
+  titleJamo: DisassembledText;
+  /** 정규화 주소 */
+  address: string;
+  /** 정규화 개요 (앞부분만) */
+  overview: string;
+}
+
+/**
+ * 색인 캐시
+ */
+interface SearchIndex {
+  documents: SearchDocument[];
+  loadedAt: number;
+}
+
+/**
+ * 전처리한 검색어
+ */
+interface PreparedQuery {
+  /** 정규화 검색어 */
+  text: string;
+  /** 자음이 포함된 검색어 (초성 검색 대상) */
+  hasConsonant: boolean;
+  /** 자모 분해 검색어 */
+  jamo: string;
+  /** 오타 허용 편집 거리 (0이면 오타 허용 검색 안 함) */
+  maxDistance: number;
+}
+
+/**
+ * 문서 일치 결과
+ */
+interface DocumentMatch {
+  score: number;
+  matchType: TourSearchMatchType;
+  highlights: HighlightRange[];
+}
+
+/**
+ * 일치 방식별 기본 점수
+ */
+const MATCH_SCORES: Record<TourSearchMatchType, number> = {
+  exact: 1000,
+  prefix: 800,
+  substring: 600,
+  chosung: 500,
+  fuzzy: 400,
+  address: 150,
+  overview: 100,
+};
+
+/**
+ * 검색어별 관광지/지역 추천 (인기 검색어는 요청마다 새로 계산)
+ */
+type CachedSuggestions = Omit<SearchSuggestions, "popular">;
+
+let searchIndex: SearchIndex | null = null;
+let pendingIndex: Promise<SearchIndex | null> | null = null;
+
+const suggestionCache = createRequestCache(TOUR_SUGGEST_CONFIG.cache);
+
+/**
+ * 검색어별 검색 횟수 (인기 검색어 집계, 서버 인스턴스별)
+ */
+const searchCounts = new Map<string, number>();
+
+/**
+ * 색인 문서 생성
+ */
+function createSearchDocument(item: TourCatalogItem): SearchDocument {
+  const title = toSearchableText(item.title);
+  const overview = (item.overview ?? "")
+    .replace(/<[^>]*>/g, " ")
+    .slice(0, TOUR_SEARCH_CONFIG.overviewIndexLength);
+
+  return {
+    item,
+    title,
+    titleChosung: getChosung(title.text),
+    titleJamo: disassemble(title.text),
+    address: toSearchableText(`${item.addr1} ${item.addr2 ?? ""}`).text,
+    overview: toSearchableText(overview).text,
+  };
+}
+
+/**
+ * 미러에서 색인 생성
+ */
+async function loadSearchIndex(): Promise<SearchIndex | null> {
+  const result = await getMirrorCatalog(TOUR_SEARCH_CONFIG.indexPageSize);
+  if (result.success === false || result.data.length === 0) {
+    // 개발 환경에서만 실패 사유 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error(
+        "검색 색인 생성 실패:",
+        result.success === false ? result.error : "관광지 미러가 비어 있습니다."
+      );
+    }
+    return null;
+  }
+
+  return {
+    documents: result.data.map(createSearchDocument),
+    loadedAt: Date.now(),
+  };
+}
+
+/**
+ * 색인 조회 (만료된 색인은 갱신하는 동안 그대로 사용)
+ *
+ * @returns 색인 (불러오지 못하면 null)
+ */
+async function getSearchIndex(): Promise<SearchIndex | null> {
+  const isExpired =
+    !searchIndex || Date.now() - searchIndex.loadedAt > TOUR_SEARCH_CONFIG.indexTtlMs;
+
+  if (isExpired && !pendingIndex) {
+    pendingIndex = loadSearchIndex()
+      .then((index) => {
+        if (index) searchIndex = index;
+        return searchIndex;
+      })
+      .finally(() => {
+        pendingIndex = null;
+      });
+  }
+
+  return searchIndex ?? (await pendingIndex);
+}
+
+/**
+ * 검색어 전처리
+ */
+function prepareQuery(query: string): PreparedQuery {
+  const text = toSearchableText(query).text;
+  const jamo = disassemble(text).jamo;
+
+  // 짧은 검색어는 오타 허용 시 일치 항목이 너무 많아지므로 제외
+  const maxDistance = isChosungQuery(text) || jamo.length < 4 ? 0 : jamo.length < 9 ? 1 : 2;
+
+  return {
+    text,
+    hasConsonant: [...text].some(isHangulConsonant),
+    jamo,
+    maxDistance,
+  };
+}
+
+/**
+ * 정규화 문자열 범위 → 원본 관광지명 하이라이트 범위
+ */
+function toHighlight(title: SearchableText, start: number, end: number): HighlightRange {
+  return [title.positions[start], title.positions[end - 1] + 1];
+}
+
+/**
+ * 초성 일치 위치 (자음은 초성과, 그 외 글자는 같은 글자와 비교)
+ */
+function findChosungMatch(text: string, chosung: string, query: string): number {
+  for (let start = 0; start + query.length <= text.length; start++) {
+    let matched = true;
+    for (let i = 0; i < query.length; i++) {
+      const char = query[i];
+      const isMatch =
+        char === text[start + i] ||
+        (isHangulConsonant(char) && char === chosung[start + i]);
+      if (!isMatch) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) return start;
+  }
+
+  return -1;
+}
+
+/**
+ * 문서와 검색어 비교
+ *
+ * @returns 일치 결과 (일치하지 않으면 null)
+ */
+function matchDocument(document: SearchDocument, query: PreparedQuery): DocumentMatch | null {
+  const { title } = document;
+  const { text } = query;
+
+  // 1. 관광지명 부분 일치
+  const index = title.text.indexOf(text);
+  if (index >= 0) {
+    const matchType: TourSearchMatchType =
+      index > 0 ? "substring" : text.length === title.text.length ? "exact" : "prefix";
+    return {
+      score: MATCH_SCORES[matchType],
+      matchType,
+      highlights: [toHighlight(title, index, index + text.length)],
+    };
+  }
+
+  // 2. 초성 일치 ("ㄱㅂㄱ", "경ㅂㄱ")
+  if (query.hasConsonant) {
+    const start = findChosungMatch(title.text, document.titleChosung, text);
+    if (start >= 0) {
+      return {
+        score: MATCH_SCORES.chosung + (start === 0 ? 50 : 0),
+        matchType: "chosung",
+        highlights: [toHighlight(title, start, start + text.length)],
+      };
+    }
+  }
+
+  // 3. 자모 단위 오타 허용 일치 ("경북궁")
+  if (query.maxDistance > 0) {
+    const match = findApproximateMatch(query.jamo, document.titleJamo.jamo, query.maxDistance);
+    if (match) {
+      const { positions } = document.titleJamo;
+      const startJamo = Math.max(0, match.end - query.jamo.length + 1);
+      return {
+        score: MATCH_SCORES.fuzzy - match.distance * 100,
+        matchType: "fuzzy",
+        highlights: [toHighlight(title, positions[startJamo], positions[match.end] + 1)],
+      };
+    }
+  }
+
+  // 4. 주소/개요 일치
+  if (document.address.includes(text)) {
+    return { score: MATCH_SCORES.address, matchType: "address", highlights: [] };
+  }
+  if (document.overview.includes(text)) {
+    return { score: MATCH_SCORES.overview, matchType: "overview", highlights: [] };
+  }
+
+  return null;
+}
+
+/**
+ * 검색 조건 필터 일치 여부
+ */
+function matchesFilters(item: TourCatalogItem, options: TourSearchOptions): boolean {
+  const { areaCode, sigunguCode, contentTypeIds, category } = options;
+
+  if (areaCode && item.areacode !== areaCode) return false;
+  if (areaCode && sigunguCode && item.sigungucode !== sigunguCode) return false;
+  if (contentTypeIds?.length && !contentTypeIds.includes(Number(item.contenttypeid))) {
+    return false;
+  }
+  if (category?.cat1 && item.cat1 !== category.cat1) return false;
+  if (category?.cat2 && item.cat2 !== category.cat2) return false;
+  if (category?.cat3 && item.cat3 !== category.cat3) return false;
+  return true;
+}
+
+/**
+ * 검색 결과 항목 생성 (색인 전용 필드 제외)
+ */
+function toSearchItem(item: TourCatalogItem, match: DocumentMatch | null): TourSearchItem {
+  const tour: TourSearchItem & Partial<TourCatalogItem> = { ...item };
+  // 개요는 응답 크기만 늘리므로 제외
+  delete tour.overview;
+  delete tour.sigungucode;
+
+  if (match) {
+    tour.matchType = match.matchType;
+    tour.highlights = match.highlights;
+  }
+  return tour;
+}
+
+/**
+ * 색인 검색
+ */
+function searchIndexedTours(
+  index: SearchIndex,
+  options: TourSearchOptions
+): ApiResult<TourSearchItem[]> {
+  const query = prepareQuery(options.query);
+  if (!query.text) {
+    return { success: true, data: [], totalCount: 0 };
+  }
+
+  const matches: Array<{ document: SearchDocument; match: DocumentMatch }> = [];
+  for (const document of index.documents) {
+    if (!matchesFilters(document.item, options)) continue;
+    const match = matchDocument(document, query);
+    if (match) matches.push({ document, match });
+  }
+
+  const sort = options.sort || "relevance";
+  const { origin } = options;
+  if (sort === "dist" && origin) {
+    // 거리순: 기준 위치에서 가까운 순 (좌표가 없는 관광지는 뒤로)
+    const distances = new Map(
+      matches.map(({ document }) => [
+        document.item.contentid,
+        getTourDistance(origin, document.item) ?? Number.MAX_SAFE_INTEGER,
+      ])
+    );
+    matches.sort(
+      (a, b) =>
+        (distances.get(a.document.item.contentid) ?? 0) -
+        (distances.get(b.document.item.contentid) ?? 0)
+    );
+  } else if (sort === "relevance" || sort === "dist") {
+    // 관련도순 (기준 위치 없는 거리순 포함)
+    // 점수가 같으면 짧은 관광지명(검색어 비중이 큰 항목), 최근 수정한 관광지 우선
+    matches.sort(
+      (a, b) =>
+        b.match.score - a.match.score ||
+        a.document.title.text.length - b.document.title.text.length ||
+        b.document.item.modifiedtime.localeCompare(a.document.item.modifiedtime)
+    );
+  } else {
+    const comparator = getTourComparator(sort);
+    matches.sort((a, b) => comparator(a.document.item, b.document.item));
+  }
+
+  const start = (options.pageNo - 1) * options.numOfRows;
+  const data = matches
+    .slice(start, start + options.numOfRows)
+    .map(({ document, match }) => toSearchItem(document.item, match));
+  return {
+    success: true,
+    data: origin ? withTourDistances(data, origin) : data,
+    totalCount: matches.length,
+  };
+}
+
+/**
+ * searchKeyword2 검색 (색인을 사용할 수 없을 때)
+ *
+ * 검색 API는 단일 contentTypeId만 지원하므로 선택한 타입별 검색 결과를 병합하고,
+ * 결과 관광지명의 하이라이트 범위만 계산합니다.
+ * 검색 API는 거리순 정렬을 지원하지 않으므로 거리순은 조회한 페이지 안에서만 정렬합니다.
+ */
+async function searchToursByApi(
+  options: TourSearchOptions
+): Promise<ApiResult<TourSearchItem[]>> {
+  const requestedSort = options.sort || "relevance";
+  // 거리순(arrange=E)은 위치 기반 API 전용이므로 API 기본 순서로 조회
+  const sort = requestedSort === "dist" ? "relevance" : requestedSort;
+  const arrange = getTourSortArrange(sort);
+  const contentTypeIds = options.contentTypeIds ?? [];
+
+  const fetchers: TourPageFetcher[] = (
+    contentTypeIds.length > 0 ? contentTypeIds : [undefined]
+  ).map((typeId) => (numOfRows, pageNo) =>
+    searchKeyword(
+      options.query,
+      options.areaCode,
+      typeId,
+      numOfRows,
+      pageNo,
+      true, // 서버 사이드 호출
+      options.sigunguCode,
+      options.category,
+      arrange
+    )
+  );
+
+  const result = await mergePaginate(fetchers, {
+    sort,
+    numOfRows: options.numOfRows,
+    pageNo: options.pageNo,
+  });
+  if (result.success === false) {
+    return result;
+  }
+
+  const query = prepareQuery(options.query);
+  const data = result.data.map((item: TourItem) =>
+    toSearchItem(item, query.text ? matchDocument(createSearchDocument(item), query) : null)
+  );
+  if (!options.origin) {
+    return { ...result, data };
+  }
+
+  const located = withTourDistances(data, options.origin);
+  return {
+    ...result,
+    data: requestedSort === "dist" ? located.sort(getTourComparator("dist")) : located,
+  };
+}
+
+/**
+ * 관광지 검색
+ *
+ * 관광지 미러를 사용하면 색인에서 초성/오타 허용 검색을 하고,
+ * 그렇지 않으면 searchKeyword2로 검색합니다.
+ *
+ * @param options 검색 조건
+ * @returns 검색 결과 (관련도순 기본, 관광지명 하이라이트 범위 포함)
+ *
+ * @example
+ * ```ts
+ * const result = await searchTours({ query: "ㄱㅂㄱ", numOfRows: 20, pageNo: 1 });
+ * if (result.success) {
+ *   console.log(result.data[0].title, result.data[0].highlights);
+ * }
+ * ```
+ */
+export async function searchTours(
+  options: TourSearchOptions
+): Promise<ApiResult<TourSearchItem[]>> {
+  const query = options.query.trim().slice(0, TOUR_SEARCH_CONFIG.maxQueryLength);
+  if (!query) {
+    return { success: false, error: "검색어를 입력해주세요.", kind: "http" };
+  }
+
+  try {
+    if (isTourMirrorEnabled()) {
+      const index = await getSearchIndex();
+      if (index) {
+        return searchIndexedTours(index, { ...options, query });
+      }
+    }
+
+    return await searchToursByApi({ ...options, query });
+  } catch (error) {
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("관광지 검색 에러:", error);
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "관광지 검색 중 오류가 발생했습니다.",
+      kind: "unknown",
+    };
+  }
+}
+
+/**
+ * 인기 검색어 집계용 검색어 정규화 (공백 정리)
+ */
+function toPopularKey(query: string): string {
+  return query.trim().replace(/\s+/g, " ").slice(0, TOUR_SEARCH_CONFIG.maxQueryLength);
+}
+
+/**
+ * 검색 횟수 기록 (인기 검색어 집계)
+ *
+ * 자동완성 입력 중인 검색어가 섞이지 않도록 실제 검색(첫 페이지)에서만 호출합니다.
+ * 집계 검색어 수가 한도를 넘으면 검색 횟수가 가장 적은 검색어부터 제거합니다.
+ *
+ * @param query 검색어
+ */
+export function recordSearchQuery(query: string): void {
+  const key = toPopularKey(query);
+  // 초성만 입력한 검색어는 인기 검색어로 보여주기 어려우므로 제외
+  if (!key || isChosungQuery(toSearchableText(key).text)) return;
+
+  searchCounts.set(key, (searchCounts.get(key) ?? 0) + 1);
+
+  if (searchCounts.size > TOUR_SUGGEST_CONFIG.popularMaxEntries) {
+    // 방금 기록한 검색어는 제외하고 가장 오래된 최소 횟수 검색어 제거
+    let leastKey: string | null = null;
+    let leastCount = Infinity;
+    for (const [candidate, count] of searchCounts) {
+      if (candidate !== key && count < leastCount) {
+        leastKey = candidate;
+        leastCount = count;
+      }
+    }
+    if (leastKey) searchCounts.delete(leastKey);
+  }
+}
+
+/**
+ * 인기 검색어 조회 (집계가 부족하면 기본 인기 검색어로 채움)
+ */
+function getPopularQueries(): string[] {
+  const recorded = [...searchCounts]
+    .sort((a, b) => b[1] - a[1])
+    .map(([query]) => query);
+
+  return [...new Set([...recorded, ...TOUR_SUGGEST_CONFIG.defaultPopularQueries])].slice(
+    0,
+    TOUR_SUGGEST_CONFIG.maxPopular
+  );
+}
+
+/**
+ * 지역 코드 → 지역명 (조회 실패 시 빈 목록)
+ */
+async function getAreaNames(): Promise<Map<string, string>> {
+  const result = await getAreaCode(undefined, true, "low");
+  if (result.success === false) {
+    return new Map();
+  }
+
+  // 실제 API 응답은 code/name 필드를 사용하므로 함께 확인
+  return new Map(
+    result.data.map((area: TourItem & { code?: string; name?: string }) => [
+      area.areacode || area.code || "",
+      area.title || area.name || "",
+    ])
+  );
+}
+
+/**
+ * 지역명 일치 범위 (지역명 일부 또는 초성 일치)
+ */
+function matchRegionName(name: string, query: PreparedQuery): HighlightRange | null {
+  const text = toSearchableText(name);
+  const index = text.text.indexOf(query.text);
+  if (index >= 0) {
+    return toHighlight(text, index, index + query.text.length);
+  }
+
+  if (query.hasConsonant) {
+    const start = findChosungMatch(text.text, getChosung(text.text), query.text);
+    if (start >= 0) {
+      return toHighlight(text, start, start + query.text.length);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 검색어별 관광지/지역 추천 생성
+ */
+async function loadSuggestions(query: string): Promise<ApiResult<CachedSuggestions>> {
+  const [placesResult, areaNames] = await Promise.all([
+    searchTours({ query, numOfRows: TOUR_SUGGEST_CONFIG.maxPlaces, pageNo: 1 }),
+    getAreaNames(),
+  ]);
+
+  // 일치하는 관광지가 없는 경우는 지역 추천만 제공
+  if (placesResult.success === false && placesResult.kind !== "no-data") {
+    return placesResult;
+  }
+
+  const places: PlaceSuggestion[] = (placesResult.success ? placesResult.data : []).map(
+    (item) => ({
+      contentId: item.contentid,
+      title: item.title,
+      contentTypeId: item.contenttypeid,
+      areaName: areaNames.get(item.areacode),
+      highlights: item.highlights ?? [],
+    })
+  );
+
+  const prepared = prepareQuery(query);
+  const regions: RegionSuggestion[] = [];
+  for (const [areaCode, name] of areaNames) {
+    if (!areaCode || !name) continue;
+    const highlight = matchRegionName(name, prepared);
+    if (highlight) {
+      regions.push({ areaCode, name, highlights: [highlight] });
+    }
+  }
+  // 지역명 앞부분부터 일치하는 지역 우선
+  regions.sort((a, b) => a.highlights[0][0] - b.highlights[0][0]);
+
+  return {
+    success: true,
+    data: { places, regions: regions.slice(0, TOUR_SUGGEST_CONFIG.maxRegions) },
+  };
+}
+
+/**
+ * 검색 자동완성 추천 조회
+ *
+ * 검색어와 일치하는 관광지(관련도순)와 지역, 인기 검색어를 반환합니다.
+ * 검색어가 비어 있으면 인기 검색어만 반환합니다.
+ *
+ * @param query 입력 중인 검색어
+ * @returns 추천 결과
+ *
+ * @example
+ * ```ts
+ * const result = await getSearchSuggestions("ㅎㅇㄷ");
+ * if (result.success) {
+ *   console.log(result.data.places[0]?.title); // "해운대해수욕장"
+ * }
+ * ```
+ */
+export async function getSearchSuggestions(
+  query: string
+): Promise<ApiResult<SearchSuggestions>> {
+  const popular = getPopularQueries();
+  const key = toSearchableText(query.slice(0, TOUR_SEARCH_CONFIG.maxQueryLength)).text;
+  if (!key) {
+    return { success: true, data: { places: [], regions: [], popular } };
+  }
+
+  const result = await suggestionCache.run(key, () => loadSuggestions(query), {
+    shouldCache: (value) => value.success === true,
+  });
+  if (result.success === false) {
+    return result;
+  }
+
+  return { success: true, data: { ...result.data, popular } };
+}
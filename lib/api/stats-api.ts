@@ -15,9 +15,14 @@
  * - 최소 데이터 요청 (numOfRows: 1, totalCount만 필요)
  * - 부분 실패 시에도 성공한 데이터 반환
  * - Server Component에서만 사용 (isServer: true)
+ * - 낮은 우선순위 작업: 일일 호출 한도가 부족하면 갱신을 보류 (lib/api/tour-quota.ts)
+ * - 호출 도중 일부 지역만 보류되어도 전체를 보류하고, 보류 결과는 캐시에 저장하지 않음
+ * - TOUR_DATA_SOURCE=mirror이면 관광지 미러의 지역/타입별 관광지 수를 집계 (실패 시 API 조회)
  *
  * @dependencies
  * - @/lib/api/tour-api: getAreaCode, getAreaBasedList 함수
+ * - @/lib/api/tour-quota: checkTourApiBudget 함수
+ * - @/lib/api/tour-mirror: getMirrorItemCounts, isTourMirrorEnabled 함수
  * - @/lib/types/stats: RegionStats, TypeStats, StatsSummary 타입
  * - @/lib/types/api: ApiResult 타입
  * - @/lib/constants/tour-types: TOUR_CONTENT_TYPE_IDS, getContentTypeNameById
@@ -25,14 +30,123 @@
 
 import { unstable_cache } from "next/cache";
 import { getAreaCode, getAreaBasedList } from "@/lib/api/tour-api";
+import { checkTourApiBudget } from "@/lib/api/tour-quota";
+import { getMirrorItemCounts, isTourMirrorEnabled } from "@/lib/api/tour-mirror";
 import type { RegionStats, TypeStats, StatsSummary } from "@/lib/types/stats";
-import type { ApiResult } from "@/lib/types/api";
+import type { ApiResult, TourApiErrorKind } from "@/lib/types/api";
 import {
   TOUR_CONTENT_TYPE_IDS,
   getContentTypeNameById,
 } from "@/lib/constants/tour-types";
 import type { TourItem } from "@/lib/types/tour";
 
+/**
+ * 일일 호출 한도 부족으로 통계 갱신을 보류한 경우의 결과
+ */
+const QUOTA_DEFERRED_RESULT = {
+  success: false,
+  error: "API 호출 한도가 부족하여 통계 갱신을 보류했습니다. 잠시 후 다시 시도해주세요.",
+  kind: "quota-exceeded",
+} as const;
+
+/**
+ * 통계 결과 캐싱 (호출 한도 부족으로 보류된 결과는 캐시에 저장하지 않음)
+ *
+ * 보류 결과를 캐시하면 재검증 주기 동안 통계가 표시되지 않으므로,
+ * 캐시 함수 안에서 예외를 던져 저장을 건너뛰고 밖에서 보류 결과를 반환합니다.
+ */
+function cacheUnlessDeferred<T>(
+  fetcher: () => Promise<ApiResult<T>>,
+  keyParts: string[],
+  policy: { revalidate: number }
+): () => Promise<ApiResult<T>> {
+  return async () => {
+    let deferred: ApiResult<T> | undefined;
+
+    try {
+      return await unstable_cache(
+        async () => {
+          const result = await fetcher();
+          if (result.success === false && result.kind === "quota-exceeded") {
+            deferred = result;
+            throw new Error(result.error);
+          }
+          return result;
+        },
+        keyParts,
+        policy
+      )();
+    } catch (error) {
+      if (deferred) {
+        return deferred;
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * 관광지 미러 기반 지역별 관광지 개수 집계
+ *
+ * 지역명은 지역 코드 조회 결과를 사용하고, 조회에 실패하면 지역 코드로 표시합니다.
+ *
+ * @returns 지역별 통계 정보 배열
+ */
+async function getMirrorRegionStats(): Promise<ApiResult<RegionStats[]>> {
+  const countsResult = await getMirrorItemCounts();
+  if (countsResult.success === false) {
+    return countsResult;
+  }
+
+  const areaCodeResult = await getAreaCode(undefined, true, "low");
+  // 실제 API 응답은 code/name 필드를 사용하므로 함께 확인
+  const areaNames = new Map(
+    areaCodeResult.success === true
+      ? areaCodeResult.data.map((area: TourItem & { code?: string; name?: string }) => [
+          area.areacode || area.code || "",
+          area.title || area.name || "",
+        ])
+      : []
+  );
+
+  const countsByArea = new Map<string, number>();
+  for (const { areaCode, count } of countsResult.data) {
+    countsByArea.set(areaCode, (countsByArea.get(areaCode) ?? 0) + count);
+  }
+
+  const regionStats: RegionStats[] = [...countsByArea].map(([areaCode, count]) => ({
+    areaCode,
+    areaName: areaNames.get(areaCode) || areaCode,
+    count,
+  }));
+  regionStats.sort((a, b) => b.count - a.count);
+
+  return { success: true, data: regionStats };
+}
+
+/**
+ * 관광지 미러 기반 타입별 관광지 개수 집계
+ *
+ * @returns 타입별 통계 정보 배열
+ */
+async function getMirrorTypeStats(): Promise<ApiResult<TypeStats[]>> {
+  const countsResult = await getMirrorItemCounts();
+  if (countsResult.success === false) {
+    return countsResult;
+  }
+
+  const typeStats: TypeStats[] = TOUR_CONTENT_TYPE_IDS.map((typeId) => ({
+    contentTypeId: typeId,
+    contentTypeName: getContentTypeNameById(typeId) || `타입 ${typeId}`,
+    count: countsResult.data
+      .filter((row) => row.contentTypeId === typeId.toString())
+      .reduce((sum, row) => sum + row.count, 0),
+  }));
+  typeStats.sort((a, b) => b.count - a.count);
+
+  return { success: true, data: typeStats };
+}
+
 /**
  * 지역별 관광지 개수 집계 (내부 구현)
  *
@@ -42,17 +156,35 @@ async function getRegionStatsInternal(): Promise<
   ApiResult<RegionStats[]>
 > {
   try {
+    // 미러는 호출 한도를 소모하지 않으므로 먼저 조회
+    if (isTourMirrorEnabled()) {
+      const mirrorResult = await getMirrorRegionStats();
+      if (mirrorResult.success === true) {
+        return mirrorResult;
+      }
+    }
+
+    // 지역 수만큼 호출하므로 남은 호출 한도가 부족하면 갱신 보류
+    if (!(await checkTourApiBudget("low"))) {
+      return QUOTA_DEFERRED_RESULT;
+    }
+
     // 1. 전체 시/도 목록 조회
-    const areaCodeResult = await getAreaCode(undefined, true);
+    const areaCodeResult = await getAreaCode(undefined, true, "low");
 
     if (!areaCodeResult.success || !areaCodeResult.data) {
       return {
         success: false,
         error: areaCodeResult.error || "지역 코드 조회에 실패했습니다.",
+        kind: "kind" in areaCodeResult ? areaCodeResult.kind : "no-data",
       };
     }
 
     const areaCodes = areaCodeResult.data;
+    // 모든 지역 조회가 실패한 경우 안내할 에러 종류
+    let failureKind: TourApiErrorKind = "no-data";
+    // 호출 도중 한도가 부족해진 경우 일부 지역이 빠진 통계를 반환하지 않음
+    let quotaExceeded = false;
 
     // 2. 각 지역별로 관광지 개수 조회 (병렬 처리)
     const regionPromises = areaCodes.map(async (area) => {
@@ -63,7 +195,11 @@ async function getRegionStatsInternal(): Promise<
           undefined, // contentTypeId 없음 (전체 타입)
           1, // numOfRows: 1
           1, // pageNo: 1
-          true // isServer: true
+          true, // isServer: true
+          undefined,
+          undefined,
+          undefined,
+          "low" // 통계 갱신은 낮은 우선순위
         );
 
         if (result.success && result.totalCount !== undefined) {
@@ -73,6 +209,12 @@ async function getRegionStatsInternal(): Promise<
             count: result.totalCount,
           } as RegionStats;
         } else {
+          if ("kind" in result) {
+            failureKind = result.kind;
+            if (result.kind === "quota-exceeded") {
+              quotaExceeded = true;
+            }
+          }
           // 에러 발생 시 로그만 남기고 null 반환
           if (process.env.NODE_ENV === "development") {
             console.warn(
@@ -96,6 +238,10 @@ async function getRegionStatsInternal(): Promise<
 
     const regionResults = await Promise.all(regionPromises);
 
+    if (quotaExceeded) {
+      return QUOTA_DEFERRED_RESULT;
+    }
+
     // 3. 성공한 결과만 필터링하여 반환
     const regionStats = regionResults.filter(
       (result): result is RegionStats => result !== null
@@ -105,6 +251,7 @@ async function getRegionStatsInternal(): Promise<
       return {
         success: false,
         error: "모든 지역의 통계 조회에 실패했습니다.",
+        kind: failureKind,
       };
     }
 
@@ -122,6 +269,7 @@ async function getRegionStatsInternal(): Promise<
         error instanceof Error
           ? error.message
           : "지역별 통계 조회 중 오류가 발생했습니다.",
+      kind: "unknown",
     };
   }
 }
@@ -131,7 +279,7 @@ async function getRegionStatsInternal(): Promise<
  *
  * @returns 지역별 통계 정보 배열
  */
-export const getRegionStats = unstable_cache(
+export const getRegionStats = cacheUnlessDeferred(
   getRegionStatsInternal,
   ["region-stats"],
   { revalidate: 3600 } // 1시간마다 재검증
@@ -146,17 +294,33 @@ export const getRegionStats = unstable_cache(
  */
 async function getTypeStatsInternal(): Promise<ApiResult<TypeStats[]>> {
   try {
+    // 미러는 호출 한도를 소모하지 않으므로 먼저 조회
+    if (isTourMirrorEnabled()) {
+      const mirrorResult = await getMirrorTypeStats();
+      if (mirrorResult.success === true) {
+        return mirrorResult;
+      }
+    }
+
+    // 타입 수 × 지역 수만큼 호출하므로 남은 호출 한도가 부족하면 갱신 보류
+    if (!(await checkTourApiBudget("low"))) {
+      return QUOTA_DEFERRED_RESULT;
+    }
+
     // 1. 전체 시/도 목록 조회 (지역별 합산을 위해 필요)
-    const areaCodeResult = await getAreaCode(undefined, true);
+    const areaCodeResult = await getAreaCode(undefined, true, "low");
 
     if (!areaCodeResult.success || !areaCodeResult.data) {
       return {
         success: false,
         error: areaCodeResult.error || "지역 코드 조회에 실패했습니다.",
+        kind: "kind" in areaCodeResult ? areaCodeResult.kind : "no-data",
       };
     }
 
     const areaCodes = areaCodeResult.data;
+    // 호출 도중 한도가 부족해진 경우 일부 지역이 빠진 합계를 반환하지 않음
+    let quotaExceeded = false;
 
     // 2. 각 타입별로 전체 지역의 관광지 개수 집계
     const typePromises = TOUR_CONTENT_TYPE_IDS.map(async (typeId) => {
@@ -169,12 +333,19 @@ async function getTypeStatsInternal(): Promise<ApiResult<TypeStats[]>> {
               typeId,
               1, // numOfRows: 1
               1, // pageNo: 1
-              true // isServer: true
+              true, // isServer: true
+              undefined,
+              undefined,
+              undefined,
+              "low" // 통계 갱신은 낮은 우선순위
             );
 
             if (result.success && result.totalCount !== undefined) {
               return result.totalCount;
             }
+            if ("kind" in result && result.kind === "quota-exceeded") {
+              quotaExceeded = true;
+            }
             return 0; // 실패 시 0으로 처리
           } catch (error) {
             if (process.env.NODE_ENV === "development") {
@@ -207,6 +378,10 @@ async function getTypeStatsInternal(): Promise<ApiResult<TypeStats[]>> {
 
     const typeResults = await Promise.all(typePromises);
 
+    if (quotaExceeded) {
+      return QUOTA_DEFERRED_RESULT;
+    }
+
     // 2. 성공한 결과만 필터링하여 반환
     const typeStats = typeResults.filter(
       (result): result is TypeStats => result !== null
@@ -216,6 +391,7 @@ async function getTypeStatsInternal(): Promise<ApiResult<TypeStats[]>> {
       return {
         success: false,
         error: "모든 타입의 통계 조회에 실패했습니다.",
+        kind: "unknown",
       };
     }
 
@@ -233,6 +409,7 @@ async function getTypeStatsInternal(): Promise<ApiResult<TypeStats[]>> {
         error instanceof Error
           ? error.message
           : "타입별 통계 조회 중 오류가 발생했습니다.",
+      kind: "unknown",
     };
   }
 }
@@ -242,7 +419,7 @@ async function getTypeStatsInternal(): Promise<ApiResult<TypeStats[]>> {
  *
  * @returns 타입별 통계 정보 배열
  */
-export const getTypeStats = unstable_cache(
+export const getTypeStats = cacheUnlessDeferred(
   getTypeStatsInternal,
   ["type-stats"],
   { revalidate: 3600 } // 1시간마다 재검증
@@ -271,6 +448,12 @@ async function getStatsSummaryInternal(): Promise<
           regionResult.success === false
             ? regionResult.error
             : typeResult.error || "통계 요약 조회에 실패했습니다.",
+        kind:
+          regionResult.success === false
+            ? regionResult.kind
+            : "kind" in typeResult
+              ? typeResult.kind
+              : "unknown",
       };
     }
 
@@ -306,6 +489,7 @@ async function getStatsSummaryInternal(): Promise<
         error instanceof Error
           ? error.message
           : "통계 요약 조회 중 오류가 발생했습니다.",
+      kind: "unknown",
     };
   }
 }
@@ -315,7 +499,7 @@ async function getStatsSummaryInternal(): Promise<
  *
  * @returns 통계 요약 정보
  */
-export const getStatsSummary = unstable_cache(
+export const getStatsSummary = cacheUnlessDeferred(
   getStatsSummaryInternal,
   ["stats-summary"],
   { revalidate: 3600 } // 1시간마다 재검증
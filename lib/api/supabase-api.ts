@@ -1,12 +1,14 @@
 /**
  * @file lib/api/supabase-api.ts
- * @description Supabase 북마크 API 함수
+ * @description Supabase 북마크/검색 기록/저장한 검색 API 함수
  *
- * 북마크 관련 Supabase 쿼리 함수들을 제공합니다.
+ * 북마크, 검색 기록(search_history), 저장한 검색(saved_searches) 관련
+ * Supabase 쿼리 함수들을 제공합니다.
  * Client Component와 Server Component 모두에서 사용 가능합니다.
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { SAVED_SEARCH_CONFIG } from "@/lib/constants/api";
 
 /**
  * 북마크 데이터 타입
@@ -18,6 +20,31 @@ export interface Bookmark {
   created_at: string;
 }
 
+/**
+ * 검색 기록 데이터 타입
+ */
+export interface SearchHistoryEntry {
+  id: string;
+  user_id: string;
+  /** 검색 조건 URL 쿼리 문자열 */
+  query: string;
+  created_at: string;
+}
+
+/**
+ * 저장한 검색 데이터 타입
+ */
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  /** 검색 조건 URL 쿼리 문자열 */
+  query: string;
+  /** 마지막으로 검색을 다시 실행한 시각 (새 항목 기준) */
+  last_visited_at: string;
+  created_at: string;
+}
+
 /**
  * Clerk user ID를 Supabase users 테이블의 id로 변환하는 헬퍼 함수
  * @param supabase Supabase 클라이언트
@@ -251,3 +278,421 @@ export async function getUserBookmarks(
   }
 }
 
+
+/**
+ * 검색 기록 추가
+ *
+ * 같은 검색 조건의 이전 기록은 삭제하여 최신 기록 하나만 유지하고,
+ * 사용자별 최대 개수(SAVED_SEARCH_CONFIG.historyMaxEntries)를 넘는 오래된 기록은 정리합니다.
+ * @param supabase Supabase 클라이언트
+ * @param clerkId Clerk user ID
+ * @param query 검색 조건 URL 쿼리 문자열
+ * @returns 성공 여부
+ */
+export async function addSearchHistory(
+  supabase: SupabaseClient,
+  clerkId: string,
+  query: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Clerk ID로 Supabase user ID 조회
+    const userId = await getUserIdByClerkId(supabase, clerkId);
+    if (!userId) {
+      return {
+        success: false,
+        error: "사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.",
+      };
+    }
+
+    // 같은 검색 조건의 이전 기록 삭제 (중복 제거)
+    const { error: deleteError } = await supabase
+      .from("search_history")
+      .delete()
+      .eq("user_id", userId)
+      .eq("query", query);
+
+    if (deleteError) {
+      console.error("Failed to remove duplicate search history:", deleteError);
+    }
+
+    // 검색 기록 추가
+    const { error } = await supabase
+      .from("search_history")
+      .insert({
+        user_id: userId,
+        query,
+      });
+
+    if (error) {
+      console.error("Failed to add search history:", error);
+      return {
+        success: false,
+        error: error.message || "검색 기록 저장에 실패했습니다.",
+      };
+    }
+
+    // 최대 개수를 넘는 오래된 기록 정리 (실패해도 기록 추가는 성공으로 처리)
+    const { data: staleEntries, error: staleError } = await supabase
+      .from("search_history")
+      .select("id")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .range(SAVED_SEARCH_CONFIG.historyMaxEntries, SAVED_SEARCH_CONFIG.historyMaxEntries + 99);
+
+    if (staleError) {
+      console.error("Failed to get stale search history:", staleError);
+    } else if (staleEntries && staleEntries.length > 0) {
+      const { error: trimError } = await supabase
+        .from("search_history")
+        .delete()
+        .in(
+          "id",
+          staleEntries.map((entry) => entry.id)
+        );
+
+      if (trimError) {
+        console.error("Failed to trim search history:", trimError);
+      }
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Error in addSearchHistory:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "검색 기록 저장 중 오류가 발생했습니다.",
+    };
+  }
+}
+
+/**
+ * 사용자 검색 기록 조회
+ * @param supabase Supabase 클라이언트
+ * @param clerkId Clerk user ID
+ * @param limit 최대 조회 개수 (기본값: 20)
+ * @returns 검색 기록 목록 (최신순)
+ */
+export async function getSearchHistory(
+  supabase: SupabaseClient,
+  clerkId: string,
+  limit: number = 20
+): Promise<{ success: boolean; data?: SearchHistoryEntry[]; error?: string }> {
+  try {
+    // Clerk ID로 Supabase user ID 조회
+    const userId = await getUserIdByClerkId(supabase, clerkId);
+    if (!userId) {
+      return {
+        success: false,
+        error: "사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.",
+      };
+    }
+
+    // 검색 기록 조회 (최신순)
+    const { data, error } = await supabase
+      .from("search_history")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Failed to get search history:", error);
+      return {
+        success: false,
+        error: error.message || "검색 기록 조회에 실패했습니다.",
+      };
+    }
+
+    return {
+      success: true,
+      data: (data || []) as SearchHistoryEntry[],
+    };
+  } catch (error) {
+    console.error("Error in getSearchHistory:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "검색 기록 조회 중 오류가 발생했습니다.",
+    };
+  }
+}
+
+/**
+ * 사용자 검색 기록 전체 삭제
+ * @param supabase Supabase 클라이언트
+ * @param clerkId Clerk user ID
+ * @returns 성공 여부
+ */
+export async function clearSearchHistory(
+  supabase: SupabaseClient,
+  clerkId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Clerk ID로 Supabase user ID 조회
+    const userId = await getUserIdByClerkId(supabase, clerkId);
+    if (!userId) {
+      return {
+        success: false,
+        error: "사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.",
+      };
+    }
+
+    // 검색 기록 삭제
+    const { error } = await supabase
+      .from("search_history")
+      .delete()
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Failed to clear search history:", error);
+      return {
+        success: false,
+        error: error.message || "검색 기록 삭제에 실패했습니다.",
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Error in clearSearchHistory:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "검색 기록 삭제 중 오류가 발생했습니다.",
+    };
+  }
+}
+
+/**
+ * 사용자 저장한 검색 목록 조회
+ * @param supabase Supabase 클라이언트
+ * @param clerkId Clerk user ID
+ * @returns 저장한 검색 목록 (최신순)
+ */
+export async function getSavedSearches(
+  supabase: SupabaseClient,
+  clerkId: string
+): Promise<{ success: boolean; data?: SavedSearch[]; error?: string }> {
+  try {
+    // Clerk ID로 Supabase user ID 조회
+    const userId = await getUserIdByClerkId(supabase, clerkId);
+    if (!userId) {
+      return {
+        success: false,
+        error: "사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.",
+      };
+    }
+
+    // 저장한 검색 목록 조회 (최신순)
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Failed to get saved searches:", error);
+      return {
+        success: false,
+        error: error.message || "저장한 검색 조회에 실패했습니다.",
+      };
+    }
+
+    return {
+      success: true,
+      data: (data || []) as SavedSearch[],
+    };
+  } catch (error) {
+    console.error("Error in getSavedSearches:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "저장한 검색 조회 중 오류가 발생했습니다.",
+    };
+  }
+}
+
+/**
+ * 검색 조건 저장
+ * @param supabase Supabase 클라이언트
+ * @param clerkId Clerk user ID
+ * @param name 검색 이름
+ * @param query 검색 조건 URL 쿼리 문자열
+ * @returns 성공 여부 및 저장한 검색 데이터
+ */
+export async function addSavedSearch(
+  supabase: SupabaseClient,
+  clerkId: string,
+  name: string,
+  query: string
+): Promise<{ success: boolean; data?: SavedSearch; error?: string }> {
+  try {
+    // Clerk ID로 Supabase user ID 조회
+    const userId = await getUserIdByClerkId(supabase, clerkId);
+    if (!userId) {
+      return {
+        success: false,
+        error: "사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.",
+      };
+    }
+
+    // 검색 조건 저장 (저장 시각부터 새 항목 집계)
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .insert({
+        user_id: userId,
+        name,
+        query,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // 23505: unique_violation (같은 검색 조건을 이미 저장한 경우)
+      if (error.code === "23505") {
+        return {
+          success: false,
+          error: "이미 저장된 검색 조건입니다.",
+        };
+      }
+      console.error("Failed to add saved search:", error);
+      return {
+        success: false,
+        error: error.message || "검색 조건 저장에 실패했습니다.",
+      };
+    }
+
+    return {
+      success: true,
+      data: data as SavedSearch,
+    };
+  } catch (error) {
+    console.error("Error in addSavedSearch:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "검색 조건 저장 중 오류가 발생했습니다.",
+    };
+  }
+}
+
+/**
+ * 저장한 검색 방문 시각 갱신 (새 항목 수 초기화)
+ * @param supabase Supabase 클라이언트
+ * @param clerkId Clerk user ID
+ * @param savedSearchId 저장한 검색 ID
+ * @returns 성공 여부 및 갱신된 저장한 검색 데이터
+ */
+export async function markSavedSearchVisited(
+  supabase: SupabaseClient,
+  clerkId: string,
+  savedSearchId: string
+): Promise<{ success: boolean; data?: SavedSearch; error?: string }> {
+  try {
+    // Clerk ID로 Supabase user ID 조회
+    const userId = await getUserIdByClerkId(supabase, clerkId);
+    if (!userId) {
+      return {
+        success: false,
+        error: "사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.",
+      };
+    }
+
+    // 방문 시각 갱신 (본인 검색만)
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .update({ last_visited_at: new Date().toISOString() })
+      .eq("id", savedSearchId)
+      .eq("user_id", userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Failed to mark saved search visited:", error);
+      return {
+        success: false,
+        error: error.message || "저장한 검색 갱신에 실패했습니다.",
+      };
+    }
+
+    return {
+      success: true,
+      data: data as SavedSearch,
+    };
+  } catch (error) {
+    console.error("Error in markSavedSearchVisited:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "저장한 검색 갱신 중 오류가 발생했습니다.",
+    };
+  }
+}
+
+/**
+ * 저장한 검색 삭제
+ * @param supabase Supabase 클라이언트
+ * @param clerkId Clerk user ID
+ * @param savedSearchId 저장한 검색 ID
+ * @returns 성공 여부
+ */
+export async function removeSavedSearch(
+  supabase: SupabaseClient,
+  clerkId: string,
+  savedSearchId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Clerk ID로 Supabase user ID 조회
+    const userId = await getUserIdByClerkId(supabase, clerkId);
+    if (!userId) {
+      return {
+        success: false,
+        error: "사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.",
+      };
+    }
+
+    // 저장한 검색 삭제 (본인 검색만)
+    const { error } = await supabase
+      .from("saved_searches")
+      .delete()
+      .eq("id", savedSearchId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Failed to remove saved search:", error);
+      return {
+        success: false,
+        error: error.message || "저장한 검색 삭제에 실패했습니다.",
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Error in removeSavedSearch:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "저장한 검색 삭제 중 오류가 발생했습니다.",
+    };
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * @file lib/api/tour-api-error.ts
+ * @description 한국관광공사 API 에러 클래스
+ *
+ * API 호출 실패 원인을 종류(kind)별 에러 클래스로 구분합니다.
+ * ApiResult 실패 결과의 kind 필드와 1:1로 대응하며,
+ * UI는 메시지 문자열 대신 kind를 기준으로 복구 방법을 안내합니다.
+ *
+ * 에러 종류:
+ * - network: 네트워크 연결 실패 (재시도 가능)
+ * - http: HTTP 상태 코드 오류 (5xx만 재시도 가능)
+ * - quota-exceeded: 일일 호출 한도 초과
+ * - invalid-key: 서비스키 미등록/만료
+ * - no-data: 조회된 데이터 없음
+ * - parse: 응답 파싱 실패
+ * - unknown: 분류되지 않은 오류
+ */
+
+import type { TourApiErrorKind } from "@/lib/types/api";
+
+/**
+ * 한국관광공사 API 결과 코드별 에러 정보
+ *
+ * 01~05는 기존 안내 문구를 유지하고, 공공데이터포털 표준 코드(22, 30, 31)를 추가로 처리합니다.
+ */
+const RESULT_CODE_ERRORS: Record<
+  string,
+  { kind: TourApiErrorKind; message: string }
+> = {
+  "01": { kind: "http", message: "필수 파라미터가 누락되었습니다." },
+  "02": { kind: "http", message: "잘못된 파라미터 값입니다." },
+  "03": { kind: "invalid-key", message: "서비스키가 유효하지 않습니다." },
+  "04": { kind: "invalid-key", message: "서비스키가 만료되었습니다." },
+  "05": { kind: "quota-exceeded", message: "일일 호출 한도를 초과했습니다." },
+  "22": { kind: "quota-exceeded", message: "일일 호출 한도를 초과했습니다." },
+  "30": { kind: "invalid-key", message: "등록되지 않은 서비스키입니다." },
+  "31": { kind: "invalid-key", message: "서비스키 사용 기간이 만료되었습니다." },
+};
+
+/**
+ * 에러 종류 목록
+ */
+const TOUR_API_ERROR_KINDS: TourApiErrorKind[] = [
+  "network",
+  "http",
+  "quota-exceeded",
+  "invalid-key",
+  "no-data",
+  "parse",
+  "unknown",
+];
+
+/**
+ * HTTP 상태 코드별 사용자 메시지
+ */
+const HTTP_STATUS_MESSAGES: Record<number, string> = {
+  400: "잘못된 요청입니다. 입력값을 확인해주세요.",
+  401: "인증이 필요합니다. API 키를 확인해주세요.",
+  403: "접근이 거부되었습니다. 권한을 확인해주세요.",
+  404: "요청한 리소스를 찾을 수 없습니다.",
+  500: "서버 내부 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  503: "서비스를 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요.",
+};
+
+/**
+ * 한국관광공사 API 에러 기본 클래스
+ */
+export class TourApiError extends Error {
+  /** 에러 종류 */
+  readonly kind: TourApiErrorKind;
+  /** API 결과 코드 (resultCode) */
+  readonly code?: string;
+  /** HTTP 상태 코드 */
+  readonly statusCode?: number;
+
+  constructor(
+    kind: TourApiErrorKind,
+    message: string,
+    options: { code?: string; statusCode?: number } = {}
+  ) {
+    super(message);
+    this.name = "TourApiError";
+    this.kind = kind;
+    this.code = options.code;
+    this.statusCode = options.statusCode;
+  }
+
+  /**
+   * 재시도로 복구될 수 있는 에러인지 여부 (네트워크 오류, 5xx 서버 오류)
+   */
+  get retryable(): boolean {
+    if (this.kind === "network") return true;
+    return this.kind === "http" && !!this.statusCode && this.statusCode >= 500;
+  }
+
+  /**
+   * ApiResult 실패 결과로 변환
+   *
+   * @param fallbackMessage 메시지가 비어 있을 때 사용할 기본 메시지
+   */
+  toResult(fallbackMessage?: string): {
+    success: false;
+    error: string;
+    code?: string;
+    kind: TourApiErrorKind;
+  } {
+    return {
+      success: false,
+      error: this.message || fallbackMessage || "API 호출 중 오류가 발생했습니다.",
+      kind: this.kind,
+      ...(this.code && { code: this.code }),
+    };
+  }
+}
+
+/**
+ * 네트워크 연결 실패 (fetch 실패, 타임아웃 등)
+ */
+export class TourApiNetworkError extends TourApiError {
+  constructor(
+    message: string = "네트워크 연결에 실패했습니다. 인터넷 연결을 확인해주세요."
+  ) {
+    super("network", message);
+    this.name = "TourApiNetworkError";
+  }
+}
+
+/**
+ * HTTP 상태 코드 오류 또는 잘못된 요청
+ */
+export class TourApiHttpError extends TourApiError {
+  constructor(statusCode?: number, message?: string, code?: string) {
+    super(
+      "http",
+      message ||
+        (statusCode && HTTP_STATUS_MESSAGES[statusCode]) ||
+        "서버에서 오류가 발생했습니다.",
+      { statusCode, code }
+    );
+    this.name = "TourApiHttpError";
+  }
+}
+
+/**
+ * API 장애로 호출 차단 중 (lib/api/circuit-breaker.ts)
+ */
+export class TourApiCircuitOpenError extends TourApiError {
+  constructor(
+    message: string = "관광 정보 서비스가 일시적으로 응답하지 않습니다. 잠시 후 다시 시도해주세요."
+  ) {
+    super("http", message, { statusCode: 503 });
+    this.name = "TourApiCircuitOpenError";
+  }
+}
+
+/**
+ * 일일 호출 한도 초과 (HTTP 429 또는 한도 초과 결과 코드)
+ */
+export class TourApiQuotaExceededError extends TourApiError {
+  constructor(
+    message: string = "요청 횟수가 초과되었습니다. 잠시 후 다시 시도해주세요.",
+    options: { code?: string; statusCode?: number } = {}
+  ) {
+    super("quota-exceeded", message, options);
+    this.name = "TourApiQuotaExceededError";
+  }
+}
+
+/**
+ * 서비스키 미등록/만료
+ */
+export class TourApiInvalidKeyError extends TourApiError {
+  constructor(
+    message: string = "서비스키가 유효하지 않습니다.",
+    options: { code?: string; statusCode?: number } = {}
+  ) {
+    super("invalid-key", message, options);
+    this.name = "TourApiInvalidKeyError";
+  }
+}
+
+/**
+ * 조회된 데이터 없음
+ */
+export class TourApiNoDataError extends TourApiError {
+  constructor(message: string = "조회된 데이터가 없습니다.") {
+    super("no-data", message);
+    this.name = "TourApiNoDataError";
+  }
+}
+
+/**
+ * 응답 파싱 실패 (JSON이 아닌 응답 등)
+ */
+export class TourApiParseError extends TourApiError {
+  constructor(message: string = "서버 응답을 처리하는 중 오류가 발생했습니다.") {
+    super("parse", message);
+    this.name = "TourApiParseError";
+  }
+}
+
+/**
+ * API 결과 코드로 에러 생성
+ *
+ * @param resultCode 응답 헤더의 resultCode
+ * @param resultMsg 응답 헤더의 resultMsg
+ * @returns 결과 코드에 맞는 에러 인스턴스
+ */
+export function fromResultCode(
+  resultCode: string,
+  resultMsg?: string
+): TourApiError {
+  const known = RESULT_CODE_ERRORS[resultCode];
+  const message = known?.message || resultMsg || "API 호출 중 오류가 발생했습니다.";
+
+  switch (known?.kind) {
+    case "invalid-key":
+      return new TourApiInvalidKeyError(message, { code: resultCode });
+    case "quota-exceeded":
+      return new TourApiQuotaExceededError(message, { code: resultCode });
+    default:
+      return new TourApiHttpError(undefined, message, resultCode);
+  }
+}
+
+/**
+ * HTTP 상태 코드로 에러 생성
+ *
+ * @param statusCode HTTP 상태 코드
+ * @returns 상태 코드에 맞는 에러 인스턴스
+ */
+export function fromHttpStatus(statusCode: number): TourApiError {
+  if (statusCode === 429) {
+    return new TourApiQuotaExceededError(undefined, { statusCode });
+  }
+  if (statusCode === 401) {
+    return new TourApiInvalidKeyError(HTTP_STATUS_MESSAGES[401], { statusCode });
+  }
+  return new TourApiHttpError(statusCode);
+}
+
+/**
+ * JSON이 아닌 응답 본문으로 에러 생성
+ *
+ * 공공데이터포털 게이트웨이는 서비스키 오류나 호출 한도 초과 시
+ * HTTP 200과 함께 XML 에러 응답을 반환하므로 본문의 에러 코드명으로 분류합니다.
+ *
+ * @param body 응답 본문
+ * @returns 본문 내용에 맞는 에러 인스턴스
+ */
+export function fromNonJsonBody(body: string): TourApiError {
+  if (body.includes("LIMITED_NUMBER_OF_SERVICE_REQUESTS")) {
+    return new TourApiQuotaExceededError(RESULT_CODE_ERRORS["22"].message, {
+      code: "22",
+    });
+  }
+  if (body.includes("SERVICE_KEY_IS_NOT_REGISTERED")) {
+    return new TourApiInvalidKeyError(RESULT_CODE_ERRORS["30"].message, {
+      code: "30",
+    });
+  }
+  if (body.includes("DEADLINE_HAS_EXPIRED")) {
+    return new TourApiInvalidKeyError(RESULT_CODE_ERRORS["31"].message, {
+      code: "31",
+    });
+  }
+  return new TourApiParseError();
+}
+
+/**
+ * 에러 종류 값인지 확인
+ */
+export function isTourApiErrorKind(value: unknown): value is TourApiErrorKind {
+  return TOUR_API_ERROR_KINDS.includes(value as TourApiErrorKind);
+}
+
+/**
+ * 임의의 에러를 TourApiError로 변환
+ *
+ * @param error catch로 받은 에러
+ * @returns TourApiError 인스턴스 (이미 TourApiError면 그대로 반환)
+ */
+export function toTourApiError(error: unknown): TourApiError {
+  if (error instanceof TourApiError) {
+    return error;
+  }
+
+  // 직렬화 등으로 클래스 정보가 사라진 경우 kind 속성으로 복원
+  if (
+    error instanceof Error &&
+    isTourApiErrorKind((error as Partial<TourApiError>).kind)
+  ) {
+    return new TourApiError((error as TourApiError).kind, error.message);
+  }
+
+  // 네트워크 에러 (fetch 실패, 타임아웃 등)
+  if (error instanceof TypeError && error.message.includes("fetch")) {
+    return new TourApiNetworkError();
+  }
+
+  // JSON 파싱 에러
+  if (error instanceof SyntaxError) {
+    return new TourApiParseError();
+  }
+
+  // 기타 에러
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === "string"
+        ? error
+        : "알 수 없는 오류가 발생했습니다.";
+
+  return new TourApiError("unknown", message);
+}
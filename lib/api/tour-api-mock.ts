@@ -0,0 +1,436 @@
+/**
+ * @file lib/api/tour-api-mock.ts
+ * @description 한국관광공사 API 모의 구현 (오프라인 개발용, 서버 전용)
+ *
+ * TOUR_API_MODE=mock이면 서버의 API 호출이 모의 API(app/api/tour-mock/[operation])로 전달되고,
+ * 이 모듈이 fixture 파일(fixtures/tour-api/*.json)을 기반으로
+ * KorService2와 같은 형식의 응답을 만듭니다.
+ * TOUR_API_MODE=record이면 실제 API 응답을 그대로 반환하면서 fixture에 기록합니다.
+ *
+ * fixture 형식:
+ * - JSON 파일별로 묶음 키 → 항목 목록
+ * - 목록 오퍼레이션과 detailCommon2는 tours.json의 ""(전체) 묶음을 공유하고 파라미터로 필터링
+ * - 지역/분류 코드, 상세 정보는 조회 파라미터로 만든 묶음 키(예: "contentId=126508")로 구분
+ *
+ * 핵심 구현 로직:
+ * - 지역/타입/분류 필터, 키워드 검색, 좌표 반경 검색, 행사 기간 검색, 정렬(arrange), 페이지네이션
+ * - 결과 코드 오류 주입 (TOUR_API_MOCK_ERROR_CODE, TOUR_API_MOCK_ERROR_RATE, TOUR_API_MOCK_ERROR_OPERATIONS)
+ * - 응답 지연 (TOUR_API_MOCK_LATENCY_MS)
+ *
+ * @dependencies
+ * - fs/promises, path: fixture 읽기/쓰기
+ * - @/lib/env: getEnv
+ * - @/lib/utils/coordinates: katecToWgs84
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+import { getEnv } from "@/lib/env";
+import { TOUR_API_MOCK_CONFIG } from "@/lib/constants/api";
+import { katecToWgs84 } from "@/lib/utils/coordinates";
+
+/**
+ * fixture 항목 (API 응답 항목 원본)
+ */
+type FixtureItem = Record<string, string | undefined>;
+
+/**
+ * fixture 파일 (묶음 키 → 항목 목록)
+ */
+type FixtureFile = Record<string, FixtureItem[]>;
+
+/**
+ * 오퍼레이션별 모의 규칙
+ */
+interface MockOperationRule {
+  /** fixture 파일명 (기본값: 오퍼레이션명) */
+  fixture?: string;
+  /** 항상 적용하는 필터 (항목 필드 → 값) */
+  fixedFilters?: Record<string, string>;
+  /** 묶음 키를 만드는 파라미터 (지정하지 않으면 "" 묶음에서 필터링) */
+  scopeParams?: string[];
+  /** 파라미터 → 항목 필드 (값이 같은 항목만 반환) */
+  filters?: Record<string, string>;
+  /** 키워드 검색 (keyword) */
+  keyword?: boolean;
+  /** 좌표 반경 검색 (mapX, mapY, radius) */
+  location?: boolean;
+  /** 행사 기간 검색 (eventStartDate, eventEndDate) */
+  festival?: boolean;
+  /** 수정일 검색 (modifiedtime, 수정일시가 해당 값으로 시작하는 항목) */
+  modified?: boolean;
+  /** 정렬 지원 (arrange) */
+  sortable?: boolean;
+}
+
+/**
+ * 목록 오퍼레이션 공통 필터
+ */
+const LIST_FILTERS = {
+  areaCode: "areacode",
+  sigunguCode: "sigungucode",
+  contentTypeId: "contenttypeid",
+  cat1: "cat1",
+  cat2: "cat2",
+  cat3: "cat3",
+};
+
+/**
+ * 관광지 fixture 파일명 (목록 오퍼레이션과 detailCommon2가 공유)
+ */
+const TOURS_FIXTURE = "tours";
+
+/**
+ * 오퍼레이션별 모의 규칙 (KorService2, lib/schemas/tour-proxy.ts의 허용 목록과
+ * 서버 전용 동기화 오퍼레이션 areaBasedSyncList2)
+ */
+const MOCK_OPERATIONS: Record<string, MockOperationRule> = {
+  areaCode2: { scopeParams: ["areaCode"] },
+  categoryCode2: { scopeParams: ["contentTypeId", "cat1", "cat2", "cat3"] },
+  areaBasedList2: { fixture: TOURS_FIXTURE, filters: LIST_FILTERS, sortable: true },
+  areaBasedSyncList2: {
+    fixture: TOURS_FIXTURE,
+    filters: LIST_FILTERS,
+    modified: true,
+    sortable: true,
+  },
+  locationBasedList2: {
+    fixture: TOURS_FIXTURE,
+    filters: { contentTypeId: "contenttypeid" },
+    location: true,
+    sortable: true,
+  },
+  searchKeyword2: {
+    fixture: TOURS_FIXTURE,
+    filters: LIST_FILTERS,
+    keyword: true,
+    sortable: true,
+  },
+  searchFestival2: {
+    fixture: TOURS_FIXTURE,
+    fixedFilters: { contenttypeid: "15" },
+    filters: { areaCode: "areacode", sigunguCode: "sigungucode" },
+    festival: true,
+  },
+  searchStay2: {
+    fixture: TOURS_FIXTURE,
+    fixedFilters: { contenttypeid: "32" },
+    filters: { areaCode: "areacode", sigunguCode: "sigungucode" },
+  },
+  detailCommon2: { fixture: TOURS_FIXTURE, filters: { contentId: "contentid" } },
+  detailIntro2: { filters: { contentId: "contentid" } },
+  detailInfo2: { scopeParams: ["contentId"] },
+  detailImage2: { scopeParams: ["contentId"] },
+  detailPetTour2: { filters: { contentId: "contentid" } },
+};
+
+/**
+ * 주입 가능한 결과 코드별 메시지 (실제 API 응답 메시지)
+ */
+const MOCK_ERROR_MESSAGES: Record<string, string> = {
+  "01": "APPLICATION_ERROR",
+  "02": "DB_ERROR",
+  "03": "NODATA_ERROR",
+  "04": "HTTP_ERROR",
+  "05": "SERVICETIME_OUT",
+  "10": "INVALID_REQUEST_PARAMETER_ERROR",
+  "22": "LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR",
+  "30": "SERVICE_KEY_IS_NOT_REGISTERED_ERROR",
+  "31": "DEADLINE_HAS_EXPIRED_ERROR",
+};
+
+/**
+ * 정렬 구분별 정렬 기준 (O~S는 A~E와 같은 기준으로 정렬하되 대표이미지 있는 항목만)
+ */
+const ARRANGE_SORT_KEYS: Record<string, "A" | "C" | "D" | "E"> = {
+  A: "A",
+  C: "C",
+  D: "D",
+  E: "E",
+  O: "A",
+  Q: "C",
+  R: "D",
+  S: "E",
+};
+
+/**
+ * fixture 쓰기 순서 보장 (같은 파일을 동시에 기록하지 않도록 파일별로 직렬화)
+ */
+const writeQueues = new Map<string, Promise<void>>();
+
+/**
+ * 모의 API 지원 오퍼레이션인지 확인
+ */
+export function isMockOperation(operation: string): boolean {
+  return Object.prototype.hasOwnProperty.call(MOCK_OPERATIONS, operation);
+}
+
+/**
+ * fixture 파일 경로
+ */
+function getFixturePath(fixtureName: string): string {
+  return path.join(process.cwd(), TOUR_API_MOCK_CONFIG.fixtureDir, `${fixtureName}.json`);
+}
+
+/**
+ * fixture 파일 읽기 (없으면 빈 fixture)
+ */
+async function readFixture(fixtureName: string): Promise<FixtureFile> {
+  try {
+    return JSON.parse(await readFile(getFixturePath(fixtureName), "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * 묶음 키 생성 (묶음 파라미터를 이름순으로 정렬한 쿼리 문자열)
+ */
+function getScopeKey(rule: MockOperationRule, params: URLSearchParams): string {
+  const scope = new URLSearchParams();
+  for (const name of [...(rule.scopeParams ?? [])].sort()) {
+    const value = params.get(name);
+    if (value) scope.set(name, value);
+  }
+  return scope.toString();
+}
+
+/**
+ * 두 WGS84 좌표 사이의 거리 (미터, 하버사인 공식)
+ */
+function getDistanceMeters(
+  from: { lng: number; lat: number },
+  to: { lng: number; lat: number }
+): number {
+  const toRadians = (degree: number) => (degree * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * 좌표 반경 검색 (반경 안의 항목에 거리(dist) 추가)
+ */
+function filterByLocation(items: FixtureItem[], params: URLSearchParams): FixtureItem[] {
+  const center = { lng: Number(params.get("mapX")), lat: Number(params.get("mapY")) };
+  const radius = Number(params.get("radius"));
+
+  return items.flatMap((item) => {
+    try {
+      const dist = getDistanceMeters(center, katecToWgs84(item.mapx, item.mapy));
+      return dist <= radius ? [{ ...item, dist: dist.toFixed(1) }] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * 행사 기간 검색 (검색 기간과 겹치는 행사)
+ */
+function filterByEventPeriod(items: FixtureItem[], params: URLSearchParams): FixtureItem[] {
+  const startDate = params.get("eventStartDate") ?? "";
+  const endDate = params.get("eventEndDate");
+
+  return items.filter(
+    (item) =>
+      (item.eventenddate ?? "") >= startDate &&
+      (!endDate || (item.eventstartdate ?? "") <= endDate)
+  );
+}
+
+/**
+ * 정렬 (A: 제목순, C: 수정일순, D: 생성일순, E: 거리순, O~S: 대표이미지 있는 항목만)
+ */
+function sortByArrange(items: FixtureItem[], arrange: string | null): FixtureItem[] {
+  if (!arrange) return items;
+
+  const imageOnly = ["O", "Q", "R", "S"].includes(arrange);
+  const sorted = imageOnly ? items.filter((item) => item.firstimage) : [...items];
+
+  switch (ARRANGE_SORT_KEYS[arrange]) {
+    case "A":
+      return sorted.sort((a, b) => (a.title ?? "").localeCompare(b.title ?? "", "ko"));
+    case "C":
+      return sorted.sort((a, b) => (b.modifiedtime ?? "").localeCompare(a.modifiedtime ?? ""));
+    case "D":
+      return sorted.sort((a, b) => (b.createdtime ?? "").localeCompare(a.createdtime ?? ""));
+    case "E":
+      return sorted.sort((a, b) => Number(a.dist ?? Infinity) - Number(b.dist ?? Infinity));
+    default:
+      return sorted;
+  }
+}
+
+/**
+ * 조회 조건에 맞는 항목 선택
+ */
+function selectItems(
+  rule: MockOperationRule,
+  fixture: FixtureFile,
+  params: URLSearchParams
+): FixtureItem[] {
+  let items = fixture[getScopeKey(rule, params)] ?? [];
+
+  for (const [field, value] of Object.entries(rule.fixedFilters ?? {})) {
+    items = items.filter((item) => item[field] === value);
+  }
+  for (const [param, field] of Object.entries(rule.filters ?? {})) {
+    const value = params.get(param);
+    if (value) {
+      items = items.filter((item) => item[field] === value);
+    }
+  }
+
+  if (rule.keyword) {
+    const keyword = (params.get("keyword") ?? "").trim().toLowerCase();
+    items = items.filter((item) =>
+      [item.title, item.addr1].some((text) => text?.toLowerCase().includes(keyword))
+    );
+  }
+  if (rule.location) {
+    items = filterByLocation(items, params);
+  }
+  if (rule.festival) {
+    items = filterByEventPeriod(items, params);
+  }
+  if (rule.modified) {
+    const modifiedtime = params.get("modifiedtime");
+    if (modifiedtime) {
+      items = items.filter((item) => item.modifiedtime?.startsWith(modifiedtime));
+    }
+  }
+
+  return rule.sortable ? sortByArrange(items, params.get("arrange")) : items;
+}
+
+/**
+ * 결과 코드 오류 응답 생성
+ */
+function createErrorResponse(resultCode: string) {
+  return {
+    response: {
+      header: {
+        resultCode,
+        resultMsg: MOCK_ERROR_MESSAGES[resultCode] ?? "MOCK_ERROR",
+      },
+    },
+  };
+}
+
+/**
+ * 주입할 결과 코드 오류 (설정되지 않았거나 대상이 아니면 null)
+ */
+function getInjectedError(operation: string): string | null {
+  const errorCode = getEnv("TOUR_API_MOCK_ERROR_CODE", "");
+  if (!errorCode) return null;
+
+  const operations = getEnv("TOUR_API_MOCK_ERROR_OPERATIONS", "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (operations.length > 0 && !operations.includes(operation)) return null;
+
+  const rate = Number(getEnv("TOUR_API_MOCK_ERROR_RATE", "1"));
+  return Math.random() < (Number.isFinite(rate) ? rate : 1) ? errorCode : null;
+}
+
+/**
+ * 모의 API 응답 생성
+ *
+ * @param operation API 오퍼레이션명 (isMockOperation으로 확인 후 전달)
+ * @param params 오퍼레이션 파라미터 (공통 파라미터 포함 가능)
+ * @returns KorService2 형식의 응답 본문
+ */
+export async function getMockTourApiResponse(
+  operation: string,
+  params: URLSearchParams
+): Promise<unknown> {
+  const latency = Number(getEnv("TOUR_API_MOCK_LATENCY_MS", "0"));
+  if (latency > 0) {
+    await new Promise((resolve) => setTimeout(resolve, latency));
+  }
+
+  const errorCode = getInjectedError(operation);
+  if (errorCode) {
+    return createErrorResponse(errorCode);
+  }
+
+  const rule = MOCK_OPERATIONS[operation];
+  const fixture = await readFixture(rule.fixture ?? operation);
+  const items = selectItems(rule, fixture, params);
+
+  const numOfRows = Number(params.get("numOfRows")) || TOUR_API_MOCK_CONFIG.defaultNumOfRows;
+  const pageNo = Number(params.get("pageNo")) || 1;
+  const pageItems = items.slice((pageNo - 1) * numOfRows, pageNo * numOfRows);
+
+  return {
+    response: {
+      header: { resultCode: "0000", resultMsg: "OK" },
+      body: {
+        // 실제 API와 같이 빈 페이지는 빈 문자열로 응답
+        items: pageItems.length > 0 ? { item: pageItems } : "",
+        numOfRows,
+        pageNo,
+        totalCount: items.length,
+      },
+    },
+  };
+}
+
+/**
+ * 실제 API 응답을 fixture에 기록
+ *
+ * 목록 오퍼레이션은 contentid 기준으로 "" 묶음의 기존 항목에 필드를 병합하고
+ * (거리(dist)는 조회 위치마다 달라 제외), 묶음 키가 있는 오퍼레이션은 해당 묶음을 응답 항목으로 교체합니다.
+ * 정상 응답(resultCode "0000")만 기록합니다.
+ *
+ * @param operation API 오퍼레이션명
+ * @param params 오퍼레이션 파라미터
+ * @param data 실제 API 응답 본문
+ */
+export async function recordTourApiFixture(
+  operation: string,
+  params: URLSearchParams,
+  data: unknown
+): Promise<void> {
+  const response = (data as { response?: { header?: { resultCode?: unknown }; body?: { items?: unknown } } })
+    ?.response;
+  if (String(response?.header?.resultCode) !== "0000") return;
+
+  const rawItems = (response.body?.items as { item?: unknown } | undefined)?.item;
+  const items = (Array.isArray(rawItems) ? rawItems : rawItems ? [rawItems] : []) as FixtureItem[];
+  const rule = MOCK_OPERATIONS[operation];
+  const fixtureName = rule.fixture ?? operation;
+
+  const previous = writeQueues.get(fixtureName) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const fixture = await readFixture(fixtureName);
+
+    if (rule.scopeParams) {
+      fixture[getScopeKey(rule, params)] = items;
+    } else {
+      const merged = new Map((fixture[""] ?? []).map((item) => [item.contentid, item]));
+      for (const item of items) {
+        const record = { ...merged.get(item.contentid), ...item };
+        delete record.dist;
+        merged.set(item.contentid, record);
+      }
+      fixture[""] = Array.from(merged.values());
+    }
+
+    const fixturePath = getFixturePath(fixtureName);
+    await mkdir(path.dirname(fixturePath), { recursive: true });
+    await writeFile(fixturePath, `${JSON.stringify(fixture, null, 2)}\n`, "utf-8");
+  });
+
+  // 기록 실패가 다음 기록을 막지 않도록 대기열에는 실패를 무시한 Promise 보관
+  writeQueues.set(fixtureName, next.catch(() => undefined));
+  return next;
+}
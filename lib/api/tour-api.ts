@@ -4,32 +4,87 @@
  *
  * 한국관광공사 공공 API (KorService2)를 호출하는 함수들을 제공합니다.
  * 공통 파라미터 처리, 에러 처리, 재시도 로직을 포함합니다.
+ *
+ * 서비스키는 서버에서만 사용하며, 클라이언트 호출(isServer: false)은
+ * API 프록시(app/api/tour/[operation]/route.ts)를 거칩니다.
+ * TOUR_API_MODE가 mock/record이면 서버 호출은 모의 API(app/api/tour-mock/[operation]/route.ts)를 거칩니다.
  */
 
 import { unstable_cache } from "next/cache";
-import { getEnv, getServerEnv } from "@/lib/env";
-import { TOUR_API_BASE_URL, TOUR_API_DEFAULTS, API_RETRY_CONFIG } from "@/lib/constants/api";
+import { getEnv, getServerEnv, getTourApiMode } from "@/lib/env";
+import {
+  TOUR_API_BASE_URL,
+  TOUR_API_PROXY_PATH,
+  TOUR_API_MOCK_CONFIG,
+  TOUR_API_DEFAULTS,
+  API_RETRY_CONFIG,
+  TOUR_API_CACHE_POLICY,
+  TOUR_REQUEST_CACHE_CONFIG,
+  TOUR_API_CIRCUIT_BREAKER_CONFIG,
+  TOUR_API_STALE_HEADER,
+} from "@/lib/constants/api";
 import type {
   TourItem,
   TourDetail,
   TourIntro,
   TourImage,
   PetTourInfo,
+  TourRoomItem,
+  RoomInfo,
+  TourCourseItem,
+  CourseStop,
+  TourSyncItem,
 } from "@/lib/types/tour";
 import type { TourApiResponse, ApiResult } from "@/lib/types/api";
+import {
+  TourApiCircuitOpenError,
+  TourApiNoDataError,
+  TourApiParseError,
+  fromHttpStatus,
+  fromNonJsonBody,
+  fromResultCode,
+  toTourApiError,
+} from "@/lib/api/tour-api-error";
+import {
+  tourItemSchema,
+  tourSyncItemSchema,
+  tourDetailSchema,
+  tourIntroSchema,
+  tourImageSchema,
+  petTourInfoSchema,
+  tourApiEnvelopeSchema,
+  parseTourItems,
+  type TourSchema,
+} from "@/lib/schemas/tour";
+import type { CategoryCode, CategoryFilter } from "@/lib/types/category";
+import {
+  createCircuitBreaker,
+  type CircuitState,
+} from "@/lib/api/circuit-breaker";
+import {
+  createRequestCache,
+  type RequestCacheStats,
+} from "@/lib/api/request-cache";
+import {
+  getDefaultPriority,
+  markTourApiQuotaExhausted,
+  recordTourApiCall,
+  scheduleTourApiCall,
+  type TourApiPriority,
+} from "@/lib/api/tour-quota";
+import {
+  getMirrorAreaBasedList,
+  isTourMirrorEnabled,
+  updateMirrorOverview,
+} from "@/lib/api/tour-mirror";
 
 /**
- * 공통 파라미터 생성
- * @param isServer 서버 사이드 호출 여부 (기본값: false)
+ * 공통 파라미터 생성 (서버 전용)
  * @returns 공통 파라미터 객체
  */
-function getCommonParams(isServer: boolean = false): Record<string, string> {
-  const serviceKey = isServer
-    ? getServerEnv("TOUR_API_KEY")
-    : getEnv("NEXT_PUBLIC_TOUR_API_KEY");
-
+function getCommonParams(): Record<string, string> {
   return {
-    serviceKey,
+    serviceKey: getServerEnv("TOUR_API_KEY"),
     MobileOS: TOUR_API_DEFAULTS.MobileOS,
     MobileApp: TOUR_API_DEFAULTS.MobileApp,
     _type: TOUR_API_DEFAULTS._type,
@@ -37,78 +92,156 @@ function getCommonParams(isServer: boolean = false): Record<string, string> {
 }
 
 /**
- * 지수 백오프를 사용한 지연 시간 계산
+ * 모의 API URL (TOUR_API_MOCK_URL 환경변수 우선, 기본값: 로컬 개발 서버)
  */
-function getDelayMs(retryCount: number): number {
-  const delay = API_RETRY_CONFIG.initialDelay * Math.pow(2, retryCount);
-  return Math.min(delay, API_RETRY_CONFIG.maxDelay);
+function getTourApiMockUrl(): string {
+  return getEnv(
+    "TOUR_API_MOCK_URL",
+    `http://localhost:${process.env.PORT || 3000}${TOUR_API_MOCK_CONFIG.path}`
+  );
 }
 
 /**
- * 에러 타입 분류
+ * API 호출 URL 생성
+ *
+ * 서버에서는 서비스키를 포함해 한국관광공사 API를 직접 호출하고,
+ * 클라이언트에서는 서비스키가 브라우저에 노출되지 않도록 API 프록시를 호출합니다.
+ * 모의 모드(mock/record)에서는 서버도 서비스키 없이 모의 API를 호출합니다.
+ *
+ * @param operation API 오퍼레이션명 (예: areaCode2)
+ * @param params 오퍼레이션 파라미터 (공통 파라미터 제외)
+ * @param isServer 서버 사이드 호출 여부
+ * @returns 호출 URL
  */
-function classifyError(error: unknown): {
-  type: "network" | "api" | "parse" | "unknown";
-  message: string;
-  statusCode?: number;
-} {
-  // 네트워크 에러 (fetch 실패, 타임아웃 등)
-  if (error instanceof TypeError && error.message.includes("fetch")) {
-    return {
-      type: "network",
-      message: "네트워크 연결에 실패했습니다. 인터넷 연결을 확인해주세요.",
-    };
+function getTourApiUrl(
+  operation: string,
+  params: URLSearchParams,
+  isServer: boolean
+): string {
+  if (!isServer) {
+    return `${TOUR_API_PROXY_PATH}/${operation}?${params.toString()}`;
   }
 
-  // HTTP 에러
-  if (error instanceof Error && error.message.includes("HTTP")) {
-    const statusMatch = error.message.match(/HTTP (\d+)/);
-    const statusCode = statusMatch ? parseInt(statusMatch[1], 10) : undefined;
-
-    let message = "서버에서 오류가 발생했습니다.";
-    if (statusCode === 400) {
-      message = "잘못된 요청입니다. 입력값을 확인해주세요.";
-    } else if (statusCode === 401) {
-      message = "인증이 필요합니다. API 키를 확인해주세요.";
-    } else if (statusCode === 403) {
-      message = "접근이 거부되었습니다. 권한을 확인해주세요.";
-    } else if (statusCode === 404) {
-      message = "요청한 리소스를 찾을 수 없습니다.";
-    } else if (statusCode === 429) {
-      message = "요청 횟수가 초과되었습니다. 잠시 후 다시 시도해주세요.";
-    } else if (statusCode === 500) {
-      message = "서버 내부 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
-    } else if (statusCode === 503) {
-      message = "서비스를 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요.";
-    }
-
-    return {
-      type: "api",
-      message,
-      statusCode,
-    };
+  if (getTourApiMode() !== "live") {
+    // 서비스키는 기록 모드에서 모의 API가 실제 API를 호출할 때 붙임
+    const mockParams = new URLSearchParams({
+      ...TOUR_API_DEFAULTS,
+      ...Object.fromEntries(params),
+    });
+    return `${getTourApiMockUrl()}/${operation}?${mockParams.toString()}`;
   }
 
-  // JSON 파싱 에러
-  if (error instanceof SyntaxError) {
-    return {
-      type: "parse",
-      message: "서버 응답을 처리하는 중 오류가 발생했습니다.",
-    };
+  const serverParams = new URLSearchParams({
+    ...getCommonParams(),
+    ...Object.fromEntries(params),
+  });
+  return `${TOUR_API_BASE_URL}/${operation}?${serverParams.toString()}`;
+}
+
+/**
+ * API 장애 차단기 (연속 실패 시 일정 시간 동안 호출 차단)
+ */
+const tourCircuitBreaker = createCircuitBreaker(TOUR_API_CIRCUIT_BREAKER_CONFIG);
+
+/**
+ * 장애로 대신 반환한 마지막 정상 응답 (parseApiResponse에서 stale 표시에 사용)
+ */
+const staleResponses = new WeakSet<object>();
+
+/**
+ * API 장애 차단기 상태 조회
+ */
+export function getTourApiCircuitState(): CircuitState {
+  return tourCircuitBreaker.getState();
+}
+
+/**
+ * 마지막 정상 응답을 대체 응답으로 표시
+ *
+ * 캐시에 보관된 원본은 그대로 두고 복사본을 표시합니다.
+ */
+function toStaleResponse<T>(data: T): T {
+  const staleData = { ...(data as object) } as T;
+  staleResponses.add(staleData as object);
+  return staleData;
+}
+
+/**
+ * 대체 응답 여부
+ */
+function isStaleResponse(data: unknown): boolean {
+  return typeof data === "object" && data !== null && staleResponses.has(data);
+}
+
+/**
+ * unstable_cache 적용 (장애로 대신 반환한 응답은 캐시에 저장하지 않음)
+ *
+ * 오래된 응답이 재검증 주기 동안 캐시에 남지 않도록, 대체 응답이면 캐시 함수에서 throw하여
+ * 기존 캐시 항목을 유지하고 대체 응답은 이번 요청에만 반환합니다.
+ *
+ * @param fetcher 조회 함수
+ * @param isStale 대체 응답 여부 판단 함수
+ * @param keyParts 캐시 키
+ * @param policy 캐싱 정책
+ * @returns 조회 결과
+ */
+async function cacheUnlessStale<T>(
+  fetcher: () => Promise<T>,
+  isStale: (value: T) => boolean,
+  keyParts: string[],
+  policy: { revalidate: number; tags: string[] }
+): Promise<T> {
+  const fallback: { value?: T; stale: boolean } = { stale: false };
+
+  try {
+    return await unstable_cache(
+      async () => {
+        const value = await fetcher();
+        if (isStale(value)) {
+          fallback.value = value;
+          fallback.stale = true;
+          throw new TourApiCircuitOpenError();
+        }
+        return value;
+      },
+      keyParts,
+      policy
+    )();
+  } catch (error) {
+    if (fallback.stale) {
+      return fallback.value as T;
+    }
+    throw error;
   }
+}
 
-  // 기타 에러
-  const errorMessage =
-    error instanceof Error
-      ? error.message
-      : typeof error === "string"
-        ? error
-        : "알 수 없는 오류가 발생했습니다.";
+/**
+ * API 호출 결과 캐싱 (서버 전용)
+ *
+ * 대체 응답 결과와 호출 한도 부족으로 보류된 결과는 캐시에 저장하지 않습니다.
+ * (보류 여부는 요청 우선순위에 따라 다르므로, 낮은 우선순위 요청의 보류 결과가
+ * 같은 캐시 키를 사용하는 다른 요청에 재검증 주기 동안 반환되지 않도록 함)
+ */
+function cacheTourResult<T>(
+  fetcher: () => Promise<ApiResult<T>>,
+  keyParts: string[],
+  policy: { revalidate: number; tags: string[] }
+): Promise<ApiResult<T>> {
+  return cacheUnlessStale(
+    fetcher,
+    (result) =>
+      result.success === true ? !!result.stale : result.kind === "quota-exceeded",
+    keyParts,
+    policy
+  );
+}
 
-  return {
-    type: "unknown",
-    message: errorMessage,
-  };
+/**
+ * 지수 백오프를 사용한 지연 시간 계산
+ */
+function getDelayMs(retryCount: number): number {
+  const delay = API_RETRY_CONFIG.initialDelay * Math.pow(2, retryCount);
+  return Math.min(delay, API_RETRY_CONFIG.maxDelay);
 }
 
 /**
@@ -116,32 +249,58 @@ function classifyError(error: unknown): {
  */
 async function fetchWithRetry<T>(
   url: string,
+  operation?: string,
   retryCount: number = 0
 ): Promise<T> {
   try {
+    // 장애로 호출을 차단한 동안에는 요청하지 않음
+    if (retryCount === 0 && !tourCircuitBreaker.canRequest()) {
+      throw new TourApiCircuitOpenError();
+    }
+
+    // 한국관광공사 API를 직접 호출하는 경우 호출 수 집계 (재시도 포함)
+    if (operation) {
+      recordTourApiCall(operation);
+    }
     const response = await fetch(url);
 
     if (!response.ok) {
-      const errorInfo = classifyError(
-        new Error(`HTTP ${response.status}: ${response.statusText}`)
-      );
-      const error = new Error(errorInfo.message);
-      (error as any).statusCode = errorInfo.statusCode;
-      (error as any).errorType = errorInfo.type;
-      throw error;
+      throw fromHttpStatus(response.status);
     }
 
-    const data = (await response.json()) as T;
-    return data;
+    // 서비스키 오류/호출 한도 초과 시 JSON 대신 XML 에러 응답이 반환될 수 있음
+    const body = await response.text();
+    let data: T;
+    try {
+      data = JSON.parse(body) as T;
+    } catch {
+      throw fromNonJsonBody(body);
+    }
+
+    tourCircuitBreaker.recordSuccess();
+    // API 프록시가 장애로 마지막 정상 응답을 대신 반환한 경우
+    return response.headers.get(TOUR_API_STALE_HEADER)
+      ? toStaleResponse(data)
+      : data;
   } catch (error) {
-    // 네트워크 에러나 일시적 서버 에러인 경우에만 재시도
-    const errorInfo = classifyError(error);
+    const apiError = toTourApiError(error);
+    if (error instanceof TourApiCircuitOpenError) {
+      throw apiError;
+    }
+
+    // 네트워크 에러나 일시적 서버 에러는 장애로 기록하고, 그 외(4xx, 서비스키/한도 초과 응답,
+    // 파싱 실패)는 API가 응답한 것이므로 정상으로 기록 (half-open 시험 요청이 항상 종료되도록)
+    if (apiError.retryable) {
+      tourCircuitBreaker.recordFailure();
+    } else {
+      tourCircuitBreaker.recordSuccess();
+    }
+
+    // 네트워크 에러나 일시적 서버 에러인 경우에만 재시도 (호출 차단 중에는 재시도하지 않음)
     const shouldRetry =
       retryCount < API_RETRY_CONFIG.maxRetries &&
-      (errorInfo.type === "network" ||
-        (errorInfo.type === "api" &&
-          errorInfo.statusCode &&
-          errorInfo.statusCode >= 500));
+      apiError.retryable &&
+      tourCircuitBreaker.getState() === "closed";
 
     if (shouldRetry) {
       const delay = getDelayMs(retryCount);
@@ -149,53 +308,145 @@ async function fetchWithRetry<T>(
       if (process.env.NODE_ENV === "development") {
         console.warn(
           `API 호출 실패 (재시도 ${retryCount + 1}/${API_RETRY_CONFIG.maxRetries}):`,
-          errorInfo.type,
-          errorInfo.message,
+          apiError.kind,
+          apiError.message,
           error
         );
       }
       await new Promise((resolve) => setTimeout(resolve, delay));
-      return fetchWithRetry<T>(url, retryCount + 1);
+      return fetchWithRetry<T>(url, operation, retryCount + 1);
     }
 
-    // 재시도 불가능한 경우 에러 정보를 포함하여 throw
-    const finalError =
-      error instanceof Error
-        ? error
-        : new Error(errorInfo.message);
-    (finalError as any).errorType = errorInfo.type;
-    if (errorInfo.statusCode) {
-      (finalError as any).statusCode = errorInfo.statusCode;
+    if (operation && apiError.kind === "quota-exceeded") {
+      markTourApiQuotaExhausted();
     }
-    throw finalError;
+
+    // 재시도 불가능한 경우 분류된 에러를 throw
+    throw apiError;
+  }
+}
+
+/**
+ * 중복 호출 병합 및 LRU 캐시 (서버/클라이언트 공통)
+ */
+const tourRequestCache = createRequestCache(TOUR_REQUEST_CACHE_CONFIG);
+
+/**
+ * 중복 호출 병합/캐시 집계 조회 (적중/미적중/병합 횟수)
+ */
+export function getTourRequestCacheStats(): RequestCacheStats {
+  return tourRequestCache.getStats();
+}
+
+/**
+ * 요청 키 생성 (오퍼레이션 + 파라미터 + 우선순위, 파라미터 순서와 무관)
+ *
+ * 호출 한도가 부족하면 우선순위별로 보류 여부가 다르므로,
+ * 우선순위가 다른 요청은 병합하지 않습니다.
+ */
+function getRequestKey(
+  operation: string,
+  params: URLSearchParams,
+  priority: TourApiPriority
+): string {
+  const sortedParams = new URLSearchParams(params);
+  sortedParams.sort();
+  return `${operation}?${sortedParams.toString()}#${priority}`;
+}
+
+/**
+ * 정상 응답 여부 (결과 코드 오류 응답은 캐시에 보관하지 않음)
+ */
+function isSuccessfulResponse(data: unknown): boolean {
+  return (
+    (data as Partial<TourApiResponse<unknown>>)?.response?.header?.resultCode ===
+    "0000"
+  );
+}
+
+/**
+ * API 호출
+ *
+ * 같은 요청이 동시에 발생하면 하나로 병합하고, 정상 응답은 짧은 시간 동안 재사용합니다.
+ * (한 번의 렌더링에서 generateMetadata와 페이지가 같은 데이터를 조회하는 경우 등)
+ * 서버 호출은 일일 호출 한도를 고려하여 실행하고 호출 수를 집계합니다.
+ * 클라이언트 호출은 API 프록시를 거치므로 프록시에서 집계됩니다.
+ * 모의 모드(mock)의 서버 호출은 실제 API를 호출하지 않으므로 집계하지 않습니다.
+ * API 장애 시에는 마지막 정상 응답을 대체 응답(stale)으로 반환합니다.
+ *
+ * @param operation API 오퍼레이션명 (예: areaCode2)
+ * @param params 오퍼레이션 파라미터 (공통 파라미터 제외)
+ * @param isServer 서버 사이드 호출 여부
+ * @param priority 요청 우선순위 (기본값: 오퍼레이션별 기본 우선순위)
+ * @returns API 응답 (JSON)
+ */
+async function requestTourApi<T>(
+  operation: string,
+  params: URLSearchParams,
+  isServer: boolean,
+  priority: TourApiPriority = getDefaultPriority(operation)
+): Promise<T> {
+  const url = getTourApiUrl(operation, params, isServer);
+  const key = getRequestKey(operation, params, priority);
+  const countsQuota = isServer && getTourApiMode() !== "mock";
+
+  try {
+    return await tourRequestCache.run<T>(
+      key,
+      () =>
+        countsQuota
+          ? scheduleTourApiCall(operation, priority, () =>
+              fetchWithRetry<T>(url, operation)
+            )
+          : fetchWithRetry<T>(url),
+      { shouldCache: isSuccessfulResponse }
+    );
+  } catch (error) {
+    // API 장애(네트워크/서버 오류, 호출 차단) 시 마지막 정상 응답을 대신 사용
+    const apiError = toTourApiError(error);
+    const lastResponse = apiError.retryable
+      ? tourRequestCache.peek<T>(key)
+      : undefined;
+    if (lastResponse) {
+      if (process.env.NODE_ENV === "development") {
+        console.warn("API 장애로 마지막 정상 응답을 사용합니다:", key);
+      }
+      return toStaleResponse(lastResponse);
+    }
+    throw apiError;
   }
 }
 
 /**
  * API 응답 파싱 및 검증
+ *
+ * 응답 구조를 검증하고 item을 항상 배열로 정규화합니다.
+ * 항목 스키마가 주어지면 항목별로 검증/변환하며, 검증에 실패한 항목은 제외합니다.
+ *
+ * @param data API 응답 (JSON)
+ * @param schema 항목 스키마 (선택사항)
+ * @param source API 오퍼레이션명 (스키마 불일치 보고용)
+ * @returns 항목 목록
  */
 function parseApiResponse<T>(
-  data: TourApiResponse<T>
-): ApiResult<T extends Array<infer U> ? U[] : T> {
-  const { response } = data;
+  data: TourApiResponse<T>,
+  schema?: TourSchema<T>,
+  source: string = "unknown"
+): ApiResult<T[]> {
+  const envelope = tourApiEnvelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    // 개발 환경에서만 원본 응답 구조 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("API 응답 구조 오류:", source, envelope.error.issues);
+    }
+    return new TourApiParseError().toResult();
+  }
+
+  const { response } = envelope.data;
 
   if (response.header.resultCode !== "0000") {
-    // 한국관광공사 API 에러 코드별 사용자 친화적 메시지
+    // 한국관광공사 API 에러 코드별 에러 분류 및 사용자 친화적 메시지
     const errorCode = response.header.resultCode;
-    let userMessage = response.header.resultMsg || "API 호출 중 오류가 발생했습니다.";
-
-    // 에러 코드별 메시지 개선 (한국어)
-    if (errorCode === "01") {
-      userMessage = "필수 파라미터가 누락되었습니다.";
-    } else if (errorCode === "02") {
-      userMessage = "잘못된 파라미터 값입니다.";
-    } else if (errorCode === "03") {
-      userMessage = "서비스키가 유효하지 않습니다.";
-    } else if (errorCode === "04") {
-      userMessage = "서비스키가 만료되었습니다.";
-    } else if (errorCode === "05") {
-      userMessage = "일일 호출 한도를 초과했습니다.";
-    }
 
     // 개발 환경에서만 원본 메시지 로깅
     if (process.env.NODE_ENV === "development") {
@@ -203,64 +454,126 @@ function parseApiResponse<T>(
       console.error("API 에러 메시지:", response.header.resultMsg);
     }
 
-    return {
-      success: false,
-      error: userMessage,
-      code: errorCode,
-    };
+    const apiError = fromResultCode(errorCode, response.header.resultMsg);
+    if (apiError.kind === "quota-exceeded") {
+      markTourApiQuotaExhausted();
+    }
+    return apiError.toResult();
   }
 
-  const items = response.body.items?.item;
+  // 빈 페이지는 items가 빈 문자열로 응답됨
+  const items =
+    response.body?.items && typeof response.body.items === "object"
+      ? response.body.items.item
+      : undefined;
   if (!items) {
-    return {
-      success: false,
-      error: "조회된 데이터가 없습니다.",
-    };
+    return new TourApiNoDataError().toResult();
+  }
+
+  // 배열이 아닌 경우 배열로 변환 (캐시에 보관된 원본 응답이 변경되지 않도록 복사)
+  const itemArray: unknown[] = Array.isArray(items) ? [...items] : [items];
+  const parsed = schema
+    ? parseTourItems(itemArray, schema, source)
+    : (itemArray as T[]);
+
+  // 모든 항목이 스키마 검증에 실패한 경우 응답 형식 오류로 처리
+  if (parsed.length === 0 && itemArray.length > 0) {
+    return new TourApiParseError().toResult();
   }
 
-  // 배열이 아닌 경우 배열로 변환
-  const itemArray = Array.isArray(items) ? items : [items];
+  return {
+    success: true,
+    data: parsed,
+    totalCount: response.body?.totalCount,
+    ...(isStaleResponse(data) && { stale: true }),
+  };
+}
 
+/**
+ * 단일 항목 API 응답 파싱 및 검증 (상세 정보 조회용)
+ *
+ * @param data API 응답 (JSON)
+ * @param schema 항목 스키마
+ * @param source API 오퍼레이션명 (스키마 불일치 보고용)
+ * @returns 첫 번째 항목
+ */
+function parseApiItem<T>(
+  data: TourApiResponse<T>,
+  schema: TourSchema<T>,
+  source: string
+): ApiResult<T> {
+  const result = parseApiResponse(data, schema, source);
+  if (result.success === false) {
+    return result;
+  }
   return {
     success: true,
-    data: (itemArray.length === 1 && !Array.isArray(items)
-      ? items
-      : itemArray) as T extends Array<infer U> ? U[] : T,
-    totalCount: response.body.totalCount,
+    data: result.data[0],
+    totalCount: result.totalCount,
+    ...(result.stale && { stale: true }),
+  };
+}
+
+/**
+ * 서비스 분류 필터 파라미터 생성
+ *
+ * 상위 분류 없이 하위 분류만 전달하면 API 오류가 발생하므로
+ * cat1 → cat2 → cat3 순서로 상위 분류가 있는 경우에만 포함합니다.
+ *
+ * @param category 서비스 분류 필터
+ * @returns cat1/cat2/cat3 파라미터 객체
+ */
+function getCategoryParams(category?: CategoryFilter): Record<string, string> {
+  if (!category?.cat1) return {};
+  return {
+    cat1: category.cat1,
+    ...(category.cat2 && { cat2: category.cat2 }),
+    ...(category.cat2 && category.cat3 && { cat3: category.cat3 }),
   };
 }
 
+/**
+ * 서비스 분류 필터 캐시 키 생성
+ */
+function getCategoryCacheKey(category?: CategoryFilter): string {
+  return [category?.cat1, category?.cat2, category?.cat3]
+    .filter(Boolean)
+    .join("-") || "all";
+}
+
 /**
  * 지역코드 조회 (내부 구현)
  *
  * @param areaCode 시/도 코드 (선택사항, 없으면 전체 시/도 조회)
  * @param isServer 서버 사이드 호출 여부
+ * @param priority 요청 우선순위 (선택사항, 일일 호출 한도 관리용)
  * @returns 지역 코드 목록
  */
 async function getAreaCodeInternal(
   areaCode?: string,
-  isServer: boolean = false
+  isServer: boolean = false,
+  priority?: TourApiPriority
 ): Promise<ApiResult<TourItem[]>> {
   try {
     const params = new URLSearchParams({
-      ...getCommonParams(isServer),
       ...(areaCode && { areaCode }),
     });
 
-    const url = `${TOUR_API_BASE_URL}/areaCode2?${params.toString()}`;
-    const data = await fetchWithRetry<TourApiResponse<TourItem[]>>(url);
+    const data = await requestTourApi<TourApiResponse<TourItem>>(
+      "areaCode2",
+      params,
+      isServer,
+      priority
+    );
 
     return parseApiResponse(data);
   } catch (error) {
-    const errorInfo = classifyError(error);
+    const apiError = toTourApiError(error);
     // 개발 환경에서만 상세 로깅
     if (process.env.NODE_ENV === "development") {
-      console.error("지역코드 조회 에러:", errorInfo, error);
+      console.error("지역코드 조회 에러:", apiError.kind, error);
     }
-    return {
-      success: false,
-      error: errorInfo.message || "지역코드 조회 중 오류가 발생했습니다.",
-    };
+    return apiError.toResult("지역코드 조회 중 오류가 발생했습니다.");
   }
 }
 
@@ -271,24 +584,93 @@ async function getAreaCodeInternal(
  *
  * @param areaCode 시/도 코드 (선택사항, 없으면 전체 시/도 조회)
  * @param isServer 서버 사이드 호출 여부
+ * @param priority 요청 우선순위 (선택사항, 일일 호출 한도 관리용)
  * @returns 지역 코드 목록
  */
 export async function getAreaCode(
   areaCode?: string,
-  isServer: boolean = false
+  isServer: boolean = false,
+  priority?: TourApiPriority
 ): Promise<ApiResult<TourItem[]>> {
   // 서버 사이드에서만 캐싱 적용 (클라이언트에서는 캐싱 불가)
   if (isServer) {
-    return unstable_cache(
-      async () => getAreaCodeInternal(areaCode, isServer),
+    return cacheTourResult(
+      async () => getAreaCodeInternal(areaCode, isServer, priority),
       [`area-code-${areaCode || "all"}`],
-      {
-        revalidate: 86400, // 24시간 (지역 코드는 거의 변경되지 않음)
-        tags: ["area-code"],
-      }
-    )();
+      TOUR_API_CACHE_POLICY.areaCode2
+    );
   }
-  return getAreaCodeInternal(areaCode, isServer);
+  return getAreaCodeInternal(areaCode, isServer, priority);
+}
+
+/**
+ * 서비스 분류 코드 조회 (내부 구현)
+ *
+ * @param contentTypeId 콘텐츠 타입 ID (선택사항, 지정 시 해당 타입의 분류만 조회)
+ * @param cat1 대분류 코드 (선택사항, 지정 시 중분류 조회)
+ * @param cat2 중분류 코드 (선택사항, cat1과 함께 지정 시 소분류 조회)
+ * @param isServer 서버 사이드 호출 여부
+ * @returns 분류 코드 목록
+ */
+async function getCategoryCodeInternal(
+  contentTypeId?: number,
+  cat1?: string,
+  cat2?: string,
+  isServer: boolean = false
+): Promise<ApiResult<CategoryCode[]>> {
+  try {
+    const params = new URLSearchParams({
+      numOfRows: "100", // 분류 코드는 한 번에 모두 조회
+      ...(contentTypeId && { contentTypeId: contentTypeId.toString() }),
+      ...getCategoryParams({ cat1, cat2 }),
+    });
+
+    const data = await requestTourApi<TourApiResponse<CategoryCode>>(
+      "categoryCode2",
+      params,
+      isServer
+    );
+
+    return parseApiResponse(data);
+  } catch (error) {
+    const apiError = toTourApiError(error);
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("분류 코드 조회 에러:", apiError.kind, error);
+    }
+    return apiError.toResult("분류 코드 조회 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 서비스 분류 코드 조회 (캐싱 적용)
+ *
+ * 분류 코드는 거의 변경되지 않으므로 24시간 캐싱을 적용합니다.
+ * - cat1 없음: 대분류 목록
+ * - cat1 지정: 해당 대분류의 중분류 목록
+ * - cat1, cat2 지정: 해당 중분류의 소분류 목록
+ *
+ * @param contentTypeId 콘텐츠 타입 ID (선택사항, 지정 시 해당 타입의 분류만 조회)
+ * @param cat1 대분류 코드 (선택사항)
+ * @param cat2 중분류 코드 (선택사항)
+ * @param isServer 서버 사이드 호출 여부
+ * @returns 분류 코드 목록
+ */
+export async function getCategoryCode(
+  contentTypeId?: number,
+  cat1?: string,
+  cat2?: string,
+  isServer: boolean = false
+): Promise<ApiResult<CategoryCode[]>> {
+  // 서버 사이드에서만 캐싱 적용 (클라이언트에서는 캐싱 불가)
+  if (isServer) {
+    return cacheTourResult(
+      async () => getCategoryCodeInternal(contentTypeId, cat1, cat2, isServer),
+      [`category-code-${contentTypeId || "all"}-${getCategoryCacheKey({ cat1, cat2 })}`],
+      TOUR_API_CACHE_POLICY.categoryCode2
+    );
+  }
+  return getCategoryCodeInternal(contentTypeId, cat1, cat2, isServer);
 }
 
 /**
@@ -299,6 +681,10 @@ export async function getAreaCode(
  * @param numOfRows 페이지당 항목 수 (기본값: 20)
  * @param pageNo 페이지 번호 (기본값: 1)
  * @param isServer 서버 사이드 호출 여부
+ * @param sigunguCode 시/군/구 코드 (선택사항, areaCode 하위 코드)
+ * @param category 서비스 분류 필터 (선택사항, cat1/cat2/cat3)
+ * @param arrange 정렬 구분 (선택사항, A: 제목순, C: 수정일순, D: 생성일순)
+ * @param priority 요청 우선순위 (선택사항, 일일 호출 한도 관리용)
  * @returns 관광지 목록
  */
 async function getAreaBasedListInternal(
@@ -306,31 +692,38 @@ async function getAreaBasedListInternal(
   contentTypeId?: number,
   numOfRows: number = 20,
   pageNo: number = 1,
-  isServer: boolean = false
+  isServer: boolean = false,
+  sigunguCode?: string,
+  category?: CategoryFilter,
+  arrange?: string,
+  priority?: TourApiPriority
 ): Promise<ApiResult<TourItem[]>> {
   try {
     const params = new URLSearchParams({
-      ...getCommonParams(isServer),
       areaCode,
       numOfRows: numOfRows.toString(),
       pageNo: pageNo.toString(),
+      ...(sigunguCode && { sigunguCode }),
       ...(contentTypeId && { contentTypeId: contentTypeId.toString() }),
+      ...getCategoryParams(category),
+      ...(arrange && { arrange }),
     });
 
-    const url = `${TOUR_API_BASE_URL}/areaBasedList2?${params.toString()}`;
-    const data = await fetchWithRetry<TourApiResponse<TourItem[]>>(url);
+    const data = await requestTourApi<TourApiResponse<TourItem>>(
+      "areaBasedList2",
+      params,
+      isServer,
+      priority
+    );
 
-    return parseApiResponse(data);
+    return parseApiResponse(data, tourItemSchema, "areaBasedList2");
   } catch (error) {
-    const errorInfo = classifyError(error);
+    const apiError = toTourApiError(error);
     // 개발 환경에서만 상세 로깅
     if (process.env.NODE_ENV === "development") {
-      console.error("관광지 목록 조회 에러:", errorInfo, error);
+      console.error("관광지 목록 조회 에러:", apiError.kind, error);
     }
-    return {
-      success: false,
-      error: errorInfo.message || "관광지 목록 조회 중 오류가 발생했습니다.",
-    };
+    return apiError.toResult("관광지 목록 조회 중 오류가 발생했습니다.");
   }
 }
 
@@ -338,12 +731,18 @@ async function getAreaBasedListInternal(
  * 지역 기반 관광지 목록 조회 (캐싱 적용)
  *
  * 관광지 목록은 자주 변경되지 않으므로 1시간 캐싱을 적용합니다.
+ * TOUR_DATA_SOURCE=mirror이면 서버에서는 관광지 미러(Supabase)를 먼저 조회하고,
+ * 미러 조회에 실패하거나 결과가 없으면 API를 조회합니다.
  *
  * @param areaCode 지역 코드
  * @param contentTypeId 콘텐츠 타입 ID (선택사항)
  * @param numOfRows 페이지당 항목 수 (기본값: 20)
  * @param pageNo 페이지 번호 (기본값: 1)
  * @param isServer 서버 사이드 호출 여부
+ * @param sigunguCode 시/군/구 코드 (선택사항, areaCode 하위 코드)
+ * @param category 서비스 분류 필터 (선택사항, cat1/cat2/cat3)
+ * @param arrange 정렬 구분 (선택사항, A: 제목순, C: 수정일순, D: 생성일순)
+ * @param priority 요청 우선순위 (선택사항, 통계/sitemap 등 백그라운드 작업은 "low")
  * @returns 관광지 목록
  */
 export async function getAreaBasedList(
@@ -351,33 +750,167 @@ export async function getAreaBasedList(
   contentTypeId?: number,
   numOfRows: number = 20,
   pageNo: number = 1,
-  isServer: boolean = false
+  isServer: boolean = false,
+  sigunguCode?: string,
+  category?: CategoryFilter,
+  arrange?: string,
+  priority?: TourApiPriority
 ): Promise<ApiResult<TourItem[]>> {
+  if (isServer && isTourMirrorEnabled()) {
+    const mirrorResult = await getMirrorAreaBasedList(
+      areaCode,
+      contentTypeId,
+      numOfRows,
+      pageNo,
+      sigunguCode,
+      category,
+      arrange
+    );
+    if (mirrorResult.success === true && mirrorResult.data.length > 0) {
+      return mirrorResult;
+    }
+    // 개발 환경에서만 대체 사유 로깅
+    if (process.env.NODE_ENV === "development" && mirrorResult.success === false) {
+      console.error("관광지 미러 조회 실패, API로 대체:", mirrorResult.error);
+    }
+  }
+
   // 서버 사이드에서만 캐싱 적용 (클라이언트에서는 캐싱 불가)
   if (isServer) {
     // 캐시 키 생성 (모든 파라미터 포함)
-    const cacheKey = `area-based-list-${areaCode}-${contentTypeId || "all"}-${numOfRows}-${pageNo}`;
-    return unstable_cache(
+    const cacheKey = `area-based-list-${areaCode}-${sigunguCode || "all"}-${contentTypeId || "all"}-${getCategoryCacheKey(category)}-${arrange || "default"}-${numOfRows}-${pageNo}`;
+    return cacheTourResult(
       async () =>
         getAreaBasedListInternal(
           areaCode,
           contentTypeId,
           numOfRows,
           pageNo,
-          isServer
+          isServer,
+          sigunguCode,
+          category,
+          arrange,
+          priority
         ),
       [cacheKey],
-      {
-        revalidate: 3600, // 1시간 (관광지 목록은 자주 변경되지 않음)
-        tags: ["area-based-list"],
-      }
-    )();
+      TOUR_API_CACHE_POLICY.areaBasedList2
+    );
   }
   return getAreaBasedListInternal(
     areaCode,
     contentTypeId,
     numOfRows,
     pageNo,
+    isServer,
+    sigunguCode,
+    category,
+    arrange,
+    priority
+  );
+}
+
+/**
+ * 위치 기반 관광지 목록 조회 (내부 구현)
+ *
+ * @param lng 경도 (WGS84)
+ * @param lat 위도 (WGS84)
+ * @param radius 검색 반경 (미터)
+ * @param contentTypeId 콘텐츠 타입 ID (선택사항)
+ * @param numOfRows 페이지당 항목 수 (기본값: 20)
+ * @param pageNo 페이지 번호 (기본값: 1)
+ * @param isServer 서버 사이드 호출 여부
+ * @returns 거리순으로 정렬된 관광지 목록 (dist 필드 포함)
+ */
+async function getLocationBasedListInternal(
+  lng: number,
+  lat: number,
+  radius: number,
+  contentTypeId?: number,
+  numOfRows: number = 20,
+  pageNo: number = 1,
+  isServer: boolean = false
+): Promise<ApiResult<TourItem[]>> {
+  try {
+    const params = new URLSearchParams({
+      mapX: lng.toString(),
+      mapY: lat.toString(),
+      radius: radius.toString(),
+      arrange: "E", // 거리순 정렬
+      numOfRows: numOfRows.toString(),
+      pageNo: pageNo.toString(),
+      ...(contentTypeId && { contentTypeId: contentTypeId.toString() }),
+    });
+
+    const data = await requestTourApi<TourApiResponse<TourItem>>(
+      "locationBasedList2",
+      params,
+      isServer
+    );
+
+    return parseApiResponse(data, tourItemSchema, "locationBasedList2");
+  } catch (error) {
+    const apiError = toTourApiError(error);
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("위치 기반 관광지 목록 조회 에러:", apiError.kind, error);
+    }
+    return apiError.toResult("주변 관광지 조회 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 위치 기반 관광지 목록 조회 (캐싱 적용)
+ *
+ * 좌표를 소수점 4자리(약 10m)로 반올림하여 캐시 키를 만들고,
+ * 주변 관광지 목록에 10분 캐싱을 적용합니다.
+ *
+ * @param lng 경도 (WGS84)
+ * @param lat 위도 (WGS84)
+ * @param radius 검색 반경 (미터)
+ * @param contentTypeId 콘텐츠 타입 ID (선택사항)
+ * @param numOfRows 페이지당 항목 수 (기본값: 20)
+ * @param pageNo 페이지 번호 (기본값: 1)
+ * @param isServer 서버 사이드 호출 여부
+ * @returns 거리순으로 정렬된 관광지 목록 (dist 필드 포함)
+ */
+export async function getLocationBasedList(
+  lng: number,
+  lat: number,
+  radius: number,
+  contentTypeId?: number,
+  numOfRows: number = 20,
+  pageNo: number = 1,
+  isServer: boolean = false
+): Promise<ApiResult<TourItem[]>> {
+  const roundedLng = Number(lng.toFixed(4));
+  const roundedLat = Number(lat.toFixed(4));
+
+  // 서버 사이드에서만 캐싱 적용 (클라이언트에서는 캐싱 불가)
+  if (isServer) {
+    // 캐시 키 생성 (모든 파라미터 포함)
+    const cacheKey = `location-based-list-${roundedLng}-${roundedLat}-${radius}-${contentTypeId || "all"}-${numOfRows}-${pageNo}`;
+    return cacheTourResult(
+      async () =>
+        getLocationBasedListInternal(
+          roundedLng,
+          roundedLat,
+          radius,
+          contentTypeId,
+          numOfRows,
+          pageNo,
+          isServer
+        ),
+      [cacheKey],
+      TOUR_API_CACHE_POLICY.locationBasedList2
+    );
+  }
+  return getLocationBasedListInternal(
+    roundedLng,
+    roundedLat,
+    radius,
+    contentTypeId,
+    numOfRows,
+    pageNo,
     isServer
   );
 }
@@ -391,6 +924,9 @@ export async function getAreaBasedList(
  * @param numOfRows 페이지당 항목 수 (기본값: 20)
  * @param pageNo 페이지 번호 (기본값: 1)
  * @param isServer 서버 사이드 호출 여부
+ * @param sigunguCode 시/군/구 코드 (선택사항, areaCode가 있을 때만 적용)
+ * @param category 서비스 분류 필터 (선택사항, cat1/cat2/cat3)
+ * @param arrange 정렬 구분 (선택사항, A: 제목순, C: 수정일순, D: 생성일순)
  * @returns 검색 결과 목록
  */
 export async function searchKeyword(
@@ -399,35 +935,217 @@ export async function searchKeyword(
   contentTypeId?: number,
   numOfRows: number = 20,
   pageNo: number = 1,
-  isServer: boolean = false
+  isServer: boolean = false,
+  sigunguCode?: string,
+  category?: CategoryFilter,
+  arrange?: string
 ): Promise<ApiResult<TourItem[]>> {
   try {
     const params = new URLSearchParams({
-      ...getCommonParams(isServer),
       keyword,
       numOfRows: numOfRows.toString(),
       pageNo: pageNo.toString(),
       ...(areaCode && { areaCode }),
+      ...(areaCode && sigunguCode && { sigunguCode }),
       ...(contentTypeId && { contentTypeId: contentTypeId.toString() }),
+      ...getCategoryParams(category),
+      ...(arrange && { arrange }),
     });
 
-    const url = `${TOUR_API_BASE_URL}/searchKeyword2?${params.toString()}`;
-    const data = await fetchWithRetry<TourApiResponse<TourItem[]>>(url);
+    const data = await requestTourApi<TourApiResponse<TourItem>>(
+      "searchKeyword2",
+      params,
+      isServer
+    );
 
-    return parseApiResponse(data);
+    return parseApiResponse(data, tourItemSchema, "searchKeyword2");
   } catch (error) {
-    const errorInfo = classifyError(error);
+    const apiError = toTourApiError(error);
     // 개발 환경에서만 상세 로깅
     if (process.env.NODE_ENV === "development") {
-      console.error("키워드 검색 에러:", errorInfo, error);
+      console.error("키워드 검색 에러:", apiError.kind, error);
     }
-    return {
-      success: false,
-      error: errorInfo.message || "키워드 검색 중 오류가 발생했습니다.",
-    };
+    return apiError.toResult("키워드 검색 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 행사 정보 조회 (내부 구현)
+ *
+ * @param eventStartDate 행사 시작일 (YYYYMMDD, 이 날짜 이후 진행 중인 행사 조회)
+ * @param eventEndDate 행사 종료일 (YYYYMMDD, 선택사항)
+ * @param areaCode 지역 코드 (선택사항)
+ * @param numOfRows 페이지당 항목 수 (기본값: 20)
+ * @param pageNo 페이지 번호 (기본값: 1)
+ * @param isServer 서버 사이드 호출 여부
+ * @param sigunguCode 시/군/구 코드 (선택사항, areaCode가 있을 때만 적용)
+ * @returns 행사 목록 (eventstartdate, eventenddate 필드 포함)
+ */
+async function searchFestivalInternal(
+  eventStartDate: string,
+  eventEndDate?: string,
+  areaCode?: string,
+  numOfRows: number = 20,
+  pageNo: number = 1,
+  isServer: boolean = false,
+  sigunguCode?: string
+): Promise<ApiResult<TourItem[]>> {
+  try {
+    const params = new URLSearchParams({
+      eventStartDate,
+      numOfRows: numOfRows.toString(),
+      pageNo: pageNo.toString(),
+      ...(eventEndDate && { eventEndDate }),
+      ...(areaCode && { areaCode }),
+      ...(areaCode && sigunguCode && { sigunguCode }),
+    });
+
+    const data = await requestTourApi<TourApiResponse<TourItem>>(
+      "searchFestival2",
+      params,
+      isServer
+    );
+
+    return parseApiResponse(data, tourItemSchema, "searchFestival2");
+  } catch (error) {
+    const apiError = toTourApiError(error);
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("행사 정보 조회 에러:", apiError.kind, error);
+    }
+    return apiError.toResult("행사 정보 조회 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 행사 정보 조회 (캐싱 적용)
+ *
+ * 지정한 기간에 진행되는 축제/행사 목록을 조회합니다.
+ * 행사 정보는 일 단위로 바뀌므로 1시간 캐싱을 적용합니다.
+ *
+ * @param eventStartDate 행사 시작일 (YYYYMMDD, 이 날짜 이후 진행 중인 행사 조회)
+ * @param eventEndDate 행사 종료일 (YYYYMMDD, 선택사항)
+ * @param areaCode 지역 코드 (선택사항)
+ * @param numOfRows 페이지당 항목 수 (기본값: 20)
+ * @param pageNo 페이지 번호 (기본값: 1)
+ * @param isServer 서버 사이드 호출 여부
+ * @param sigunguCode 시/군/구 코드 (선택사항, areaCode가 있을 때만 적용)
+ * @returns 행사 목록 (eventstartdate, eventenddate 필드 포함)
+ */
+export async function searchFestival(
+  eventStartDate: string,
+  eventEndDate?: string,
+  areaCode?: string,
+  numOfRows: number = 20,
+  pageNo: number = 1,
+  isServer: boolean = false,
+  sigunguCode?: string
+): Promise<ApiResult<TourItem[]>> {
+  // 서버 사이드에서만 캐싱 적용 (클라이언트에서는 캐싱 불가)
+  if (isServer) {
+    // 캐시 키 생성 (모든 파라미터 포함)
+    const cacheKey = `festival-list-${eventStartDate}-${eventEndDate || "open"}-${areaCode || "all"}-${sigunguCode || "all"}-${numOfRows}-${pageNo}`;
+    return cacheTourResult(
+      async () =>
+        searchFestivalInternal(
+          eventStartDate,
+          eventEndDate,
+          areaCode,
+          numOfRows,
+          pageNo,
+          isServer,
+          sigunguCode
+        ),
+      [cacheKey],
+      TOUR_API_CACHE_POLICY.searchFestival2
+    );
+  }
+  return searchFestivalInternal(
+    eventStartDate,
+    eventEndDate,
+    areaCode,
+    numOfRows,
+    pageNo,
+    isServer,
+    sigunguCode
+  );
+}
+
+/**
+ * 숙박 정보 조회 (내부 구현)
+ *
+ * @param areaCode 지역 코드 (선택사항)
+ * @param numOfRows 페이지당 항목 수 (기본값: 20)
+ * @param pageNo 페이지 번호 (기본값: 1)
+ * @param isServer 서버 사이드 호출 여부
+ * @param sigunguCode 시/군/구 코드 (선택사항, areaCode가 있을 때만 적용)
+ * @returns 숙박 시설 목록
+ */
+async function searchStayInternal(
+  areaCode?: string,
+  numOfRows: number = 20,
+  pageNo: number = 1,
+  isServer: boolean = false,
+  sigunguCode?: string
+): Promise<ApiResult<TourItem[]>> {
+  try {
+    const params = new URLSearchParams({
+      numOfRows: numOfRows.toString(),
+      pageNo: pageNo.toString(),
+      ...(areaCode && { areaCode }),
+      ...(areaCode && sigunguCode && { sigunguCode }),
+    });
+
+    const data = await requestTourApi<TourApiResponse<TourItem>>(
+      "searchStay2",
+      params,
+      isServer
+    );
+
+    return parseApiResponse(data, tourItemSchema, "searchStay2");
+  } catch (error) {
+    const apiError = toTourApiError(error);
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("숙박 정보 조회 에러:", apiError.kind, error);
+    }
+    return apiError.toResult("숙박 정보 조회 중 오류가 발생했습니다.");
   }
 }
 
+/**
+ * 숙박 정보 조회 (캐싱 적용)
+ *
+ * 숙박 시설 목록은 자주 변경되지 않으므로 1시간 캐싱을 적용합니다.
+ *
+ * @param areaCode 지역 코드 (선택사항)
+ * @param numOfRows 페이지당 항목 수 (기본값: 20)
+ * @param pageNo 페이지 번호 (기본값: 1)
+ * @param isServer 서버 사이드 호출 여부
+ * @param sigunguCode 시/군/구 코드 (선택사항, areaCode가 있을 때만 적용)
+ * @returns 숙박 시설 목록
+ */
+export async function searchStay(
+  areaCode?: string,
+  numOfRows: number = 20,
+  pageNo: number = 1,
+  isServer: boolean = false,
+  sigunguCode?: string
+): Promise<ApiResult<TourItem[]>> {
+  // 서버 사이드에서만 캐싱 적용 (클라이언트에서는 캐싱 불가)
+  if (isServer) {
+    // 캐시 키 생성 (모든 파라미터 포함)
+    const cacheKey = `stay-list-${areaCode || "all"}-${sigunguCode || "all"}-${numOfRows}-${pageNo}`;
+    return cacheTourResult(
+      async () =>
+        searchStayInternal(areaCode, numOfRows, pageNo, isServer, sigunguCode),
+      [cacheKey],
+      TOUR_API_CACHE_POLICY.searchStay2
+    );
+  }
+  return searchStayInternal(areaCode, numOfRows, pageNo, isServer, sigunguCode);
+}
+
 /**
  * 관광지 공통 정보 조회 (내부 구현)
  *
@@ -441,24 +1159,30 @@ async function getDetailCommonInternal(
 ): Promise<ApiResult<TourDetail>> {
   try {
     const params = new URLSearchParams({
-      ...getCommonParams(isServer),
       contentId,
     });
 
-    const url = `${TOUR_API_BASE_URL}/detailCommon2?${params.toString()}`;
-    const data = await fetchWithRetry<TourApiResponse<TourDetail>>(url);
+    const data = await requestTourApi<TourApiResponse<TourDetail>>(
+      "detailCommon2",
+      params,
+      isServer
+    );
 
-    return parseApiResponse(data);
+    const result = parseApiItem(data, tourDetailSchema, "detailCommon2");
+
+    // 미러 사용 시 개요를 검색 색인에 포함하도록 저장 (동기화 목록에는 개요가 없음)
+    if (isServer && isTourMirrorEnabled() && result.success === true && result.data.overview) {
+      await updateMirrorOverview(contentId, result.data.overview);
+    }
+
+    return result;
   } catch (error) {
-    const errorInfo = classifyError(error);
+    const apiError = toTourApiError(error);
     // 개발 환경에서만 상세 로깅
     if (process.env.NODE_ENV === "development") {
-      console.error("관광지 상세 정보 조회 에러:", errorInfo, error);
+      console.error("관광지 상세 정보 조회 에러:", apiError.kind, error);
     }
-    return {
-      success: false,
-      error: errorInfo.message || "관광지 상세 정보 조회 중 오류가 발생했습니다.",
-    };
+    return apiError.toResult("관광지 상세 정보 조회 중 오류가 발생했습니다.");
   }
 }
 
@@ -477,14 +1201,11 @@ export async function getDetailCommon(
 ): Promise<ApiResult<TourDetail>> {
   // 서버 사이드에서만 캐싱 적용 (클라이언트에서는 캐싱 불가)
   if (isServer) {
-    return unstable_cache(
+    return cacheTourResult(
       async () => getDetailCommonInternal(contentId, isServer),
       [`detail-common-${contentId}`],
-      {
-        revalidate: 3600, // 1시간 (상세 정보는 변경 빈도가 낮음)
-        tags: ["detail-common"],
-      }
-    )();
+      TOUR_API_CACHE_POLICY.detailCommon2
+    );
   }
   return getDetailCommonInternal(contentId, isServer);
 }
@@ -504,28 +1225,209 @@ export async function getDetailIntro(
 ): Promise<ApiResult<TourIntro>> {
   try {
     const params = new URLSearchParams({
-      ...getCommonParams(isServer),
       contentId,
       contentTypeId: contentTypeId.toString(),
     });
 
-    const url = `${TOUR_API_BASE_URL}/detailIntro2?${params.toString()}`;
-    const data = await fetchWithRetry<TourApiResponse<TourIntro>>(url);
+    const data = await requestTourApi<TourApiResponse<TourIntro>>(
+      "detailIntro2",
+      params,
+      isServer
+    );
 
-    return parseApiResponse(data);
+    return parseApiItem(data, tourIntroSchema, "detailIntro2");
   } catch (error) {
-    const errorInfo = classifyError(error);
+    const apiError = toTourApiError(error);
     // 개발 환경에서만 상세 로깅
     if (process.env.NODE_ENV === "development") {
-      console.error("운영 정보 조회 에러:", errorInfo, error);
+      console.error("운영 정보 조회 에러:", apiError.kind, error);
     }
+    return apiError.toResult("운영 정보 조회 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 객실 편의시설 필드와 표시 라벨 매핑
+ */
+const ROOM_AMENITY_LABELS: Array<[keyof TourRoomItem, string]> = [
+  ["roombathfacility", "목욕시설"],
+  ["roombath", "욕조"],
+  ["roomaircondition", "에어컨"],
+  ["roomtv", "TV"],
+  ["roomcable", "케이블"],
+  ["roominternet", "인터넷"],
+  ["roompc", "PC"],
+  ["roomhometheater", "홈시어터"],
+  ["roomrefrigerator", "냉장고"],
+  ["roomtoiletries", "세면도구"],
+  ["roomhairdryer", "드라이기"],
+  ["roomsofa", "소파"],
+  ["roomtable", "테이블"],
+  ["roomcook", "취사용품"],
+];
+
+/**
+ * 숫자 문자열 파싱 (값이 없거나 0이면 null)
+ */
+function parsePositiveNumber(value?: string): number | null {
+  if (!value) return null;
+  const parsed = Number(value.replace(/,/g, ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * detailInfo2 객실 응답을 화면 표시용 객실 정보로 변환
+ */
+function toRoomInfo(item: TourRoomItem): RoomInfo {
+  const images = (
+    [
+      [item.roomimg1, item.roomimg1alt],
+      [item.roomimg2, item.roomimg2alt],
+    ] as Array<[string | undefined, string | undefined]>
+  )
+    .filter(([url]) => !!url)
+    .map(([url, alt]) => ({ url: url!, alt: alt || item.roomtitle || "객실 사진" }));
+
+  return {
+    roomCode: item.roomcode || "",
+    roomType: item.roomtitle?.trim() || "객실",
+    roomSize: parsePositiveNumber(item.roomsize1),
+    roomCount: parsePositiveNumber(item.roomcount),
+    baseOccupancy: parsePositiveNumber(item.roombasecount),
+    maxOccupancy: parsePositiveNumber(item.roommaxcount),
+    offSeasonFee: {
+      weekday: parsePositiveNumber(item.roomoffseasonminfee1),
+      weekend: parsePositiveNumber(item.roomoffseasonminfee2),
+    },
+    peakSeasonFee: {
+      weekday: parsePositiveNumber(item.roompeakseasonminfee1),
+      weekend: parsePositiveNumber(item.roompeakseasonminfee2),
+    },
+    amenities: ROOM_AMENITY_LABELS.filter(
+      ([field]) => item[field]?.toUpperCase() === "Y"
+    ).map(([, label]) => label),
+    intro: item.roomintro?.trim() || undefined,
+    images,
+  };
+}
+
+/**
+ * detailInfo2 코스 응답을 화면 표시용 경유지로 변환
+ */
+function toCourseStop(item: TourCourseItem, index: number): CourseStop {
+  const subnum = Number(item.subnum);
+  return {
+    order: Number.isFinite(subnum) && item.subnum !== undefined ? subnum + 1 : index + 1,
+    contentId: item.subcontentid || "",
+    name: item.subname?.trim() || `코스 ${index + 1}`,
+    overview: item.subdetailoverview?.trim() || undefined,
+    image: item.subdetailimg || undefined,
+    imageAlt: item.subdetailalt || item.subname || undefined,
+  };
+}
+
+/**
+ * 반복 정보 조회 (내부 구현)
+ *
+ * 콘텐츠 타입에 따라 숙박(32)은 객실 정보, 여행코스(25)는 경유지 목록으로 변환합니다.
+ *
+ * @param contentId 콘텐츠 ID
+ * @param contentTypeId 콘텐츠 타입 ID
+ * @param isServer 서버 사이드 호출 여부
+ * @returns 객실 정보 또는 코스 경유지 목록
+ */
+async function getDetailInfoInternal(
+  contentId: string,
+  contentTypeId: number,
+  isServer: boolean = false
+): Promise<ApiResult<RoomInfo[] | CourseStop[]>> {
+  try {
+    const params = new URLSearchParams({
+      contentId,
+      contentTypeId: contentTypeId.toString(),
+    });
+
+    const data = await requestTourApi<
+      TourApiResponse<TourRoomItem | TourCourseItem>
+    >("detailInfo2", params, isServer);
+
+    const result = parseApiResponse(data);
+    if (result.success === false) {
+      return result;
+    }
+
+    const items = result.data;
+
+    if (contentTypeId === 25) {
+      // 여행코스: subnum 순서대로 정렬된 경유지 목록
+      const stops = (items as TourCourseItem[])
+        .filter((item) => item.subname || item.subcontentid)
+        .map(toCourseStop)
+        .sort((a, b) => a.order - b.order);
+      return {
+        success: true,
+        data: stops,
+        totalCount: result.totalCount,
+        ...(result.stale && { stale: true }),
+      };
+    }
+
     return {
-      success: false,
-      error: errorInfo.message || "운영 정보 조회 중 오류가 발생했습니다.",
+      success: true,
+      // 숙박 외 타입의 반복 정보(infoname/infotext)는 객실 정보가 아니므로 제외
+      data: (items as TourRoomItem[])
+        .filter((item) => item.roomtitle || item.roomcode)
+        .map(toRoomInfo),
+      totalCount: result.totalCount,
+      ...(result.stale && { stale: true }),
     };
+  } catch (error) {
+    const apiError = toTourApiError(error);
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("반복 정보 조회 에러:", apiError.kind, error);
+    }
+    return apiError.toResult("상세 정보 조회 중 오류가 발생했습니다.");
   }
 }
 
+/**
+ * 반복 정보 조회 (캐싱 적용)
+ *
+ * - 숙박(32): 객실 타입, 기준/최대 인원, 비수기/성수기 요금, 편의시설 목록
+ * - 여행코스(25): 순서대로 정렬된 코스 경유지 목록
+ *
+ * @param contentId 콘텐츠 ID
+ * @param contentTypeId 콘텐츠 타입 ID (기본값: 32, 숙박)
+ * @param isServer 서버 사이드 호출 여부
+ * @returns 객실 정보 또는 코스 경유지 목록
+ */
+export function getDetailInfo(
+  contentId: string,
+  contentTypeId: 25,
+  isServer?: boolean
+): Promise<ApiResult<CourseStop[]>>;
+export function getDetailInfo(
+  contentId: string,
+  contentTypeId?: number,
+  isServer?: boolean
+): Promise<ApiResult<RoomInfo[]>>;
+export async function getDetailInfo(
+  contentId: string,
+  contentTypeId: number = 32,
+  isServer: boolean = false
+): Promise<ApiResult<RoomInfo[] | CourseStop[]>> {
+  // 서버 사이드에서만 캐싱 적용 (클라이언트에서는 캐싱 불가)
+  if (isServer) {
+    return cacheTourResult(
+      async () => getDetailInfoInternal(contentId, contentTypeId, isServer),
+      [`detail-info-${contentId}-${contentTypeId}`],
+      TOUR_API_CACHE_POLICY.detailInfo2
+    );
+  }
+  return getDetailInfoInternal(contentId, contentTypeId, isServer);
+}
+
 /**
  * 관광지 이미지 목록 조회
  *
@@ -539,24 +1441,23 @@ export async function getDetailImage(
 ): Promise<ApiResult<TourImage[]>> {
   try {
     const params = new URLSearchParams({
-      ...getCommonParams(isServer),
       contentId,
     });
 
-    const url = `${TOUR_API_BASE_URL}/detailImage2?${params.toString()}`;
-    const data = await fetchWithRetry<TourApiResponse<TourImage[]>>(url);
+    const data = await requestTourApi<TourApiResponse<TourImage>>(
+      "detailImage2",
+      params,
+      isServer
+    );
 
-    return parseApiResponse(data);
+    return parseApiResponse(data, tourImageSchema, "detailImage2");
   } catch (error) {
-    const errorInfo = classifyError(error);
+    const apiError = toTourApiError(error);
     // 개발 환경에서만 상세 로깅
     if (process.env.NODE_ENV === "development") {
-      console.error("이미지 목록 조회 에러:", errorInfo, error);
+      console.error("이미지 목록 조회 에러:", apiError.kind, error);
     }
-    return {
-      success: false,
-      error: errorInfo.message || "이미지 목록 조회 중 오류가 발생했습니다.",
-    };
+    return apiError.toResult("이미지 목록 조회 중 오류가 발생했습니다.");
   }
 }
 
@@ -573,24 +1474,186 @@ export async function getDetailPetTour(
 ): Promise<ApiResult<PetTourInfo>> {
   try {
     const params = new URLSearchParams({
-      ...getCommonParams(isServer),
       contentId,
     });
 
-    const url = `${TOUR_API_BASE_URL}/detailPetTour2?${params.toString()}`;
-    const data = await fetchWithRetry<TourApiResponse<PetTourInfo>>(url);
+    const data = await requestTourApi<TourApiResponse<PetTourInfo>>(
+      "detailPetTour2",
+      params,
+      isServer
+    );
 
-    return parseApiResponse(data);
+    return parseApiItem(data, petTourInfoSchema, "detailPetTour2");
   } catch (error) {
-    const errorInfo = classifyError(error);
+    const apiError = toTourApiError(error);
     // 개발 환경에서만 상세 로깅
     if (process.env.NODE_ENV === "development") {
-      console.error("반려동물 정보 조회 에러:", errorInfo, error);
+      console.error("반려동물 정보 조회 에러:", apiError.kind, error);
     }
-    return {
-      success: false,
-      error: errorInfo.message || "반려동물 정보 조회 중 오류가 발생했습니다.",
-    };
+    return apiError.toResult("반려동물 정보 조회 중 오류가 발생했습니다.");
   }
 }
 
+
+/**
+ * 반려동물 동반 여행 정보 목록 조회 (내부 구현)
+ *
+ * contentId 없이 detailPetTour2를 호출하면 반려동물 정보가 등록된
+ * 전체 관광지 목록을 페이지 단위로 반환합니다.
+ *
+ * @param numOfRows 페이지당 항목 수
+ * @param pageNo 페이지 번호
+ * @param isServer 서버 사이드 호출 여부
+ * @returns 반려동물 동반 정보 목록
+ */
+async function getPetTourListInternal(
+  numOfRows: number,
+  pageNo: number,
+  isServer: boolean = false
+): Promise<ApiResult<PetTourInfo[]>> {
+  try {
+    const params = new URLSearchParams({
+      numOfRows: numOfRows.toString(),
+      pageNo: pageNo.toString(),
+    });
+
+    // 목록 순회는 상세페이지 조회가 아니므로 일반 우선순위로 처리
+    const data = await requestTourApi<TourApiResponse<PetTourInfo>>(
+      "detailPetTour2",
+      params,
+      isServer,
+      "normal"
+    );
+
+    return parseApiResponse(data, petTourInfoSchema, "detailPetTour2");
+  } catch (error) {
+    const apiError = toTourApiError(error);
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("반려동물 정보 목록 조회 에러:", apiError.kind, error);
+    }
+    return apiError.toResult("반려동물 정보 목록 조회 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 반려동물 동반 여행 정보 목록 조회 (캐싱 적용)
+ *
+ * 반려동물 필터의 후보 인덱스로 사용되며, 변경 빈도가 낮으므로 24시간 캐싱을 적용합니다.
+ *
+ * @param numOfRows 페이지당 항목 수 (기본값: 1000)
+ * @param pageNo 페이지 번호 (기본값: 1)
+ * @param isServer 서버 사이드 호출 여부
+ * @returns 반려동물 동반 정보 목록
+ */
+export async function getPetTourList(
+  numOfRows: number = 1000,
+  pageNo: number = 1,
+  isServer: boolean = false
+): Promise<ApiResult<PetTourInfo[]>> {
+  // 서버 사이드에서만 캐싱 적용 (클라이언트에서는 캐싱 불가)
+  if (isServer) {
+    return cacheTourResult(
+      async () => getPetTourListInternal(numOfRows, pageNo, isServer),
+      [`pet-tour-list-${numOfRows}-${pageNo}`],
+      TOUR_API_CACHE_POLICY.detailPetTour2
+    );
+  }
+  return getPetTourListInternal(numOfRows, pageNo, isServer);
+}
+
+/**
+ * 관광지 동기화 목록 조회 (서버 전용, lib/api/tour-sync.ts에서 사용)
+ *
+ * areaBasedSyncList2는 비표출(showflag=0) 관광지를 포함한 전체 목록을 반환합니다.
+ * 동기화 결과는 미러에 저장되므로 캐싱하지 않습니다.
+ *
+ * @param numOfRows 페이지당 항목 수
+ * @param pageNo 페이지 번호
+ * @param modifiedtime 수정일 (선택사항, YYYYMMDD 또는 앞자리 일부, 해당 수정일의 관광지만 조회)
+ * @param priority 요청 우선순위 (선택사항, 기본값: "low")
+ * @returns 관광지 동기화 목록 (totalCount 포함)
+ */
+export async function getAreaBasedSyncList(
+  numOfRows: number,
+  pageNo: number,
+  modifiedtime?: string,
+  priority: TourApiPriority = "low"
+): Promise<ApiResult<TourSyncItem[]>> {
+  try {
+    const params = new URLSearchParams({
+      numOfRows: numOfRows.toString(),
+      pageNo: pageNo.toString(),
+      ...(modifiedtime && { modifiedtime }),
+    });
+
+    const data = await requestTourApi<TourApiResponse<TourSyncItem>>(
+      "areaBasedSyncList2",
+      params,
+      true,
+      priority
+    );
+
+    return parseApiResponse(data, tourSyncItemSchema, "areaBasedSyncList2");
+  } catch (error) {
+    const apiError = toTourApiError(error);
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("관광지 동기화 목록 조회 에러:", apiError.kind, error);
+    }
+    return apiError.toResult("관광지 동기화 목록 조회 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * API 프록시 호출 (서버 전용, app/api/tour/[operation]/route.ts에서 사용)
+ *
+ * 클라이언트 요청에 서비스키를 붙여 한국관광공사 API를 호출하고 원본 응답(JSON)을 반환합니다.
+ * 오퍼레이션별 캐싱 정책(TOUR_API_CACHE_POLICY)을 적용하며,
+ * 결과 코드 오류 응답은 캐싱되지 않도록 에러로 throw합니다.
+ * API 장애로 마지막 정상 응답을 대신 반환한 경우 stale로 표시합니다.
+ *
+ * @param operation API 오퍼레이션명 (허용 목록 검증 후 전달)
+ * @param params 검증된 오퍼레이션 파라미터
+ * @returns 한국관광공사 API 원본 응답과 대체 응답 여부
+ * @throws TourApiError 호출 실패 또는 결과 코드 오류
+ */
+export async function proxyTourApi(
+  operation: string,
+  params: URLSearchParams
+): Promise<{ data: unknown; stale: boolean }> {
+  const fetchOperation = async () => {
+    const data = await requestTourApi<unknown>(operation, params, true);
+
+    const envelope = tourApiEnvelopeSchema.safeParse(data);
+    if (!envelope.success) {
+      throw new TourApiParseError();
+    }
+
+    const { resultCode, resultMsg } = envelope.data.response.header;
+    if (resultCode !== "0000") {
+      const apiError = fromResultCode(resultCode, resultMsg);
+      if (apiError.kind === "quota-exceeded") {
+        markTourApiQuotaExhausted();
+      }
+      throw apiError;
+    }
+
+    return data;
+  };
+
+  const policy = TOUR_API_CACHE_POLICY[operation];
+  // 파라미터 순서와 관계없이 같은 요청은 같은 캐시를 사용
+  const data = policy
+    ? await cacheUnlessStale(
+        fetchOperation,
+        isStaleResponse,
+        [
+          `tour-proxy-${getRequestKey(operation, params, getDefaultPriority(operation))}`,
+        ],
+        policy
+      )
+    : await fetchOperation();
+
+  return { data, stale: isStaleResponse(data) };
+}
@@ -0,0 +1,376 @@
+/**
+ * @file lib/api/tour-mirror.ts
+ * @description 관광지 미러(Supabase tour_items) 조회 (서버 전용)
+ *
+ * areaBasedSyncList2 동기화(lib/api/tour-sync.ts)로 저장한 관광지 목록을 조회합니다.
+ * TOUR_DATA_SOURCE=mirror이면 지역 기반 목록, 통계, sitemap이 한국관광공사 API 대신
+ * 미러를 조회하고, 미러 조회에 실패하면 호출한 쪽에서 API 조회로 대체합니다.
+ *
+ * 핵심 구현 로직:
+ * - 표출 중(show_flag)이고 삭제되지 않은(removed_at 없음) 관광지만 조회
+ * - 좌표는 WGS84로 저장하고, 조회 시 앱의 좌표 형식(mapx/mapy 정수 문자열)으로 변환
+ * - 지역/타입별 관광지 수는 tour_item_counts 뷰에서 한 번에 조회
+ * - 검색 색인용 전체 목록은 페이지 단위로 나누어 조회 (Supabase 응답 행 수 제한)
+ *
+ * @dependencies
+ * - @/lib/supabase/service-role: getServiceRoleClient
+ * - @/lib/utils/coordinates: parseTourCoordinates
+ * - @/lib/env: getEnv (TOUR_DATA_SOURCE)
+ */
+
+import { getEnv } from "@/lib/env";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { parseTourCoordinates } from "@/lib/utils/coordinates";
+import type { ApiResult } from "@/lib/types/api";
+import type { TourCatalogItem, TourItem, TourSyncItem } from "@/lib/types/tour";
+import type { CategoryFilter } from "@/lib/types/category";
+
+/**
+ * tour_items 테이블 행
+ */
+export interface TourItemRow {
+  content_id: string;
+  content_type_id: string;
+  title: string;
+  addr1: string;
+  addr2: string | null;
+  area_code: string;
+  sigungu_code: string | null;
+  cat1: string | null;
+  cat2: string | null;
+  cat3: string | null;
+  first_image: string | null;
+  first_image2: string | null;
+  tel: string | null;
+  lng: number | null;
+  lat: number | null;
+  created_time: string | null;
+  modified_time: string;
+  show_flag: boolean;
+  removed_at: string | null;
+  synced_at: string;
+  /** 개요 (동기화에서는 변경하지 않음) */
+  overview?: string | null;
+}
+
+/**
+ * 지역/타입별 관광지 수 (tour_item_counts 뷰)
+ */
+export interface TourItemCount {
+  /** 지역 코드 */
+  areaCode: string;
+  /** 콘텐츠 타입 ID */
+  contentTypeId: string;
+  /** 관광지 수 */
+  count: number;
+}
+
+/**
+ * 정렬 구분별 정렬 컬럼 (A: 제목순, C: 수정일순, D: 생성일순, O~R: 대표이미지 있는 항목만)
+ */
+const ARRANGE_ORDER: Record<string, { column: string; ascending: boolean }> = {
+  A: { column: "title", ascending: true },
+  C: { column: "modified_time", ascending: false },
+  D: { column: "created_time", ascending: false },
+  O: { column: "title", ascending: true },
+  Q: { column: "modified_time", ascending: false },
+  R: { column: "created_time", ascending: false },
+};
+
+/**
+ * 미러 조회 사용 여부 (TOUR_DATA_SOURCE=mirror)
+ */
+export function isTourMirrorEnabled(): boolean {
+  return getEnv("TOUR_DATA_SOURCE", "api") === "mirror";
+}
+
+/**
+ * 미러 조회 실패 결과
+ */
+function toMirrorError(error: unknown, fallbackMessage: string): ApiResult<never> {
+  return {
+    success: false,
+    error:
+      error instanceof Error
+        ? error.message
+        : (error as { message?: string })?.message || fallbackMessage,
+    kind: "unknown",
+  };
+}
+
+/**
+ * 동기화 항목 → tour_items 행 변환 (좌표는 WGS84로 저장)
+ *
+ * @param item 동기화 목록 항목
+ * @param syncedAt 동기화 시각 (ISO 문자열)
+ * @returns tour_items 행
+ */
+export function toTourItemRow(item: TourSyncItem, syncedAt: string): TourItemRow {
+  const coordinates = parseTourCoordinates(item.mapx, item.mapy);
+
+  return {
+    content_id: item.contentid,
+    content_type_id: item.contenttypeid,
+    title: item.title,
+    addr1: item.addr1,
+    addr2: item.addr2 || null,
+    area_code: item.areacode,
+    sigungu_code: item.sigungucode || null,
+    cat1: item.cat1 || null,
+    cat2: item.cat2 || null,
+    cat3: item.cat3 || null,
+    first_image: item.firstimage || null,
+    first_image2: item.firstimage2 || null,
+    tel: item.tel || null,
+    lng: coordinates?.lng ?? null,
+    lat: coordinates?.lat ?? null,
+    created_time: item.createdtime || null,
+    modified_time: item.modifiedtime,
+    // showflag가 없으면 표출 중으로 처리
+    show_flag: item.showflag !== "0",
+    removed_at: null,
+    synced_at: syncedAt,
+  };
+}
+
+/**
+ * tour_items 행 → 관광지 목록 항목 변환 (좌표는 앱의 mapx/mapy 형식으로 변환)
+ */
+function toTourItem(row: TourItemRow): TourItem {
+  return {
+    contentid: row.content_id,
+    contenttypeid: row.content_type_id,
+    title: row.title,
+    addr1: row.addr1,
+    addr2: row.addr2 ?? undefined,
+    areacode: row.area_code,
+    cat1: row.cat1 ?? undefined,
+    cat2: row.cat2 ?? undefined,
+    cat3: row.cat3 ?? undefined,
+    firstimage: row.first_image ?? undefined,
+    firstimage2: row.first_image2 ?? undefined,
+    tel: row.tel ?? undefined,
+    mapx: row.lng !== null ? Math.round(row.lng * 10000000).toString() : "",
+    mapy: row.lat !== null ? Math.round(row.lat * 10000000).toString() : "",
+    modifiedtime: row.modified_time,
+  };
+}
+
+/**
+ * 지역 기반 관광지 목록 조회 (getAreaBasedList와 같은 조건)
+ *
+ * @param areaCode 지역 코드
+ * @param contentTypeId 콘텐츠 타입 ID (선택사항)
+ * @param numOfRows 페이지당 항목 수
+ * @param pageNo 페이지 번호
+ * @param sigunguCode 시/군/구 코드 (선택사항)
+ * @param category 서비스 분류 필터 (선택사항)
+ * @param arrange 정렬 구분 (선택사항, 기본값: 수정일순)
+ * @returns 관광지 목록 (totalCount 포함)
+ */
+export async function getMirrorAreaBasedList(
+  areaCode: string,
+  contentTypeId: number | undefined,
+  numOfRows: number,
+  pageNo: number,
+  sigunguCode?: string,
+  category?: CategoryFilter,
+  arrange?: string
+): Promise<ApiResult<TourItem[]>> {
+  try {
+    const supabase = getServiceRoleClient();
+    const order = ARRANGE_ORDER[arrange ?? "C"] ?? ARRANGE_ORDER.C;
+
+    let query = supabase
+      .from("tour_items")
+      .select("*", { count: "exact" })
+      .eq("show_flag", true)
+      .is("removed_at", null);
+
+    // 빈 지역 코드는 전체 지역 (API와 동일)
+    if (areaCode) query = query.eq("area_code", areaCode);
+    if (sigunguCode) query = query.eq("sigungu_code", sigunguCode);
+    if (contentTypeId) query = query.eq("content_type_id", contentTypeId.toString());
+    if (category?.cat1) {
+      query = query.eq("cat1", category.cat1);
+      if (category.cat2) {
+        query = query.eq("cat2", category.cat2);
+        if (category.cat3) query = query.eq("cat3", category.cat3);
+      }
+    }
+    if (arrange && ["O", "Q", "R"].includes(arrange)) {
+      query = query.not("first_image", "is", null);
+    }
+
+    const from = (pageNo - 1) * numOfRows;
+    const { data, error, count } = await query
+      .order(order.column, { ascending: order.ascending })
+      .order("content_id", { ascending: true })
+      .range(from, from + numOfRows - 1);
+
+    if (error) {
+      return toMirrorError(error, "관광지 미러 조회에 실패했습니다.");
+    }
+
+    return {
+      success: true,
+      data: (data as TourItemRow[]).map(toTourItem),
+      totalCount: count ?? 0,
+    };
+  } catch (error) {
+    return toMirrorError(error, "관광지 미러 조회 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 지역/타입별 관광지 수 조회
+ *
+ * @returns 지역/타입별 관광지 수 목록
+ */
+export async function getMirrorItemCounts(): Promise<ApiResult<TourItemCount[]>> {
+  try {
+    const supabase = getServiceRoleClient();
+    const { data, error } = await supabase
+      .from("tour_item_counts")
+      .select("area_code, content_type_id, item_count");
+
+    if (error) {
+      return toMirrorError(error, "관광지 수 조회에 실패했습니다.");
+    }
+    if (!data || data.length === 0) {
+      // 동기화 전이면 API 조회로 대체하도록 실패 처리
+      return {
+        success: false,
+        error: "관광지 미러가 비어 있습니다. 동기화를 먼저 실행해주세요.",
+        kind: "no-data",
+      };
+    }
+
+    return {
+      success: true,
+      data: data.map((row) => ({
+        areaCode: row.area_code,
+        contentTypeId: row.content_type_id,
+        count: row.item_count,
+      })),
+    };
+  } catch (error) {
+    return toMirrorError(error, "관광지 수 조회 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 검색 색인용 전체 관광지 목록 조회
+ *
+ * @param pageSize 한 번에 조회할 행 수 (Supabase 최대 응답 행 수 이하)
+ * @returns 표출 중인 전체 관광지 목록 (시군구코드, 개요 포함)
+ */
+export async function getMirrorCatalog(
+  pageSize: number
+): Promise<ApiResult<TourCatalogItem[]>> {
+  try {
+    const supabase = getServiceRoleClient();
+    const items: TourCatalogItem[] = [];
+
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from("tour_items")
+        .select("*")
+        .eq("show_flag", true)
+        .is("removed_at", null)
+        .order("content_id", { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        return toMirrorError(error, "검색 색인 조회에 실패했습니다.");
+      }
+
+      for (const row of data as TourItemRow[]) {
+        items.push({
+          ...toTourItem(row),
+          sigungucode: row.sigungu_code ?? undefined,
+          overview: row.overview ?? undefined,
+        });
+      }
+      if (data.length < pageSize) break;
+    }
+
+    return { success: true, data: items, totalCount: items.length };
+  } catch (error) {
+    return toMirrorError(error, "검색 색인 조회 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 관광지 개요 저장 (상세 정보 조회 시, 검색 색인용)
+ *
+ * 미러에 없는 관광지는 변경하지 않습니다.
+ *
+ * @param contentId 콘텐츠 ID
+ * @param overview 개요
+ */
+export async function updateMirrorOverview(
+  contentId: string,
+  overview: string
+): Promise<void> {
+  try {
+    const supabase = getServiceRoleClient();
+    const { error } = await supabase
+      .from("tour_items")
+      .update({ overview })
+      .eq("content_id", contentId);
+
+    if (error) throw error;
+  } catch (error) {
+    // 개요 저장 실패는 상세 정보 조회에 영향을 주지 않음
+    if (process.env.NODE_ENV === "development") {
+      console.error("관광지 개요 저장 에러:", contentId, error);
+    }
+  }
+}
+
+/**
+ * sitemap용 관광지 목록 조회 (최근 수정순)
+ *
+ * @param limit 최대 항목 수
+ * @param pageSize 한 번에 조회할 행 수 (Supabase 최대 응답 행 수 이하)
+ * @returns 콘텐츠ID와 수정일 목록
+ */
+export async function getMirrorSitemapItems(
+  limit: number,
+  pageSize: number
+): Promise<ApiResult<Array<Pick<TourItem, "contentid" | "modifiedtime">>>> {
+  try {
+    const supabase = getServiceRoleClient();
+    const items: Array<Pick<TourItem, "contentid" | "modifiedtime">> = [];
+
+    for (let from = 0; from < limit; from += pageSize) {
+      const to = Math.min(from + pageSize, limit) - 1;
+      const { data, error } = await supabase
+        .from("tour_items")
+        .select("content_id, modified_time")
+        .eq("show_flag", true)
+        .is("removed_at", null)
+        // 수정일이 같은 항목도 페이지 사이에서 중복/누락되지 않도록 콘텐츠ID로 순서 고정
+        .order("modified_time", { ascending: false })
+        .order("content_id", { ascending: true })
+        .range(from, to);
+
+      if (error) {
+        return toMirrorError(error, "sitemap 관광지 조회에 실패했습니다.");
+      }
+
+      for (const row of data ?? []) {
+        items.push({
+          contentid: row.content_id,
+          modifiedtime: row.modified_time,
+        });
+      }
+      if ((data ?? []).length < to - from + 1) break;
+    }
+
+    return { success: true, data: items };
+  } catch (error) {
+    return toMirrorError(error, "sitemap 관광지 조회 중 오류가 발생했습니다.");
+  }
+}
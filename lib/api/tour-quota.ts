@@ -0,0 +1,374 @@
+/**
+ * @file lib/api/tour-quota.ts
+ * @description 한국관광공사 API 일일 호출 한도(쿼터) 관리
+ *
+ * 공공데이터포털 서비스키는 일일 호출 한도가 있으므로, 서버에서 보내는 KorService2 호출을
+ * 오퍼레이션별/일자별로 집계하고 남은 한도에 따라 우선순위가 낮은 작업을 보류합니다.
+ *
+ * 핵심 구현 로직:
+ * - 호출 수는 메모리에 모았다가 주기적으로 Supabase(tour_api_usage)에 누적 저장
+ * - 저장된 호출 수를 주기적으로 재조회하여 여러 서버 인스턴스가 같은 한도를 공유
+ * - 일자는 API 한도 초기화 기준과 같은 한국 시간 기준
+ * - 우선순위별 예비 한도: 남은 한도가 적으면 low → normal 순서로 요청을 중단
+ * - low 우선순위 작업(통계 갱신, sitemap)은 동시 호출 수를 제한하여 순서대로 처리
+ * - API가 한도 초과를 응답하면 당일 남은 요청을 모두 중단
+ *
+ * Supabase 환경변수가 없으면 서버 인스턴스 메모리에서만 집계합니다.
+ *
+ * @dependencies
+ * - @/lib/supabase/service-role: getServiceRoleClient
+ * - @/lib/constants/api: TOUR_API_QUOTA_CONFIG
+ * - @/lib/utils/date: toApiDate
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getEnv } from "@/lib/env";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { TOUR_API_QUOTA_CONFIG } from "@/lib/constants/api";
+import { TourApiQuotaExceededError } from "@/lib/api/tour-api-error";
+import { toApiDate } from "@/lib/utils/date";
+import { logWarning } from "@/lib/utils/logger";
+
+/**
+ * 요청 우선순위
+ * - high: 사용자가 보고 있는 상세페이지
+ * - normal: 목록/검색 등 일반 요청
+ * - low: 통계 갱신, sitemap 등 백그라운드 작업
+ */
+export type TourApiPriority = "high" | "normal" | "low";
+
+/**
+ * 일일 호출 한도 현황
+ */
+export interface TourApiBudget {
+  /** 집계 일자 (YYYYMMDD, 한국 시간 기준) */
+  date: string;
+  /** 일일 호출 한도 */
+  limit: number;
+  /** 사용한 호출 수 */
+  used: number;
+  /** 남은 호출 수 */
+  remaining: number;
+  /** 오퍼레이션별 호출 수 */
+  byOperation: Record<string, number>;
+  /** API가 한도 초과를 응답했는지 여부 */
+  exhausted: boolean;
+}
+
+/**
+ * 높은 우선순위로 처리하는 오퍼레이션 (상세페이지)
+ */
+const HIGH_PRIORITY_OPERATIONS = [
+  "detailCommon2",
+  "detailIntro2",
+  "detailInfo2",
+  "detailImage2",
+  "detailPetTour2",
+];
+
+/**
+ * 일자별 호출 수 집계 상태
+ */
+interface UsageState {
+  /** 집계 일자 (YYYYMMDD) */
+  date: string;
+  /** 저장된 호출 수 (마지막 조회 결과 + 이후 저장분) */
+  stored: Record<string, number>;
+  /** 아직 저장하지 않은 호출 수 */
+  pending: Record<string, number>;
+  /** 마지막 조회 시각 (ms) */
+  refreshedAt: number;
+  /** API가 한도 초과를 응답했는지 여부 */
+  exhausted: boolean;
+}
+
+function createUsageState(date: string): UsageState {
+  return { date, stored: {}, pending: {}, refreshedAt: 0, exhausted: false };
+}
+
+let usageState: UsageState = createUsageState(toApiDate());
+let usageClient: SupabaseClient | null = null;
+let persistenceDisabled = false;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshPromise: Promise<void> | null = null;
+
+/** 실행 중인 low 우선순위 호출 수 */
+let activeLowPriorityCalls = 0;
+/** 대기 중인 low 우선순위 호출 */
+const lowPriorityQueue: Array<() => void> = [];
+
+/**
+ * 오퍼레이션의 기본 우선순위
+ *
+ * @param operation API 오퍼레이션명
+ * @returns 상세 정보 오퍼레이션은 high, 나머지는 normal
+ */
+export function getDefaultPriority(operation: string): TourApiPriority {
+  return HIGH_PRIORITY_OPERATIONS.includes(operation) ? "high" : "normal";
+}
+
+/**
+ * 일일 호출 한도 (TOUR_API_DAILY_LIMIT 환경변수 우선)
+ */
+function getDailyLimit(): number {
+  const limit = Number(getEnv("TOUR_API_DAILY_LIMIT", ""));
+  return limit > 0 ? limit : TOUR_API_QUOTA_CONFIG.dailyLimit;
+}
+
+/**
+ * YYYYMMDD → YYYY-MM-DD (DATE 컬럼 형식)
+ */
+function toUsageDate(date: string): string {
+  return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+}
+
+function sumCounts(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * 호출 수 저장소 (Supabase 환경변수가 없으면 null)
+ */
+function getUsageClient(): SupabaseClient | null {
+  if (persistenceDisabled) return null;
+  if (usageClient) return usageClient;
+
+  try {
+    usageClient = getServiceRoleClient();
+    return usageClient;
+  } catch (error) {
+    persistenceDisabled = true;
+    logWarning("API 호출 수를 저장할 수 없어 메모리에서만 집계합니다.", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * 오늘 날짜의 집계 상태 (날짜가 바뀌면 초기화)
+ */
+function getUsageState(): UsageState {
+  const today = toApiDate();
+  if (usageState.date !== today) {
+    // 이전 날짜의 미저장 호출 수를 저장한 뒤 초기화
+    void flushUsage();
+    usageState = createUsageState(today);
+  }
+  return usageState;
+}
+
+/**
+ * 미저장 호출 수를 Supabase에 누적 저장
+ */
+async function flushUsage(): Promise<void> {
+  flushTimer = null;
+  const state = usageState;
+  const pending = state.pending;
+  state.pending = {};
+
+  const supabase = getUsageClient();
+  if (!supabase) {
+    for (const [operation, count] of Object.entries(pending)) {
+      state.stored[operation] = (state.stored[operation] ?? 0) + count;
+    }
+    return;
+  }
+
+  await Promise.all(
+    Object.entries(pending).map(async ([operation, count]) => {
+      const { error } = await supabase.rpc("increment_tour_api_usage", {
+        p_usage_date: toUsageDate(state.date),
+        p_operation: operation,
+        p_count: count,
+      });
+
+      if (error) {
+        // 저장 실패 시 다음 저장 때 다시 시도
+        state.pending[operation] = (state.pending[operation] ?? 0) + count;
+        logWarning("API 호출 수 저장 실패", { operation, error: error.message });
+        return;
+      }
+      state.stored[operation] = (state.stored[operation] ?? 0) + count;
+    })
+  );
+}
+
+/**
+ * 저장된 호출 수 재조회 (다른 서버 인스턴스의 호출 수 반영)
+ */
+async function refreshUsage(): Promise<void> {
+  const state = getUsageState();
+  const supabase = getUsageClient();
+  if (
+    !supabase ||
+    Date.now() - state.refreshedAt < TOUR_API_QUOTA_CONFIG.usageRefreshMs
+  ) {
+    return;
+  }
+
+  // 동시에 여러 요청이 재조회하지 않도록 진행 중인 조회를 공유
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const { data, error } = await supabase
+        .from("tour_api_usage")
+        .select("operation, call_count")
+        .eq("usage_date", toUsageDate(state.date));
+
+      // 실패해도 재조회 주기 동안은 다시 조회하지 않음
+      state.refreshedAt = Date.now();
+      if (error) {
+        logWarning("API 호출 수 조회 실패", { error: error.message });
+        return;
+      }
+
+      const stored: Record<string, number> = {};
+      for (const row of data ?? []) {
+        stored[row.operation] = Number(row.call_count) || 0;
+      }
+      state.stored = stored;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  await refreshPromise;
+}
+
+/**
+ * 현재 집계 상태로 한도 현황 계산
+ */
+function toBudget(state: UsageState): TourApiBudget {
+  const byOperation: Record<string, number> = { ...state.stored };
+  for (const [operation, count] of Object.entries(state.pending)) {
+    byOperation[operation] = (byOperation[operation] ?? 0) + count;
+  }
+
+  const limit = getDailyLimit();
+  const used = sumCounts(byOperation);
+
+  return {
+    date: state.date,
+    limit,
+    used,
+    remaining: state.exhausted ? 0 : Math.max(0, limit - used),
+    byOperation,
+    exhausted: state.exhausted,
+  };
+}
+
+/**
+ * API 호출 1회 기록 (재시도 포함, 서버에서 한국관광공사 API를 호출할 때마다)
+ *
+ * @param operation API 오퍼레이션명
+ */
+export function recordTourApiCall(operation: string): void {
+  const state = getUsageState();
+  state.pending[operation] = (state.pending[operation] ?? 0) + 1;
+
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      void flushUsage();
+    }, TOUR_API_QUOTA_CONFIG.flushIntervalMs);
+  }
+}
+
+/**
+ * API가 한도 초과를 응답한 경우 당일 남은 요청을 모두 중단
+ */
+export function markTourApiQuotaExhausted(): void {
+  getUsageState().exhausted = true;
+}
+
+/**
+ * 일일 호출 한도 현황 조회
+ *
+ * @returns 사용한 호출 수와 남은 호출 수
+ */
+export async function getTourApiBudget(): Promise<TourApiBudget> {
+  await refreshUsage();
+  return toBudget(getUsageState());
+}
+
+/**
+ * 우선순위별 요청 가능 여부 확인
+ *
+ * high 우선순위는 집계가 실제 한도와 어긋날 수 있으므로
+ * API가 한도 초과를 응답하기 전까지는 항상 허용합니다.
+ *
+ * @param priority 요청 우선순위
+ * @returns 요청 가능 여부
+ */
+export async function checkTourApiBudget(
+  priority: TourApiPriority
+): Promise<boolean> {
+  const budget = await getTourApiBudget();
+  if (budget.exhausted) return false;
+  if (priority === "high") return true;
+
+  const reserve = budget.limit * TOUR_API_QUOTA_CONFIG.reserveRatio[priority];
+  return budget.remaining > reserve;
+}
+
+/**
+ * low 우선순위 실행 슬롯 확보 (동시 호출 수 초과 시 대기)
+ */
+async function acquireLowPrioritySlot(): Promise<void> {
+  if (activeLowPriorityCalls < TOUR_API_QUOTA_CONFIG.lowPriorityConcurrency) {
+    activeLowPriorityCalls++;
+    return;
+  }
+  await new Promise<void>((resolve) => lowPriorityQueue.push(resolve));
+}
+
+/**
+ * low 우선순위 실행 슬롯 반환 (대기 중인 호출이 있으면 슬롯을 넘김)
+ */
+function releaseLowPrioritySlot(): void {
+  const next = lowPriorityQueue.shift();
+  if (next) {
+    next();
+  } else {
+    activeLowPriorityCalls--;
+  }
+}
+
+/**
+ * 남은 한도를 고려하여 API 호출 실행
+ *
+ * - 남은 한도가 우선순위별 예비 한도 이하이면 호출하지 않고 한도 초과 에러를 throw
+ * - low 우선순위는 동시 호출 수를 제한하여 대기 후 실행
+ *
+ * @param operation API 오퍼레이션명
+ * @param priority 요청 우선순위
+ * @param task API 호출 함수
+ * @returns API 호출 결과
+ * @throws TourApiQuotaExceededError 남은 한도가 부족한 경우
+ */
+export async function scheduleTourApiCall<T>(
+  operation: string,
+  priority: TourApiPriority,
+  task: () => Promise<T>
+): Promise<T> {
+  if (priority === "low") {
+    await acquireLowPrioritySlot();
+  }
+
+  try {
+    // 대기하는 동안 한도가 줄었을 수 있으므로 실행 직전에 확인
+    if (!(await checkTourApiBudget(priority))) {
+      logWarning("API 호출 한도가 부족하여 요청을 보류했습니다.", {
+        operation,
+        priority,
+      });
+      throw new TourApiQuotaExceededError(
+        "일일 호출 한도에 가까워 요청을 보류했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+    return await task();
+  } finally {
+    if (priority === "low") {
+      releaseLowPrioritySlot();
+    }
+  }
+}
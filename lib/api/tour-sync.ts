@@ -0,0 +1,382 @@
+/**
+ * @file lib/api/tour-sync.ts
+ * @description 관광지 미러 동기화 (서버 전용)
+ *
+ * areaBasedSyncList2로 관광지 목록을 페이지 단위로 조회하여
+ * Supabase tour_items 테이블에 저장합니다. (app/api/sync/tour/route.ts에서 실행)
+ *
+ * 핵심 구현 로직:
+ * - 전체 동기화: 모든 페이지를 조회하고, 이번 동기화에서 조회되지 않은 관광지는 삭제(removed_at)로 표시
+ * - 증분 동기화: 마지막 동기화 수정일부터 오늘까지 수정일(modifiedtime)별로 조회
+ * - 비표출(showflag=0) 관광지는 show_flag=false로 저장하여 목록에서 제외
+ * - 한 번의 실행에서 조회할 페이지 수를 제한하고, 진행 위치를 tour_sync_cursors에 저장하여 다음 실행에서 이어서 동기화
+ * - 낮은 우선순위로 호출하므로 일일 호출 한도가 부족하면 중단
+ *
+ * @dependencies
+ * - @/lib/api/tour-api: getAreaBasedSyncList
+ * - @/lib/api/tour-mirror: toTourItemRow
+ * - @/lib/supabase/service-role: getServiceRoleClient
+ */
+
+import { getAreaBasedSyncList } from "@/lib/api/tour-api";
+import { toTourItemRow } from "@/lib/api/tour-mirror";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { TOUR_MIRROR_CONFIG } from "@/lib/constants/api";
+import { toApiDate } from "@/lib/utils/date";
+import type { ApiResult, TourApiErrorKind } from "@/lib/types/api";
+
+type SupabaseClient = ReturnType<typeof getServiceRoleClient>;
+
+/**
+ * 동기화 방식
+ * - full: 전체 목록 동기화 (삭제된 관광지 표시)
+ * - incremental: 마지막 동기화 이후 수정된 관광지만 동기화
+ */
+export type TourSyncMode = "full" | "incremental";
+
+/**
+ * 동기화 실행 결과
+ */
+export interface TourSyncResult {
+  /** 실행한 동기화 방식 */
+  mode: TourSyncMode;
+  /** 조회한 페이지 수 */
+  pages: number;
+  /** 저장한 관광지 수 */
+  upserted: number;
+  /** 저장한 관광지 중 비표출 관광지 수 */
+  hidden: number;
+  /** 삭제로 표시한 관광지 수 (전체 동기화 완료 시) */
+  removed: number;
+  /** 증분 동기화를 마친 마지막 수정일 (YYYYMMDD) */
+  cursor: string | null;
+  /** 동기화 완료 여부 (false면 다음 실행에서 이어서 동기화) */
+  completed: boolean;
+}
+
+/**
+ * tour_sync_cursors 테이블 행
+ */
+interface TourSyncCursorRow {
+  sync_key: string;
+  modified_date: string | null;
+  full_started_at: string | null;
+  full_next_page: number | null;
+  full_synced_at: string | null;
+}
+
+/**
+ * 실행 중 집계 (페이지 수 제한은 한 번의 실행 전체에 적용)
+ */
+interface SyncProgress {
+  pages: number;
+  upserted: number;
+  hidden: number;
+}
+
+/**
+ * 페이지 동기화 결과
+ * - done: 마지막 페이지까지 조회함
+ * - more: 다음 페이지가 남음
+ */
+type PageSyncResult =
+  | { success: true; status: "done" | "more" }
+  | { success: false; error: string; kind: TourApiErrorKind };
+
+/**
+ * YYYYMMDD 날짜에 일수 더하기
+ */
+function addDays(apiDate: string, days: number): string {
+  const date = new Date(
+    Date.UTC(
+      Number(apiDate.slice(0, 4)),
+      Number(apiDate.slice(4, 6)) - 1,
+      Number(apiDate.slice(6, 8)) + days
+    )
+  );
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * 동기화 커서 조회
+ */
+async function getSyncCursor(supabase: SupabaseClient): Promise<TourSyncCursorRow | null> {
+  const { data, error } = await supabase
+    .from("tour_sync_cursors")
+    .select("sync_key, modified_date, full_started_at, full_next_page, full_synced_at")
+    .eq("sync_key", TOUR_MIRROR_CONFIG.syncKey)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as TourSyncCursorRow | null;
+}
+
+/**
+ * 동기화 커서 저장
+ */
+async function saveSyncCursor(
+  supabase: SupabaseClient,
+  values: Partial<Omit<TourSyncCursorRow, "sync_key">> & {
+    last_status?: string;
+    last_error?: string | null;
+  }
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase.from("tour_sync_cursors").upsert(
+    {
+      sync_key: TOUR_MIRROR_CONFIG.syncKey,
+      ...values,
+      last_run_at: now,
+      updated_at: now,
+    },
+    { onConflict: "sync_key" }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * 한 페이지 조회 및 저장
+ *
+ * @param supabase Service Role 클라이언트
+ * @param pageNo 페이지 번호
+ * @param modifiedtime 수정일 (증분 동기화)
+ * @param progress 실행 중 집계
+ * @returns 페이지 동기화 결과
+ */
+async function syncPage(
+  supabase: SupabaseClient,
+  pageNo: number,
+  modifiedtime: string | undefined,
+  progress: SyncProgress
+): Promise<PageSyncResult> {
+  const result = await getAreaBasedSyncList(TOUR_MIRROR_CONFIG.pageSize, pageNo, modifiedtime);
+  progress.pages++;
+
+  if (result.success === false) {
+    // 빈 페이지는 마지막 페이지 이후이므로 완료로 처리
+    if (result.kind === "no-data") {
+      return { success: true, status: "done" };
+    }
+    return result;
+  }
+
+  const syncedAt = new Date().toISOString();
+  const rows = result.data.map((item) => toTourItemRow(item, syncedAt));
+  const { error } = await supabase.from("tour_items").upsert(rows, { onConflict: "content_id" });
+  if (error) throw error;
+
+  progress.upserted += rows.length;
+  progress.hidden += rows.filter((row) => !row.show_flag).length;
+
+  const fetched = (pageNo - 1) * TOUR_MIRROR_CONFIG.pageSize + result.data.length;
+  const isLastPage =
+    result.data.length < TOUR_MIRROR_CONFIG.pageSize || fetched >= (result.totalCount ?? 0);
+  return { success: true, status: isLastPage ? "done" : "more" };
+}
+
+/**
+ * 전체 동기화
+ *
+ * 진행 중인 전체 동기화가 있으면 저장된 다음 페이지부터 이어서 조회합니다.
+ * 완료 시 동기화 시작 전에 저장된 관광지 중 이번에 조회되지 않은 관광지를 삭제로 표시합니다.
+ */
+async function runFullSync(
+  supabase: SupabaseClient,
+  cursor: TourSyncCursorRow | null,
+  progress: SyncProgress
+): Promise<ApiResult<TourSyncResult>> {
+  const isResuming = !!cursor?.full_next_page && !!cursor.full_started_at;
+  const startedAt = isResuming ? cursor!.full_started_at! : new Date().toISOString();
+  let pageNo = isResuming ? cursor!.full_next_page! : 1;
+
+  while (progress.pages < TOUR_MIRROR_CONFIG.maxPagesPerRun) {
+    const pageResult = await syncPage(supabase, pageNo, undefined, progress);
+
+    if (pageResult.success === false) {
+      await saveSyncCursor(supabase, {
+        full_started_at: startedAt,
+        full_next_page: pageNo,
+        last_status: "error",
+        last_error: pageResult.error,
+      });
+      return pageResult;
+    }
+
+    if (pageResult.status === "done") {
+      // 이번 동기화에서 조회되지 않은 관광지는 삭제된 관광지
+      const { data, error } = await supabase
+        .from("tour_items")
+        .update({ removed_at: new Date().toISOString() })
+        .lt("synced_at", startedAt)
+        .is("removed_at", null)
+        .select("content_id");
+      if (error) throw error;
+
+      // 동기화 시작일부터는 증분 동기화로 반영
+      const modifiedDate = toApiDate(new Date(startedAt));
+      await saveSyncCursor(supabase, {
+        modified_date: modifiedDate,
+        full_started_at: startedAt,
+        full_next_page: null,
+        full_synced_at: new Date().toISOString(),
+        last_status: "success",
+        last_error: null,
+      });
+
+      return {
+        success: true,
+        data: {
+          mode: "full",
+          ...progress,
+          removed: data?.length ?? 0,
+          cursor: modifiedDate,
+          completed: true,
+        },
+      };
+    }
+
+    pageNo++;
+  }
+
+  // 페이지 수 제한에 도달하면 다음 실행에서 이어서 동기화
+  await saveSyncCursor(supabase, {
+    full_started_at: startedAt,
+    full_next_page: pageNo,
+    last_status: "partial",
+    last_error: null,
+  });
+
+  return {
+    success: true,
+    data: {
+      mode: "full",
+      ...progress,
+      removed: 0,
+      cursor: cursor?.modified_date ?? null,
+      completed: false,
+    },
+  };
+}
+
+/**
+ * 증분 동기화
+ *
+ * 마지막 동기화 수정일부터 오늘까지 수정일별로 조회합니다.
+ * 마지막 수정일은 이전 실행 이후 추가로 수정된 관광지가 있을 수 있으므로 다시 조회합니다.
+ */
+async function runIncrementalSync(
+  supabase: SupabaseClient,
+  fromDate: string,
+  progress: SyncProgress
+): Promise<ApiResult<TourSyncResult>> {
+  const today = toApiDate();
+  let cursorDate = fromDate;
+  let date = fromDate;
+  let days = 0;
+
+  while (date <= today && days < TOUR_MIRROR_CONFIG.maxDaysPerRun) {
+    let pageNo = 1;
+    let isDateDone = false;
+
+    while (progress.pages < TOUR_MIRROR_CONFIG.maxPagesPerRun) {
+      const pageResult = await syncPage(supabase, pageNo, date, progress);
+
+      if (pageResult.success === false) {
+        await saveSyncCursor(supabase, {
+          modified_date: cursorDate,
+          last_status: "error",
+          last_error: pageResult.error,
+        });
+        return pageResult;
+      }
+      if (pageResult.status === "done") {
+        isDateDone = true;
+        break;
+      }
+      pageNo++;
+    }
+
+    // 페이지 수 제한으로 수정일을 마치지 못하면 다음 실행에서 해당 수정일부터 다시 조회
+    if (!isDateDone) break;
+
+    cursorDate = date;
+    date = addDays(date, 1);
+    days++;
+  }
+
+  const completed = cursorDate === today;
+  await saveSyncCursor(supabase, {
+    modified_date: cursorDate,
+    last_status: completed ? "success" : "partial",
+    last_error: null,
+  });
+
+  return {
+    success: true,
+    data: {
+      mode: "incremental",
+      ...progress,
+      removed: 0,
+      cursor: cursorDate,
+      completed,
+    },
+  };
+}
+
+/**
+ * 관광지 미러 동기화 실행
+ *
+ * 방식을 지정하지 않으면 진행 중인 전체 동기화를 이어서 실행하고,
+ * 전체 동기화를 마친 적이 있으면 증분 동기화를 실행합니다.
+ * 증분 동기화는 전체 동기화를 한 번 마친 뒤에만 실행할 수 있습니다.
+ *
+ * @param options.mode 동기화 방식 (선택사항)
+ * @returns 동기화 실행 결과
+ *
+ * @example
+ * ```ts
+ * const result = await syncTourCatalog({ mode: "incremental" });
+ * if (result.success) {
+ *   console.log(result.data.upserted, result.data.completed);
+ * }
+ * ```
+ */
+export async function syncTourCatalog(
+  options: { mode?: TourSyncMode } = {}
+): Promise<ApiResult<TourSyncResult>> {
+  let supabase: SupabaseClient | null = null;
+
+  try {
+    supabase = getServiceRoleClient();
+    const cursor = await getSyncCursor(supabase);
+    const progress: SyncProgress = { pages: 0, upserted: 0, hidden: 0 };
+
+    const isFullInProgress = !!cursor?.full_next_page;
+    const canRunIncremental = !!cursor?.modified_date && !isFullInProgress;
+    const mode = options.mode ?? (canRunIncremental ? "incremental" : "full");
+
+    if (mode === "incremental" && canRunIncremental) {
+      return await runIncrementalSync(supabase, cursor!.modified_date!, progress);
+    }
+    return await runFullSync(supabase, cursor, progress);
+  } catch (error) {
+    const message =
+      error instanceof Error
+        ? error.message
+        : (error as { message?: string })?.message || "관광지 동기화 중 오류가 발생했습니다.";
+
+    // 개발 환경에서만 상세 로깅
+    if (process.env.NODE_ENV === "development") {
+      console.error("관광지 동기화 에러:", error);
+    }
+
+    if (supabase) {
+      // 커서 저장 실패는 원래 에러를 가리지 않도록 무시
+      await saveSyncCursor(supabase, { last_status: "error", last_error: message }).catch(
+        () => undefined
+      );
+    }
+    return { success: false, error: message, kind: "unknown" };
+  }
+}
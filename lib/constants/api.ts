@@ -9,6 +9,29 @@
 export const TOUR_API_BASE_URL =
   "https://apis.data.go.kr/B551011/KorService2";
 
+/**
+ * 한국관광공사 API 프록시 경로 (app/api/tour/[operation]/route.ts)
+ *
+ * 브라우저에서는 서비스키 없이 프록시를 호출하고, 서버가 서비스키를 붙여 API를 호출합니다.
+ */
+export const TOUR_API_PROXY_PATH = "/api/tour";
+
+/**
+ * API 프록시가 장애로 마지막 정상 응답을 대신 반환했음을 알리는 응답 헤더
+ */
+export const TOUR_API_STALE_HEADER = "x-tour-api-stale";
+
+/**
+ * 한국관광공사 API 모의 서버 설정 (TOUR_API_MODE=mock/record, lib/api/tour-api-mock.ts)
+ *
+ * 모의 서버 URL은 TOUR_API_MOCK_URL 환경변수로 변경할 수 있습니다.
+ */
+export const TOUR_API_MOCK_CONFIG = {
+  path: "/api/tour-mock", // 모의 API 경로 (app/api/tour-mock/[operation]/route.ts)
+  fixtureDir: "fixtures/tour-api", // fixture 디렉토리 (프로젝트 루트 기준)
+  defaultNumOfRows: 10, // numOfRows 미지정 시 페이지당 항목 수 (실제 API와 동일)
+} as const;
+
 /**
  * 공통 파라미터 기본값
  */
@@ -35,3 +58,181 @@ export const API_RETRY_CONFIG = {
   maxDelay: 10000, // 최대 지연 시간 (ms)
 } as const;
 
+
+/**
+ * 반려동물 필터 설정
+ *
+ * 반려동물 필터는 API에서 직접 지원하지 않으므로 서버에서 후보 목록을
+ * 순회하며 필터링합니다. 과도한 호출을 막기 위해 순회 범위를 제한합니다.
+ */
+export const PET_FILTER_CONFIG = {
+  scanPageSize: 1000, // 후보 목록 조회 시 페이지당 항목 수
+  maxScanPages: 10, // 후보 목록 최대 순회 페이지 수
+} as const;
+
+/**
+ * 주변 관광지 검색 설정 (locationBasedList2)
+ */
+export const NEAR_SEARCH_DEFAULTS = {
+  radius: 2000, // 기본 검색 반경 (m)
+  maxRadius: 20000, // API 최대 검색 반경 (m)
+} as const;
+
+/**
+ * 축제/행사 검색 설정 (searchFestival2)
+ *
+ * API는 행사 시작일 기준 정렬을 지원하지 않으므로, 기간 내 행사를
+ * 한 번에 조회한 뒤 서버에서 시작일순으로 정렬하여 페이지를 나눕니다.
+ */
+export const FESTIVAL_SEARCH_CONFIG = {
+  scanPageSize: 1000, // 기간 내 행사 조회 시 페이지당 항목 수
+  maxScanPages: 5, // 기간 내 행사 최대 순회 페이지 수 (넘는 행사는 표시하지 않고 안내)
+} as const;
+
+/**
+ * 다중 타입 병합 페이지네이션 설정
+ *
+ * 타입별 목록을 일정한 크기의 묶음(chunk)으로 조회하여 캐시를 재사용하고,
+ * 깊은 페이지 요청 시 과도한 호출을 막기 위해 타입별 조회 횟수를 제한합니다.
+ */
+export const MERGE_PAGINATOR_CONFIG = {
+  chunkSize: 100, // 타입별 목록 조회 시 페이지당 항목 수
+  maxChunksPerSource: 20, // 타입별 최대 조회 횟수
+} as const;
+
+/**
+ * 오퍼레이션별 캐싱 정책 (unstable_cache)
+ *
+ * lib/api/tour-api.ts의 캐싱 함수와 API 프록시가 같은 정책을 사용합니다.
+ * 정책이 없는 오퍼레이션은 캐싱하지 않습니다.
+ */
+export const TOUR_API_CACHE_POLICY: Record<
+  string,
+  { revalidate: number; tags: string[] } | undefined
+> = {
+  areaCode2: { revalidate: 86400, tags: ["area-code"] }, // 24시간 (지역 코드는 거의 변경되지 않음)
+  categoryCode2: { revalidate: 86400, tags: ["category-code"] }, // 24시간 (분류 코드는 거의 변경되지 않음)
+  areaBasedList2: { revalidate: 3600, tags: ["area-based-list"] }, // 1시간 (관광지 목록은 자주 변경되지 않음)
+  locationBasedList2: { revalidate: 600, tags: ["location-based-list"] }, // 10분 (사용자 위치별 요청이 다양하므로 짧게 유지)
+  searchFestival2: { revalidate: 3600, tags: ["festival-list"] }, // 1시간
+  searchStay2: { revalidate: 3600, tags: ["stay-list"] }, // 1시간 (숙박 목록은 자주 변경되지 않음)
+  detailCommon2: { revalidate: 3600, tags: ["detail-common"] }, // 1시간 (상세 정보는 변경 빈도가 낮음)
+  detailInfo2: { revalidate: 3600, tags: ["detail-info"] }, // 1시간 (상세 정보는 변경 빈도가 낮음)
+  detailPetTour2: { revalidate: 86400, tags: ["pet-tour-list"] }, // 24시간 (반려동물 정보는 거의 변경되지 않음)
+};
+
+/**
+ * API 프록시 클라이언트별 요청 제한
+ *
+ * 프록시가 서비스키의 일일 호출 한도를 소모하므로 클라이언트(IP)별로 요청 수를 제한합니다.
+ */
+export const TOUR_API_PROXY_RATE_LIMIT = {
+  maxRequests: 60, // 구간당 최대 요청 수
+  windowMs: 60 * 1000, // 제한 구간 (ms)
+} as const;
+
+/**
+ * 일일 호출 한도(쿼터) 설정
+ *
+ * 공공데이터포털 서비스키는 일일 호출 한도가 있으므로 호출 수를 집계하고,
+ * 남은 한도가 적으면 우선순위가 낮은 작업(통계 갱신, sitemap)부터 중단합니다.
+ * 한도는 TOUR_API_DAILY_LIMIT 환경변수로 변경할 수 있습니다.
+ */
+export const TOUR_API_QUOTA_CONFIG = {
+  dailyLimit: 1000, // 일일 호출 한도 (개발계정 기준)
+  reserveRatio: {
+    low: 0.2, // 남은 한도가 20% 이하이면 낮은 우선순위 작업 중단
+    normal: 0.05, // 남은 한도가 5% 이하이면 일반 작업 중단
+    high: 0, // 높은 우선순위 작업은 한도를 모두 사용할 때까지 허용
+  },
+  lowPriorityConcurrency: 4, // 낮은 우선순위 작업 동시 호출 수 (나머지는 대기)
+  flushIntervalMs: 5000, // 호출 수 저장 주기 (ms)
+  usageRefreshMs: 30 * 1000, // 저장된 호출 수 재조회 주기 (ms)
+} as const;
+
+/**
+ * API 장애 차단기 설정 (lib/api/circuit-breaker.ts)
+ *
+ * 연속 실패 시 재시도로 페이지가 오래 지연되지 않도록 호출을 차단하고,
+ * 차단 중에는 마지막 정상 응답을 대신 사용합니다.
+ */
+export const TOUR_API_CIRCUIT_BREAKER_CONFIG = {
+  failureThreshold: 5, // 차단까지 허용하는 연속 실패 횟수 (재시도 포함)
+  resetTimeoutMs: 30 * 1000, // 차단 유지 시간 (ms)
+} as const;
+
+/**
+ * 중복 호출 병합 및 LRU 캐시 설정 (lib/api/request-cache.ts)
+ *
+ * unstable_cache보다 앞단에서 같은 요청의 반복 호출을 줄이기 위한 단기 캐시입니다.
+ */
+export const TOUR_REQUEST_CACHE_CONFIG = {
+  maxEntries: 100, // 최대 보관 응답 수 (만료된 응답은 장애 시 대체 응답으로 사용)
+  ttlMs: 60 * 1000, // 응답 보관 시간 (ms)
+} as const;
+
+/**
+ * 관광지 미러 동기화 설정 (lib/api/tour-sync.ts, lib/api/tour-mirror.ts)
+ *
+ * TOUR_DATA_SOURCE=mirror이면 목록/통계/sitemap을 Supabase tour_items 테이블에서 조회합니다.
+ */
+export const TOUR_MIRROR_CONFIG = {
+  syncKey: "areaBasedSyncList2", // 동기화 커서 키
+  pageSize: 500, // 동기화 페이지당 항목 수
+  maxPagesPerRun: 100, // 한 번의 실행에서 조회할 최대 페이지 수 (초과분은 다음 실행에서 이어서 동기화)
+  maxDaysPerRun: 31, // 증분 동기화 한 번에 처리할 최대 수정일 수
+  sitemapLimit: 5000, // sitemap에 포함할 최대 관광지 수
+  sitemapPageSize: 1000, // sitemap 조회 시 페이지당 행 수 (Supabase 최대 응답 행 수)
+} as const;
+
+/**
+ * 관광지 검색 설정 (lib/api/search-api.ts, app/api/search/route.ts)
+ *
+ * 관광지 미러를 서버 메모리에 색인하여 초성/오타 허용 검색을 제공합니다.
+ * 미러를 사용하지 않거나 색인을 불러오지 못하면 searchKeyword2로 검색합니다.
+ */
+export const TOUR_SEARCH_CONFIG = {
+  indexTtlMs: 10 * 60 * 1000, // 색인 갱신 주기 (ms, 만료 후에도 갱신 중에는 이전 색인 사용)
+  indexPageSize: 1000, // 색인 조회 시 페이지당 행 수 (Supabase 최대 응답 행 수)
+  overviewIndexLength: 500, // 색인에 포함할 개요 길이 (메모리 사용량 제한)
+  maxQueryLength: 50, // 최대 검색어 길이
+  rateLimit: {
+    maxRequests: 60, // 구간당 최대 요청 수
+    windowMs: 60 * 1000, // 제한 구간 (ms)
+  },
+} as const;
+
+/**
+ * 저장한 검색 설정 (lib/api/saved-search-api.ts, components/tour-filters/saved-searches.tsx)
+ */
+export const SAVED_SEARCH_CONFIG = {
+  newItemsScanSize: 50, // 새 항목 확인 시 조회할 최신 항목 수 (넘으면 "50+개"로 표시)
+  maxNameLength: 50, // 검색 이름 최대 길이
+  historyDisplayCount: 5, // 표시할 최근 검색 기록 수
+  historyMaxEntries: 50, // 사용자별 최대 검색 기록 수 (넘으면 오래된 기록부터 삭제)
+  historyRecordDelayMs: 3000, // 검색 조건이 이 시간 동안 유지되어야 검색 기록에 추가 (ms)
+  rateLimit: {
+    maxRequests: 30, // 구간당 최대 요청 수
+    windowMs: 60 * 1000, // 제한 구간 (ms)
+  },
+} as const;
+
+/**
+ * 검색 자동완성 설정 (lib/api/search-api.ts, app/api/search/suggest/route.ts)
+ */
+export const TOUR_SUGGEST_CONFIG = {
+  maxPlaces: 6, // 최대 관광지 추천 수
+  maxRegions: 3, // 최대 지역 추천 수
+  maxPopular: 5, // 최대 인기 검색어 수
+  cache: {
+    maxEntries: 500, // 검색어별 추천 결과 최대 보관 수
+    ttlMs: 5 * 60 * 1000, // 추천 결과 보관 시간 (ms)
+  },
+  popularMaxEntries: 200, // 인기 검색어 집계 최대 검색어 수
+  // 집계된 검색어가 부족할 때 채우는 기본 인기 검색어
+  defaultPopularQueries: ["경복궁", "해운대", "남산서울타워", "불국사", "성산일출봉"],
+  rateLimit: {
+    maxRequests: 120, // 구간당 최대 요청 수 (입력할 때마다 호출되므로 검색보다 넉넉하게)
+    windowMs: 60 * 1000, // 제한 구간 (ms)
+  },
+} as const;
@@ -3,7 +3,7 @@
  * @description 지도 관련 상수 정의
  *
  * 네이버 지도 연동에 필요한 상수들을 정의합니다.
- * 지역 코드별 중심 좌표, 기본 줌 레벨 등을 포함합니다.
+ * 지역(시/도, 시/군/구) 코드별 중심 좌표, 기본 줌 레벨 등을 포함합니다.
  */
 
 import type { Coordinates } from "@/lib/utils/coordinates";
@@ -32,6 +32,92 @@ export const REGION_CENTER_COORDINATES: Record<string, Coordinates> = {
   "39": { lng: 126.5312, lat: 33.4996 }, // 제주
 } as const;
 
+/**
+ * 시/군/구 단위 중심 좌표 매핑
+ * 키 형식: "{areaCode}-{sigunguCode}"
+ * 시/도 단위로는 범위가 너무 넓은 지역(서울, 경기, 강원)을 우선 제공하며,
+ * 매핑이 없는 시/군/구는 상위 시/도 중심 좌표를 사용합니다.
+ */
+export const SIGUNGU_CENTER_COORDINATES: Record<string, Coordinates> = {
+  // 서울 (areaCode: 1)
+  "1-1": { lng: 127.0473, lat: 37.5172 }, // 강남구
+  "1-2": { lng: 127.1238, lat: 37.5301 }, // 강동구
+  "1-3": { lng: 127.0257, lat: 37.6396 }, // 강북구
+  "1-4": { lng: 126.8495, lat: 37.5509 }, // 강서구
+  "1-5": { lng: 126.9516, lat: 37.4784 }, // 관악구
+  "1-6": { lng: 127.0823, lat: 37.5385 }, // 광진구
+  "1-7": { lng: 126.8874, lat: 37.4954 }, // 구로구
+  "1-8": { lng: 126.8954, lat: 37.4568 }, // 금천구
+  "1-9": { lng: 127.0568, lat: 37.6542 }, // 노원구
+  "1-10": { lng: 127.0471, lat: 37.6688 }, // 도봉구
+  "1-11": { lng: 127.0400, lat: 37.5744 }, // 동대문구
+  "1-12": { lng: 126.9393, lat: 37.5124 }, // 동작구
+  "1-13": { lng: 126.9019, lat: 37.5663 }, // 마포구
+  "1-14": { lng: 126.9368, lat: 37.5791 }, // 서대문구
+  "1-15": { lng: 127.0324, lat: 37.4837 }, // 서초구
+  "1-16": { lng: 127.0371, lat: 37.5633 }, // 성동구
+  "1-17": { lng: 127.0167, lat: 37.5894 }, // 성북구
+  "1-18": { lng: 127.1066, lat: 37.5145 }, // 송파구
+  "1-19": { lng: 126.8665, lat: 37.5170 }, // 양천구
+  "1-20": { lng: 126.8962, lat: 37.5264 }, // 영등포구
+  "1-21": { lng: 126.9900, lat: 37.5324 }, // 용산구
+  "1-22": { lng: 126.9291, lat: 37.6027 }, // 은평구
+  "1-23": { lng: 126.9790, lat: 37.5735 }, // 종로구
+  "1-24": { lng: 126.9979, lat: 37.5641 }, // 중구
+  "1-25": { lng: 127.0925, lat: 37.6063 }, // 중랑구
+  // 경기 (areaCode: 31)
+  "31-1": { lng: 127.5095, lat: 37.8315 }, // 가평군
+  "31-2": { lng: 126.8320, lat: 37.6584 }, // 고양시
+  "31-3": { lng: 126.9876, lat: 37.4292 }, // 과천시
+  "31-4": { lng: 126.8646, lat: 37.4786 }, // 광명시
+  "31-5": { lng: 127.2551, lat: 37.4294 }, // 광주시
+  "31-6": { lng: 127.1296, lat: 37.5943 }, // 구리시
+  "31-7": { lng: 126.9352, lat: 37.3617 }, // 군포시
+  "31-8": { lng: 126.7156, lat: 37.6153 }, // 김포시
+  "31-9": { lng: 127.2165, lat: 37.6360 }, // 남양주시
+  "31-10": { lng: 127.0606, lat: 37.9036 }, // 동두천시
+  "31-11": { lng: 126.7660, lat: 37.5034 }, // 부천시
+  "31-12": { lng: 127.1265, lat: 37.4201 }, // 성남시
+  "31-13": { lng: 127.0286, lat: 37.2636 }, // 수원시
+  "31-14": { lng: 126.8029, lat: 37.3800 }, // 시흥시
+  "31-15": { lng: 126.8309, lat: 37.3219 }, // 안산시
+  "31-16": { lng: 127.2798, lat: 37.0080 }, // 안성시
+  "31-17": { lng: 126.9568, lat: 37.3943 }, // 안양시
+  "31-18": { lng: 127.0458, lat: 37.7853 }, // 양주시
+  "31-19": { lng: 127.4875, lat: 37.4917 }, // 양평군
+  "31-20": { lng: 127.6370, lat: 37.2984 }, // 여주시
+  "31-21": { lng: 127.0748, lat: 38.0966 }, // 연천군
+  "31-22": { lng: 127.0772, lat: 37.1498 }, // 오산시
+  "31-23": { lng: 127.1776, lat: 37.2411 }, // 용인시
+  "31-24": { lng: 126.9683, lat: 37.3448 }, // 의왕시
+  "31-25": { lng: 127.0337, lat: 37.7381 }, // 의정부시
+  "31-26": { lng: 127.4350, lat: 37.2720 }, // 이천시
+  "31-27": { lng: 126.7800, lat: 37.7600 }, // 파주시
+  "31-28": { lng: 127.1129, lat: 36.9921 }, // 평택시
+  "31-29": { lng: 127.2003, lat: 37.8949 }, // 포천시
+  "31-30": { lng: 127.2149, lat: 37.5393 }, // 하남시
+  "31-31": { lng: 126.8312, lat: 37.1995 }, // 화성시
+  // 강원 (areaCode: 32)
+  "32-1": { lng: 128.8761, lat: 37.7519 }, // 강릉시
+  "32-2": { lng: 128.4678, lat: 38.3806 }, // 고성군
+  "32-3": { lng: 129.1143, lat: 37.5247 }, // 동해시
+  "32-4": { lng: 129.1651, lat: 37.4500 }, // 삼척시
+  "32-5": { lng: 128.5918, lat: 38.2070 }, // 속초시
+  "32-6": { lng: 127.9898, lat: 38.1100 }, // 양구군
+  "32-7": { lng: 128.6190, lat: 38.0754 }, // 양양군
+  "32-8": { lng: 128.4617, lat: 37.1837 }, // 영월군
+  "32-9": { lng: 127.9202, lat: 37.3422 }, // 원주시
+  "32-10": { lng: 128.1707, lat: 38.0697 }, // 인제군
+  "32-11": { lng: 128.6608, lat: 37.3807 }, // 정선군
+  "32-12": { lng: 127.3133, lat: 38.1467 }, // 철원군
+  "32-13": { lng: 127.7298, lat: 37.8813 }, // 춘천시
+  "32-14": { lng: 128.9856, lat: 37.1641 }, // 태백시
+  "32-15": { lng: 128.3903, lat: 37.3708 }, // 평창군
+  "32-16": { lng: 127.8888, lat: 37.6970 }, // 홍천군
+  "32-17": { lng: 127.7082, lat: 38.1063 }, // 화천군
+  "32-18": { lng: 127.9852, lat: 37.4918 }, // 횡성군
+} as const;
+
 /**
  * 기본 중심 좌표 (서울)
  */
@@ -45,6 +131,11 @@ export const DEFAULT_CENTER: Coordinates = {
  */
 export const DEFAULT_ZOOM = 11;
 
+/**
+ * 주변 검색 모드 줌 레벨 (반경 수 km 범위가 보이는 수준)
+ */
+export const NEAR_SEARCH_ZOOM = 14;
+
 /**
  * 지역별 기본 줌 레벨 (선택 사항)
  * 지역이 넓을수록 낮은 줌 레벨 사용
@@ -69,27 +160,135 @@ export const REGION_ZOOM_LEVELS: Record<string, number> = {
   "39": 10, // 제주
 } as const;
 
+/**
+ * 시/군/구 선택 시 줌 레벨 (상위 시/도 코드 기준)
+ * 광역시의 구는 면적이 좁아 더 높은 줌 레벨 사용
+ */
+export const SIGUNGU_ZOOM_LEVELS: Record<string, number> = {
+  "1": 14, // 서울
+  "2": 13, // 인천
+  "3": 14, // 대전
+  "4": 14, // 대구
+  "5": 14, // 광주
+  "6": 14, // 부산
+  "7": 13, // 울산
+  "8": 13, // 세종
+  "31": 12, // 경기
+  "32": 11, // 강원
+  "33": 12, // 충북
+  "34": 12, // 충남
+  "35": 11, // 경북
+  "36": 11, // 경남
+  "37": 12, // 전북
+  "38": 11, // 전남
+  "39": 12, // 제주
+} as const;
+
+/**
+ * 시/군/구 선택 시 기본 줌 레벨
+ */
+export const DEFAULT_SIGUNGU_ZOOM = 12;
+
+/**
+ * Leaflet 지도 설정 (네이버 지도를 사용할 수 없을 때 대체 지도)
+ * - 타일 URL/저작권 표시는 NEXT_PUBLIC_MAP_TILE_URL, NEXT_PUBLIC_MAP_TILE_ATTRIBUTION으로 변경 가능
+ *   (OpenStreetMap 공식 타일은 대량 사용이 제한되므로 운영 환경에서는 별도 타일 서버 권장)
+ * - 스크립트/스타일은 CDN에서 동적 로드 (SRI 무결성 검증)
+ */
+export const LEAFLET_MAP_CONFIG = {
+  tileUrl: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  tileAttribution:
+    '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 19,
+  scriptUrl: "https://unpkg.com/leaflet@1.9.4/dist/leaflet.js",
+  scriptIntegrity: "sha256-20nQCchB9co0qIjJZRGuk2/Z9VM+kNiyxNV1lvTlZBo=",
+  styleUrl: "https://unpkg.com/leaflet@1.9.4/dist/leaflet.css",
+  styleIntegrity: "sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY=",
+} as const;
+
+/**
+ * 여러 장소 경로(길찾기) 설정
+ * - maxStops: 경로에 담을 수 있는 최대 장소 수 (출발지 + 경유지 5곳 + 도착지, 네이버 지도 앱 경유지 제한 기준)
+ * - storageKey: 경로를 저장하는 localStorage 키
+ */
+export const ROUTE_PLANNER_CONFIG = {
+  maxStops: 7,
+  storageKey: "route-stops",
+} as const;
+
+/**
+ * 마커 클러스터링 설정
+ * - gridSize: 같은 클러스터로 묶는 화면 거리 (px)
+ * - maxZoom: 이 줌 레벨보다 확대하면 클러스터링하지 않고 개별 마커 표시
+ * - clickZoomStep: 클러스터 클릭 시 확대할 줌 단계
+ */
+export const MARKER_CLUSTER_CONFIG = {
+  gridSize: 60,
+  maxZoom: 16,
+  clickZoomStep: 2,
+} as const;
+
 /**
  * 지역 코드로 중심 좌표 가져오기
  * @param areaCode 지역 코드
+ * @param sigunguCode 시/군/구 코드 (선택 사항)
  * @returns 중심 좌표 또는 기본 좌표
  */
-export function getRegionCenter(areaCode?: string): Coordinates {
+export function getRegionCenter(
+  areaCode?: string,
+  sigunguCode?: string
+): Coordinates {
   if (!areaCode) {
     return DEFAULT_CENTER;
   }
+  if (sigunguCode) {
+    const sigunguCenter =
+      SIGUNGU_CENTER_COORDINATES[`${areaCode}-${sigunguCode}`];
+    if (sigunguCenter) {
+      return sigunguCenter;
+    }
+  }
   return REGION_CENTER_COORDINATES[areaCode] || DEFAULT_CENTER;
 }
 
 /**
  * 지역 코드로 줌 레벨 가져오기
  * @param areaCode 지역 코드
+ * @param sigunguCode 시/군/구 코드 (선택 사항)
  * @returns 줌 레벨 또는 기본 줌 레벨
  */
-export function getRegionZoom(areaCode?: string): number {
+export function getRegionZoom(areaCode?: string, sigunguCode?: string): number {
   if (!areaCode) {
     return DEFAULT_ZOOM;
   }
+  // 좌표 매핑이 있는 시/군/구만 확대 (없으면 시/도 전체를 표시)
+  if (sigunguCode && SIGUNGU_CENTER_COORDINATES[`${areaCode}-${sigunguCode}`]) {
+    return SIGUNGU_ZOOM_LEVELS[areaCode] || DEFAULT_SIGUNGU_ZOOM;
+  }
   return REGION_ZOOM_LEVELS[areaCode] || DEFAULT_ZOOM;
 }
 
+/**
+ * 검색 반경이 지도 화면에 모두 들어오는 줌 레벨 계산
+ * (지도 영역 검색 결과를 검색한 범위 그대로 다시 표시할 때 사용)
+ * @param radius 중심에서 지도 모서리까지의 거리 (m)
+ * @param lat 중심 위도
+ * @param width 지도 너비 (px)
+ * @param height 지도 높이 (px)
+ * @returns 줌 레벨 (반경이 모두 보이도록 내림, 지도 크기를 알 수 없으면 주변 검색 줌 레벨)
+ */
+export function getRadiusZoom(
+  radius: number,
+  lat: number,
+  width: number,
+  height: number
+): number {
+  const halfDiagonal = Math.hypot(width, height) / 2;
+  if (radius <= 0 || halfDiagonal === 0) {
+    return NEAR_SEARCH_ZOOM;
+  }
+  // 웹 메르카토르 줌 레벨 0에서 해당 위도의 픽셀당 거리 (m)
+  const metersPerPixel = 156543.03392 * Math.cos((lat * Math.PI) / 180);
+  return Math.floor(Math.log2((metersPerPixel * halfDiagonal) / radius));
+}
+
@@ -10,8 +10,8 @@
  * 필수 환경변수 목록 (핵심 기능 - 클라이언트/서버 공통)
  */
 const REQUIRED_ENV_VARS = {
-  // 한국관광공사 API (핵심 기능)
-  NEXT_PUBLIC_TOUR_API_KEY: "한국관광공사 API 키 (클라이언트)",
+  // 한국관광공사 API 키는 브라우저에 노출되지 않도록 서버 전용으로만 사용
+  // (클라이언트 호출은 app/api/tour/[operation] 프록시를 거침)
 } as const;
 
 /**
@@ -28,6 +28,10 @@ const REQUIRED_SERVER_ENV_VARS = {
 const OPTIONAL_ENV_VARS = {
   // 네이버 지도 (지도 기능 사용 시 필요)
   NEXT_PUBLIC_NAVER_MAP_CLIENT_ID: "네이버 지도 클라이언트 ID",
+  // 지도 제공자 (naver | leaflet | auto, 기본값: auto - 네이버 지도를 사용할 수 없으면 Leaflet)
+  NEXT_PUBLIC_MAP_PROVIDER: "지도 제공자",
+  NEXT_PUBLIC_MAP_TILE_URL: "Leaflet 지도 타일 URL (기본값: OpenStreetMap)",
+  NEXT_PUBLIC_MAP_TILE_ATTRIBUTION: "Leaflet 지도 타일 저작권 표시",
   // Clerk (인증 기능 사용 시 필요)
   NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY: "Clerk Publishable Key",
   CLERK_SECRET_KEY: "Clerk Secret Key (서버 전용)",
@@ -39,6 +43,18 @@ const OPTIONAL_ENV_VARS = {
   NEXT_PUBLIC_SUPABASE_ANON_KEY: "Supabase Anon Key",
   SUPABASE_SERVICE_ROLE_KEY: "Supabase Service Role Key (서버 전용)",
   NEXT_PUBLIC_STORAGE_BUCKET: "Supabase Storage 버킷 이름",
+  // 한국관광공사 API 일일 호출 한도 (기본값: lib/constants/api.ts의 TOUR_API_QUOTA_CONFIG)
+  TOUR_API_DAILY_LIMIT: "한국관광공사 API 일일 호출 한도",
+  // 한국관광공사 API 모의 서버 (오프라인 개발 시 사용, lib/api/tour-api-mock.ts)
+  TOUR_API_MODE: "한국관광공사 API 호출 모드 (live | mock | record)",
+  TOUR_API_MOCK_URL: "모의 API URL",
+  TOUR_API_MOCK_LATENCY_MS: "모의 API 응답 지연 시간 (ms)",
+  TOUR_API_MOCK_ERROR_CODE: "모의 API가 주입할 결과 코드",
+  TOUR_API_MOCK_ERROR_RATE: "모의 API 결과 코드 주입 비율 (0 ~ 1)",
+  TOUR_API_MOCK_ERROR_OPERATIONS: "모의 API 결과 코드 주입 대상 오퍼레이션 (쉼표 구분)",
+  // 관광지 미러 (Supabase tour_items, lib/api/tour-mirror.ts)
+  TOUR_DATA_SOURCE: "관광지 목록/통계/sitemap 조회 대상 (api | mirror)",
+  TOUR_SYNC_SECRET: "관광지 동기화 엔드포인트 인증 토큰 (서버 전용)",
   // 기타
   NEXT_PUBLIC_SITE_URL: "사이트 URL (SEO, sitemap 등에 사용)",
   ANALYZE: "번들 분석 플래그 (true로 설정 시 번들 분석 활성화)",
@@ -48,8 +64,8 @@ const OPTIONAL_ENV_VARS = {
  * 환경변수 fallback 매핑 (호환성을 위한 별칭)
  */
 const ENV_FALLBACKS: Record<string, string[]> = {
-  NEXT_PUBLIC_TOUR_API_KEY: ["PUBLIC_TOUR_API_KEY", "TOUR_API_KEY"],
-  TOUR_API_KEY: ["PUBLIC_TOUR_API_KEY"],
+  // 기존 NEXT_PUBLIC_ 키 설정과의 호환 (서버에서만 읽으므로 번들에 포함되지 않음)
+  TOUR_API_KEY: ["PUBLIC_TOUR_API_KEY", "NEXT_PUBLIC_TOUR_API_KEY"],
 };
 
 /**
@@ -245,6 +261,22 @@ export function getServerEnv(
   return getEnv(key as keyof typeof REQUIRED_SERVER_ENV_VARS | keyof typeof REQUIRED_ENV_VARS | keyof typeof OPTIONAL_ENV_VARS);
 }
 
+/**
+ * 한국관광공사 API 호출 모드
+ * - live: 실제 API 호출 (기본값)
+ * - mock: fixture 기반 모의 API 호출 (서비스키 불필요)
+ * - record: 실제 API를 호출하고 응답을 fixture에 기록
+ */
+export type TourApiMode = "live" | "mock" | "record";
+
+/**
+ * 한국관광공사 API 호출 모드 조회 (TOUR_API_MODE, 알 수 없는 값이면 live)
+ */
+export function getTourApiMode(): TourApiMode {
+  const mode = getEnv("TOUR_API_MODE", "live");
+  return mode === "mock" || mode === "record" ? mode : "live";
+}
+
 // 개발 환경에서 자동 검증 실행
 if (process.env.NODE_ENV === "development") {
   validateEnvOnDev();
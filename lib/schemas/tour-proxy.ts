@@ -0,0 +1,203 @@
+/**
+ * @file lib/schemas/tour-proxy.ts
+ * @description 한국관광공사 API 프록시 요청 검증 스키마 (zod)
+ *
+ * API 프록시(app/api/tour/[operation]/route.ts)가 전달할 수 있는 오퍼레이션과
+ * 오퍼레이션별 파라미터를 허용 목록으로 정의합니다.
+ *
+ * 핵심 구현 로직:
+ * - 허용 목록에 없는 오퍼레이션은 거부
+ * - 오퍼레이션별로 정의되지 않은 파라미터(serviceKey 등)는 거부
+ * - 코드/좌표/날짜 등 파라미터 값의 형식을 검증
+ *
+ * @dependencies
+ * - zod: 스키마 정의
+ * - @/lib/constants/api: NEAR_SEARCH_DEFAULTS
+ */
+
+import { z } from "zod";
+import { NEAR_SEARCH_DEFAULTS } from "@/lib/constants/api";
+
+/**
+ * 숫자 코드 (지역 코드, 콘텐츠ID 등)
+ */
+const digitCode = z.string().regex(/^\d{1,10}$/, "숫자 코드가 아닙니다.");
+
+/**
+ * 양의 정수 (페이지 번호 등)
+ */
+const positiveInt = (max: number) =>
+  z
+    .string()
+    .regex(/^\d+$/, "정수가 아닙니다.")
+    .refine((value) => Number(value) >= 1 && Number(value) <= max, {
+      message: `1 ~ ${max} 범위를 벗어났습니다.`,
+    });
+
+/**
+ * 서비스 분류 코드 (예: A01, A0101, A01010100)
+ */
+const categoryCode = z.string().regex(/^[A-Z0-9]{2,10}$/, "분류 코드가 아닙니다.");
+
+/**
+ * 좌표 (WGS84 경도/위도)
+ */
+const coordinate = z
+  .string()
+  .refine((value) => value !== "" && Number.isFinite(Number(value)), {
+    message: "좌표를 숫자로 해석할 수 없습니다.",
+  });
+
+/**
+ * 날짜 (YYYYMMDD)
+ */
+const apiDate = z.string().regex(/^\d{8}$/, "날짜 형식(YYYYMMDD)이 아닙니다.");
+
+/**
+ * 페이지네이션 파라미터
+ */
+const paginationShape = {
+  numOfRows: positiveInt(1000).optional(),
+  pageNo: positiveInt(10000).optional(),
+};
+
+/**
+ * 서비스 분류 필터 파라미터
+ */
+const categoryShape = {
+  cat1: categoryCode.optional(),
+  cat2: categoryCode.optional(),
+  cat3: categoryCode.optional(),
+};
+
+/**
+ * 지역 필터 파라미터
+ */
+const areaShape = {
+  areaCode: digitCode.optional(),
+  sigunguCode: digitCode.optional(),
+};
+
+/**
+ * 정렬 구분 (A: 제목순, C: 수정일순, D: 생성일순, E: 거리순, O~S: 대표이미지 있는 항목만)
+ */
+const arrange = z.enum(["A", "C", "D", "E", "O", "Q", "R", "S"]).optional();
+
+/**
+ * 오퍼레이션별 허용 파라미터 스키마 (KorService2)
+ *
+ * strict 스키마이므로 정의되지 않은 파라미터가 포함되면 검증에 실패합니다.
+ */
+export const TOUR_PROXY_OPERATIONS = {
+  areaCode2: z.object({ ...paginationShape, areaCode: digitCode.optional() }).strict(),
+  categoryCode2: z
+    .object({
+      ...paginationShape,
+      ...categoryShape,
+      contentTypeId: digitCode.optional(),
+    })
+    .strict(),
+  areaBasedList2: z
+    .object({
+      ...paginationShape,
+      ...areaShape,
+      ...categoryShape,
+      contentTypeId: digitCode.optional(),
+      arrange,
+    })
+    .strict(),
+  locationBasedList2: z
+    .object({
+      ...paginationShape,
+      mapX: coordinate,
+      mapY: coordinate,
+      radius: positiveInt(NEAR_SEARCH_DEFAULTS.maxRadius),
+      contentTypeId: digitCode.optional(),
+      arrange,
+    })
+    .strict(),
+  searchKeyword2: z
+    .object({
+      ...paginationShape,
+      ...areaShape,
+      ...categoryShape,
+      keyword: z.string().trim().min(1).max(100),
+      contentTypeId: digitCode.optional(),
+      arrange,
+    })
+    .strict(),
+  searchFestival2: z
+    .object({
+      ...paginationShape,
+      ...areaShape,
+      eventStartDate: apiDate,
+      eventEndDate: apiDate.optional(),
+    })
+    .strict(),
+  searchStay2: z.object({ ...paginationShape, ...areaShape }).strict(),
+  detailCommon2: z.object({ contentId: digitCode }).strict(),
+  detailIntro2: z.object({ contentId: digitCode, contentTypeId: digitCode }).strict(),
+  detailInfo2: z.object({ contentId: digitCode, contentTypeId: digitCode }).strict(),
+  detailImage2: z.object({ contentId: digitCode }).strict(),
+  detailPetTour2: z
+    .object({ ...paginationShape, contentId: digitCode.optional() })
+    .strict(),
+} as const;
+
+/**
+ * 프록시 허용 오퍼레이션명
+ */
+export type TourProxyOperation = keyof typeof TOUR_PROXY_OPERATIONS;
+
+/**
+ * 허용 오퍼레이션인지 확인
+ */
+export function isTourProxyOperation(
+  operation: string
+): operation is TourProxyOperation {
+  return Object.prototype.hasOwnProperty.call(TOUR_PROXY_OPERATIONS, operation);
+}
+
+/**
+ * 프록시 요청 파라미터 검증
+ *
+ * @param operation 허용 오퍼레이션명
+ * @param searchParams 요청 쿼리 파라미터
+ * @returns 검증된 파라미터 또는 검증 실패 내용
+ */
+export function parseTourProxyParams(
+  operation: TourProxyOperation,
+  searchParams: URLSearchParams
+):
+  | { success: true; params: URLSearchParams }
+  | { success: false; issues: string[] } {
+  // 같은 파라미터를 여러 번 전달하는 요청은 거부
+  const keys = Array.from(searchParams.keys());
+  const duplicated = keys.filter((key, index) => keys.indexOf(key) !== index);
+  if (duplicated.length > 0) {
+    return {
+      success: false,
+      issues: duplicated.map((key) => `${key}: 중복된 파라미터입니다.`),
+    };
+  }
+
+  const result = TOUR_PROXY_OPERATIONS[operation].safeParse(
+    Object.fromEntries(searchParams)
+  );
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(params)"}: ${issue.message}`
+      ),
+    };
+  }
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(result.data)) {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  }
+  return { success: true, params };
+}
@@ -0,0 +1,314 @@
+/**
+ * @file lib/schemas/tour.ts
+ * @description 한국관광공사 API 응답 검증 스키마 (zod)
+ *
+ * lib/types/tour.ts의 타입은 API 응답을 그대로 신뢰하지 않도록
+ * 런타임에 응답 구조와 항목을 검증/변환합니다.
+ *
+ * 핵심 구현 로직:
+ * - 숫자로 오는 ID/코드는 문자열로, 문자열로 오는 totalCount는 숫자로 변환
+ * - 날짜는 구분자를 제거한 숫자 문자열(YYYYMMDD, YYYYMMDDHHmmss)로 정규화
+ * - 좌표(mapx/mapy)는 숫자로 해석할 수 없으면 빈 문자열로 두고 항목은 유지
+ *   (숫자 변환은 지도/거리 계산에서 parseTourCoordinates로 수행)
+ * - 빈 페이지의 `items: ""` 응답은 항목 없음으로 처리
+ * - 검증에 실패한 항목은 제외하고 logger로 스키마 불일치를 보고
+ *
+ * @dependencies
+ * - zod: 스키마 정의
+ * - @/lib/utils/logger: logWarning
+ */
+
+import { z } from "zod";
+import { logWarning } from "@/lib/utils/logger";
+import type {
+  TourItem,
+  TourSyncItem,
+  TourDetail,
+  TourIntro,
+  TourImage,
+  PetTourInfo,
+} from "@/lib/types/tour";
+
+/**
+ * 스키마 타입 (입력은 알 수 없는 값, 출력은 도메인 타입)
+ */
+export type TourSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+/**
+ * 스키마 출력 타입을 도메인 타입으로 지정
+ *
+ * strictNullChecks가 꺼져 있으면 zod가 객체 필드를 모두 선택 필드로 추론하므로
+ * lib/types/tour.ts의 타입으로 명시합니다.
+ */
+function asTourSchema<T>(schema: z.ZodTypeAny): TourSchema<T> {
+  return schema as TourSchema<T>;
+}
+
+/**
+ * 문자열 또는 숫자 값 (null/누락 허용)
+ */
+const rawValue = z.union([z.string(), z.number(), z.null()]).optional();
+
+/**
+ * 필수 텍스트 (누락 시 빈 문자열)
+ */
+const requiredText = rawValue.transform((value) =>
+  value === null || value === undefined ? "" : String(value).trim()
+);
+
+/**
+ * 선택 텍스트 (누락 시 undefined)
+ */
+const optionalText = rawValue.transform((value) =>
+  value === null || value === undefined ? undefined : String(value).trim()
+);
+
+/**
+ * 필수 ID (숫자로 오는 경우 문자열로 변환, 빈 값이면 검증 실패)
+ */
+const idText = requiredText.pipe(z.string().min(1, "값이 비어 있습니다."));
+
+/**
+ * 좌표 (누락되거나 숫자로 해석할 수 없으면 빈 문자열, 지도에만 표시하지 않음)
+ * 좌표가 없는 관광지를 목록에서 제외하면 페이지 항목 수가 totalCount와 어긋나므로 허용합니다.
+ */
+const lenientCoordinateText = requiredText.transform((value) =>
+  value !== "" && Number.isFinite(Number(value)) ? value : ""
+);
+
+/**
+ * 선택 숫자 문자열 (거리 등, 해석할 수 없으면 undefined)
+ */
+const optionalNumericText = optionalText.transform((value) =>
+  value && Number.isFinite(Number(value)) ? value : undefined
+);
+
+/**
+ * 날짜 (YYYYMMDD, 구분자 제거, 형식이 맞지 않으면 undefined)
+ */
+const optionalApiDate = optionalText.transform((value) => {
+  const digits = value?.replace(/\D/g, "");
+  return digits && digits.length === 8 ? digits : undefined;
+});
+
+/**
+ * 일시 (YYYYMMDDHHmmss, 구분자 제거)
+ */
+const apiDateTime = requiredText.transform((value) => value.replace(/\D/g, ""));
+
+/**
+ * 관광지 목록 항목 필드
+ */
+const tourItemShape = {
+  addr1: requiredText,
+  addr2: optionalText,
+  areacode: requiredText,
+  contentid: idText,
+  contenttypeid: requiredText,
+  title: idText,
+  mapx: lenientCoordinateText,
+  mapy: lenientCoordinateText,
+  firstimage: optionalText,
+  firstimage2: optionalText,
+  tel: optionalText,
+  cat1: optionalText,
+  cat2: optionalText,
+  cat3: optionalText,
+  modifiedtime: apiDateTime,
+  dist: optionalNumericText,
+  eventstartdate: optionalApiDate,
+  eventenddate: optionalApiDate,
+};
+
+/**
+ * 관광지 목록 항목 스키마 (areaBasedList2, searchKeyword2 등)
+ */
+export const tourItemSchema = asTourSchema<TourItem>(
+  z.object(tourItemShape).passthrough()
+);
+
+/**
+ * 관광지 동기화 목록 항목 스키마 (areaBasedSyncList2)
+ */
+export const tourSyncItemSchema = asTourSchema<TourSyncItem>(
+  z.object({
+    ...tourItemShape,
+    sigungucode: optionalText,
+    createdtime: apiDateTime,
+    showflag: optionalText,
+  }).passthrough()
+);
+
+/**
+ * 관광지 상세 정보 스키마 (detailCommon2)
+ */
+export const tourDetailSchema = asTourSchema<TourDetail>(
+  z.object({
+    ...tourItemShape,
+    zipcode: optionalText,
+    homepage: optionalText,
+    overview: optionalText,
+  }).passthrough()
+);
+
+/**
+ * 관광지 운영 정보 스키마 (detailIntro2)
+ * 타입별로 필드가 다르므로 ID 외 필드는 모두 선택 텍스트로 처리합니다.
+ */
+export const tourIntroSchema = asTourSchema<TourIntro>(
+  z.object({
+    contentid: idText,
+    contenttypeid: requiredText,
+    usetime: optionalText,
+    restdate: optionalText,
+    infocenter: optionalText,
+    parking: optionalText,
+    chkpet: optionalText,
+    accomcount: optionalText,
+    expguide: optionalText,
+    babycarriage: optionalText,
+    pet: optionalText,
+    expagerange: optionalText,
+    usefee: optionalText,
+    parkingfee: optionalText,
+    discountinfo: optionalText,
+    reservation: optionalText,
+    refund: optionalText,
+    eventstartdate: optionalApiDate,
+    eventenddate: optionalApiDate,
+    eventplace: optionalText,
+    playtime: optionalText,
+    usetimefestival: optionalText,
+    distance: optionalText,
+    taketime: optionalText,
+    schedule: optionalText,
+    theme: optionalText,
+  }).passthrough()
+);
+
+/**
+ * 관광지 이미지 스키마 (detailImage2)
+ */
+export const tourImageSchema = asTourSchema<TourImage>(
+  z.object({
+    contentid: idText,
+    originimgurl: idText,
+    smallimageurl: requiredText,
+    imgname: optionalText,
+  }).passthrough()
+);
+
+/**
+ * 반려동물 동반 여행 정보 스키마 (detailPetTour2)
+ */
+export const petTourInfoSchema = asTourSchema<PetTourInfo>(
+  z.object({
+    contentid: idText,
+    contenttypeid: requiredText,
+    chkpetleash: optionalText,
+    chkpetsize: optionalText,
+    chkpetplace: optionalText,
+    chkpetfee: optionalText,
+    petinfo: optionalText,
+    parking: optionalText,
+  }).passthrough()
+);
+
+/**
+ * API 응답 구조 스키마 (header/body)
+ * 빈 페이지는 `items: ""`로 응답하므로 문자열/null도 허용합니다.
+ */
+export const tourApiEnvelopeSchema = z.object({
+  response: z.object({
+    header: z.object({
+      resultCode: z.union([z.string(), z.number()]).transform(String),
+      resultMsg: optionalText,
+    }),
+    body: z
+      .object({
+        items: z
+          .union([z.object({ item: z.unknown() }), z.string(), z.null()])
+          .optional(),
+        totalCount: z.coerce.number().optional(),
+      })
+      .optional(),
+  }),
+});
+
+/**
+ * 스키마 불일치로 제외된 항목 정보
+ */
+interface SchemaDriftSample {
+  /** 응답 내 항목 순서 */
+  index: number;
+  /** 콘텐츠ID (있는 경우) */
+  contentid?: unknown;
+  /** 검증 실패 내용 ("필드: 메시지") */
+  issues: string[];
+}
+
+/**
+ * 스키마 불일치 보고
+ *
+ * @param source API 오퍼레이션명 (예: areaBasedList2)
+ * @param total 응답 항목 수
+ * @param samples 제외된 항목 정보
+ */
+function reportSchemaDrift(
+  source: string,
+  total: number,
+  samples: SchemaDriftSample[]
+): void {
+  logWarning(`TourAPI 응답 스키마 불일치 (${source})`, {
+    source,
+    total,
+    dropped: samples.length,
+    // 로그가 과도하게 길어지지 않도록 일부만 기록
+    samples: samples.slice(0, 5),
+  });
+}
+
+/**
+ * 응답 항목 목록 검증
+ *
+ * 항목별로 스키마를 적용하여 변환된 항목만 반환합니다.
+ * 검증에 실패한 항목은 제외하고 스키마 불일치로 보고합니다.
+ *
+ * @param items 응답 항목 목록
+ * @param schema 항목 스키마
+ * @param source API 오퍼레이션명 (보고용)
+ * @returns 검증/변환된 항목 목록
+ */
+export function parseTourItems<T>(
+  items: unknown[],
+  schema: TourSchema<T>,
+  source: string
+): T[] {
+  const parsed: T[] = [];
+  const drift: SchemaDriftSample[] = [];
+
+  items.forEach((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      parsed.push(result.data);
+      return;
+    }
+
+    drift.push({
+      index,
+      contentid:
+        item && typeof item === "object"
+          ? (item as Record<string, unknown>).contentid
+          : undefined,
+      issues: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(item)"}: ${issue.message}`
+      ),
+    });
+  });
+
+  if (drift.length > 0) {
+    reportSchemaDrift(source, items.length, drift);
+  }
+
+  return parsed;
+}
@@ -26,7 +26,7 @@ export interface TourApiResponse<T> {
 /**
  * API 에러 응답
  */
-export interface TourApiError {
+export interface TourApiErrorResponse {
   response: {
     header: {
       resultCode: string;
@@ -35,10 +35,32 @@ export interface TourApiError {
   };
 }
 
+/**
+ * API 에러 종류 (lib/api/tour-api-error.ts의 에러 클래스와 대응)
+ * - network: 네트워크 연결 실패
+ * - http: HTTP 상태 코드 오류 또는 잘못된 요청
+ * - quota-exceeded: 일일 호출 한도 초과
+ * - invalid-key: 서비스키 미등록/만료
+ * - no-data: 조회된 데이터 없음
+ * - parse: 응답 파싱 실패
+ * - unknown: 분류되지 않은 오류
+ */
+export type TourApiErrorKind =
+  | "network"
+  | "http"
+  | "quota-exceeded"
+  | "invalid-key"
+  | "no-data"
+  | "parse"
+  | "unknown";
+
 /**
  * API 호출 결과 타입
+ *
+ * stale: API 장애로 마지막 정상 응답을 대신 반환한 경우 true (데이터가 최신이 아닐 수 있음)
+ * partial: 여러 목록을 합친 결과 중 일부 목록 조회에 실패하여 결과가 일부만 포함된 경우 true
  */
 export type ApiResult<T> =
-  | { success: true; data: T; totalCount?: number }
-  | { success: false; error: string; code?: string };
+  | { success: true; data: T; totalCount?: number; stale?: boolean; partial?: boolean }
+  | { success: false; error: string; code?: string; kind: TourApiErrorKind };
 
@@ -0,0 +1,33 @@
+/**
+ * @file lib/types/category.ts
+ * @description 서비스 분류 코드 관련 TypeScript 타입 정의
+ *
+ * 한국관광공사 API의 categoryCode2 응답 데이터 구조를 기반으로 작성되었습니다.
+ */
+
+/**
+ * 서비스 분류 코드 정보 (categoryCode2 응답)
+ *
+ * 대분류(cat1) → 중분류(cat2) → 소분류(cat3) 순으로 계층 구조를 가지며,
+ * 하위 분류 코드는 상위 분류 코드로 시작합니다. (예: A01 → A0101 → A01010100)
+ */
+export interface CategoryCode {
+  /** 분류 코드 */
+  code: string;
+  /** 분류명 */
+  name: string;
+  /** 순번 */
+  rnum?: string;
+}
+
+/**
+ * 서비스 분류 필터 (areaBasedList2, searchKeyword2의 cat1/cat2/cat3 파라미터)
+ */
+export interface CategoryFilter {
+  /** 대분류 코드 */
+  cat1?: string;
+  /** 중분류 코드 (cat1 필요) */
+  cat2?: string;
+  /** 소분류 코드 (cat1, cat2 필요) */
+  cat3?: string;
+}
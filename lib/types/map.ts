@@ -0,0 +1,167 @@
+/**
+ * @file lib/types/map.ts
+ * @description 지도 제공자(MapProvider) 관련 TypeScript 타입 정의
+ *
+ * 지도 컴포넌트(NaverMap, DetailMap)가 특정 지도 API(window.naver.maps 등)에
+ * 직접 의존하지 않도록 지도 생성, 마커, 인포윈도우, 범위, 경로선 기능을 추상화합니다.
+ *
+ * 구현체:
+ * - lib/utils/naver-maps.ts: 네이버 지도 API v3
+ * - lib/utils/leaflet-maps.ts: Leaflet + OpenStreetMap 호환 타일
+ */
+
+import type { Coordinates } from "@/lib/utils/coordinates";
+
+/**
+ * 지도 제공자 이름
+ */
+export type MapProviderName = "naver" | "leaflet";
+
+/**
+ * 지도 유형
+ */
+export type MapType = "normal" | "satellite";
+
+/**
+ * 지도 이벤트
+ * - idle: 지도 이동/확대가 끝났을 때
+ * - dragend: 사용자가 지도를 드래그한 후
+ * - zoomchange: 줌 레벨이 바뀌었을 때
+ */
+export type MapEventName = "idle" | "dragend" | "zoomchange";
+
+/**
+ * 지도 화면 범위
+ */
+export interface MapBounds {
+  /** 북동쪽 모서리 좌표 */
+  northEast: Coordinates;
+  /** 남서쪽 모서리 좌표 */
+  southWest: Coordinates;
+}
+
+/**
+ * 지도 생성 옵션
+ */
+export interface MapCreateOptions {
+  /** 중심 좌표 */
+  center: Coordinates;
+  /** 줌 레벨 */
+  zoom: number;
+}
+
+/**
+ * 마커 생성 옵션
+ */
+export interface MapMarkerOptions {
+  /** 마커 위치 */
+  position: Coordinates;
+  /** 마커 제목 (툴팁) */
+  title?: string;
+  /** 마커 HTML (지정하지 않으면 지도 제공자의 기본 마커) */
+  html?: string;
+  /** 마커 HTML 크기 (px, 중심이 좌표에 오도록 배치) */
+  size?: number;
+  /** 겹칠 때 표시 우선순위 (클수록 위) */
+  zIndex?: number;
+  /** 마커 클릭 핸들러 */
+  onClick?: () => void;
+}
+
+/**
+ * 인포윈도우 옵션
+ */
+export interface MapInfoWindowOptions {
+  /** 최대 너비 (px) */
+  maxWidth?: number;
+}
+
+/**
+ * 인포윈도우
+ */
+export interface MapInfoWindow {
+  /** 인포윈도우 닫기 */
+  close(): void;
+}
+
+/**
+ * 지도 마커
+ */
+export interface MapMarker {
+  /** 마커 위치 */
+  getPosition(): Coordinates;
+  /**
+   * 마커 위에 인포윈도우 표시
+   * @param content HTML 문자열 또는 DOM 요소
+   */
+  openInfoWindow(content: string | HTMLElement, options?: MapInfoWindowOptions): MapInfoWindow;
+  /** 지도에서 마커 제거 */
+  remove(): void;
+}
+
+/**
+ * 경로선 생성 옵션
+ */
+export interface MapPolylineOptions {
+  /** 경로 좌표 (순서대로 연결) */
+  path: Coordinates[];
+  /** 선 색상 */
+  color: string;
+  /** 선 두께 (px) */
+  weight: number;
+  /** 선 불투명도 (0 ~ 1) */
+  opacity: number;
+}
+
+/**
+ * 경로선
+ */
+export interface MapPolyline {
+  /** 지도에서 경로선 제거 */
+  remove(): void;
+}
+
+/**
+ * 지도 인스턴스
+ */
+export interface MapInstance {
+  /** 중심 좌표 */
+  getCenter(): Coordinates;
+  /** 줌 레벨 */
+  getZoom(): number;
+  /** 화면 범위 */
+  getBounds(): MapBounds;
+  /** 지정한 위치로 이동 (애니메이션) */
+  panTo(position: Coordinates): void;
+  /** 지정한 위치와 줌 레벨로 이동 (애니메이션) */
+  zoomTo(position: Coordinates, zoom: number): void;
+  /** 좌표 목록이 모두 보이도록 범위 조정 */
+  fitBounds(points: Coordinates[], padding?: number): void;
+  /** 지도 유형 변경 (위성 지도를 지원하지 않으면 무시) */
+  setMapType(type: MapType): void;
+  /** 마커 추가 */
+  addMarker(options: MapMarkerOptions): MapMarker;
+  /** 경로선 추가 */
+  addPolyline(options: MapPolylineOptions): MapPolyline;
+  /**
+   * 지도 이벤트 구독
+   * @returns 구독 해제 함수
+   */
+  on(event: MapEventName, handler: () => void): () => void;
+  /** 지도 정리 (이벤트, 오버레이 제거) */
+  destroy(): void;
+}
+
+/**
+ * 지도 제공자
+ */
+export interface MapProvider {
+  /** 제공자 이름 */
+  name: MapProviderName;
+  /** 위성 지도 지원 여부 */
+  supportsSatellite: boolean;
+  /** 지도 API 스크립트 로드 */
+  load(): Promise<void>;
+  /** 지도 생성 (load 완료 후 호출) */
+  createMap(container: HTMLElement, options: MapCreateOptions): MapInstance;
+}
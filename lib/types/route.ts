@@ -0,0 +1,33 @@
+/**
+ * @file lib/types/route.ts
+ * @description 여러 장소 경로(길찾기) 관련 TypeScript 타입 정의
+ *
+ * 북마크나 관광지 목록에서 고른 장소를 순서대로 연결한 경로를 표현합니다.
+ * 경로는 브라우저(localStorage)에 저장되며 상세페이지 지도에서 경로선으로 표시됩니다.
+ */
+
+import type { Coordinates } from "@/lib/utils/coordinates";
+
+/**
+ * 경로 장소
+ */
+export interface RouteStop {
+  /** 콘텐츠ID (상세페이지 링크용) */
+  contentId: string;
+  /** 장소명 */
+  title: string;
+  /** WGS84 좌표 */
+  position: Coordinates;
+}
+
+/**
+ * 경로 구간 (이웃한 두 장소 사이)
+ */
+export interface RouteLeg {
+  /** 출발 장소 */
+  from: RouteStop;
+  /** 도착 장소 */
+  to: RouteStop;
+  /** 직선 거리 (m) */
+  distance: number;
+}
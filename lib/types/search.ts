@@ -0,0 +1,119 @@
+/**
+ * @file lib/types/search.ts
+ * @description 관광지 검색 관련 TypeScript 타입 정의
+ *
+ * 관광지 검색 서비스(lib/api/search-api.ts)와 /api/search, /api/search/suggest,
+ * /api/saved-searches/new-items 응답 데이터 구조입니다.
+ */
+
+import type { TourItem } from "@/lib/types/tour";
+import type { CategoryFilter } from "@/lib/types/category";
+import type { Coordinates } from "@/lib/utils/coordinates";
+
+/**
+ * 하이라이트 범위 (원본 문자열 기준 [시작, 끝) 위치)
+ */
+export type HighlightRange = [start: number, end: number];
+
+/**
+ * 검색어 일치 방식 (점수가 높은 순)
+ * - exact: 관광지명 전체 일치
+ * - prefix: 관광지명 앞부분 일치
+ * - substring: 관광지명 일부 일치
+ * - chosung: 초성 일치 (예: "ㄱㅂㄱ" → 경복궁, "경ㅂㄱ"처럼 섞어 입력해도 일치)
+ * - fuzzy: 자모 단위 오타 허용 일치 (예: "경북궁" → 경복궁)
+ * - address: 주소 일치
+ * - overview: 개요 일치
+ */
+export type TourSearchMatchType =
+  | "exact"
+  | "prefix"
+  | "substring"
+  | "chosung"
+  | "fuzzy"
+  | "address"
+  | "overview";
+
+/**
+ * 검색 결과 항목
+ */
+export interface TourSearchItem extends TourItem {
+  /** 일치 방식 */
+  matchType?: TourSearchMatchType;
+  /** 관광지명 하이라이트 범위 */
+  highlights?: HighlightRange[];
+}
+
+/**
+ * 관광지 검색 조건
+ */
+export interface TourSearchOptions {
+  /** 검색어 */
+  query: string;
+  /** 지역 코드 (선택사항, 없으면 전체 지역) */
+  areaCode?: string;
+  /** 시/군/구 코드 (선택사항, areaCode가 있을 때만 적용) */
+  sigunguCode?: string;
+  /** 콘텐츠 타입 ID 목록 (선택사항, 없으면 전체 타입) */
+  contentTypeIds?: number[];
+  /** 서비스 분류 필터 (선택사항) */
+  category?: CategoryFilter;
+  /** 정렬 옵션 (기본값: relevance, 관련도순) */
+  sort?: string;
+  /** 거리 기준 좌표 (선택사항, 지정하면 결과에 거리(dist) 포함, 거리순 정렬에 사용) */
+  origin?: Coordinates;
+  /** 페이지당 항목 수 */
+  numOfRows: number;
+  /** 페이지 번호 */
+  pageNo: number;
+}
+
+/**
+ * 관광지 추천 검색어 (자동완성)
+ */
+export interface PlaceSuggestion {
+  /** 콘텐츠 ID */
+  contentId: string;
+  /** 관광지명 */
+  title: string;
+  /** 콘텐츠 타입 ID */
+  contentTypeId: string;
+  /** 지역명 (예: 서울) */
+  areaName?: string;
+  /** 관광지명 하이라이트 범위 */
+  highlights: HighlightRange[];
+}
+
+/**
+ * 지역 추천 검색어 (자동완성)
+ */
+export interface RegionSuggestion {
+  /** 지역 코드 */
+  areaCode: string;
+  /** 지역명 */
+  name: string;
+  /** 지역명 하이라이트 범위 */
+  highlights: HighlightRange[];
+}
+
+/**
+ * 자동완성 추천 결과
+ */
+export interface SearchSuggestions {
+  /** 일치하는 관광지 */
+  places: PlaceSuggestion[];
+  /** 일치하는 지역 */
+  regions: RegionSuggestion[];
+  /** 인기 검색어 */
+  popular: string[];
+}
+
+/**
+ * 저장한 검색의 새 항목 수 (/api/saved-searches/new-items 응답)
+ */
+export interface SavedSearchNewItems {
+  /** 기준 시각 이후 수정된 관광지 수 */
+  newCount: number;
+  /** 확인한 범위를 넘어 새 항목이 더 있을 수 있는지 여부 */
+  hasMore: boolean;
+}
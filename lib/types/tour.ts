@@ -6,7 +6,7 @@
  */
 
 /**
- * 관광지 목록 항목 (areaBasedList2, searchKeyword2 응답)
+ * 관광지 목록 항목 (areaBasedList2, searchKeyword2, searchFestival2 응답)
  */
 export interface TourItem {
   /** 주소 */
@@ -21,9 +21,9 @@ export interface TourItem {
   contenttypeid: string;
   /** 제목 (관광지명) */
   title: string;
-  /** 경도 (KATEC 좌표계, 정수형) */
+  /** 경도 (KATEC 좌표계, 정수형, 좌표가 없으면 빈 문자열) */
   mapx: string;
-  /** 위도 (KATEC 좌표계, 정수형) */
+  /** 위도 (KATEC 좌표계, 정수형, 좌표가 없으면 빈 문자열) */
   mapy: string;
   /** 대표이미지1 */
   firstimage?: string;
@@ -39,6 +39,34 @@ export interface TourItem {
   cat3?: string;
   /** 수정일 */
   modifiedtime: string;
+  /** 기준 좌표로부터의 거리 (미터, locationBasedList2 응답에만 포함) */
+  dist?: string;
+  /** 행사 시작일 (YYYYMMDD, searchFestival2 응답에만 포함) */
+  eventstartdate?: string;
+  /** 행사 종료일 (YYYYMMDD, searchFestival2 응답에만 포함) */
+  eventenddate?: string;
+}
+
+/**
+ * 관광지 동기화 목록 항목 (areaBasedSyncList2 응답)
+ */
+export interface TourSyncItem extends TourItem {
+  /** 시군구코드 */
+  sigungucode?: string;
+  /** 등록일 (YYYYMMDDHHmmss) */
+  createdtime?: string;
+  /** 표출 여부 ("1": 표출, "0": 비표출) */
+  showflag?: string;
+}
+
+/**
+ * 관광지 미러 항목 (검색 색인용, lib/api/tour-mirror.ts)
+ */
+export interface TourCatalogItem extends TourItem {
+  /** 시군구코드 */
+  sigungucode?: string;
+  /** 개요 (상세페이지 조회 시 미러에 저장된 경우에만 포함) */
+  overview?: string;
 }
 
 /**
@@ -92,6 +120,24 @@ export interface TourIntro {
   reservation?: string;
   /** 취소/환불 안내 */
   refund?: string;
+  /** 행사 시작일 (축제/행사, YYYYMMDD) */
+  eventstartdate?: string;
+  /** 행사 종료일 (축제/행사, YYYYMMDD) */
+  eventenddate?: string;
+  /** 행사 장소 (축제/행사) */
+  eventplace?: string;
+  /** 공연시간 (축제/행사) */
+  playtime?: string;
+  /** 이용요금 (축제/행사) */
+  usetimefestival?: string;
+  /** 코스 총거리 (여행코스) */
+  distance?: string;
+  /** 코스 총 소요시간 (여행코스) */
+  taketime?: string;
+  /** 코스 일정 (여행코스) */
+  schedule?: string;
+  /** 코스 테마 (여행코스) */
+  theme?: string;
 }
 
 /**
@@ -130,3 +176,156 @@ export interface PetTourInfo {
   parking?: string;
 }
 
+
+/**
+ * 숙박 객실 정보 원본 (detailInfo2 응답, contentTypeId=32)
+ * 요금은 숫자 문자열, 편의시설은 "Y"/"N"으로 제공됨
+ */
+export interface TourRoomItem {
+  /** 콘텐츠ID */
+  contentid: string;
+  /** 콘텐츠타입ID */
+  contenttypeid: string;
+  /** 객실코드 */
+  roomcode?: string;
+  /** 객실명칭 */
+  roomtitle?: string;
+  /** 객실크기 (평) */
+  roomsize1?: string;
+  /** 객실크기 (평방미터) */
+  roomsize2?: string;
+  /** 객실수 */
+  roomcount?: string;
+  /** 기준인원 */
+  roombasecount?: string;
+  /** 최대인원 */
+  roommaxcount?: string;
+  /** 비수기 주중 최소요금 */
+  roomoffseasonminfee1?: string;
+  /** 비수기 주말 최소요금 */
+  roomoffseasonminfee2?: string;
+  /** 성수기 주중 최소요금 */
+  roompeakseasonminfee1?: string;
+  /** 성수기 주말 최소요금 */
+  roompeakseasonminfee2?: string;
+  /** 객실소개 */
+  roomintro?: string;
+  /** 목욕시설 여부 */
+  roombathfacility?: string;
+  /** 욕조 여부 */
+  roombath?: string;
+  /** 홈시어터 여부 */
+  roomhometheater?: string;
+  /** 에어컨 여부 */
+  roomaircondition?: string;
+  /** TV 여부 */
+  roomtv?: string;
+  /** PC 여부 */
+  roompc?: string;
+  /** 케이블 설치 여부 */
+  roomcable?: string;
+  /** 인터넷 여부 */
+  roominternet?: string;
+  /** 냉장고 여부 */
+  roomrefrigerator?: string;
+  /** 세면도구 여부 */
+  roomtoiletries?: string;
+  /** 소파 여부 */
+  roomsofa?: string;
+  /** 취사용품 여부 */
+  roomcook?: string;
+  /** 테이블 여부 */
+  roomtable?: string;
+  /** 드라이기 여부 */
+  roomhairdryer?: string;
+  /** 객실사진1 */
+  roomimg1?: string;
+  /** 객실사진1 설명 */
+  roomimg1alt?: string;
+  /** 객실사진2 */
+  roomimg2?: string;
+  /** 객실사진2 설명 */
+  roomimg2alt?: string;
+}
+
+/**
+ * 요금 정보 (원, 정보가 없으면 null)
+ */
+export interface RoomFee {
+  /** 주중 최소요금 */
+  weekday: number | null;
+  /** 주말 최소요금 */
+  weekend: number | null;
+}
+
+/**
+ * 숙박 객실 정보 (detailInfo2 응답을 화면 표시용으로 변환)
+ */
+export interface RoomInfo {
+  /** 객실코드 */
+  roomCode: string;
+  /** 객실 타입 (객실명칭) */
+  roomType: string;
+  /** 객실크기 (평, 정보가 없으면 null) */
+  roomSize: number | null;
+  /** 객실수 (정보가 없으면 null) */
+  roomCount: number | null;
+  /** 기준인원 (정보가 없으면 null) */
+  baseOccupancy: number | null;
+  /** 최대인원 (정보가 없으면 null) */
+  maxOccupancy: number | null;
+  /** 비수기 요금 */
+  offSeasonFee: RoomFee;
+  /** 성수기 요금 */
+  peakSeasonFee: RoomFee;
+  /** 편의시설 목록 (한국어 라벨) */
+  amenities: string[];
+  /** 객실소개 */
+  intro?: string;
+  /** 객실 사진 목록 */
+  images: Array<{ url: string; alt: string }>;
+}
+
+/**
+ * 여행코스 세부 장소 원본 (detailInfo2 응답, contentTypeId=25)
+ */
+export interface TourCourseItem {
+  /** 콘텐츠ID (여행코스) */
+  contentid: string;
+  /** 콘텐츠타입ID */
+  contenttypeid: string;
+  /** 코스 순서 (0부터 시작) */
+  subnum?: string;
+  /** 세부 장소 콘텐츠ID */
+  subcontentid?: string;
+  /** 세부 장소명 */
+  subname?: string;
+  /** 세부 장소 개요 */
+  subdetailoverview?: string;
+  /** 세부 장소 이미지 */
+  subdetailimg?: string;
+  /** 세부 장소 이미지 설명 */
+  subdetailalt?: string;
+}
+
+/**
+ * 여행코스 경유지 (detailInfo2 응답을 화면 표시용으로 변환)
+ */
+export interface CourseStop {
+  /** 코스 순서 (1부터 시작) */
+  order: number;
+  /** 세부 장소 콘텐츠ID (상세페이지 링크용, 없으면 빈 문자열) */
+  contentId: string;
+  /** 세부 장소명 */
+  name: string;
+  /** 세부 장소 개요 */
+  overview?: string;
+  /** 세부 장소 이미지 */
+  image?: string;
+  /** 세부 장소 이미지 설명 */
+  imageAlt?: string;
+  /** 경도 (KATEC 좌표계, 세부 장소 공통 정보로 보강) */
+  mapx?: string;
+  /** 위도 (KATEC 좌표계, 세부 장소 공통 정보로 보강) */
+  mapy?: string;
+}
@@ -2,7 +2,8 @@
  * @file lib/utils/coordinates.ts
  * @description 좌표 변환 유틸리티
  *
- * KATEC 좌표계를 WGS84 좌표계로 변환하는 함수를 제공합니다.
+ * KATEC 좌표계를 WGS84 좌표계로 변환하는 함수와
+ * 기준 위치에서 관광지까지의 거리(haversine) 계산 함수를 제공합니다.
  */
 
 /**
@@ -65,3 +66,160 @@ export function tourItemToCoordinates(item: {
   return katecToWgs84(item.mapx, item.mapy);
 }
 
+/**
+ * 관광지 좌표를 지도에 표시할 수 있는 WGS84 좌표로 변환
+ *
+ * 목록 응답은 좌표가 없는 관광지도 포함하므로(lib/schemas/tour.ts),
+ * 지도/거리 계산처럼 좌표가 필요한 곳에서만 숫자로 해석합니다.
+ *
+ * @param mapx 경도 (KATEC 좌표계)
+ * @param mapy 위도 (KATEC 좌표계)
+ * @returns WGS84 좌표 (좌표가 없거나 0이거나 숫자로 해석할 수 없으면 null)
+ */
+export function parseTourCoordinates(mapx?: string, mapy?: string): Coordinates | null {
+  // 좌표가 없는 관광지는 빈 문자열 또는 0으로 내려옴
+  if (!mapx || !mapy) return null;
+
+  const x = Number(mapx);
+  const y = Number(mapy);
+  if (!Number.isFinite(x) || !Number.isFinite(y) || x === 0 || y === 0) {
+    return null;
+  }
+
+  return katecToWgs84(x, y);
+}
+
+
+/**
+ * 지구 반지름 (m, haversine 거리 계산용)
+ */
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * 두 좌표 사이의 거리 계산 (haversine 공식)
+ *
+ * @param from 출발 좌표
+ * @param to 도착 좌표
+ * @returns 직선 거리 (m)
+ *
+ * @example
+ * ```ts
+ * haversineDistance({ lng: 126.978, lat: 37.5665 }, { lng: 129.0756, lat: 35.1796 });
+ * // 약 325000 (서울시청 → 부산시청)
+ * ```
+ */
+export function haversineDistance(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degree: number) => (degree * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * 기준 위치에서 관광지까지의 거리 계산
+ *
+ * @param origin 기준 좌표
+ * @param item 관광지 (mapx, mapy)
+ * @returns 직선 거리 (m, 좌표가 없거나 유효하지 않으면 null)
+ */
+export function getTourDistance(
+  origin: Coordinates,
+  item: { mapx: string; mapy: string }
+): number | null {
+  const coordinates = parseTourCoordinates(item.mapx, item.mapy);
+  return coordinates ? haversineDistance(origin, coordinates) : null;
+}
+
+/**
+ * 관광지 목록에 기준 위치로부터의 거리(dist) 추가
+ *
+ * locationBasedList2 응답의 dist 필드와 같은 형식(m 단위 문자열)으로 채워,
+ * 거리순 정렬(lib/utils/tour-sort.ts)과 거리 뱃지를 그대로 사용할 수 있게 합니다.
+ * 원본 항목은 캐시에서 공유될 수 있으므로 복사본을 반환합니다.
+ *
+ * @param items 관광지 목록
+ * @param origin 기준 좌표
+ * @returns dist가 추가된 관광지 목록 (좌표가 없는 관광지는 dist 없음)
+ */
+export function withTourDistances<T extends { mapx: string; mapy: string; dist?: string }>(
+  items: T[],
+  origin: Coordinates
+): T[] {
+  return items.map((item) => {
+    const distance = getTourDistance(origin, item);
+    const located = { ...item };
+    if (distance === null) {
+      delete located.dist;
+    } else {
+      located.dist = Math.round(distance).toString();
+    }
+    return located;
+  });
+}
+
+/**
+ * 거리 표시 형식으로 포맷팅
+ *
+ * @param meters 거리 (m)
+ * @returns 1km 미만은 "850m", 이상은 "1.2km" (10km 이상은 "12km")
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) {
+    return `${Math.round(meters)}m`;
+  }
+  const kilometers = meters / 1000;
+  return kilometers < 10 ? `${kilometers.toFixed(1)}km` : `${Math.round(kilometers)}km`;
+}
+
+/**
+ * "위도,경도" 형식의 문자열을 WGS84 좌표로 파싱
+ *
+ * URL 쿼리 파라미터(예: `?near=37.5665,126.978`)에서 좌표를 읽을 때 사용합니다.
+ *
+ * @param value "위도,경도" 형식 문자열
+ * @returns WGS84 좌표 또는 유효하지 않으면 null
+ *
+ * @example
+ * ```ts
+ * parseLatLng("37.5665,126.978");
+ * // { lng: 126.978, lat: 37.5665 }
+ * ```
+ */
+export function parseLatLng(value?: string | null): Coordinates | null {
+  if (!value) return null;
+
+  const [latText, lngText] = value.split(",");
+  const lat = parseFloat(latText);
+  const lng = parseFloat(lngText);
+
+  if (
+    isNaN(lat) ||
+    isNaN(lng) ||
+    lat < -90 ||
+    lat > 90 ||
+    lng < -180 ||
+    lng > 180
+  ) {
+    return null;
+  }
+
+  return { lng, lat };
+}
+
+/**
+ * WGS84 좌표를 "위도,경도" 형식의 문자열로 변환 (parseLatLng의 반대)
+ *
+ * @param coords WGS84 좌표
+ * @returns "위도,경도" 형식 문자열 (소수점 6자리, 약 10cm 정밀도)
+ *
+ * @example
+ * ```ts
+ * formatLatLng({ lng: 126.978, lat: 37.5665 }); // "37.566500,126.978000"
+ * ```
+ */
+export function formatLatLng(coords: Coordinates): string {
+  return `${coords.lat.toFixed(6)},${coords.lng.toFixed(6)}`;
+}
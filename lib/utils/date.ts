@@ -85,3 +85,139 @@ export function formatRelativeTime(date: Date | string): string {
   }
 }
 
+
+/**
+ * 한국관광공사 API 날짜 형식(YYYYMMDD) 검증 정규식
+ */
+const API_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+
+/**
+ * 날짜를 한국관광공사 API 날짜 형식(YYYYMMDD)으로 변환
+ *
+ * 서버 시간대와 관계없이 한국 시간(Asia/Seoul) 기준 날짜를 사용합니다.
+ *
+ * @param date 날짜 객체 (기본값: 현재 시각)
+ * @returns YYYYMMDD 형식 문자열
+ *
+ * @example
+ * ```ts
+ * toApiDate(new Date("2024-05-01T00:00:00+09:00")) // "20240501"
+ * ```
+ */
+export function toApiDate(date: Date = new Date()): string {
+  // en-CA 로케일은 YYYY-MM-DD 형식으로 포맷팅됨
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Asia/Seoul",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  })
+    .format(date)
+    .replace(/-/g, "");
+}
+
+/**
+ * 날짜를 한국관광공사 API 일시 형식(YYYYMMDDHHmmss)으로 변환
+ *
+ * modifiedtime, createdtime과 같은 형식으로, 문자열 비교로 선후를 판단할 수 있습니다.
+ * 서버 시간대와 관계없이 한국 시간(Asia/Seoul) 기준 일시를 사용합니다.
+ *
+ * @param date 날짜 객체 (기본값: 현재 시각)
+ * @returns YYYYMMDDHHmmss 형식 문자열
+ *
+ * @example
+ * ```ts
+ * toApiDateTime(new Date("2024-05-01T09:30:00+09:00")) // "20240501093000"
+ * ```
+ */
+export function toApiDateTime(date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Asia/Seoul",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "00";
+  return `${get("year")}${get("month")}${get("day")}${get("hour")}${get("minute")}${get("second")}`;
+}
+
+/**
+ * YYYYMMDD 형식 문자열 검증
+ *
+ * @param value 검증할 문자열
+ * @returns 유효한 날짜이면 true
+ */
+export function isValidApiDate(value?: string | null): value is string {
+  const match = value?.match(API_DATE_PATTERN);
+  if (!match) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return (
+    date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+  );
+}
+
+/**
+ * YYYYMMDD 형식을 date input 값(YYYY-MM-DD)으로 변환
+ *
+ * @param value YYYYMMDD 형식 문자열
+ * @returns YYYY-MM-DD 형식 문자열 (유효하지 않으면 빈 문자열)
+ */
+export function apiDateToInputValue(value?: string | null): string {
+  if (!isValidApiDate(value)) return "";
+  return value.replace(API_DATE_PATTERN, "$1-$2-$3");
+}
+
+/**
+ * date input 값(YYYY-MM-DD)을 YYYYMMDD 형식으로 변환
+ *
+ * @param value YYYY-MM-DD 형식 문자열
+ * @returns YYYYMMDD 형식 문자열 (유효하지 않으면 빈 문자열)
+ */
+export function inputValueToApiDate(value: string): string {
+  const apiDate = value.replace(/-/g, "");
+  return isValidApiDate(apiDate) ? apiDate : "";
+}
+
+/**
+ * YYYYMMDD 형식 날짜를 짧은 표시 형식으로 포맷팅
+ *
+ * @param value YYYYMMDD 형식 문자열
+ * @returns "2024.05.01" 형식 문자열 (유효하지 않으면 원본 그대로)
+ */
+export function formatApiDate(value: string): string {
+  if (!isValidApiDate(value)) return value;
+  return value.replace(API_DATE_PATTERN, "$1.$2.$3");
+}
+
+/**
+ * 행사 기간 포맷팅
+ *
+ * @param startDate 시작일 (YYYYMMDD)
+ * @param endDate 종료일 (YYYYMMDD)
+ * @returns "2024.05.01 ~ 2024.05.05" 형식 문자열 (날짜가 없으면 null)
+ *
+ * @example
+ * ```ts
+ * formatEventPeriod("20240501", "20240505") // "2024.05.01 ~ 2024.05.05"
+ * formatEventPeriod("20240501", "20240501") // "2024.05.01"
+ * ```
+ */
+export function formatEventPeriod(
+  startDate?: string,
+  endDate?: string
+): string | null {
+  if (!startDate && !endDate) return null;
+  if (!startDate) return `~ ${formatApiDate(endDate!)}`;
+  if (!endDate || startDate === endDate) return formatApiDate(startDate);
+  return `${formatApiDate(startDate)} ~ ${formatApiDate(endDate)}`;
+}
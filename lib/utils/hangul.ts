@@ -0,0 +1,208 @@
+/**
+ * @file lib/utils/hangul.ts
+ * @description 한글 검색 유틸리티
+ *
+ * 초성 검색("ㄱㅂㄱ" → 경복궁)과 자모 단위 오타 허용 검색("경북궁" → 경복궁)에
+ * 필요한 한글 분해 함수를 제공합니다.
+ *
+ * 핵심 구현 로직:
+ * - 한글 음절(가~힣)은 유니코드 오프셋 계산으로 초성/중성/종성 분해
+ * - 겹모음/겹받침(ㅘ, ㄳ 등)은 기본 자모로 한 번 더 분해하여 입력 중인 글자도 비교 가능
+ * - 검색용 정규화 문자열은 원본 문자 위치를 함께 보관하여 하이라이트 범위 계산에 사용
+ */
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+
+const CHOSUNG = [
+  "ㄱ", "ㄲ", "ㄴ", "ㄷ", "ㄸ", "ㄹ", "ㅁ", "ㅂ", "ㅃ", "ㅅ",
+  "ㅆ", "ㅇ", "ㅈ", "ㅉ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ",
+];
+
+const JUNGSUNG = [
+  "ㅏ", "ㅐ", "ㅑ", "ㅒ", "ㅓ", "ㅔ", "ㅕ", "ㅖ", "ㅗ", "ㅘ", "ㅙ",
+  "ㅚ", "ㅛ", "ㅜ", "ㅝ", "ㅞ", "ㅟ", "ㅠ", "ㅡ", "ㅢ", "ㅣ",
+];
+
+const JONGSUNG = [
+  "", "ㄱ", "ㄲ", "ㄳ", "ㄴ", "ㄵ", "ㄶ", "ㄷ", "ㄹ", "ㄺ", "ㄻ", "ㄼ", "ㄽ", "ㄾ",
+  "ㄿ", "ㅀ", "ㅁ", "ㅂ", "ㅄ", "ㅅ", "ㅆ", "ㅇ", "ㅈ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ",
+];
+
+/**
+ * 겹모음/겹받침 → 기본 자모
+ */
+const COMPOUND_JAMO: Record<string, string> = {
+  ㅘ: "ㅗㅏ", ㅙ: "ㅗㅐ", ㅚ: "ㅗㅣ", ㅝ: "ㅜㅓ", ㅞ: "ㅜㅔ", ㅟ: "ㅜㅣ", ㅢ: "ㅡㅣ",
+  ㄳ: "ㄱㅅ", ㄵ: "ㄴㅈ", ㄶ: "ㄴㅎ", ㄺ: "ㄹㄱ", ㄻ: "ㄹㅁ", ㄼ: "ㄹㅂ", ㄽ: "ㄹㅅ",
+  ㄾ: "ㄹㅌ", ㄿ: "ㄹㅍ", ㅀ: "ㄹㅎ", ㅄ: "ㅂㅅ",
+};
+
+/**
+ * 검색에 사용하는 문자 (한글, 영문, 숫자)
+ */
+const SEARCHABLE_CHAR = /[가-힣ㄱ-ㅎㅏ-ㅣa-z0-9]/;
+
+/**
+ * 검색용 정규화 문자열 (원본 문자 위치 포함)
+ */
+export interface SearchableText {
+  /** 정규화 문자열 (공백/기호 제거, 영문 소문자) */
+  text: string;
+  /** 정규화 문자열의 각 문자에 대응하는 원본 문자 위치 */
+  positions: number[];
+}
+
+/**
+ * 자모 분해 문자열 (정규화 문자 위치 포함)
+ */
+export interface DisassembledText {
+  /** 자모 분해 문자열 */
+  jamo: string;
+  /** 자모 분해 문자열의 각 자모에 대응하는 정규화 문자 위치 */
+  positions: number[];
+}
+
+/**
+ * 한글 음절 여부
+ */
+export function isHangulSyllable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= HANGUL_START && code <= HANGUL_END;
+}
+
+/**
+ * 한글 자음(ㄱ~ㅎ) 여부
+ */
+export function isHangulConsonant(char: string): boolean {
+  return char >= "ㄱ" && char <= "ㅎ";
+}
+
+/**
+ * 초성으로만 이루어진 검색어 여부 (예: "ㄱㅂㄱ")
+ */
+export function isChosungQuery(query: string): boolean {
+  return query.length > 0 && [...query].every(isHangulConsonant);
+}
+
+/**
+ * 검색용 정규화 (공백/기호 제거, 영문 소문자, 원본 위치 보관)
+ *
+ * @param value 원본 문자열
+ * @returns 정규화 문자열과 원본 문자 위치
+ *
+ * @example
+ * ```ts
+ * toSearchableText("N 서울타워").text // "n서울타워"
+ * ```
+ */
+export function toSearchableText(value: string): SearchableText {
+  const normalized = value.normalize("NFC").toLowerCase();
+  const chars: string[] = [];
+  const positions: number[] = [];
+
+  for (let index = 0; index < normalized.length; index++) {
+    const char = normalized[index];
+    if (SEARCHABLE_CHAR.test(char)) {
+      chars.push(char);
+      positions.push(index);
+    }
+  }
+
+  return { text: chars.join(""), positions };
+}
+
+/**
+ * 초성 추출 (한글 음절은 초성으로, 그 외 문자는 그대로)
+ *
+ * @param text 정규화 문자열
+ * @returns 같은 길이의 초성 문자열
+ *
+ * @example
+ * ```ts
+ * getChosung("경복궁") // "ㄱㅂㄱ"
+ * ```
+ */
+export function getChosung(text: string): string {
+  let result = "";
+  for (const char of text) {
+    result += isHangulSyllable(char)
+      ? CHOSUNG[Math.floor((char.charCodeAt(0) - HANGUL_START) / 588)]
+      : char;
+  }
+  return result;
+}
+
+/**
+ * 자모 단위 분해 (겹모음/겹받침은 기본 자모로 분해)
+ *
+ * @param text 정규화 문자열
+ * @returns 자모 문자열과 각 자모의 문자 위치
+ *
+ * @example
+ * ```ts
+ * disassemble("과").jamo // "ㄱㅗㅏ"
+ * ```
+ */
+export function disassemble(text: string): DisassembledText {
+  let jamo = "";
+  const positions: number[] = [];
+
+  const push = (value: string, index: number) => {
+    const expanded = COMPOUND_JAMO[value] ?? value;
+    jamo += expanded;
+    for (let i = 0; i < expanded.length; i++) positions.push(index);
+  };
+
+  [...text].forEach((char, index) => {
+    if (!isHangulSyllable(char)) {
+      push(char, index);
+      return;
+    }
+    const offset = char.charCodeAt(0) - HANGUL_START;
+    push(CHOSUNG[Math.floor(offset / 588)], index);
+    push(JUNGSUNG[Math.floor((offset % 588) / 28)], index);
+    if (offset % 28 > 0) push(JONGSUNG[offset % 28], index);
+  });
+
+  return { jamo, positions };
+}
+
+/**
+ * 근사 부분 문자열 검색 (Sellers 알고리즘)
+ *
+ * pattern과 편집 거리가 가장 작은 text의 부분 문자열을 찾습니다.
+ *
+ * @param pattern 검색 패턴
+ * @param text 대상 문자열
+ * @param maxDistance 허용 편집 거리
+ * @returns 편집 거리와 일치 구간 끝 위치 (허용 거리를 넘으면 null)
+ */
+export function findApproximateMatch(
+  pattern: string,
+  text: string,
+  maxDistance: number
+): { distance: number; end: number } | null {
+  const m = pattern.length;
+  if (m === 0 || text.length === 0) return null;
+
+  // column[i]: pattern 앞 i글자와 현재 위치에서 끝나는 부분 문자열의 최소 편집 거리
+  let column = Array.from({ length: m + 1 }, (_, i) => i);
+  let best: { distance: number; end: number } | null = null;
+
+  for (let j = 0; j < text.length; j++) {
+    const next = [0];
+    for (let i = 1; i <= m; i++) {
+      const cost = pattern[i - 1] === text[j] ? 0 : 1;
+      next[i] = Math.min(column[i] + 1, next[i - 1] + 1, column[i - 1] + cost);
+    }
+    column = next;
+
+    if (column[m] <= maxDistance && (!best || column[m] < best.distance)) {
+      best = { distance: column[m], end: j };
+      if (best.distance === 0) break;
+    }
+  }
+
+  return best;
+}
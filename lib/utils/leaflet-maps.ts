@@ -0,0 +1,326 @@
+/**
+ * @file lib/utils/leaflet-maps.ts
+ * @description Leaflet 지도 유틸리티 (MapProvider 구현)
+ *
+ * 네이버 지도 클라이언트 ID가 없거나 인증/사용량 문제로 네이버 지도를 사용할 수 없을 때
+ * 대체 지도로 사용하는 Leaflet + OpenStreetMap 호환 타일 구현입니다.
+ *
+ * 핵심 구현 로직:
+ * - Leaflet 스크립트/스타일을 CDN에서 동적 로드 (패키지 의존성 없이 네이버 지도와 같은 방식)
+ * - 타일 URL/저작권 표시는 환경변수로 변경 가능 (기본값: OpenStreetMap)
+ * - 위성 지도는 지원하지 않음
+ *
+ * @dependencies
+ * - L: Leaflet (동적 로드)
+ * - @/lib/constants/map: LEAFLET_MAP_CONFIG
+ * - @/lib/types/map: MapProvider 인터페이스
+ */
+
+import { LEAFLET_MAP_CONFIG } from "@/lib/constants/map";
+import type { Coordinates } from "@/lib/utils/coordinates";
+import type { MapEventName, MapInstance, MapProvider } from "@/lib/types/map";
+
+/**
+ * Leaflet 좌표 ([위도, 경도])
+ */
+type LeafletLatLngTuple = [number, number];
+
+/**
+ * Leaflet 좌표 객체
+ */
+interface LeafletLatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Leaflet 레이어 (마커, 경로선, 타일)
+ */
+interface LeafletLayer {
+  addTo(map: LeafletMap): this;
+  remove(): this;
+}
+
+/**
+ * Leaflet 마커
+ */
+interface LeafletMarker extends LeafletLayer {
+  getLatLng(): LeafletLatLng;
+  on(event: "click", handler: () => void): this;
+}
+
+/**
+ * Leaflet 팝업 (인포윈도우)
+ */
+interface LeafletPopup {
+  setLatLng(latlng: LeafletLatLng): this;
+  setContent(content: string | HTMLElement): this;
+  openOn(map: LeafletMap): this;
+  remove(): this;
+}
+
+/**
+ * Leaflet 지도
+ */
+interface LeafletMap {
+  getCenter(): LeafletLatLng;
+  getZoom(): number;
+  getBounds(): { getNorthEast(): LeafletLatLng; getSouthWest(): LeafletLatLng };
+  panTo(latlng: LeafletLatLngTuple): this;
+  flyTo(latlng: LeafletLatLngTuple, zoom: number): this;
+  fitBounds(
+    bounds: LeafletLatLngTuple[],
+    options?: { padding?: [number, number]; maxZoom?: number }
+  ): this;
+  on(event: string, handler: () => void): this;
+  off(event: string, handler: () => void): this;
+  remove(): this;
+}
+
+/**
+ * 사용하는 Leaflet API (전역 L)
+ */
+interface LeafletNamespace {
+  map(container: HTMLElement, options: { center: LeafletLatLngTuple; zoom: number }): LeafletMap;
+  tileLayer(url: string, options: { attribution: string; maxZoom: number }): LeafletLayer;
+  marker(
+    latlng: LeafletLatLngTuple,
+    options: { title?: string; icon?: object; zIndexOffset?: number }
+  ): LeafletMarker;
+  divIcon(options: {
+    html: string;
+    className: string;
+    iconSize: [number, number];
+    iconAnchor: [number, number];
+  }): object;
+  polyline(
+    latlngs: LeafletLatLngTuple[],
+    options: { color: string; weight: number; opacity: number }
+  ): LeafletLayer;
+  popup(options: { maxWidth: number; offset: [number, number] }): LeafletPopup;
+}
+
+declare global {
+  interface Window {
+    L?: LeafletNamespace;
+  }
+}
+
+/**
+ * Leaflet 스크립트 로드 상태
+ */
+let scriptLoadPromise: Promise<void> | null = null;
+
+/**
+ * MapEventName → Leaflet 이벤트 이름
+ */
+const LEAFLET_EVENT_NAMES: Record<MapEventName, string> = {
+  idle: "moveend",
+  dragend: "dragend",
+  zoomchange: "zoomend",
+};
+
+/**
+ * Leaflet 팝업 기본 세로 위치 보정값 (팝업 꼬리 높이)
+ */
+const POPUP_TIP_OFFSET = 7;
+
+/**
+ * 기본 마커 아이콘(높이 41px, 하단 기준점)의 팝업 기준점 세로 위치
+ */
+const DEFAULT_MARKER_POPUP_ANCHOR = -34;
+
+/**
+ * Leaflet 스크립트/스타일 동적 로드
+ * 중복 로드를 방지하기 위해 Promise를 캐싱합니다.
+ *
+ * @returns Leaflet이 로드될 때까지 대기하는 Promise
+ */
+export function loadLeafletScript(): Promise<void> {
+  if (scriptLoadPromise) {
+    return scriptLoadPromise;
+  }
+
+  scriptLoadPromise = new Promise((resolve, reject) => {
+    if (typeof window === "undefined") {
+      reject(new Error("Window is not defined"));
+      return;
+    }
+
+    if (window.L) {
+      resolve();
+      return;
+    }
+
+    // 스타일 (지도 타일/마커 배치에 필요)
+    if (!document.getElementById("leaflet-style")) {
+      const style = document.createElement("link");
+      style.id = "leaflet-style";
+      style.rel = "stylesheet";
+      style.href = LEAFLET_MAP_CONFIG.styleUrl;
+      style.integrity = LEAFLET_MAP_CONFIG.styleIntegrity;
+      style.crossOrigin = "";
+      document.head.appendChild(style);
+    }
+
+    const script = document.createElement("script");
+    script.id = "leaflet-script";
+    script.src = LEAFLET_MAP_CONFIG.scriptUrl;
+    script.integrity = LEAFLET_MAP_CONFIG.scriptIntegrity;
+    script.crossOrigin = "";
+    script.async = true;
+
+    script.onload = () => {
+      if (window.L) {
+        resolve();
+      } else {
+        scriptLoadPromise = null;
+        reject(new Error("Leaflet 지도를 사용할 수 없습니다."));
+      }
+    };
+
+    script.onerror = () => {
+      scriptLoadPromise = null;
+      script.remove();
+      reject(new Error("Leaflet 지도 스크립트 로드 실패"));
+    };
+
+    document.head.appendChild(script);
+  });
+
+  return scriptLoadPromise;
+}
+
+/**
+ * WGS84 좌표를 Leaflet 좌표로 변환
+ */
+function toLatLngTuple(coords: Coordinates): LeafletLatLngTuple {
+  return [coords.lat, coords.lng];
+}
+
+/**
+ * Leaflet 좌표 객체를 WGS84 좌표로 변환
+ */
+function toCoordinates(latlng: LeafletLatLng): Coordinates {
+  return { lng: latlng.lng, lat: latlng.lat };
+}
+
+/**
+ * Leaflet 지도 생성
+ */
+function createLeafletMap(
+  container: HTMLElement,
+  options: { center: Coordinates; zoom: number }
+): MapInstance {
+  const L = window.L!;
+
+  // Leaflet 레이어(z-index 400 이상)가 지도 위 컨트롤 버튼을 가리지 않도록 쌓임 맥락 분리
+  container.style.isolation = "isolate";
+
+  const map = L.map(container, {
+    center: toLatLngTuple(options.center),
+    zoom: options.zoom,
+  });
+
+  L.tileLayer(process.env.NEXT_PUBLIC_MAP_TILE_URL || LEAFLET_MAP_CONFIG.tileUrl, {
+    attribution:
+      process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || LEAFLET_MAP_CONFIG.tileAttribution,
+    maxZoom: LEAFLET_MAP_CONFIG.maxZoom,
+  }).addTo(map);
+
+  return {
+    getCenter: () => toCoordinates(map.getCenter()),
+    getZoom: () => map.getZoom(),
+    getBounds: () => {
+      const bounds = map.getBounds();
+      return {
+        northEast: toCoordinates(bounds.getNorthEast()),
+        southWest: toCoordinates(bounds.getSouthWest()),
+      };
+    },
+    panTo: (position) => {
+      map.panTo(toLatLngTuple(position));
+    },
+    zoomTo: (position, zoom) => {
+      map.flyTo(toLatLngTuple(position), zoom);
+    },
+    fitBounds: (points, padding = 0) => {
+      if (points.length === 0) return;
+      map.fitBounds(points.map(toLatLngTuple), {
+        padding: [padding, padding],
+        maxZoom: LEAFLET_MAP_CONFIG.maxZoom - 2,
+      });
+    },
+    // 위성 지도 미지원
+    setMapType: () => {},
+    addMarker: (markerOptions) => {
+      const size = markerOptions.size ?? 32;
+      const marker = L.marker(toLatLngTuple(markerOptions.position), {
+        title: markerOptions.title,
+        zIndexOffset: markerOptions.zIndex ?? 0,
+        ...(markerOptions.html && {
+          icon: L.divIcon({
+            html: markerOptions.html,
+            className: "", // Leaflet 기본 div 아이콘 스타일(흰 배경/테두리) 제거
+            iconSize: [size, size],
+            iconAnchor: [size / 2, size / 2],
+          }),
+        }),
+      }).addTo(map);
+
+      if (markerOptions.onClick) {
+        marker.on("click", markerOptions.onClick);
+      }
+
+      // 인포윈도우가 마커 위쪽에 표시되도록 세로 위치 조정
+      const popupOffset =
+        POPUP_TIP_OFFSET + (markerOptions.html ? -size / 2 : DEFAULT_MARKER_POPUP_ANCHOR);
+
+      return {
+        getPosition: () => toCoordinates(marker.getLatLng()),
+        openInfoWindow: (content, { maxWidth = 300 } = {}) => {
+          const popup = L.popup({ maxWidth, offset: [0, popupOffset] })
+            .setLatLng(marker.getLatLng())
+            .setContent(content)
+            .openOn(map);
+          return { close: () => popup.remove() };
+        },
+        remove: () => {
+          marker.remove();
+        },
+      };
+    },
+    addPolyline: (polylineOptions) => {
+      const polyline = L.polyline(polylineOptions.path.map(toLatLngTuple), {
+        color: polylineOptions.color,
+        weight: polylineOptions.weight,
+        opacity: polylineOptions.opacity,
+      }).addTo(map);
+      return {
+        remove: () => {
+          polyline.remove();
+        },
+      };
+    },
+    on: (event, handler) => {
+      const eventName = LEAFLET_EVENT_NAMES[event];
+      map.on(eventName, handler);
+      return () => {
+        map.off(eventName, handler);
+      };
+    },
+    destroy: () => {
+      map.remove();
+    },
+  };
+}
+
+/**
+ * Leaflet 지도 제공자
+ */
+export const leafletMapProvider: MapProvider = {
+  name: "leaflet",
+  supportsSatellite: false,
+  load: loadLeafletScript,
+  createMap: createLeafletMap,
+};
@@ -0,0 +1,68 @@
+/**
+ * @file lib/utils/map-provider.ts
+ * @description 지도 제공자 선택 유틸리티
+ *
+ * 환경변수(NEXT_PUBLIC_MAP_PROVIDER)에 따라 지도 제공자를 선택하고 로드합니다.
+ * - naver: 네이버 지도만 사용 (로드 실패 시 에러)
+ * - leaflet: Leaflet + OpenStreetMap 호환 타일만 사용
+ * - auto (기본값): 네이버 지도를 우선 사용하고, 클라이언트 ID가 없거나
+ *   스크립트 로드/인증에 실패하면 Leaflet으로 대체
+ *
+ * @dependencies
+ * - @/lib/utils/naver-maps: naverMapProvider
+ * - @/lib/utils/leaflet-maps: leafletMapProvider
+ */
+
+import { isNaverMapsAuthFailed, naverMapProvider } from "@/lib/utils/naver-maps";
+import { leafletMapProvider } from "@/lib/utils/leaflet-maps";
+import type { MapProvider, MapProviderName } from "@/lib/types/map";
+
+/**
+ * 지도 제공자 설정 값
+ */
+export type MapProviderSetting = MapProviderName | "auto";
+
+/**
+ * 지도 제공자 설정 조회 (알 수 없는 값이면 auto)
+ */
+export function getMapProviderSetting(): MapProviderSetting {
+  const setting = process.env.NEXT_PUBLIC_MAP_PROVIDER;
+  return setting === "naver" || setting === "leaflet" ? setting : "auto";
+}
+
+/**
+ * 지도 제공자 로드
+ *
+ * @returns 스크립트 로드가 끝난 지도 제공자
+ * @throws 지정한 지도 제공자(또는 대체 지도)를 로드할 수 없는 경우
+ *
+ * @example
+ * ```ts
+ * const provider = await loadMapProvider();
+ * const map = provider.createMap(container, { center, zoom: 15 });
+ * ```
+ */
+export async function loadMapProvider(): Promise<MapProvider> {
+  const setting = getMapProviderSetting();
+
+  if (setting === "naver") {
+    await naverMapProvider.load();
+    return naverMapProvider;
+  }
+
+  if (
+    setting === "auto" &&
+    process.env.NEXT_PUBLIC_NAVER_MAP_CLIENT_ID &&
+    !isNaverMapsAuthFailed()
+  ) {
+    try {
+      await naverMapProvider.load();
+      return naverMapProvider;
+    } catch (error) {
+      console.warn("네이버 지도를 불러올 수 없어 Leaflet 지도로 대체합니다:", error);
+    }
+  }
+
+  await leafletMapProvider.load();
+  return leafletMapProvider;
+}
@@ -0,0 +1,101 @@
+/**
+ * @file lib/utils/marker-cluster.ts
+ * @description 지도 마커 클러스터링 유틸리티
+ *
+ * 줌 레벨에 따라 화면에서 가까운 마커를 하나의 클러스터로 묶습니다.
+ * 네이버 지도 API에 의존하지 않는 순수 함수로, 지도 컴포넌트(components/naver-map.tsx)에서 사용합니다.
+ *
+ * 핵심 구현 로직:
+ * - 좌표를 웹 메르카토르 투영으로 줌 레벨별 월드 픽셀 좌표로 변환
+ * - 먼저 만든 클러스터 기준점에서 gridSize 픽셀 이내인 마커를 같은 클러스터로 묶음
+ * - maxZoom보다 확대한 경우 클러스터링하지 않음 (마커마다 클러스터 1개)
+ */
+
+import type { Coordinates } from "@/lib/utils/coordinates";
+
+/**
+ * 지도 타일 크기 (px, 줌 레벨 0에서 전 세계 너비)
+ */
+const TILE_SIZE = 256;
+
+/**
+ * 마커 클러스터
+ */
+export interface MarkerCluster<T> {
+  /** 클러스터 중심 좌표 (포함된 마커 좌표의 평균) */
+  center: Coordinates;
+  /** 클러스터에 포함된 마커 */
+  points: T[];
+}
+
+/**
+ * 클러스터링 옵션
+ */
+export interface MarkerClusterOptions {
+  /** 같은 클러스터로 묶는 화면 거리 (px) */
+  gridSize: number;
+  /** 이 줌 레벨보다 확대하면 클러스터링하지 않음 */
+  maxZoom: number;
+}
+
+/**
+ * WGS84 좌표를 줌 레벨별 월드 픽셀 좌표로 변환 (웹 메르카토르)
+ */
+function toWorldPixel(coords: Coordinates, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  // 극지방에서 무한대가 되지 않도록 위도 제한
+  const sinLat = Math.min(Math.max(Math.sin((coords.lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((coords.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * 줌 레벨 기준 마커 클러스터링
+ *
+ * 입력 순서대로 처리하므로 같은 목록과 줌 레벨이면 항상 같은 클러스터가 만들어집니다.
+ *
+ * @param points 좌표를 가진 마커 목록
+ * @param zoom 현재 지도 줌 레벨
+ * @param options 클러스터링 옵션
+ * @returns 클러스터 목록 (마커가 1개인 클러스터 포함)
+ *
+ * @example
+ * ```ts
+ * const clusters = clusterPoints(tourCoordinates, map.getZoom(), MARKER_CLUSTER_CONFIG);
+ * clusters.filter((cluster) => cluster.points.length > 1); // 묶인 마커
+ * ```
+ */
+export function clusterPoints<T extends { coords: Coordinates }>(
+  points: T[],
+  zoom: number,
+  options: MarkerClusterOptions
+): MarkerCluster<T>[] {
+  if (zoom > options.maxZoom) {
+    return points.map((point) => ({ center: point.coords, points: [point] }));
+  }
+
+  const groups: { anchor: { x: number; y: number }; points: T[] }[] = [];
+  for (const point of points) {
+    const pixel = toWorldPixel(point.coords, zoom);
+    const group = groups.find(
+      ({ anchor }) =>
+        Math.abs(anchor.x - pixel.x) <= options.gridSize &&
+        Math.abs(anchor.y - pixel.y) <= options.gridSize
+    );
+    if (group) {
+      group.points.push(point);
+    } else {
+      groups.push({ anchor: pixel, points: [point] });
+    }
+  }
+
+  return groups.map(({ points: grouped }) => ({
+    center: {
+      lng: grouped.reduce((sum, { coords }) => sum + coords.lng, 0) / grouped.length,
+      lat: grouped.reduce((sum, { coords }) => sum + coords.lat, 0) / grouped.length,
+    },
+    points: grouped,
+  }));
+}
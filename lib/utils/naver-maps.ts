@@ -1,17 +1,29 @@
 /**
  * @file lib/utils/naver-maps.ts
- * @description 네이버 지도 API 유틸리티
+ * @description 네이버 지도 API 유틸리티 (MapProvider 구현)
  *
- * 네이버 지도 API 스크립트를 동적으로 로드하는 함수를 제공합니다.
- * 여러 컴포넌트에서 재사용할 수 있도록 유틸리티로 분리했습니다.
+ * 네이버 지도 API 스크립트를 동적으로 로드하고,
+ * 지도 컴포넌트가 사용하는 MapProvider 인터페이스를 네이버 지도 API v3로 구현합니다.
+ *
+ * 핵심 구현 로직:
+ * - 스크립트 로드 Promise를 캐싱하여 여러 지도 컴포넌트에서 중복 로드 방지
+ * - 클라이언트 ID가 없으면 로드 실패 처리 (lib/utils/map-provider.ts가 Leaflet으로 대체)
+ * - 인증 실패(navermap_authFailure, 잘못된 키/사용량 초과) 시 구독자에게 알림
+ *
+ * @dependencies
+ * - naver.maps: 네이버 지도 API (동적 로드)
+ * - @/lib/types/map: MapProvider 인터페이스
  */
 
-import { getEnv } from "@/lib/env";
+import type { Coordinates } from "@/lib/utils/coordinates";
+import type { MapEventName, MapInstance, MapProvider } from "@/lib/types/map";
 
 // Naver Maps API 타입 정의
 declare global {
   interface Window {
     naver?: typeof naver;
+    /** 네이버 지도 API 인증 실패 시 API가 호출하는 전역 함수 */
+    navermap_authFailure?: () => void;
   }
 }
 
@@ -20,6 +32,44 @@ declare global {
  */
 let scriptLoadPromise: Promise<void> | null = null;
 
+/**
+ * 네이버 지도 API 인증 실패 여부
+ */
+let isAuthFailed = false;
+
+/**
+ * 인증 실패 구독자
+ */
+const authFailureListeners = new Set<() => void>();
+
+/**
+ * MapEventName → 네이버 지도 이벤트 이름
+ */
+const NAVER_EVENT_NAMES: Record<MapEventName, string> = {
+  idle: "idle",
+  dragend: "dragend",
+  zoomchange: "zoom_changed",
+};
+
+/**
+ * 네이버 지도 API 로드 완료 대기 (10초 타임아웃)
+ */
+function waitForNaverMaps(resolve: () => void, reject: (error: Error) => void): void {
+  const checkNaver = setInterval(() => {
+    if (window.naver?.maps) {
+      clearInterval(checkNaver);
+      resolve();
+    }
+  }, 100);
+
+  setTimeout(() => {
+    clearInterval(checkNaver);
+    if (!window.naver?.maps) {
+      reject(new Error("네이버 지도 API 로드 타임아웃"));
+    }
+  }, 10000);
+}
+
 /**
  * 네이버 지도 API 스크립트 동적 로드
  * 중복 로드를 방지하기 위해 Promise를 캐싱합니다.
@@ -45,29 +95,32 @@ export function loadNaverMapsScript(): Promise<void> {
       return;
     }
 
-    const clientId = getEnv("NEXT_PUBLIC_NAVER_MAP_CLIENT_ID");
+    // 네이버 지도 클라이언트 ID 가져오기 (선택사항)
+    const clientId = process.env.NEXT_PUBLIC_NAVER_MAP_CLIENT_ID;
+    if (!clientId) {
+      scriptLoadPromise = null;
+      reject(
+        new Error(
+          "NEXT_PUBLIC_NAVER_MAP_CLIENT_ID 환경변수가 설정되지 않았습니다."
+        )
+      );
+      return;
+    }
     const scriptId = "naver-maps-script";
 
-    // 이미 스크립트가 존재하는 경우
+    // 이미 스크립트가 존재하는 경우 로드 완료 대기
     if (document.getElementById(scriptId)) {
-      // 스크립트 로드 완료 대기
-      const checkNaver = setInterval(() => {
-        if (window.naver?.maps) {
-          clearInterval(checkNaver);
-          resolve();
-        }
-      }, 100);
-
-      // 타임아웃 (10초)
-      setTimeout(() => {
-        clearInterval(checkNaver);
-        if (!window.naver?.maps) {
-          reject(new Error("네이버 지도 API 로드 타임아웃"));
-        }
-      }, 10000);
+      waitForNaverMaps(resolve, reject);
       return;
     }
 
+    // 인증 실패 알림 (잘못된 클라이언트 ID, 사용량 초과 등)
+    window.navermap_authFailure = () => {
+      isAuthFailed = true;
+      console.error("네이버 지도 API 인증에 실패했습니다.");
+      authFailureListeners.forEach((listener) => listener());
+    };
+
     // 스크립트 생성 및 추가
     const script = document.createElement("script");
     script.id = scriptId;
@@ -75,23 +128,7 @@ export function loadNaverMapsScript(): Promise<void> {
     script.async = true;
     script.defer = true;
 
-    script.onload = () => {
-      // 네이버 지도 API가 로드될 때까지 대기
-      const checkNaver = setInterval(() => {
-        if (window.naver?.maps) {
-          clearInterval(checkNaver);
-          resolve();
-        }
-      }, 100);
-
-      // 타임아웃 (10초)
-      setTimeout(() => {
-        clearInterval(checkNaver);
-        if (!window.naver?.maps) {
-          reject(new Error("네이버 지도 API 로드 타임아웃"));
-        }
-      }, 10000);
-    };
+    script.onload = () => waitForNaverMaps(resolve, reject);
 
     script.onerror = () => {
       scriptLoadPromise = null;
@@ -104,3 +141,146 @@ export function loadNaverMapsScript(): Promise<void> {
   return scriptLoadPromise;
 }
 
+/**
+ * 네이버 지도 API 인증 실패 여부
+ */
+export function isNaverMapsAuthFailed(): boolean {
+  return isAuthFailed;
+}
+
+/**
+ * 네이버 지도 API 인증 실패 구독
+ *
+ * @param listener 인증 실패 시 호출할 함수
+ * @returns 구독 해제 함수
+ */
+export function onNaverMapsAuthFailure(listener: () => void): () => void {
+  authFailureListeners.add(listener);
+  return () => {
+    authFailureListeners.delete(listener);
+  };
+}
+
+/**
+ * 네이버 지도 좌표 객체(LatLng, Point)를 WGS84 좌표로 변환
+ */
+function toCoordinates(point: { x: number; y: number }): Coordinates {
+  return { lng: point.x, lat: point.y };
+}
+
+/**
+ * 네이버 지도 생성
+ */
+function createNaverMap(
+  container: HTMLElement,
+  options: { center: Coordinates; zoom: number }
+): MapInstance {
+  const maps = window.naver!.maps;
+  const toLatLng = (coords: Coordinates) => new maps.LatLng(coords.lat, coords.lng);
+
+  const map = new maps.Map(container, {
+    center: toLatLng(options.center),
+    zoom: options.zoom,
+    mapTypeControl: false, // 기본 컨트롤 비활성화 (커스텀 컨트롤 사용)
+  });
+  // 지도 정리 여부 (정리 후 마커/인포윈도우 제거 요청은 무시)
+  let isDestroyed = false;
+
+  return {
+    getCenter: () => toCoordinates(map.getCenter()),
+    getZoom: () => map.getZoom(),
+    getBounds: () => {
+      const bounds = map.getBounds();
+      return {
+        northEast: toCoordinates(bounds.getNE()),
+        southWest: toCoordinates(bounds.getSW()),
+      };
+    },
+    panTo: (position) => map.panTo(toLatLng(position)),
+    zoomTo: (position, zoom) => map.morph(toLatLng(position), zoom),
+    fitBounds: (points, padding = 0) => {
+      if (points.length === 0) return;
+      const bounds = new maps.LatLngBounds(toLatLng(points[0]), toLatLng(points[0]));
+      points.forEach((point) => bounds.extend(toLatLng(point)));
+      map.fitBounds(bounds, { top: padding, right: padding, bottom: padding, left: padding });
+    },
+    setMapType: (type) =>
+      map.setMapTypeId(type === "satellite" ? maps.MapTypeId.SATELLITE : maps.MapTypeId.NORMAL),
+    addMarker: (markerOptions) => {
+      const size = markerOptions.size ?? 32;
+      const marker = new maps.Marker({
+        position: toLatLng(markerOptions.position),
+        map,
+        title: markerOptions.title,
+        zIndex: markerOptions.zIndex,
+        ...(markerOptions.html && {
+          icon: {
+            content: markerOptions.html,
+            anchor: new maps.Point(size / 2, size / 2),
+          },
+        }),
+      });
+
+      if (markerOptions.onClick) {
+        maps.Event.addListener(marker, "click", markerOptions.onClick);
+      }
+
+      return {
+        getPosition: () => toCoordinates(marker.getPosition()),
+        openInfoWindow: (content, { maxWidth = 300 } = {}) => {
+          const infoWindow = new maps.InfoWindow({
+            content,
+            maxWidth,
+            backgroundColor: "white",
+            borderColor: "#e5e7eb",
+            borderWidth: 1,
+            anchorSize: { width: 10, height: 10 },
+            pixelOffset: { width: 0, height: -10 },
+          });
+          infoWindow.open(map, marker);
+          return {
+            close: () => {
+              if (!isDestroyed) infoWindow.close();
+            },
+          };
+        },
+        remove: () => {
+          if (!isDestroyed) marker.setMap(null);
+        },
+      };
+    },
+    addPolyline: (polylineOptions) => {
+      const polyline = new maps.Polyline({
+        map,
+        path: polylineOptions.path.map(toLatLng),
+        strokeColor: polylineOptions.color,
+        strokeWeight: polylineOptions.weight,
+        strokeOpacity: polylineOptions.opacity,
+        strokeLineJoin: "round",
+      });
+      return {
+        remove: () => {
+          if (!isDestroyed) polyline.setMap(null);
+        },
+      };
+    },
+    on: (event, handler) => {
+      const listener = maps.Event.addListener(map, NAVER_EVENT_NAMES[event], handler);
+      return () => maps.Event.removeListener(listener);
+    },
+    destroy: () => {
+      isDestroyed = true;
+      map.destroy();
+    },
+  };
+}
+
+/**
+ * 네이버 지도 제공자
+ */
+export const naverMapProvider: MapProvider = {
+  name: "naver",
+  supportsSatellite: true,
+  load: loadNaverMapsScript,
+  createMap: createNaverMap,
+};
@@ -0,0 +1,101 @@
+/**
+ * @file lib/utils/rate-limit.ts
+ * @description 클라이언트별 요청 제한 유틸리티
+ *
+ * 고정 구간(fixed window) 방식으로 키(클라이언트 IP 등)별 요청 수를 제한합니다.
+ * 서버 인스턴스 메모리에 기록하므로 인스턴스별로 제한이 적용됩니다.
+ */
+
+/**
+ * 요청 제한 옵션
+ */
+export interface RateLimitOptions {
+  /** 구간당 최대 요청 수 */
+  maxRequests: number;
+  /** 제한 구간 (ms) */
+  windowMs: number;
+}
+
+/**
+ * 요청 제한 확인 결과
+ */
+export interface RateLimitResult {
+  /** 요청 허용 여부 */
+  allowed: boolean;
+  /** 현재 구간의 남은 요청 수 */
+  remaining: number;
+  /** 다음 구간까지 남은 시간 (초) */
+  retryAfter: number;
+}
+
+/**
+ * 키별 요청 기록
+ */
+interface RateLimitEntry {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * 요청 제한기 생성
+ *
+ * @param options 요청 제한 옵션
+ * @returns 키별 요청 제한 확인 함수
+ */
+export function createRateLimiter(options: RateLimitOptions) {
+  const { maxRequests, windowMs } = options;
+  const entries = new Map<string, RateLimitEntry>();
+
+  /**
+   * 만료된 기록 정리 (기록이 계속 쌓이지 않도록 확인 시마다 수행)
+   */
+  const prune = (now: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.resetAt <= now) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  return function checkRateLimit(key: string): RateLimitResult {
+    const now = Date.now();
+    prune(now);
+
+    const entry = entries.get(key) ?? { count: 0, resetAt: now + windowMs };
+    entry.count++;
+    entries.set(key, entry);
+
+    return {
+      allowed: entry.count <= maxRequests,
+      remaining: Math.max(0, maxRequests - entry.count),
+      retryAfter: Math.ceil((entry.resetAt - now) / 1000),
+    };
+  };
+}
+
+/**
+ * 요청 헤더에서 클라이언트 식별자(IP) 추출
+ *
+ * x-forwarded-for의 앞쪽 주소는 클라이언트가 임의로 보낼 수 있으므로 사용하지 않습니다.
+ * 배포 플랫폼(Vercel 등)이나 신뢰할 수 있는 프록시가 설정한 x-real-ip를 우선 사용하고,
+ * 없으면 가장 가까운 프록시가 추가한 x-forwarded-for의 마지막 주소를 사용합니다.
+ *
+ * @param headers 요청 헤더
+ * @returns 클라이언트 IP (확인할 수 없으면 "unknown")
+ */
+export function getClientKey(headers: Headers): string {
+  const realIp = headers.get("x-real-ip")?.trim();
+  if (realIp) {
+    return realIp;
+  }
+
+  const forwardedFor = headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwardedFor && forwardedFor.length > 0) {
+    return forwardedFor[forwardedFor.length - 1];
+  }
+  return "unknown";
+}
@@ -0,0 +1,121 @@
+/**
+ * @file lib/utils/route.ts
+ * @description 여러 장소 경로(길찾기) 유틸리티
+ *
+ * 순서대로 고른 장소 목록을 구간별 직선 거리로 계산하고,
+ * 내비게이션 앱에서 열 수 있도록 네이버 지도/카카오맵 링크와 GPX 파일로 변환합니다.
+ *
+ * 핵심 구현 로직:
+ * - 구간 거리는 도로 거리가 아닌 직선 거리 (haversineDistance)
+ * - 네이버 지도: 웹은 /v5/directions/{출발}/{도착}/{경유지}/car, 앱은 nmap://route/car (경유지 v1~v5)
+ * - 카카오맵: /link/by/car/{이름},{위도},{경도}/... (출발, 경유지, 도착 순서)
+ * - GPX 1.1 경로(rte) 형식 (장소명 XML 이스케이프)
+ *
+ * @dependencies
+ * - @/lib/utils/coordinates: haversineDistance
+ */
+
+import { haversineDistance } from "@/lib/utils/coordinates";
+import type { RouteLeg, RouteStop } from "@/lib/types/route";
+
+/**
+ * 경로 구간 목록 (이웃한 장소 사이 직선 거리)
+ */
+export function getRouteLegs(stops: RouteStop[]): RouteLeg[] {
+  return stops.slice(1).map((to, index) => {
+    const from = stops[index];
+    return { from, to, distance: haversineDistance(from.position, to.position) };
+  });
+}
+
+/**
+ * 경로 전체 직선 거리 (m)
+ */
+export function getRouteDistance(legs: RouteLeg[]): number {
+  return legs.reduce((total, leg) => total + leg.distance, 0);
+}
+
+/**
+ * 네이버 지도 웹 길찾기 URL
+ *
+ * @example
+ * ```ts
+ * buildNaverRouteUrl(stops);
+ * // https://map.naver.com/v5/directions/126.97,37.57,경복궁/129.16,35.16,해운대/127.38,36.35,엑스포공원/car
+ * ```
+ */
+export function buildNaverRouteUrl(stops: RouteStop[]): string {
+  const toPoint = ({ position, title }: RouteStop) =>
+    `${position.lng},${position.lat},${encodeURIComponent(title)}`;
+  const start = stops[0];
+  const goal = stops[stops.length - 1];
+  const waypoints = stops.slice(1, -1).map(toPoint).join(":") || "-";
+  return `https://map.naver.com/v5/directions/${toPoint(start)}/${toPoint(goal)}/${waypoints}/car`;
+}
+
+/**
+ * 네이버 지도 앱 길찾기 URL (모바일)
+ */
+export function buildNaverAppRouteUrl(stops: RouteStop[]): string {
+  const params = new URLSearchParams();
+  const setPoint = (prefix: string, { position, title }: RouteStop) => {
+    params.set(`${prefix}lat`, String(position.lat));
+    params.set(`${prefix}lng`, String(position.lng));
+    params.set(`${prefix}name`, title);
+  };
+
+  setPoint("s", stops[0]);
+  stops.slice(1, -1).forEach((stop, index) => setPoint(`v${index + 1}`, stop));
+  setPoint("d", stops[stops.length - 1]);
+  return `nmap://route/car?${params.toString()}`;
+}
+
+/**
+ * 카카오맵 길찾기 URL
+ */
+export function buildKakaoRouteUrl(stops: RouteStop[]): string {
+  const points = stops.map(
+    ({ position, title }) => `${encodeURIComponent(title)},${position.lat},${position.lng}`
+  );
+  return `https://map.kakao.com/link/by/car/${points.join("/")}`;
+}
+
+/**
+ * XML 특수문자 이스케이프
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * GPX 1.1 경로 파일 내용 생성
+ *
+ * @param stops 경로 장소 목록 (순서대로)
+ * @param name 경로 이름
+ */
+export function buildRouteGpx(stops: RouteStop[], name: string): string {
+  const points = stops
+    .map(
+      ({ position, title }) =>
+        `    <rtept lat="${position.lat.toFixed(6)}" lon="${position.lng.toFixed(6)}">\n` +
+        `      <name>${escapeXml(title)}</name>\n` +
+        `    </rtept>`
+    )
+    .join("\n");
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="My Trip" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <rte>`,
+    `    <name>${escapeXml(name)}</name>`,
+    points,
+    `  </rte>`,
+    `</gpx>`,
+    ``,
+  ].join("\n");
+}
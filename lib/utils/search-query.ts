@@ -0,0 +1,90 @@
+/**
+ * @file lib/utils/search-query.ts
+ * @description 검색 조건(URL 쿼리) 유틸리티
+ *
+ * 홈페이지 필터(TourFilters) 상태는 URL 쿼리 파라미터로 관리됩니다.
+ * 검색 기록과 저장한 검색은 이 쿼리를 정규화한 문자열로 저장하여,
+ * 같은 조건이면 파라미터 순서와 관계없이 같은 문자열이 되도록 합니다.
+ */
+
+import { getContentTypeNameById } from "@/lib/constants/tour-types";
+
+/**
+ * 검색 조건에 포함하는 쿼리 파라미터 (pageNo 등 화면 상태는 제외)
+ */
+const SEARCH_QUERY_KEYS = [
+  "keyword",
+  "areaCode",
+  "sigunguCode",
+  "contentTypeId",
+  "cat1",
+  "cat2",
+  "cat3",
+  "pet",
+  "petSize",
+  "sort",
+  "near",
+  "radius",
+  "mapArea",
+  "festival",
+  "eventStartDate",
+  "eventEndDate",
+] as const;
+
+/**
+ * 검색 조건 정규화 (검색 조건 파라미터만 키 이름순으로 정렬)
+ *
+ * @param params URL 쿼리 파라미터
+ * @returns 정규화한 쿼리 문자열 (검색 조건이 없으면 빈 문자열)
+ *
+ * @example
+ * ```ts
+ * toSearchQuery(new URLSearchParams("pageNo=2&pet=true&areaCode=6"))
+ * // "areaCode=6&pet=true"
+ * ```
+ */
+export function toSearchQuery(params: URLSearchParams): string {
+  const normalized = new URLSearchParams();
+  for (const key of [...SEARCH_QUERY_KEYS].sort()) {
+    const value = params.get(key)?.trim();
+    if (value) normalized.set(key, value);
+  }
+  return normalized.toString();
+}
+
+/**
+ * 검색 조건 기본 이름 생성 (예: "부산 + 음식점 + 반려동물")
+ *
+ * @param query 정규화한 쿼리 문자열
+ * @param areaNames 지역 코드 → 지역명 (없으면 지역은 이름에서 제외)
+ * @returns 검색 조건 이름
+ */
+export function getSearchQueryLabel(
+  query: string,
+  areaNames: Map<string, string> = new Map()
+): string {
+  const params = new URLSearchParams(query);
+  const labels: string[] = [];
+
+  const keyword = params.get("keyword");
+  if (keyword) labels.push(`"${keyword}"`);
+
+  if (params.get("near")) {
+    labels.push(params.get("mapArea") === "true" ? "지도 영역" : "내 주변");
+  } else {
+    // 지역을 선택하지 않으면 홈페이지 기본 지역(서울, areaCode: "1"), 축제/행사는 전체 지역
+    const defaultAreaCode = params.get("festival") === "true" ? "" : "1";
+    const areaName = areaNames.get(params.get("areaCode") || defaultAreaCode);
+    if (areaName) labels.push(areaName);
+  }
+
+  for (const typeId of (params.get("contentTypeId") ?? "").split(",")) {
+    const typeName = typeId ? getContentTypeNameById(typeId) : undefined;
+    if (typeName) labels.push(typeName);
+  }
+
+  if (params.get("pet") === "true") labels.push("반려동물");
+  if (params.get("festival") === "true") labels.push("축제/행사");
+
+  return labels.length > 0 ? labels.join(" + ") : "관광지";
+}
@@ -0,0 +1,107 @@
+/**
+ * @file lib/utils/tour-sort.ts
+ * @description 관광지 목록 정렬 유틸리티
+ *
+ * 홈페이지 목록과 서버 사이드 필터 파이프라인에서 동일한 정렬 기준을
+ * 사용할 수 있도록 정렬 로직을 분리했습니다.
+ */
+
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * 정렬 옵션 타입
+ * - modifiedtime: 최신순 (modifiedtime DESC)
+ * - title: 이름순 (title ASC, 가나다순)
+ * - dist: 가까운순 (locationBasedList2의 dist ASC)
+ * - eventstart: 행사 시작일순 (searchFestival2의 eventstartdate ASC)
+ * - relevance: 관련도순 (검색 결과의 검색어 일치 점수순, lib/api/search-api.ts에서 정렬)
+ */
+export type TourSortOption =
+  | "modifiedtime"
+  | "title"
+  | "dist"
+  | "eventstart"
+  | "relevance";
+
+/**
+ * 정렬 옵션별 한국관광공사 API arrange 값
+ * - A: 제목순, C: 수정일순, E: 거리순 (locationBasedList2 전용)
+ *
+ * 행사 시작일순은 API가 지원하지 않으므로 매핑이 없습니다.
+ */
+const TOUR_SORT_ARRANGE: Partial<Record<TourSortOption, string>> = {
+  modifiedtime: "C",
+  title: "A",
+  dist: "E",
+};
+
+/**
+ * 정렬 옵션에 맞는 API arrange 값 반환
+ *
+ * 목록 API가 같은 기준으로 정렬된 결과를 반환하도록 하여,
+ * 여러 타입의 목록을 병합할 때 페이지 경계가 정렬 순서와 어긋나지 않게 합니다.
+ *
+ * @param sort 정렬 옵션
+ * @returns arrange 파라미터 값 (지원하지 않는 정렬이면 undefined)
+ */
+export function getTourSortArrange(sort: string): string | undefined {
+  return TOUR_SORT_ARRANGE[sort as TourSortOption];
+}
+
+/**
+ * 정렬 옵션에 맞는 비교 함수 반환
+ *
+ * @param sort 정렬 옵션
+ * @returns Array.prototype.sort에 사용할 비교 함수
+ */
+export function getTourComparator(
+  sort: string
+): (a: TourItem, b: TourItem) => number {
+  if (sort === "title") {
+    // 이름순 정렬 (가나다순)
+    return (a, b) => a.title.localeCompare(b.title, "ko");
+  }
+
+  if (sort === "dist") {
+    // 가까운순 정렬 (dist가 없는 항목은 뒤로)
+    return (a, b) => {
+      const distA = a.dist ? parseFloat(a.dist) : Number.MAX_SAFE_INTEGER;
+      const distB = b.dist ? parseFloat(b.dist) : Number.MAX_SAFE_INTEGER;
+      return distA - distB;
+    };
+  }
+
+  if (sort === "relevance") {
+    // 관련도순은 검색 서비스가 정렬한 순서를 유지 (Array.prototype.sort는 안정 정렬)
+    return () => 0;
+  }
+
+  if (sort === "eventstart") {
+    // 행사 시작일순 정렬 (시작일이 같으면 먼저 끝나는 행사 우선, 날짜가 없는 항목은 뒤로)
+    return (a, b) => {
+      const startA = a.eventstartdate || "99999999";
+      const startB = b.eventstartdate || "99999999";
+      if (startA !== startB) {
+        return startA.localeCompare(startB);
+      }
+      return (a.eventenddate || "99999999").localeCompare(
+        b.eventenddate || "99999999"
+      );
+    };
+  }
+
+  // 최신순 정렬 (modifiedtime DESC)
+  // modifiedtime은 YYYYMMDDHHmmss 형식이라 Date로 파싱할 수 없으므로 문자열로 비교
+  return (a, b) => (b.modifiedtime || "").localeCompare(a.modifiedtime || "");
+}
+
+/**
+ * 관광지 목록 정렬 (원본 배열을 변경합니다)
+ *
+ * @param tours 관광지 목록
+ * @param sort 정렬 옵션
+ * @returns 정렬된 관광지 목록 (원본과 동일한 배열)
+ */
+export function sortTours(tours: TourItem[], sort: string): TourItem[] {
+  return tours.sort(getTourComparator(sort));
+}
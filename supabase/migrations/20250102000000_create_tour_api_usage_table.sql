@@ -0,0 +1,71 @@
+-- =====================================================
+-- 마이그레이션: tour_api_usage 테이블 생성
+-- 작성일: 2025-01-02
+-- 설명: 한국관광공사 API(KorService2) 일일 호출 수 집계
+--       - 오퍼레이션별/일자별(한국 시간 기준) 호출 수 기록
+--       - 서버 인스턴스가 여러 개여도 같은 일일 한도를 공유
+--       - lib/api/tour-quota.ts에서 Service Role로만 접근
+-- =====================================================
+
+-- =====================================================
+-- tour_api_usage 테이블
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.tour_api_usage (
+    usage_date DATE NOT NULL,
+    operation TEXT NOT NULL,
+    call_count INTEGER DEFAULT 0 NOT NULL CHECK (call_count >= 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    PRIMARY KEY (usage_date, operation)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_api_usage OWNER TO postgres;
+
+-- Row Level Security (RLS) 활성화 (정책 없음: Service Role만 접근 가능)
+ALTER TABLE public.tour_api_usage ENABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.tour_api_usage TO service_role;
+
+-- =====================================================
+-- 호출 수 누적 함수 (동시 요청에도 원자적으로 증가)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.increment_tour_api_usage(
+    p_usage_date DATE,
+    p_operation TEXT,
+    p_count INTEGER
+)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    INSERT INTO public.tour_api_usage (usage_date, operation, call_count, updated_at)
+    VALUES (p_usage_date, p_operation, p_count, now())
+    ON CONFLICT (usage_date, operation)
+    DO UPDATE SET
+        call_count = public.tour_api_usage.call_count + EXCLUDED.call_count,
+        updated_at = now()
+    RETURNING call_count;
+$$;
+
+REVOKE ALL ON FUNCTION public.increment_tour_api_usage(DATE, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.increment_tour_api_usage(DATE, TEXT, INTEGER) TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_api_usage IS '한국관광공사 API 일일 호출 수 - 오퍼레이션별 집계';
+COMMENT ON COLUMN public.tour_api_usage.usage_date IS '호출 일자 (한국 시간 기준, API 일일 한도 초기화 기준과 동일)';
+COMMENT ON COLUMN public.tour_api_usage.operation IS 'API 오퍼레이션명 (예: areaBasedList2)';
+COMMENT ON COLUMN public.tour_api_usage.call_count IS '호출 수 (재시도 포함)';
+
+-- 완료 메시지
+DO $$
+BEGIN
+    RAISE NOTICE '✅ tour_api_usage 테이블 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블:';
+    RAISE NOTICE '   - tour_api_usage (API 일일 호출 수)';
+    RAISE NOTICE '';
+    RAISE NOTICE '⚙️  생성된 함수:';
+    RAISE NOTICE '   - increment_tour_api_usage (호출 수 누적)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🔒 RLS: 활성화 (Service Role 전용)';
+END $$;
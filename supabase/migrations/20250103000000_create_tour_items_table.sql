@@ -0,0 +1,116 @@
+-- =====================================================
+-- 마이그레이션: tour_items, tour_sync_cursors 테이블 생성
+-- 작성일: 2025-01-03
+-- 설명: 한국관광공사 API(KorService2) 관광지 목록 미러
+--       - areaBasedSyncList2로 수집한 관광지를 저장 (좌표는 WGS84)
+--       - 비표출(showflag=0) 관광지와 전체 동기화에서 사라진 관광지 표시
+--       - 증분 동기화 진행 위치(커서) 저장
+--       - lib/api/tour-sync.ts, lib/api/tour-mirror.ts에서 Service Role로만 접근
+-- =====================================================
+
+-- =====================================================
+-- tour_items 테이블 (관광지 미러)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.tour_items (
+    content_id TEXT PRIMARY KEY,
+    content_type_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    addr1 TEXT DEFAULT '' NOT NULL,
+    addr2 TEXT,
+    area_code TEXT DEFAULT '' NOT NULL,
+    sigungu_code TEXT,
+    cat1 TEXT,
+    cat2 TEXT,
+    cat3 TEXT,
+    first_image TEXT,
+    first_image2 TEXT,
+    tel TEXT,
+    lng DOUBLE PRECISION,
+    lat DOUBLE PRECISION,
+    created_time TEXT,
+    modified_time TEXT NOT NULL,
+    show_flag BOOLEAN DEFAULT true NOT NULL,
+    removed_at TIMESTAMP WITH TIME ZONE,
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_items OWNER TO postgres;
+
+-- 인덱스 생성 (목록 조회는 표출 중인 관광지만 대상)
+CREATE INDEX IF NOT EXISTS idx_tour_items_area_type
+    ON public.tour_items(area_code, content_type_id)
+    WHERE show_flag AND removed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_tour_items_modified_time
+    ON public.tour_items(modified_time DESC);
+CREATE INDEX IF NOT EXISTS idx_tour_items_synced_at
+    ON public.tour_items(synced_at);
+
+-- Row Level Security (RLS) 활성화 (정책 없음: Service Role만 접근 가능)
+ALTER TABLE public.tour_items ENABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.tour_items TO service_role;
+
+-- =====================================================
+-- tour_sync_cursors 테이블 (동기화 진행 위치)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.tour_sync_cursors (
+    sync_key TEXT PRIMARY KEY,
+    modified_date TEXT,
+    full_started_at TIMESTAMP WITH TIME ZONE,
+    full_next_page INTEGER,
+    full_synced_at TIMESTAMP WITH TIME ZONE,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_status TEXT,
+    last_error TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_sync_cursors OWNER TO postgres;
+
+-- Row Level Security (RLS) 활성화 (정책 없음: Service Role만 접근 가능)
+ALTER TABLE public.tour_sync_cursors ENABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.tour_sync_cursors TO service_role;
+
+-- =====================================================
+-- 지역/타입별 관광지 수 뷰 (통계 대시보드용)
+-- =====================================================
+CREATE OR REPLACE VIEW public.tour_item_counts AS
+    SELECT area_code, content_type_id, COUNT(*)::INTEGER AS item_count
+    FROM public.tour_items
+    WHERE show_flag AND removed_at IS NULL
+    GROUP BY area_code, content_type_id;
+
+REVOKE ALL ON public.tour_item_counts FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON public.tour_item_counts TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_items IS '한국관광공사 관광지 목록 미러 - areaBasedSyncList2 동기화';
+COMMENT ON COLUMN public.tour_items.lng IS '경도 (WGS84)';
+COMMENT ON COLUMN public.tour_items.lat IS '위도 (WGS84)';
+COMMENT ON COLUMN public.tour_items.modified_time IS 'API 수정일시 (YYYYMMDDHHmmss)';
+COMMENT ON COLUMN public.tour_items.show_flag IS 'API 표출 여부 (showflag, false면 비표출)';
+COMMENT ON COLUMN public.tour_items.removed_at IS '전체 동기화에서 더 이상 조회되지 않은 시각 (삭제된 관광지)';
+COMMENT ON COLUMN public.tour_items.synced_at IS '마지막으로 동기화된 시각';
+COMMENT ON TABLE public.tour_sync_cursors IS '관광지 동기화 진행 위치';
+COMMENT ON COLUMN public.tour_sync_cursors.modified_date IS '증분 동기화를 마친 마지막 수정일 (YYYYMMDD, 한국 시간 기준)';
+COMMENT ON COLUMN public.tour_sync_cursors.full_next_page IS '진행 중인 전체 동기화의 다음 페이지 (완료 시 NULL)';
+
+-- 완료 메시지
+DO $$
+BEGIN
+    RAISE NOTICE '✅ tour_items 테이블 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블:';
+    RAISE NOTICE '   - tour_items (관광지 미러)';
+    RAISE NOTICE '   - tour_sync_cursors (동기화 진행 위치)';
+    RAISE NOTICE '';
+    RAISE NOTICE '👁️  생성된 뷰:';
+    RAISE NOTICE '   - tour_item_counts (지역/타입별 관광지 수)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🔒 RLS: 활성화 (Service Role 전용)';
+END $$;
@@ -0,0 +1,18 @@
+-- =====================================================
+-- 마이그레이션: tour_items 개요(overview) 컬럼 추가
+-- 작성일: 2025-01-04
+-- 설명: 관광지 검색 색인(lib/api/search-api.ts)에 개요를 포함하기 위한 컬럼
+--       - areaBasedSyncList2는 개요를 반환하지 않으므로 동기화에서는 변경하지 않음
+--       - 서버에서 상세 정보(detailCommon2)를 조회할 때 저장
+-- =====================================================
+
+ALTER TABLE public.tour_items
+    ADD COLUMN IF NOT EXISTS overview TEXT;
+
+COMMENT ON COLUMN public.tour_items.overview IS '개요 (detailCommon2 조회 시 저장, 검색 색인용)';
+
+-- 완료 메시지
+DO $$
+BEGIN
+    RAISE NOTICE '✅ tour_items.overview 컬럼 추가 완료!';
+END $$;
@@ -0,0 +1,153 @@
+-- =====================================================
+-- 마이그레이션: search_history, saved_searches 테이블 생성
+-- 작성일: 2025-01-05
+-- 설명: 로그인 사용자의 검색 기록과 저장한 검색 조건
+--       - 검색 조건은 홈페이지 필터(TourFilters)의 URL 쿼리 문자열로 저장
+--       - 저장한 검색은 마지막 방문 시각 이후 수정된 관광지 수(새 항목)를 표시
+--       - lib/api/supabase-api.ts에서 Clerk 세션 토큰 클라이언트로 접근
+--       - 사용자별 데이터이므로 RLS로 본인 행만 접근 허용 (tasks 예시와 동일한 방식)
+-- =====================================================
+
+-- =====================================================
+-- search_history 테이블 (검색 기록)
+-- =====================================================
+-- 사용자가 적용한 검색 조건을 시간순으로 기록
+-- 같은 조건은 최신 기록 하나만 유지하고, 사용자별 최대 개수를 넘는 오래된 기록은 삭제
+-- (SAVED_SEARCH_CONFIG.historyMaxEntries, lib/api/supabase-api.ts)
+
+CREATE TABLE IF NOT EXISTS public.search_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    query TEXT NOT NULL,  -- 검색 조건 (예: areaCode=6&contentTypeId=39&pet=true)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.search_history OWNER TO postgres;
+
+-- 인덱스 생성 (사용자별 최신순 조회)
+CREATE INDEX IF NOT EXISTS idx_search_history_user_created_at
+    ON public.search_history(user_id, created_at DESC);
+
+-- Row Level Security (RLS) 활성화
+-- 로그인 사용자(Clerk 세션 토큰)는 자신의 검색 기록만 조회/추가/수정/삭제 가능
+ALTER TABLE public.search_history ENABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (비로그인 사용자는 접근 불가)
+GRANT ALL ON TABLE public.search_history TO authenticated;
+GRANT ALL ON TABLE public.search_history TO service_role;
+
+-- RLS 정책: Clerk 사용자 ID(auth.jwt()->>'sub')와 연결된 users 행의 데이터만 허용
+CREATE POLICY "Users can view their own search_history"
+ON public.search_history
+FOR SELECT
+TO authenticated
+USING (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+);
+
+CREATE POLICY "Users must insert their own search_history"
+ON public.search_history
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+);
+
+CREATE POLICY "Users can update their own search_history"
+ON public.search_history
+FOR UPDATE
+TO authenticated
+USING (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+)
+WITH CHECK (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+);
+
+CREATE POLICY "Users can delete their own search_history"
+ON public.search_history
+FOR DELETE
+TO authenticated
+USING (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+);
+
+-- 테이블 설명
+COMMENT ON TABLE public.search_history IS '사용자 검색 기록 - 적용한 검색 조건';
+COMMENT ON COLUMN public.search_history.user_id IS 'users 테이블의 사용자 ID';
+COMMENT ON COLUMN public.search_history.query IS '검색 조건 URL 쿼리 문자열 (pageNo 제외, 키 이름순)';
+
+-- =====================================================
+-- saved_searches 테이블 (저장한 검색)
+-- =====================================================
+-- 사용자가 이름을 붙여 저장한 검색 조건
+-- 각 사용자는 같은 검색 조건을 한 번만 저장 가능 (UNIQUE 제약)
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    query TEXT NOT NULL,
+    last_visited_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 동일 사용자가 같은 검색 조건을 중복 저장하는 것을 방지
+    CONSTRAINT unique_user_saved_search UNIQUE(user_id, query)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.saved_searches OWNER TO postgres;
+
+-- 인덱스 생성 (성능 최적화)
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON public.saved_searches(user_id);
+
+-- Row Level Security (RLS) 활성화
+-- 로그인 사용자(Clerk 세션 토큰)는 자신의 저장한 검색만 조회/추가/수정/삭제 가능
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (비로그인 사용자는 접근 불가)
+GRANT ALL ON TABLE public.saved_searches TO authenticated;
+GRANT ALL ON TABLE public.saved_searches TO service_role;
+
+-- RLS 정책: Clerk 사용자 ID(auth.jwt()->>'sub')와 연결된 users 행의 데이터만 허용
+CREATE POLICY "Users can view their own saved_searches"
+ON public.saved_searches
+FOR SELECT
+TO authenticated
+USING (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+);
+
+CREATE POLICY "Users must insert their own saved_searches"
+ON public.saved_searches
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+);
+
+CREATE POLICY "Users can update their own saved_searches"
+ON public.saved_searches
+FOR UPDATE
+TO authenticated
+USING (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+)
+WITH CHECK (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+);
+
+CREATE POLICY "Users can delete their own saved_searches"
+ON public.saved_searches
+FOR DELETE
+TO authenticated
+USING (
+    user_id IN (SELECT id FROM public.users WHERE clerk_id = (SELECT auth.jwt()->>'sub'))
+);
+
+-- 테이블 설명
+COMMENT ON TABLE public.saved_searches IS '사용자가 저장한 검색 조건';
+COMMENT ON COLUMN public.saved_searches.name IS '검색 이름 (예: 부산 + 음식점 + 반려동물)';
+COMMENT ON COLUMN public.saved_searches.query IS '검색 조건 URL 쿼리 문자열 (pageNo 제외, 키 이름순)';
+COMMENT ON COLUMN public.saved_searches.last_visited_at IS '마지막으로 검색을 다시 실행한 시각 (새 항목 기준)';